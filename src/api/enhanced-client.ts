@@ -10,6 +10,9 @@ import {
   ZebrunnerNotFoundError,
   ZebrunnerRateLimitError
 } from "../types/api.js";
+import { instrumentAxios } from "../utils/prometheus.js";
+import { traceAxios } from "../utils/tracing.js";
+import { cacheNamespace, getResponseCache, type ScopedResponseCache } from "../utils/response-cache.js";
 import {
   ZebrunnerTestCase,
   ZebrunnerShortTestCase,
@@ -40,14 +43,11 @@ import { sanitizeRqlString } from "../utils/security.js";
 export type AutomationStatesResolver = (projectKey: string) => Promise<{ id: number; name: string }[]>;
 export type PrioritiesResolver = (projectKey: string) => Promise<{ id: number; name: string }[]>;
 
-const MAX_CACHE_ENTRIES = 50;
-
 export class EnhancedZebrunnerClient {
   private http: AxiosInstance;
   private config: ZebrunnerConfig;
-  private suitesCache: Map<string, { suites: ZebrunnerTestSuite[], timestamp: number }> = new Map();
-  private automationStatesCache: Map<string, { states: { id: number; name: string }[], timestamp: number }> = new Map();
-  private prioritiesCache: Map<string, { priorities: { id: number; name: string }[], timestamp: number }> = new Map();
+  /** Shared response cache, scoped to this client's credentials. */
+  readonly responseCache: ScopedResponseCache;
   private endpointHealth: Map<string, boolean> = new Map();
   private lastHealthCheck: Date | null = null;
   private externalAutomationStatesResolver?: AutomationStatesResolver;
@@ -77,6 +77,7 @@ export class EnhancedZebrunnerClient {
       }
     });
 
+    this.responseCache = getResponseCache().scoped(cacheNamespace(baseURL, this.config.token));
     this.setupInterceptors();
   }
 
@@ -95,23 +96,11 @@ export class EnhancedZebrunnerClient {
     this.externalPrioritiesResolver = resolver;
   }
 
-  /** Evict oldest entries when a cache exceeds MAX_CACHE_ENTRIES (LRU by timestamp, then key for determinism). */
-  private evictCache<V extends { timestamp: number }>(cache: Map<string, V>): void {
-    while (cache.size > MAX_CACHE_ENTRIES) {
-      let oldestKey: string | undefined;
-      let oldestTs = Infinity;
-      for (const [key, val] of cache) {
-        if (val.timestamp < oldestTs || (val.timestamp === oldestTs && (!oldestKey || key < oldestKey))) {
-          oldestTs = val.timestamp;
-          oldestKey = key;
-        }
-      }
-      if (oldestKey) cache.delete(oldestKey);
-      else break;
-    }
-  }
-
   private setupInterceptors(): void {
+    // Registered first so their response hooks see raw axios errors
+    instrumentAxios(this.http, "tcm");
+    traceAxios(this.http, "tcm");
+
     // Request interceptor with parameter validation
     this.http.interceptors.request.use(
       (config) => {
@@ -658,57 +647,43 @@ export class EnhancedZebrunnerClient {
   }
 
   /**
-   * Get all suites for a project with caching (5-minute cache)
+   * Get all suites for a project through the shared response cache (`suites` class)
    */
   private async getAllSuitesWithCache(projectKey: string): Promise<ZebrunnerTestSuite[]> {
-    const cacheKey = `suites_${projectKey}`;
-    const cached = this.suitesCache.get(cacheKey);
-    const cacheTimeout = 5 * 60 * 1000; // 5 minutes
-
-    // Return cached data if still valid
-    if (cached && (Date.now() - cached.timestamp) < cacheTimeout) {
-      return cached.suites;
-    }
-
-    // Fetch all suites with token-based pagination
-    let allSuites: ZebrunnerTestSuite[] = [];
-    let nextPageToken: string | undefined = undefined;
-    let hasMore = true;
-    let pageCount = 0;
-
-    while (hasMore && pageCount < 1000) { // Safety limit to prevent infinite loops
-      const result = await this.getTestSuites(projectKey, {
-        pageToken: nextPageToken,
-        size: 100 // Use maximum allowed page size
-      });
+    return this.responseCache.getOrLoad("suites", projectKey.toUpperCase(), async () => {
+      // Fetch all suites with token-based pagination
+      let allSuites: ZebrunnerTestSuite[] = [];
+      let nextPageToken: string | undefined = undefined;
+      let hasMore = true;
+      let pageCount = 0;
+
+      while (hasMore && pageCount < 1000) { // Safety limit to prevent infinite loops
+        const result = await this.getTestSuites(projectKey, {
+          pageToken: nextPageToken,
+          size: 100 // Use maximum allowed page size
+        });
 
-      allSuites.push(...result.items);
+        allSuites.push(...result.items);
       
-      // Check for next page token in metadata
-      nextPageToken = result._meta?.nextPageToken;
-      hasMore = !!nextPageToken; // Stop only when nextPageToken is null, regardless of items length
-      pageCount++;
+        // Check for next page token in metadata
+        nextPageToken = result._meta?.nextPageToken;
+        hasMore = !!nextPageToken; // Stop only when nextPageToken is null, regardless of items length
+        pageCount++;
 
-      if (this.config.debug) {
-        console.error(`📄 [Cache] Fetched page ${pageCount}: ${result.items.length} suites (total: ${allSuites.length})`);
-        if (nextPageToken) {
-          console.error(`🔗 [Cache] Next page token: ${nextPageToken.substring(0, 20)}...`);
+        if (this.config.debug) {
+          console.error(`📄 [Cache] Fetched page ${pageCount}: ${result.items.length} suites (total: ${allSuites.length})`);
+          if (nextPageToken) {
+            console.error(`🔗 [Cache] Next page token: ${nextPageToken.substring(0, 20)}...`);
+          }
         }
       }
-    }
 
-    if (pageCount >= 1000) {
-      console.error('⚠️  [Cache] Stopped pagination after 1000 pages to prevent infinite loop');
-    }
+      if (pageCount >= 1000) {
+        console.error('⚠️  [Cache] Stopped pagination after 1000 pages to prevent infinite loop');
+      }
 
-    // Cache the results
-    this.suitesCache.set(cacheKey, {
-      suites: allSuites,
-      timestamp: Date.now()
+      return allSuites;
     });
-    this.evictCache(this.suitesCache);
-
-    return allSuites;
   }
 
   /**
@@ -876,18 +851,8 @@ export class EnhancedZebrunnerClient {
       );
     }
 
-    const cacheKey = projectKey.toUpperCase();
-    const cached = this.automationStatesCache.get(cacheKey);
-    const CACHE_TTL = 10 * 60 * 1000; // 10 minutes
-
-    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-      return cached.states;
-    }
-
-    const states = await this.externalAutomationStatesResolver(projectKey);
-    this.automationStatesCache.set(cacheKey, { states, timestamp: Date.now() });
-    this.evictCache(this.automationStatesCache);
-    return states;
+    const resolver = this.externalAutomationStatesResolver;
+    return this.responseCache.getOrLoad("reference_data", `automation_states:${projectKey.toUpperCase()}`, () => resolver(projectKey));
   }
 
   /**
@@ -902,18 +867,8 @@ export class EnhancedZebrunnerClient {
       );
     }
 
-    const cacheKey = projectKey.toUpperCase();
-    const cached = this.prioritiesCache.get(cacheKey);
-    const CACHE_TTL = 10 * 60 * 1000;
-
-    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-      return cached.priorities;
-    }
-
-    const priorities = await this.externalPrioritiesResolver(projectKey);
-    this.prioritiesCache.set(cacheKey, { priorities, timestamp: Date.now() });
-    this.evictCache(this.prioritiesCache);
-    return priorities;
+    const resolver = this.externalPrioritiesResolver;
+    return this.responseCache.getOrLoad("reference_data", `priorities:${projectKey.toUpperCase()}`, () => resolver(projectKey));
   }
 
   /**
@@ -3,6 +3,8 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import FormData from "form-data";
 import { ZebrunnerConfig, ZebrunnerApiError } from "../types/api.js";
+import { traceAxios } from "../utils/tracing.js";
+import { cacheNamespace, getResponseCache, type ScopedResponseCache } from "../utils/response-cache.js";
 
 /**
  * Dedicated HTTP client for mutation operations (POST / PUT / PATCH)
@@ -16,6 +18,8 @@ export class ZebrunnerMutationClient {
   private http: AxiosInstance;
   private config: ZebrunnerConfig;
   private authHeader: string;
+  /** Shared response cache, scoped to this client's credentials; invalidated after writes. */
+  readonly responseCache: ScopedResponseCache;
 
   constructor(config: ZebrunnerConfig) {
     this.config = {
@@ -43,6 +47,8 @@ export class ZebrunnerMutationClient {
         Accept: "application/json",
       },
     });
+    traceAxios(this.http, "mutation");
+    this.responseCache = getResponseCache().scoped(cacheNamespace(baseURL, this.config.token));
 
     if (this.config.debug) {
       this.http.interceptors.request.use((req) => {
@@ -117,6 +123,7 @@ export class ZebrunnerMutationClient {
     const response = await this.request("POST", "/test-suites", payload, {
       projectKey,
     });
+    await this.invalidateSuites(projectKey);
     return response.data;
   }
 
@@ -131,6 +138,7 @@ export class ZebrunnerMutationClient {
       payload,
       { projectKey },
     );
+    await this.invalidateSuites(projectKey);
     return response.data;
   }
 
@@ -275,6 +283,13 @@ export class ZebrunnerMutationClient {
 
   // --------------- Internals ---------------
 
+  /** Suite trees cached by the read clients are stale once a suite is created or moved. */
+  private async invalidateSuites(projectKey: string): Promise<void> {
+    await this.responseCache.invalidate("suites", projectKey.toUpperCase()).catch((err) => {
+      console.error(`⚠️ [MutationClient] Cache invalidation failed: ${err instanceof Error ? err.message : err}`);
+    });
+  }
+
   private async get<T = unknown>(
     url: string,
     params: Record<string, string>,
@@ -40,6 +40,9 @@ import {
   ZebrunnerReportingNotFoundError
 } from "../types/reporting.js";
 import { maskToken, maskAuthHeader, validateFileUrl } from "../utils/security.js";
+import { instrumentAxios } from "../utils/prometheus.js";
+import { cacheNamespace, getResponseCache, type ScopedResponseCache } from "../utils/response-cache.js";
+import { traceAxios } from "../utils/tracing.js";
 
 /** Field metadata from the fields-layout API */
 export interface FieldLayoutItem {
@@ -94,9 +97,10 @@ export class ZebrunnerReportingClient {
   private config: ZebrunnerReportingConfig;
   private bearerToken: string | null = null;
   private tokenExpiresAt: Date | null = null;
-  private projectCache: Map<string, { project: ProjectResponse, timestamp: number }> = new Map();
-  private fieldsLayoutCache: Map<number, { data: FieldsLayout, timestamp: number }> = new Map();
-  private cacheMetrics = { projectHits: 0, projectMisses: 0, fieldsHits: 0, fieldsMisses: 0 };
+  /** Shared response cache, scoped to this client's credentials. */
+  readonly responseCache: ScopedResponseCache;
+  /** Credential namespace (instance + token) keying the local history store. */
+  readonly historyNamespace: string;
   private jiraBaseUrlCache: string | null = null;
   private _jiraResolutionWarning: string | null = null;
 
@@ -119,10 +123,16 @@ export class ZebrunnerReportingClient {
       }
     });
 
+    this.responseCache = getResponseCache().scoped(cacheNamespace(baseURL, this.config.accessToken));
+    this.historyNamespace = cacheNamespace(baseURL, this.config.accessToken);
     this.setupInterceptors();
   }
 
   private setupInterceptors(): void {
+    // Registered first so their response hooks see raw axios errors
+    instrumentAxios(this.http, "reporting");
+    traceAxios(this.http, "reporting");
+
     // Request interceptor for logging
     this.http.interceptors.request.use(
       (config) => {
@@ -333,42 +343,31 @@ export class ZebrunnerReportingClient {
    * Get project by key
    */
   async getProject(projectKey: string): Promise<ProjectResponse> {
-    const cached = this.projectCache.get(projectKey);
-    if (cached && Date.now() - cached.timestamp < 5 * 60 * 1000) {
-      this.cacheMetrics.projectHits++;
-      return cached.project;
-    }
-    this.cacheMetrics.projectMisses++;
-
-    const url = `/api/projects/v1/projects/${projectKey}`;
-    const response = await this.makeAuthenticatedRequest<any>('GET', url);
-    
-    // Extract the actual project data from the nested response
-    const projectData = response.data || response;
+    return this.responseCache.getOrLoad("project", projectKey, async () => {
+      const url = `/api/projects/v1/projects/${projectKey}`;
+      const response = await this.makeAuthenticatedRequest<any>('GET', url);
     
-    // Debug: Log the actual data being parsed
-    if (process.env.DEBUG === 'true') {
-      console.error('Project data being parsed:', JSON.stringify(projectData, null, 2));
-    }
+      // Extract the actual project data from the nested response
+      const projectData = response.data || response;
     
-    let project;
-    try {
-      project = ProjectResponseSchema.parse(projectData);
-    } catch (error) {
+      // Debug: Log the actual data being parsed
       if (process.env.DEBUG === 'true') {
-        console.error('ProjectResponseSchema validation failed:', error);
-        console.error('Raw projectData:', projectData);
+        console.error('Project data being parsed:', JSON.stringify(projectData, null, 2));
       }
-      throw new ZebrunnerReportingError(`Failed to parse project data for ${projectKey}: ${error instanceof Error ? error.message : error}`);
-    }
     
-    if (this.projectCache.size >= 100) {
-      const firstKey = this.projectCache.keys().next().value;
-      if (firstKey) this.projectCache.delete(firstKey);
-    }
-    this.projectCache.set(projectKey, { project, timestamp: Date.now() });
-    
-    return project;
+      let project;
+      try {
+        project = ProjectResponseSchema.parse(projectData);
+      } catch (error) {
+        if (process.env.DEBUG === 'true') {
+          console.error('ProjectResponseSchema validation failed:', error);
+          console.error('Raw projectData:', projectData);
+        }
+        throw new ZebrunnerReportingError(`Failed to parse project data for ${projectKey}: ${error instanceof Error ? error.message : error}`);
+      }
+
+      return project;
+    });
   }
 
   /**
@@ -383,25 +382,19 @@ export class ZebrunnerReportingClient {
    * Get project key by ID
    */
   async getProjectKey(projectId: number): Promise<string> {
-    // Check if we have it in cache (reverse lookup)
-    for (const [key, cached] of this.projectCache.entries()) {
-      if (cached.project.id === projectId && Date.now() - cached.timestamp < 5 * 60 * 1000) {
-        return cached.project.key;
+    return this.responseCache.getOrLoad("project", `id:${projectId}`, async () => {
+      const projects = await this.getAvailableProjects();
+      const project = projects.items.find(p => p.id === projectId);
+
+      if (!project) {
+        throw new ZebrunnerReportingError(`Project with ID ${projectId} not found`);
       }
-    }
 
-    // If not in cache, fetch all available projects and find the one
-    const projects = await this.getAvailableProjects();
-    const project = projects.items.find(p => p.id === projectId);
-    
-    if (!project) {
-      throw new ZebrunnerReportingError(`Project with ID ${projectId} not found`);
-    }
-    
-    // Cache it for future use
-    const fullProject = await this.getProject(project.key);
-    
-    return fullProject.key;
+      // Warm the by-key entry as well
+      const fullProject = await this.getProject(project.key);
+
+      return fullProject.key;
+    });
   }
 
   /**
@@ -752,41 +745,30 @@ export class ZebrunnerReportingClient {
   }
 
   /**
-   * Get test case fields layout for a project (cached for 10 minutes).
+   * Get test case fields layout for a project (response cache, `fields_layout` class).
    * Returns system fields (Deprecated, Draft, Priority, etc.) and custom fields
    * with their types and tab placement. Useful for distinguishing system vs custom fields.
    */
   async getFieldsLayout(projectId: number): Promise<FieldsLayout> {
-    const cached = this.fieldsLayoutCache.get(projectId);
-    if (cached && Date.now() - cached.timestamp < 10 * 60 * 1000) {
-      this.cacheMetrics.fieldsHits++;
-      return cached.data;
-    }
-    this.cacheMetrics.fieldsMisses++;
-
-    const url = `/api/tcm/v1/test-case-settings/fields-layout?projectId=${projectId}`;
-    const response = await this.makeAuthenticatedRequest<any>('GET', url);
-    const data = response.data?.data || response.data || response;
-    const layout: FieldsLayout = {
-      tabs: data.tabs || [],
-      fields: (data.fields || []).map((f: any) => ({
-        id: f.id,
-        type: f.type,
-        tabId: f.tabId,
-        relativePosition: f.relativePosition,
-        name: f.name,
-        enabled: f.enabled,
-        dataType: f.dataType,
-        description: f.description || null
-      }))
-    };
-
-    if (this.fieldsLayoutCache.size >= 50) {
-      const firstKey = this.fieldsLayoutCache.keys().next().value;
-      if (firstKey) this.fieldsLayoutCache.delete(firstKey);
-    }
-    this.fieldsLayoutCache.set(projectId, { data: layout, timestamp: Date.now() });
-    return layout;
+    return this.responseCache.getOrLoad("fields_layout", String(projectId), async () => {
+      const url = `/api/tcm/v1/test-case-settings/fields-layout?projectId=${projectId}`;
+      const response = await this.makeAuthenticatedRequest<any>('GET', url);
+      const data = response.data?.data || response.data || response;
+      const layout: FieldsLayout = {
+        tabs: data.tabs || [],
+        fields: (data.fields || []).map((f: any) => ({
+          id: f.id,
+          type: f.type,
+          tabId: f.tabId,
+          relativePosition: f.relativePosition,
+          name: f.name,
+          enabled: f.enabled,
+          dataType: f.dataType,
+          description: f.description || null
+        }))
+      };
+      return layout;
+    });
   }
 
   /**
@@ -816,16 +798,8 @@ export class ZebrunnerReportingClient {
   /**
    * Clear project cache
    */
-  clearProjectCache(): void {
-    this.projectCache.clear();
-  }
-
-  getCacheMetrics(): { projectHits: number; projectMisses: number; fieldsHits: number; fieldsMisses: number; projectSize: number; fieldsSize: number } {
-    return {
-      ...this.cacheMetrics,
-      projectSize: this.projectCache.size,
-      fieldsSize: this.fieldsLayoutCache.size,
-    };
+  async clearProjectCache(): Promise<void> {
+    await this.responseCache.invalidate("project");
   }
 
   /**
@@ -892,6 +866,26 @@ export class ZebrunnerReportingClient {
     }
   }
 
+  /**
+   * Link an issue (e.g. a Jira ticket) to a test execution in a launch.
+   * Requires IAM permission reporting:test-runs:update.
+   */
+  async linkIssueReference(
+    launchId: number,
+    testId: number,
+    projectId: number,
+    issue: { type: string; value: string }
+  ): Promise<{ id?: number; type: string; value: string }> {
+    const url = `/api/reporting/v1/launches/${launchId}/tests/${testId}/issue-references?projectId=${projectId}`;
+
+    if (this.config.debug) {
+      console.error(`[ZebrunnerReportingClient] Linking ${issue.type} ${issue.value} to test ${testId} in launch ${launchId}`);
+    }
+
+    const response = await this.makeAuthenticatedRequest<any>('POST', url, issue);
+    return response.data ?? response;
+  }
+
   /**
    * Get CI job parameters for a launch (Jenkins Build Now dialog defaults).
    * Not available for Launch Launchers.
@@ -39,6 +39,7 @@ import { generatePassRateReport } from "./reports/pass-rate-report.js";
 import { generateRuntimeReport } from "./reports/runtime-report.js";
 import { generateExecutiveReport } from "./reports/executive-report.js";
 import { generateReleaseReadinessReport } from "./reports/release-readiness.js";
+import { generateAutomationVelocityReport } from "./reports/automation-velocity.js";
 import { noMilestoneLaunchesMessage } from "./reports/pass-rate-display.js";
 
 export { type ReportInput, type ReportOutput } from "./reports/types.js";
@@ -52,6 +53,7 @@ const REPORT_GENERATORS: Record<string, ReportGenerator> = {
   runtime_efficiency: generateRuntimeReport,
   executive_dashboard: generateExecutiveReport,
   release_readiness: generateReleaseReadinessReport,
+  automation_velocity: generateAutomationVelocityReport,
 };
 
 export class ReportHandler implements ReportContext {
@@ -330,11 +332,18 @@ export class ReportHandler implements ReportContext {
     };
   }
 
-  async fetchBugs(ctx: ProjectContext, period: string, limit: number, milestone?: string): Promise<BugsData> {
+  async fetchBugs(
+    ctx: ProjectContext,
+    period: string,
+    limit: number,
+    milestone?: string,
+    priorities?: string[],
+  ): Promise<BugsData> {
     const params = buildParamsConfig({
       period,
       milestone: milestone ? [milestone] : [],
       dashboardName: getConfig().dashboardNames.bugsReproRate,
+      extra: priorities?.length ? { PRIORITY: priorities } : undefined,
     });
     const bugsWidgetData = await this.callWidgetSql(ctx.projectId, getTemplate().TOP_BUGS, params);
     if (!Array.isArray(bugsWidgetData)) {
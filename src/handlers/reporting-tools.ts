@@ -4,10 +4,18 @@ import { EnhancedZebrunnerClient } from "../api/enhanced-client.js";
 import { FormatProcessor } from "../utils/formatter.js";
 import { GetLauncherDetailsInputSchema, AnalyzeTestExecutionVideoInput } from "../types/api.js";
 import { VideoAnalyzer } from "../utils/video-analysis/analyzer.js";
-import type { TestEffectiveDuration, TestSessionBreakdown, SessionResolutionStrategy, TestSessionResponse } from "../types/reporting.js";
+import type { TestEffectiveDuration, TestSessionBreakdown, SessionResolutionStrategy, TestSessionResponse, LaunchListItem, TestRunResponse } from "../types/reporting.js";
 import { buildChartResponse, type ChartConfig } from "../utils/chart-generator.js";
 import { getConfig } from "../utils/config-loader.js";
+import { classifyFailure } from "../utils/failure-classifier.js";
 import { extractJobSummary } from "../utils/launch-job-build.js";
+import { clusterFailures, type FailureOccurrence } from "../utils/failure-signature.js";
+import { runWithConcurrency } from "../helpers/bulk.js";
+import { diffLaunchTests, type LaunchTestDiffEntry } from "../utils/launch-diff.js";
+import { getHistoryStore, historyWindowStart, syncProjectHistory, type HistoryStore } from "../utils/history-store.js";
+
+/** Classification line of a per-test failure report (summary: "Root Cause", detailed: "Category"). */
+const ERROR_CLASSIFICATION_PATTERN = /\*\*(?:Error Classification|Root Cause|Category):\*\* ([^\n]+)/;
 
 /**
  * MCP Tool handlers for Zebrunner Reporting API
@@ -17,7 +25,8 @@ export class ZebrunnerReportingToolHandlers {
 
   constructor(
     private reportingClient: ZebrunnerReportingClient,
-    private tcmClient?: EnhancedZebrunnerClient
+    private tcmClient?: EnhancedZebrunnerClient,
+    private debug: boolean = false
   ) {
     // Initialize video analyzer if TCM client is available
     if (tcmClient) {
@@ -901,9 +910,9 @@ export class ZebrunnerReportingToolHandlers {
     linkedIssuesLimit: number,
     jira_base_url?: string
   ) {
-    const launch = await this.reportingClient.getLaunch(launchId, projectId);
-    const testRuns = await this.reportingClient.getAllTestRuns(launchId, projectId);
-    const items = testRuns.items || [];
+    const stored = await this.storedLaunchRuns(projectId, launchId);
+    const launch = stored ? stored.launch : await this.reportingClient.getLaunch(launchId, projectId);
+    const items = stored ? stored.runs : (await this.reportingClient.getAllTestRuns(launchId, projectId)).items || [];
 
     let passed = 0;
     let failed = 0;
@@ -1130,7 +1139,7 @@ export class ZebrunnerReportingToolHandlers {
     const versionMatch = build.match(/\d+\.\d+\.\d+/);
     const buildToken = versionMatch ? versionMatch[0] : (build.includes('-') ? build.split('-').pop() || build : build);
     const normalizedToken = buildToken.toLowerCase();
-    const debugEnabled = Boolean(this.reportingClient['config']?.debug);
+    const debugEnabled = this.debug;
 
     let page = 1;
     let totalItems = 0;
@@ -1820,7 +1829,7 @@ export class ZebrunnerReportingToolHandlers {
       }
 
       // Classify the error
-      const errorClassification = this.classifyError(testRun.message || '', logAnalysis?.errorLogs || []);
+      const errorClassification = this.classifyError(testRun.message || '', logAnalysis?.errorLogs || [], resolvedProjectKey);
 
       if (format === 'jira') {
         const jiraTicket = await this.generateJiraTicketForTest({
@@ -2068,76 +2077,18 @@ export class ZebrunnerReportingToolHandlers {
   }
 
   /**
-   * Classify error type
+   * Classify error type using the configured failure-classification rules
    */
-  private classifyError(errorMessage: string, errorLogs: any[]): {
+  private classifyError(errorMessage: string, errorLogs: any[], projectKey?: string): {
     category: string;
     confidence: string;
     reasons: string[];
   } {
-    const msg = errorMessage.toLowerCase();
-    const allLogs = errorLogs.map(l => l.message.toLowerCase()).join(' ');
-
-    if (msg.includes('element') && (msg.includes('not found') || msg.includes('impossible to find'))) {
-      return {
-        category: 'Locator Issue',
-        confidence: 'High',
-        reasons: [
-          'Error message indicates element not found',
-          'Likely UI element selector issue or timing problem'
-        ]
-      };
-    }
-
-    if (msg.includes('timeout') || allLogs.includes('timeout')) {
-      return {
-        category: 'Timing Issue',
-        confidence: 'High',
-        reasons: [
-          'Timeout detected in error message or logs',
-          'Element or condition took too long to appear'
-        ]
-      };
-    }
-
-    if (msg.includes('assertion') || msg.includes('expected') || msg.includes('actual')) {
-      return {
-        category: 'Business Issue',
-        confidence: 'Medium',
-        reasons: [
-          'Assertion failure detected',
-          'Expected vs actual value mismatch'
-        ]
-      };
-    }
-
-    if (msg.includes('network') || msg.includes('connection') || msg.includes('api')) {
-      return {
-        category: 'Environment Issue',
-        confidence: 'Medium',
-        reasons: [
-          'Network or API related error',
-          'May be infrastructure or connectivity problem'
-        ]
-      };
-    }
-
-    if (msg.includes('cannot swipe') || msg.includes('cannot scroll')) {
-      return {
-        category: 'Interaction Issue',
-        confidence: 'High',
-        reasons: [
-          'UI interaction failed',
-          'Element might be obscured or not interactable'
-        ]
-      };
-    }
-
-    return {
-      category: 'Unknown',
-      confidence: 'Low',
-      reasons: ['Unable to determine specific error category']
-    };
+    const { category, confidence, reasons } = classifyFailure(
+      { message: errorMessage, logs: errorLogs.map(l => String(l.message ?? '')) },
+      projectKey
+    );
+    return { category, confidence, reasons };
   }
 
   /**
@@ -4139,7 +4090,7 @@ export class ZebrunnerReportingToolHandlers {
           .map((c: any) => c.text)
           .join(' ');
 
-        const classMatch = textContent.match(/\*\*Error Classification:\*\* ([^\n]+)/);
+        const classMatch = textContent.match(ERROR_CLASSIFICATION_PATTERN);
         const classification = classMatch ? classMatch[1].trim() : 'Unknown';
         const recMatch = textContent.match(/## 💡 Recommended Actions\n\n([^#]+)/);
         
@@ -4602,7 +4553,7 @@ export class ZebrunnerReportingToolHandlers {
             .join(' ');
 
           // Extract all relevant information
-          const classMatch = textContent.match(/\*\*Error Classification:\*\* ([^\n]+)/);
+          const classMatch = textContent.match(ERROR_CLASSIFICATION_PATTERN);
           // Try multiple patterns for error message extraction (summary vs detailed format)
           let errorMatch = textContent.match(/\*\*Error \(Short\):\*\*\s*```([^`]+)```/); // Summary format
           if (!errorMatch) {
@@ -4939,7 +4890,7 @@ export class ZebrunnerReportingToolHandlers {
             .map((c: any) => c.text)
             .join(' ');
 
-          const classMatch = textContent.match(/\*\*Error Classification:\*\* ([^\n]+)/);
+          const classMatch = textContent.match(ERROR_CLASSIFICATION_PATTERN);
           const classification = classMatch ? classMatch[1].trim() : 'Unknown';
 
           // Extract recommendations
@@ -5130,7 +5081,7 @@ export class ZebrunnerReportingToolHandlers {
                 .map((c: any) => c.text)
                 .join(' ');
 
-              const classMatch = textContent.match(/\*\*Error Classification:\*\* ([^\n]+)/);
+              const classMatch = textContent.match(ERROR_CLASSIFICATION_PATTERN);
               const rootCauseMatch = textContent.match(/\*\*Root Cause:\*\*\s*([^\n]+)/);
               
               if (classMatch) {
@@ -5794,7 +5745,9 @@ async analyzeTestExecutionVideoTool(input: AnalyzeTestExecutionVideoInput): Prom
         attemptsFetchWarning = `Failed to fetch launch attempts: ${err instanceof Error ? err.message : err}`;
         return { items: [] };
       }),
-      this.reportingClient.getAllTestRuns(launchId, projectId)
+      this.storedLaunchRuns(projectId, launchId).then(stored =>
+        stored ? { items: stored.runs } : this.reportingClient.getAllTestRuns(launchId, projectId)
+      )
     ]);
 
     const elapsedSeconds = launch.elapsed ?? 0;
@@ -6000,12 +5953,25 @@ async analyzeTestExecutionVideoTool(input: AnalyzeTestExecutionVideoInput): Prom
       build?: string;
       suiteNames?: string[];
       launchIds?: number[];
+      since?: number;
     }
   ) {
     if (opts.launchIds && opts.launchIds.length > 0) {
       return opts.launchIds;
     }
 
+    if (opts.since !== undefined) {
+      const history = await this.historyCovering(projectId, opts.since);
+      if (history) {
+        return history.queryLaunches(projectId, {
+          since: opts.since,
+          milestone: opts.milestone,
+          build: opts.build,
+          nameContains: opts.suiteNames
+        }).map(l => l.id);
+      }
+    }
+
     const launchIds: number[] = [];
     let page = 1;
     const pageSize = 50;
@@ -6023,6 +5989,7 @@ async analyzeTestExecutionVideoTool(input: AnalyzeTestExecutionVideoInput): Prom
       for (const l of resp.items) {
         if (seenIds.has(l.id)) continue;
         seenIds.add(l.id);
+        if (opts.since !== undefined && (!l.startedAt || l.startedAt < opts.since)) continue;
 
         if (opts.suiteNames && opts.suiteNames.length > 0) {
           const lowerName = l.name.toLowerCase();
@@ -6054,6 +6021,7 @@ async analyzeTestExecutionVideoTool(input: AnalyzeTestExecutionVideoInput): Prom
     build?: string;
     suiteNames?: string[];
     launchIds?: number[];
+    period_days?: number;
     previousMilestone?: string;
     previousBuild?: string;
     includeTestDetails?: boolean;
@@ -6072,6 +6040,7 @@ async analyzeTestExecutionVideoTool(input: AnalyzeTestExecutionVideoInput): Prom
       build,
       suiteNames,
       launchIds,
+      period_days,
       previousMilestone,
       previousBuild,
       includeTestDetails = false,
@@ -6104,7 +6073,8 @@ async analyzeTestExecutionVideoTool(input: AnalyzeTestExecutionVideoInput): Prom
         milestone,
         build,
         suiteNames,
-        launchIds
+        launchIds,
+        since: period_days ? historyWindowStart(period_days) : undefined
       });
 
       if (currentLaunchIds.length === 0) {
@@ -6374,7 +6344,8 @@ async analyzeTestExecutionVideoTool(input: AnalyzeTestExecutionVideoInput): Prom
           ...(milestone ? { milestone } : {}),
           ...(build ? { build } : {}),
           ...(suiteNames ? { suiteNames } : {}),
-          ...(launchIds ? { launchIds } : {})
+          ...(launchIds ? { launchIds } : {}),
+          ...(period_days ? { period_days } : {})
         },
         launches: currentResults,
         aggregated,
@@ -6416,6 +6387,127 @@ async analyzeTestExecutionVideoTool(input: AnalyzeTestExecutionVideoInput): Prom
     }
   }
 
+  // ─── Local History Store ────────────────────────────────────────────────────
+
+  /**
+   * Sync launches, test runs and linked issues of a project into the local
+   * history store so trend tools can look further back than the API scans.
+   */
+  async syncHistory(input: {
+    projectId: number;
+    projectKey?: string;
+    days?: number;
+    max_launches?: number;
+    status_only?: boolean;
+  }) {
+    const config = getConfig().historyStore;
+    const { projectId, projectKey, days = config.defaultSyncDays, max_launches = config.maxLaunchesPerSync, status_only = false } = input;
+
+    try {
+      const store = await getHistoryStore(this.reportingClient.historyNamespace);
+      if (!store) {
+        throw new Error('The local history store is disabled. Set historyStore.enabled in zebrunner-config.json or ZEBRUNNER_HISTORY_DB to enable it.');
+      }
+
+      const describeCoverage = (coverage: ReturnType<HistoryStore['coverage']>) => coverage ? {
+        covered_from: new Date(coverage.coveredFrom).toISOString(),
+        covered_days: Math.floor((Date.now() - coverage.coveredFrom) / (24 * 60 * 60 * 1000)),
+        last_sync_at: new Date(coverage.lastSyncAt).toISOString(),
+        launches: coverage.launches,
+        test_runs: coverage.testRuns
+      } : null;
+
+      if (status_only) {
+        return {
+          content: [{
+            type: 'text' as const,
+            text: JSON.stringify({
+              project: projectKey || projectId,
+              coverage: describeCoverage(store.coverage(projectId))
+            }, null, 2)
+          }]
+        };
+      }
+
+      const result = await syncProjectHistory(store, this.reportingClient, projectId, {
+        since: historyWindowStart(days),
+        maxLaunches: max_launches
+      });
+
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            project: projectKey || projectId,
+            requested_days: days,
+            complete: result.complete,
+            launches_synced: result.launchesSynced,
+            launches_already_stored: result.launchesSkipped,
+            test_runs_synced: result.testRunsSynced,
+            ...(result.launchErrors.length > 0 ? { launch_errors: result.launchErrors } : {}),
+            coverage: describeCoverage(result.coverage),
+            ...(result.complete ? {} : {
+              next_step: result.launchErrors.length > 0
+                ? 'Some launches failed to load; run sync_history again to retry them.'
+                : `Stopped after ${max_launches} launches; run sync_history again to continue the backfill.`
+            })
+          }, null, 2)
+        }]
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `Error syncing launch history: ${error.message}`
+        }]
+      };
+    }
+  }
+
+  /**
+   * History store when it covers every launch since `since` for the project,
+   * topped up first when the last sync is older than
+   * `historyStore.refreshMinutes`. Null means "query the API".
+   */
+  private async historyCovering(projectId: number, since: number): Promise<HistoryStore | null> {
+    try {
+      const store = await getHistoryStore(this.reportingClient.historyNamespace);
+      const coverage = store?.coverage(projectId);
+      if (!store || !coverage || coverage.coveredFrom > since) return null;
+
+      const { refreshMinutes, maxLaunchesPerSync } = getConfig().historyStore;
+      if (refreshMinutes > 0 && Date.now() - coverage.lastSyncAt > refreshMinutes * 60_000) {
+        const topUp = await syncProjectHistory(store, this.reportingClient, projectId, {
+          since: coverage.coveredFrom,
+          maxLaunches: maxLaunchesPerSync
+        });
+        if (!topUp.complete) return null;
+      }
+      return store;
+    } catch (error: any) {
+      if (this.debug) {
+        console.error(`[HistoryStore] Falling back to the API: ${error?.message || error}`);
+      }
+      return null;
+    }
+  }
+
+  /** Launch and test runs from the history store when it holds the finished launch. */
+  private async storedLaunchRuns(
+    projectId: number,
+    launchId: number
+  ): Promise<{ launch: LaunchListItem; runs: TestRunResponse[] } | null> {
+    try {
+      const store = await getHistoryStore(this.reportingClient.historyNamespace);
+      if (!store?.hasFinishedLaunch(launchId)) return null;
+      const launch = store.getLaunch(projectId, launchId);
+      const runs = store.getTestRuns(projectId, launchId);
+      return launch && runs ? { launch, runs } : null;
+    } catch {
+      return null;
+    }
+  }
+
   // ─── Flaky Test Detection ───────────────────────────────────────────────────
 
   async findFlakyTests(input: {
@@ -6473,25 +6565,32 @@ async analyzeTestExecutionVideoTool(input: AnalyzeTestExecutionVideoInput): Prom
 
       // ── Phase 1: Launch Stability Scan ──────────────────────────────────
 
+      // The local history store has no launch cap; the API scan stops at 50
+      const history = await this.historyCovering(resolvedProjectId!, cutoffDate);
+      const dataSource = history ? 'history_store' : 'api';
       const maxLaunches = 50;
       let allLaunches: any[] = [];
-      let page = 1;
 
-      while (allLaunches.length < maxLaunches) {
-        const opts: any = { page, pageSize: 20 };
-        if (milestone) opts.milestone = milestone;
-        if (build) opts.query = build;
-        const resp = await this.reportingClient.getLaunches(resolvedProjectId!, opts);
-        const items = resp.items || [];
-        if (items.length === 0) break;
-        allLaunches.push(...items);
-        if (page >= (resp._meta?.totalPages ?? 1)) break;
-        page++;
-      }
+      if (history) {
+        allLaunches = history.queryLaunches(resolvedProjectId!, { since: cutoffDate, milestone, build });
+      } else {
+        let page = 1;
+        while (allLaunches.length < maxLaunches) {
+          const opts: any = { page, pageSize: 20 };
+          if (milestone) opts.milestone = milestone;
+          if (build) opts.query = build;
+          const resp = await this.reportingClient.getLaunches(resolvedProjectId!, opts);
+          const items = resp.items || [];
+          if (items.length === 0) break;
+          allLaunches.push(...items);
+          if (page >= (resp._meta?.totalPages ?? 1)) break;
+          page++;
+        }
 
-      allLaunches = allLaunches
-        .filter((l: any) => l.startedAt && l.startedAt >= cutoffDate)
-        .slice(0, maxLaunches);
+        allLaunches = allLaunches
+          .filter((l: any) => l.startedAt && l.startedAt >= cutoffDate)
+          .slice(0, maxLaunches);
+      }
 
       // Map: testName → array of {launchId, status, stability, date, testClass, testCaseIds}
       const testMap = new Map<string, Array<{
@@ -6503,7 +6602,9 @@ async analyzeTestExecutionVideoTool(input: AnalyzeTestExecutionVideoInput): Prom
 
       for (const launch of allLaunches) {
         try {
-          const runs = await this.reportingClient.getAllTestRuns(launch.id, resolvedProjectId!);
+          const runs = history
+            ? { items: history.getTestRuns(resolvedProjectId!, launch.id) ?? [] }
+            : await this.reportingClient.getAllTestRuns(launch.id, resolvedProjectId!);
           for (const t of (runs.items || [])) {
             const name = t.name || 'Unknown';
             if (!testMap.has(name)) testMap.set(name, []);
@@ -6590,6 +6691,7 @@ async analyzeTestExecutionVideoTool(input: AnalyzeTestExecutionVideoInput): Prom
               automated_flaky_count: automatedFlaky.length,
               total_tests_analyzed: testMap.size,
               launches_scanned: allLaunches.length,
+              data_source: dataSource,
               period_days,
               project: resolvedProjectKey || resolvedProjectId,
             }, null, 2),
@@ -6756,6 +6858,7 @@ async analyzeTestExecutionVideoTool(input: AnalyzeTestExecutionVideoInput): Prom
         manual_flaky_found: manualFlaky.length,
         period: `${periodStart} to ${periodEnd}`,
         launches_scanned: allLaunches.length,
+        data_source: dataSource,
         suites_scanned_for_manual: suitesScanned,
         manual_test_cases_checked: manualChecked,
       };
@@ -6818,4 +6921,313 @@ async analyzeTestExecutionVideoTool(input: AnalyzeTestExecutionVideoInput): Prom
       };
     }
   }
+
+  /**
+   * Cluster failures across recent launches of one or more projects by
+   * normalised error signature, so a single root cause spreading across
+   * platforms shows up as one cluster.
+   */
+  async clusterFailures(input: {
+    projects: Array<{ projectId: number; projectKey?: string; label: string }>;
+    milestone?: string;
+    launch_count?: number;
+    stack_frames?: number;
+    min_occurrences?: number;
+    limit?: number;
+    format?: 'json' | 'string';
+  }) {
+    const {
+      projects,
+      milestone,
+      launch_count = 10,
+      stack_frames = 3,
+      min_occurrences = 2,
+      limit = 25,
+      format = 'json',
+    } = input;
+
+    try {
+      const occurrences: FailureOccurrence[] = [];
+      const warnings: string[] = [];
+      let launchesScanned = 0;
+      let failuresWithoutMessage = 0;
+
+      for (const project of projects) {
+        const projectKey = project.projectKey
+          ?? await this.reportingClient.getProjectKey(project.projectId);
+
+        const launches: LaunchListItem[] = [];
+        let page = 1;
+        while (launches.length < launch_count) {
+          const resp = await this.reportingClient.getLaunches(project.projectId, {
+            page,
+            pageSize: Math.min(launch_count, 50),
+            milestone,
+          });
+          launches.push(...resp.items);
+          if (resp.items.length === 0 || page >= (resp._meta?.totalPages ?? 1)) break;
+          page++;
+        }
+
+        const results = await runWithConcurrency(
+          launches.slice(0, launch_count),
+          4,
+          (l) => `${projectKey} launch ${l.id}`,
+          async (launch) => {
+            const [details, runs] = await Promise.all([
+              this.reportingClient.getLaunch(launch.id, project.projectId).catch(() => null),
+              this.reportingClient.getAllTestRuns(launch.id, project.projectId),
+            ]);
+            return { launch, platform: details?.platform || project.label, runs: runs.items };
+          }
+        );
+
+        for (const result of results) {
+          if (!result.ok) {
+            warnings.push(`${result.item}: ${result.error}`);
+            continue;
+          }
+          launchesScanned++;
+          const { launch, platform, runs } = result.value;
+          for (const t of runs) {
+            if (t.status !== 'FAILED') continue;
+            if (!t.message) {
+              failuresWithoutMessage++;
+              continue;
+            }
+            occurrences.push({
+              launchId: launch.id,
+              launchName: launch.name,
+              launchStartedAt: launch.startedAt ?? t.startTime,
+              platform,
+              projectKey,
+              testName: t.name,
+              message: t.message,
+              issues: (t.issueReferences || []).map(i => i.value),
+            });
+          }
+        }
+      }
+
+      const clusters = clusterFailures(occurrences, {
+        stackFrames: stack_frames,
+        minOccurrences: min_occurrences,
+      });
+      const shown = clusters.slice(0, limit);
+      const summary = {
+        projects: projects.map(p => p.projectKey ?? p.label),
+        ...(milestone ? { milestone } : {}),
+        launches_scanned: launchesScanned,
+        failures_analyzed: occurrences.length,
+        failures_without_message: failuresWithoutMessage,
+        clusters_found: clusters.length,
+        cross_platform_clusters: clusters.filter(c => c.platforms.length > 1).length,
+      };
+
+      if (format === 'string') {
+        let md = `# Failure Clusters — ${summary.projects.join(', ')}\n\n`;
+        md += `**Launches scanned:** ${launchesScanned}${milestone ? ` (milestone ${milestone})` : ''} | `;
+        md += `**Failures:** ${occurrences.length} | **Clusters:** ${clusters.length} `;
+        md += `(${summary.cross_platform_clusters} cross-platform)\n\n`;
+        shown.forEach((c, i) => {
+          md += `## ${i + 1}. \`${c.signature.id}\` — ${c.occurrences} failures in ${c.launchCount} launch(es)\n\n`;
+          md += `\`\`\`\n${c.sampleMessage}\n\`\`\`\n\n`;
+          md += `- **Platforms:** ${c.platforms.join(', ')}\n`;
+          md += `- **First seen:** ${c.firstSeen.launchName} (#${c.firstSeen.launchId}, ${c.firstSeen.startedAt.slice(0, 10)})\n`;
+          md += `- **Last seen:** ${c.lastSeen.launchName} (#${c.lastSeen.launchId}, ${c.lastSeen.startedAt.slice(0, 10)})\n`;
+          md += `- **Issues:** ${c.issues.length > 0 ? c.issues.join(', ') : '—'}\n`;
+          md += `- **Tests (${c.tests.length}):** ${c.tests.slice(0, 10).join(', ')}${c.tests.length > 10 ? ', …' : ''}\n\n`;
+        });
+        if (clusters.length > shown.length) {
+          md += `_${clusters.length - shown.length} more cluster(s) not shown — increase \`limit\`._\n\n`;
+        }
+        if (warnings.length > 0) {
+          md += `**⚠️ Skipped launches:**\n${warnings.map(w => `- ${w}`).join('\n')}\n`;
+        }
+        return { content: [{ type: 'text' as const, text: md }] };
+      }
+
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({ summary, clusters: shown, ...(warnings.length > 0 ? { warnings } : {}) }, null, 2),
+        }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `Error clustering failures: ${error.message}`,
+        }],
+      };
+    }
+  }
+
+  /**
+   * Compare two launches test by test: status transitions, added/removed
+   * tests and significant slowdowns, with owners and linked issues.
+   */
+  async compareLaunches(input: {
+    projectKey?: string;
+    projectId?: number;
+    baseLaunchId: number;
+    targetLaunchId: number;
+    slower_threshold_percent?: number;
+    min_slowdown_seconds?: number;
+    limit?: number;
+    format?: 'dto' | 'json' | 'string';
+    chart?: 'none' | 'png' | 'html' | 'text';
+    chart_type?: 'auto' | 'pie' | 'bar' | 'stacked_bar' | 'horizontal_bar' | 'line';
+  }) {
+    const {
+      projectKey,
+      projectId,
+      baseLaunchId,
+      targetLaunchId,
+      slower_threshold_percent = 50,
+      min_slowdown_seconds = 10,
+      limit = 50,
+      format = 'json',
+      chart = 'none',
+      chart_type = 'auto' as const,
+    } = input;
+
+    try {
+      if (!projectKey && !projectId) {
+        throw new Error("Either projectKey or projectId must be provided");
+      }
+      const resolvedProjectId = projectKey
+        ? await this.reportingClient.getProjectId(projectKey)
+        : projectId!;
+
+      const [baseLaunch, targetLaunch, baseRuns, targetRuns] = await Promise.all([
+        this.reportingClient.getLaunch(baseLaunchId, resolvedProjectId),
+        this.reportingClient.getLaunch(targetLaunchId, resolvedProjectId),
+        this.reportingClient.getAllTestRuns(baseLaunchId, resolvedProjectId),
+        this.reportingClient.getAllTestRuns(targetLaunchId, resolvedProjectId),
+      ]);
+
+      const baseIdentifiers = new Set<string>();
+      const targetIdentifiers = new Set<string>();
+      baseRuns.items.forEach(t => this.collectTestIdentifiers(t, baseIdentifiers));
+      targetRuns.items.forEach(t => this.collectTestIdentifiers(t, targetIdentifiers));
+      const comparability = this.validateLaunchComparison(
+        { launchName: targetLaunch.name, testIdentifiers: targetIdentifiers },
+        { launchName: baseLaunch.name, testIdentifiers: baseIdentifiers }
+      );
+
+      const diff = diffLaunchTests(baseRuns.items, targetRuns.items, {
+        slowerThresholdPercent: slower_threshold_percent,
+        minSlowdownSeconds: min_slowdown_seconds,
+      });
+      const counts = {
+        newly_failing: diff.newlyFailing.length,
+        newly_passing: diff.newlyPassing.length,
+        still_failing: diff.stillFailing.length,
+        added: diff.added.length,
+        removed: diff.removed.length,
+        slower: diff.slower.length,
+        unchanged: diff.unchanged,
+      };
+      const launchInfo = (l: typeof baseLaunch, total: number) => ({
+        id: l.id,
+        name: l.name,
+        status: l.status,
+        startedAt: new Date(l.startedAt).toISOString(),
+        build: l.build,
+        platform: l.platform,
+        total_tests: total,
+        passed: l.passed || 0,
+        failed: l.failed || 0,
+      });
+      const result = {
+        base: launchInfo(baseLaunch, baseRuns.items.length),
+        target: launchInfo(targetLaunch, targetRuns.items.length),
+        comparable: comparability.isValid,
+        ...(comparability.message ? { warning: comparability.message } : {}),
+        test_overlap_percent: Math.round(this.calculateTestOverlap(targetIdentifiers, baseIdentifiers) * 100),
+        summary: counts,
+        newly_failing: diff.newlyFailing.slice(0, limit),
+        newly_passing: diff.newlyPassing.slice(0, limit),
+        still_failing: diff.stillFailing.slice(0, limit),
+        added: diff.added.slice(0, limit),
+        removed: diff.removed.slice(0, limit),
+        slower: diff.slower.slice(0, limit),
+      };
+
+      if (chart !== 'none') {
+        const entries: Array<[string, number]> = [
+          ['Newly failing', counts.newly_failing],
+          ['Newly passing', counts.newly_passing],
+          ['Still failing', counts.still_failing],
+          ['Added', counts.added],
+          ['Removed', counts.removed],
+          ['Slower', counts.slower],
+        ];
+        const chartConfig: ChartConfig = {
+          type: (chart_type && chart_type !== 'auto') ? chart_type : 'bar',
+          title: `Launch ${targetLaunchId} vs ${baseLaunchId}`,
+          labels: entries.map(([k]) => k),
+          datasets: [{ label: 'Tests', values: entries.map(([_, v]) => v) }],
+        };
+        const summaryText = `Launch ${targetLaunchId} vs ${baseLaunchId}: ${entries.map(([k, v]) => `${k}: ${v}`).join(', ')}`
+          + (comparability.message ? `\n⚠️ ${comparability.message}` : '');
+        return buildChartResponse(chartConfig, chart as 'png' | 'html' | 'text', summaryText);
+      }
+
+      if (format === 'string') {
+        const fmtIssues = (e: LaunchTestDiffEntry) => e.issues.length > 0 ? e.issues.join(', ') : '—';
+        const section = (title: string, items: LaunchTestDiffEntry[], total: number, row: (e: LaunchTestDiffEntry) => string, header: string) => {
+          if (total === 0) return '';
+          let s = `## ${title} (${total})\n\n${header}\n`;
+          s += items.map(row).join('\n') + '\n';
+          if (total > items.length) s += `\n_${total - items.length} more not shown — increase \`limit\`._\n`;
+          return s + '\n';
+        };
+        const statusHeader = '| Test | Owner | Before | After | Issues |\n|------|-------|--------|-------|--------|';
+        const statusRow = (e: LaunchTestDiffEntry) =>
+          `| ${e.name} | ${e.owner || '—'} | ${e.baseStatus ?? '—'} | ${e.targetStatus ?? '—'} | ${fmtIssues(e)} |`;
+
+        let md = `# Launch Comparison — ${targetLaunch.name} (#${targetLaunchId}) vs ${baseLaunch.name} (#${baseLaunchId})\n\n`;
+        if (comparability.message) {
+          md += `> ⚠️ ${comparability.message}\n\n`;
+        }
+        md += `**Tests:** ${baseRuns.items.length} → ${targetRuns.items.length} | `;
+        md += `**Newly failing:** ${counts.newly_failing} | **Newly passing:** ${counts.newly_passing} | `;
+        md += `**Still failing:** ${counts.still_failing} | **Added:** ${counts.added} | **Removed:** ${counts.removed} | `;
+        md += `**Slower:** ${counts.slower}\n\n`;
+        md += section('🔴 Newly Failing', result.newly_failing, counts.newly_failing, statusRow, statusHeader);
+        md += section('🟢 Newly Passing', result.newly_passing, counts.newly_passing, statusRow, statusHeader);
+        md += section('🟠 Still Failing', result.still_failing, counts.still_failing, statusRow, statusHeader);
+        md += section('➕ Added', result.added, counts.added,
+          e => `| ${e.name} | ${e.owner || '—'} | ${e.targetStatus ?? '—'} | ${fmtIssues(e)} |`,
+          '| Test | Owner | Status | Issues |\n|------|-------|--------|--------|');
+        md += section('➖ Removed', result.removed, counts.removed,
+          e => `| ${e.name} | ${e.owner || '—'} | ${e.baseStatus ?? '—'} | ${fmtIssues(e)} |`,
+          '| Test | Owner | Last status | Issues |\n|------|-------|-------------|--------|');
+        md += section('🐢 Significantly Slower', result.slower, counts.slower,
+          e => `| ${e.name} | ${e.owner || '—'} | ${e.baseDurationSeconds}s | ${e.targetDurationSeconds}s | +${e.slowdownPercent}% |`,
+          '| Test | Owner | Before | After | Change |\n|------|-------|--------|-------|--------|');
+        if (Object.values(counts).slice(0, 6).every(v => v === 0)) {
+          md += `_No differences found._\n`;
+        }
+        return { content: [{ type: 'text' as const, text: md }] };
+      }
+
+      const formattedData = FormatProcessor.format(result, format);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: typeof formattedData === 'string' ? formattedData : JSON.stringify(formattedData, null, 2),
+        }],
+      };
+    } catch (error: any) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `Error comparing launches: ${error.message}`,
+        }],
+      };
+    }
+  }
 }
@@ -0,0 +1,368 @@
+/**
+ * Automation Velocity Report.
+ *
+ * Turns the `became_<state>` events in test case change history into
+ * weekly automation intake, reconstructs the manual backlog trend back
+ * from today's snapshot, and projects when automation coverage reaches
+ * the target at the observed pace. Includes a per-suite breakdown.
+ */
+
+import {
+  type ReportContext,
+  type ReportInput,
+  type ReportOutput,
+  type ProjectContext,
+  COLORS,
+} from "./types.js";
+import { generatePngChart, type ChartConfig } from "../../utils/chart-generator.js";
+import {
+  bucketOf,
+  buildChangeReport,
+  enrichTestCasesWithHistory,
+  type HistoryEntry,
+} from "../../utils/testCaseHistory.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const MAX_WINDOW_DAYS = 365;
+const MAX_HISTORY_CASES = 500;
+const HISTORY_LIMIT = 50;
+const TOP_SUITES = 15;
+
+export const DEFAULT_COVERAGE_TARGET = 80;
+
+export interface VelocityCase {
+  id: number;
+  key?: string;
+  title?: string;
+  createdAt?: string;
+  deprecated?: boolean;
+  automationState?: { id?: number; name?: string };
+  testSuite?: { id: number; title?: string };
+}
+
+export interface VelocityWeek {
+  /** Monday of the week, `YYYY-MM-DD` (UTC). */
+  week: string;
+  automated: number;
+  deprecated: number;
+  created: number;
+  /** Estimated manual backlog at the end of the week. */
+  backlog: number;
+}
+
+export interface SuiteVelocity {
+  suiteId: number;
+  suiteName: string;
+  automated: number;
+  backlog: number;
+  coverage: number;
+  automatedInPeriod: number;
+}
+
+export interface VelocityData {
+  project: string;
+  period: { from: string; to: string };
+  target: number;
+  current: { total: number; automated: number; manualOnly: number; deprecated: number; backlog: number; coverage: number };
+  weeks: VelocityWeek[];
+  automatedInPeriod: number;
+  avgPerWeek: number;
+  projection: {
+    status: 'reached' | 'on_track' | 'stalled';
+    casesNeeded: number;
+    weeksToTarget: number | null;
+    projectedDate: string | null;
+  };
+  suites: SuiteVelocity[];
+  notes: string[];
+}
+
+export interface VelocityOptions {
+  project: string;
+  from: Date;
+  to: Date;
+  target: number;
+  suiteNames?: Map<number, string>;
+}
+
+export async function generateAutomationVelocityReport(
+  ctx: ReportContext,
+  input: ReportInput,
+): Promise<ReportOutput> {
+  const { projects, period } = input;
+  const target = input.coverage_target ?? DEFAULT_COVERAGE_TARGET;
+  const to = new Date();
+  const from = new Date(to.getTime() - Math.min(ctx.periodToDays(period), MAX_WINDOW_DAYS) * DAY_MS);
+
+  const projectContexts = await ctx.resolveProjects(projects);
+
+  const results: VelocityData[] = [];
+  const fetchWarnings: string[] = [];
+
+  for (const pCtx of projectContexts) {
+    try {
+      results.push(await collectProjectVelocity(ctx, pCtx, from, to, target));
+    } catch (error: any) {
+      const reason = error?.message || String(error);
+      fetchWarnings.push(`⚠️ [${pCtx.alias}] Automation velocity fetch failed: ${reason}`);
+    }
+  }
+
+  const warningBlock = fetchWarnings.length > 0
+    ? fetchWarnings.join('\n') + '\n\n---\n\n'
+    : '';
+  const contentBlocks: any[] = [{
+    type: "text" as const,
+    text: warningBlock + buildVelocityMarkdown(results),
+  }];
+
+  for (const data of results) {
+    try {
+      const pngBuffer = await generatePngChart(buildVelocityChart(data));
+      contentBlocks.push({
+        type: "image" as const,
+        data: pngBuffer.toString('base64'),
+        mimeType: "image/png",
+      });
+    } catch {
+      // PNG generation failed
+    }
+  }
+
+  return { content: contentBlocks };
+}
+
+async function collectProjectVelocity(
+  ctx: ReportContext,
+  pCtx: ProjectContext,
+  from: Date,
+  to: Date,
+  target: number,
+): Promise<VelocityData> {
+  const [states, cases, suites] = await Promise.all([
+    ctx.reportingClient.getAutomationStates(pCtx.projectId),
+    ctx.publicClient.getAllTCMTestCasesByProject(pCtx.projectKey),
+    ctx.publicClient.getAllTestSuites(pCtx.projectKey),
+  ]);
+  const statesMap = Object.fromEntries(states.map(s => [s.id, s.name]));
+  const suiteNames = new Map(suites.map(s => [s.id, s.name || s.title || `Suite ${s.id}`]));
+
+  // Only cases modified inside the window can carry events for it
+  const candidates = cases
+    .filter(tc => !tc.lastModifiedAt || new Date(tc.lastModifiedAt).getTime() >= from.getTime())
+    .sort((a, b) => String(b.lastModifiedAt ?? '').localeCompare(String(a.lastModifiedAt ?? '')));
+  const scanned = candidates.slice(0, MAX_HISTORY_CASES);
+  const histories = await enrichTestCasesWithHistory(
+    scanned, ctx.reportingClient, pCtx.projectId, statesMap,
+    { filter: 'events_only', maxResults: HISTORY_LIMIT },
+  );
+
+  const data = computeAutomationVelocity(cases, scanned, histories, {
+    project: pCtx.alias, from, to, target, suiteNames,
+  });
+  if (candidates.length > scanned.length) {
+    data.notes.push(`History scanned for the ${scanned.length} most recently modified of ${candidates.length} changed cases; intake may be undercounted.`);
+  }
+  return data;
+}
+
+type CaseClass = 'automated' | 'manualOnly' | 'deprecated' | 'backlog';
+
+function classify(tc: VelocityCase): CaseClass {
+  if (tc.deprecated) return 'deprecated';
+  const state = tc.automationState?.name?.toLowerCase();
+  if (state === 'automated') return 'automated';
+  if (state === 'manual only') return 'manualOnly';
+  return 'backlog';
+}
+
+function coveragePercent(automated: number, total: number, manualOnly: number, deprecated: number): number {
+  const denominator = total - manualOnly - deprecated;
+  return denominator > 0 ? Math.round((automated / denominator) * 1000) / 10 : 0;
+}
+
+/**
+ * Build velocity, backlog trend, projection and per-suite breakdown.
+ *
+ * `cases` is the full current snapshot; `histories[i]` belongs to
+ * `scanned[i]`. The backlog is walked back from today's count: a week's
+ * start backlog is its end backlog plus cases automated or deprecated that
+ * week, minus cases created that week.
+ */
+export function computeAutomationVelocity(
+  cases: VelocityCase[],
+  scanned: VelocityCase[],
+  histories: HistoryEntry[][],
+  opts: VelocityOptions,
+): VelocityData {
+  const current = { total: cases.length, automated: 0, manualOnly: 0, deprecated: 0, backlog: 0, coverage: 0 };
+  const suites = new Map<number, SuiteVelocity & { manualOnly: number; deprecated: number; total: number }>();
+  const suiteOf = (tc: VelocityCase) => {
+    const id = tc.testSuite?.id ?? 0;
+    let suite = suites.get(id);
+    if (!suite) {
+      suite = {
+        suiteId: id,
+        suiteName: opts.suiteNames?.get(id) ?? tc.testSuite?.title ?? (id ? `Suite ${id}` : '(no suite)'),
+        automated: 0, backlog: 0, coverage: 0, automatedInPeriod: 0, manualOnly: 0, deprecated: 0, total: 0,
+      };
+      suites.set(id, suite);
+    }
+    return suite;
+  };
+
+  const fromMs = opts.from.getTime();
+  const toMs = opts.to.getTime();
+  const createdPerWeek = new Map<string, number>();
+
+  for (const tc of cases) {
+    const cls = classify(tc);
+    current[cls]++;
+    const suite = suiteOf(tc);
+    suite.total++;
+    suite[cls]++;
+
+    const created = tc.createdAt ? new Date(tc.createdAt).getTime() : NaN;
+    if (created >= fromMs && created <= toMs && cls !== 'manualOnly') {
+      const week = bucketOf(new Date(created), 'week');
+      createdPerWeek.set(week, (createdPerWeek.get(week) ?? 0) + 1);
+    }
+  }
+  current.coverage = coveragePercent(current.automated, current.total, current.manualOnly, current.deprecated);
+
+  const report = buildChangeReport(scanned, histories, { from: opts.from, to: opts.to, granularity: 'week', stepEditLimit: 0 });
+
+  scanned.forEach((tc, i) => {
+    const automatedInRange = (histories[i] ?? []).some(entry => {
+      const at = new Date(entry.timestamp).getTime();
+      return at >= fromMs && at <= toMs && entry.events.includes('became_automated');
+    });
+    if (automatedInRange) suiteOf(tc).automatedInPeriod++;
+  });
+
+  const weeks: VelocityWeek[] = report.timeline.map(b => ({
+    week: b.bucket,
+    automated: b.becameAutomated,
+    deprecated: b.becameDeprecated,
+    created: createdPerWeek.get(b.bucket) ?? 0,
+    backlog: 0,
+  }));
+  let backlog = current.backlog;
+  for (let i = weeks.length - 1; i >= 0; i--) {
+    weeks[i].backlog = backlog;
+    backlog = Math.max(0, backlog + weeks[i].automated + weeks[i].deprecated - weeks[i].created);
+  }
+
+  const automatedInPeriod = report.totals.becameAutomated;
+  const avgPerWeek = Math.round((automatedInPeriod / Math.max(1, (toMs - fromMs) / WEEK_MS)) * 10) / 10;
+  const denominator = current.total - current.manualOnly - current.deprecated;
+  const casesNeeded = Math.max(0, Math.ceil((opts.target / 100) * denominator) - current.automated);
+
+  let projection: VelocityData['projection'];
+  if (casesNeeded === 0) {
+    projection = { status: 'reached', casesNeeded, weeksToTarget: 0, projectedDate: null };
+  } else if (avgPerWeek <= 0) {
+    projection = { status: 'stalled', casesNeeded, weeksToTarget: null, projectedDate: null };
+  } else {
+    const weeksToTarget = Math.round((casesNeeded / avgPerWeek) * 10) / 10;
+    projection = {
+      status: 'on_track',
+      casesNeeded,
+      weeksToTarget,
+      projectedDate: new Date(toMs + weeksToTarget * WEEK_MS).toISOString().slice(0, 10),
+    };
+  }
+
+  return {
+    project: opts.project,
+    period: { from: opts.from.toISOString().slice(0, 10), to: opts.to.toISOString().slice(0, 10) },
+    target: opts.target,
+    current,
+    weeks,
+    automatedInPeriod,
+    avgPerWeek,
+    projection,
+    suites: [...suites.values()]
+      .map(({ manualOnly, deprecated, total, ...s }) => ({
+        ...s,
+        coverage: coveragePercent(s.automated, total, manualOnly, deprecated),
+      }))
+      .sort((a, b) => b.automatedInPeriod - a.automatedInPeriod || b.backlog - a.backlog || a.suiteName.localeCompare(b.suiteName)),
+    notes: [],
+  };
+}
+
+function projectionLine(d: VelocityData): string {
+  switch (d.projection.status) {
+    case 'reached':
+      return `✅ Target of ${d.target}% already reached`;
+    case 'stalled':
+      return `⚠️ No cases automated in the period — ${d.projection.casesNeeded} more needed for ${d.target}%, no projection possible`;
+    default:
+      return `📅 ${d.projection.casesNeeded} more cases for ${d.target}% — ~${d.projection.weeksToTarget} weeks at the current pace (**${d.projection.projectedDate}**)`;
+  }
+}
+
+export function buildVelocityMarkdown(results: VelocityData[]): string {
+  const lines: string[] = [];
+  lines.push('# Automation Velocity Report');
+  lines.push('');
+
+  for (const d of results) {
+    const first = d.weeks[0]?.backlog ?? d.current.backlog;
+    const delta = d.current.backlog - first;
+
+    lines.push(`## ${d.project}`);
+    lines.push(`**Period:** ${d.period.from} → ${d.period.to}`);
+    lines.push('');
+    lines.push(`- **Coverage:** ${d.current.coverage}% (${d.current.automated} automated, ${d.current.backlog} manual backlog, ${d.current.manualOnly} manual only, ${d.current.deprecated} deprecated)`);
+    lines.push(`- **Automated in period:** ${d.automatedInPeriod} (${d.avgPerWeek}/week)`);
+    lines.push(`- **Manual backlog:** ${first} → ${d.current.backlog} (${delta > 0 ? '+' : ''}${delta})`);
+    lines.push(`- ${projectionLine(d)}`);
+    lines.push('');
+
+    lines.push('### Weekly Intake');
+    lines.push('| Week | Automated | Deprecated | Created | Backlog |');
+    lines.push('| --- | ---: | ---: | ---: | ---: |');
+    for (const w of d.weeks) {
+      lines.push(`| ${w.week} | ${w.automated} | ${w.deprecated} | ${w.created} | ${w.backlog} |`);
+    }
+    lines.push('');
+
+    const suites = d.suites.slice(0, TOP_SUITES);
+    if (suites.length > 0) {
+      lines.push('### By Suite');
+      lines.push('| Suite | Automated in Period | Automated | Backlog | Coverage % |');
+      lines.push('| --- | ---: | ---: | ---: | ---: |');
+      for (const s of suites) {
+        lines.push(`| ${s.suiteName} | ${s.automatedInPeriod} | ${s.automated} | ${s.backlog} | ${s.coverage}% |`);
+      }
+      if (d.suites.length > suites.length) {
+        lines.push('');
+        lines.push(`_${d.suites.length - suites.length} more suites not shown._`);
+      }
+      lines.push('');
+    }
+
+    for (const note of d.notes) lines.push(`> ${note}`);
+    if (d.notes.length > 0) lines.push('');
+  }
+
+  lines.push('_Backlog history is reconstructed from change events and creation dates; cases created already automated are counted as backlog intake._');
+  return lines.join('\n');
+}
+
+function buildVelocityChart(d: VelocityData): ChartConfig {
+  return {
+    type: 'line',
+    title: `Automation Velocity — ${d.project}`,
+    labels: d.weeks.map(w => w.week),
+    datasets: [
+      { label: 'Cases automated', values: d.weeks.map(w => w.automated), color: COLORS.automated },
+      { label: 'Manual backlog', values: d.weeks.map(w => w.backlog), color: COLORS.manual },
+    ],
+    width: 800,
+    height: 400,
+  };
+}
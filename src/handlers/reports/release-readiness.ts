@@ -4,12 +4,19 @@
  * Evaluates readiness criteria for specified platforms and produces
  * a Go / No-Go recommendation with supporting evidence.
  *
- * Checks:
+ * Checks (thresholds, blocking flags and per-project overrides come from
+ * the `releaseGates` policy in zebrunner-config.json):
  * 1. Pass rate vs target
  * 2. Unresolved failures (failed - known issues)
  * 3. Runtime efficiency (delta vs previous milestone)
  * 4. Automation coverage %
  * 5. Top defect patterns
+ * 6. Open critical bugs (opt-in)
+ * 7. Flaky test ceiling (opt-in)
+ * 8. Mandatory suites executed (opt-in)
+ *
+ * Besides the Markdown, the report emits a `[RELEASE_VERDICT]` JSON block
+ * for release pipelines.
  */
 
 import {
@@ -17,47 +24,96 @@ import {
   type ReportInput,
   type ReportOutput,
   type PassRateData,
-  type RuntimeData,
-  type CoverageData,
-  type BugsData,
   type PassRateTargets,
   type ProjectContext,
   DEFAULT_TARGETS,
 } from "./types.js";
+import {
+  getConfig,
+  type ReleaseGateChecks,
+  type ReleaseGateRule,
+} from "../../utils/config-loader.js";
 
-type CheckStatus = 'PASS' | 'FAIL' | 'WARN';
+/** UNKNOWN: the gate's data could not be fetched; a blocking UNKNOWN forces NO-GO. */
+type CheckStatus = 'PASS' | 'FAIL' | 'WARN' | 'UNKNOWN';
+type Recommendation = 'GO' | 'NO-GO' | 'CONDITIONAL';
+type ReleaseGateId = keyof ReleaseGateChecks;
 
 interface ReadinessCheck {
+  id: ReleaseGateId;
   name: string;
   status: CheckStatus;
+  blocking: boolean;
   detail: string;
+  value?: number;
+  threshold?: number;
 }
 
 interface PlatformReadiness {
   platform: string;
+  projectKey: string;
   checks: ReadinessCheck[];
-  recommendation: 'GO' | 'NO-GO' | 'CONDITIONAL';
+  recommendation: Recommendation;
   summary: string;
 }
 
+export interface ReleaseVerdict {
+  verdict: Recommendation;
+  milestone: string | null;
+  previousMilestone: string | null;
+  period: string;
+  generatedAt: string;
+  projects: Array<{
+    project: string;
+    projectKey: string;
+    verdict: Recommendation;
+    summary: string;
+    blockingFailures: ReleaseGateId[];
+    checks: ReadinessCheck[];
+  }>;
+}
+
+const UNFINISHED_LAUNCH_STATUSES = new Set(['IN_PROGRESS', 'QUEUED']);
+const MAX_LAUNCH_PAGES = 5;
+
 export async function generateReleaseReadinessReport(
   ctx: ReportContext,
   input: ReportInput,
 ): Promise<ReportOutput> {
   const { projects, period, milestone, previous_milestone, targets } = input;
-  const mergedTargets: PassRateTargets = { ...DEFAULT_TARGETS, ...(targets ?? {}) };
 
   const projectContexts = await ctx.resolveProjects(projects);
 
   const assessments: PlatformReadiness[] = [];
 
   for (const pCtx of projectContexts) {
-    const assessment = await assessPlatform(ctx, pCtx, period, milestone, previous_milestone, mergedTargets);
+    const gates = releaseGatesFor(pCtx);
+    const assessment = await assessPlatform(ctx, pCtx, period, milestone, previous_milestone, targets ?? {}, gates);
     assessments.push(assessment);
   }
 
+  const verdict = buildReleaseVerdict(assessments, period, milestone, previous_milestone);
   const markdown = buildReadinessMarkdown(assessments, milestone);
-  return { content: [{ type: "text" as const, text: markdown }] };
+  return {
+    content: [
+      { type: "text" as const, text: markdown },
+      {
+        type: "text" as const,
+        text: `\n\n---\n\n[RELEASE_VERDICT]\nMachine-readable verdict for release pipelines:\n\n\`\`\`json\n${JSON.stringify(verdict, null, 2)}\n\`\`\``,
+      },
+    ],
+  };
+}
+
+/** Global gate policy with the project's overrides (by alias or key) layered on top. */
+function releaseGatesFor(pCtx: ProjectContext): ReleaseGateChecks {
+  const { projects, ...base } = getConfig().releaseGates;
+  const override = projects[pCtx.alias] ?? projects[pCtx.alias.toLowerCase()] ?? projects[pCtx.projectKey] ?? {};
+  const merged: ReleaseGateChecks = { ...base };
+  for (const id of Object.keys(override) as ReleaseGateId[]) {
+    Object.assign(merged, { [id]: { ...base[id], ...override[id] } });
+  }
+  return merged;
 }
 
 async function assessPlatform(
@@ -67,116 +123,249 @@ async function assessPlatform(
   milestone: string | undefined,
   previousMilestone: string | undefined,
   targets: PassRateTargets,
+  gates: ReleaseGateChecks,
 ): Promise<PlatformReadiness> {
   const checks: ReadinessCheck[] = [];
+  const add = (id: ReleaseGateId, name: string, rule: ReleaseGateRule, status: CheckStatus, detail: string, extra: { value?: number; threshold?: number } = {}) => {
+    checks.push({ id, name, status, blocking: rule.blocking, detail, ...extra });
+  };
 
   // 1. Pass Rate
   let passRate: PassRateData | null = null;
-  try {
-    passRate = await ctx.fetchPassRate(pCtx, period, milestone);
-    const target = targets[pCtx.alias.toLowerCase()] ?? targets[pCtx.alias] ?? 90;
-    if (passRate.noMilestoneLaunches) {
-      checks.push({
-        name: 'Pass Rate',
-        status: 'WARN',
-        detail: passRate.milestoneNote ?? `No launches assigned to milestone "${milestone ?? ''}"`,
-      });
-    } else if (passRate.passRate >= target) {
-      checks.push({ name: 'Pass Rate', status: 'PASS', detail: `${passRate.passRate}% (target: ${target}%)` });
-    } else if (passRate.passRateExclKnown >= target) {
-      checks.push({ name: 'Pass Rate', status: 'WARN', detail: `${passRate.passRate}% raw (${passRate.passRateExclKnown}% excl. known issues) — target: ${target}%` });
-    } else {
-      checks.push({ name: 'Pass Rate', status: 'FAIL', detail: `${passRate.passRate}% (target: ${target}%)` });
+  if (gates.passRate.enabled || gates.unresolvedFailures.enabled) {
+    const rule = gates.passRate;
+    try {
+      passRate = await ctx.fetchPassRate(pCtx, period, milestone);
+      const target = targets[pCtx.alias.toLowerCase()] ?? targets[pCtx.alias]
+        ?? rule.target
+        ?? DEFAULT_TARGETS[pCtx.alias.toLowerCase()] ?? DEFAULT_TARGETS[pCtx.alias] ?? 90;
+      if (!rule.enabled) {
+        // Fetched only for the unresolved-failures check
+      } else if (passRate.noMilestoneLaunches) {
+        add('passRate', 'Pass Rate', rule, 'WARN', passRate.milestoneNote ?? `No launches assigned to milestone "${milestone ?? ''}"`);
+      } else if (passRate.passRate >= target) {
+        add('passRate', 'Pass Rate', rule, 'PASS', `${passRate.passRate}% (target: ${target}%)`, { value: passRate.passRate, threshold: target });
+      } else if (passRate.passRateExclKnown >= target) {
+        add('passRate', 'Pass Rate', rule, 'WARN', `${passRate.passRate}% raw (${passRate.passRateExclKnown}% excl. known issues) — target: ${target}%`, { value: passRate.passRate, threshold: target });
+      } else {
+        add('passRate', 'Pass Rate', rule, 'FAIL', `${passRate.passRate}% (target: ${target}%)`, { value: passRate.passRate, threshold: target });
+      }
+    } catch {
+      if (rule.enabled) add('passRate', 'Pass Rate', rule, 'UNKNOWN', 'Unable to fetch pass rate data');
+      if (gates.unresolvedFailures.enabled) {
+        add('unresolvedFailures', 'Unresolved Failures', gates.unresolvedFailures, 'UNKNOWN', 'Unable to fetch pass rate data');
+      }
     }
-  } catch {
-    checks.push({ name: 'Pass Rate', status: 'WARN', detail: 'Unable to fetch pass rate data' });
   }
 
   // 2. Unresolved Failures
-  if (passRate && !passRate.noMilestoneLaunches) {
+  if (gates.unresolvedFailures.enabled && passRate && !passRate.noMilestoneLaunches) {
+    const rule = gates.unresolvedFailures;
     const unresolvedFailures = passRate.failed - passRate.knownIssue;
-    if (unresolvedFailures <= 0) {
-      checks.push({ name: 'Unresolved Failures', status: 'PASS', detail: `All ${passRate.failed} failures have linked issues` });
-    } else if (unresolvedFailures <= 5) {
-      checks.push({ name: 'Unresolved Failures', status: 'WARN', detail: `${unresolvedFailures} failures without linked issues (${passRate.failed} total, ${passRate.knownIssue} with issues)` });
+    const extra = { value: Math.max(0, unresolvedFailures), threshold: rule.failAbove };
+    if (unresolvedFailures <= rule.warnAbove) {
+      add('unresolvedFailures', 'Unresolved Failures', rule, 'PASS', unresolvedFailures <= 0
+        ? `All ${passRate.failed} failures have linked issues`
+        : `${unresolvedFailures} failures without linked issues (allowed: ${rule.warnAbove})`, extra);
+    } else if (unresolvedFailures <= rule.failAbove) {
+      add('unresolvedFailures', 'Unresolved Failures', rule, 'WARN', `${unresolvedFailures} failures without linked issues (${passRate.failed} total, ${passRate.knownIssue} with issues)`, extra);
     } else {
-      checks.push({ name: 'Unresolved Failures', status: 'FAIL', detail: `${unresolvedFailures} failures without linked issues` });
+      add('unresolvedFailures', 'Unresolved Failures', rule, 'FAIL', `${unresolvedFailures} failures without linked issues`, extra);
     }
   }
 
   // 3. Runtime Efficiency
-  try {
-    const currentRuntime = await ctx.fetchRuntime(pCtx, milestone);
-    if (previousMilestone) {
-      const previousRuntime = await ctx.fetchRuntime(pCtx, previousMilestone);
-      if (previousRuntime.avgRuntimePerTest > 0 && currentRuntime.avgRuntimePerTest > 0) {
-        const delta = ((currentRuntime.avgRuntimePerTest - previousRuntime.avgRuntimePerTest) / previousRuntime.avgRuntimePerTest) * 100;
-        const rounded = Math.round(delta * 10) / 10;
-        if (rounded <= 10) {
-          checks.push({ name: 'Runtime Efficiency', status: 'PASS', detail: `Avg/test: ${ctx.fmtSeconds(currentRuntime.avgRuntimePerTest)} (delta: ${rounded > 0 ? '+' : ''}${rounded}%)` });
-        } else if (rounded <= 20) {
-          checks.push({ name: 'Runtime Efficiency', status: 'WARN', detail: `Avg/test increased by ${rounded}% vs previous milestone` });
+  if (gates.runtimeRegression.enabled) {
+    const rule = gates.runtimeRegression;
+    try {
+      const currentRuntime = await ctx.fetchRuntime(pCtx, milestone);
+      if (previousMilestone) {
+        const previousRuntime = await ctx.fetchRuntime(pCtx, previousMilestone);
+        if (previousRuntime.avgRuntimePerTest > 0 && currentRuntime.avgRuntimePerTest > 0) {
+          const delta = ((currentRuntime.avgRuntimePerTest - previousRuntime.avgRuntimePerTest) / previousRuntime.avgRuntimePerTest) * 100;
+          const rounded = Math.round(delta * 10) / 10;
+          const extra = { value: rounded, threshold: rule.maxPercent };
+          if (rounded <= rule.warnAbovePercent) {
+            add('runtimeRegression', 'Runtime Efficiency', rule, 'PASS', `Avg/test: ${ctx.fmtSeconds(currentRuntime.avgRuntimePerTest)} (delta: ${rounded > 0 ? '+' : ''}${rounded}%)`, extra);
+          } else if (rounded <= rule.maxPercent) {
+            add('runtimeRegression', 'Runtime Efficiency', rule, 'WARN', `Avg/test increased by ${rounded}% vs previous milestone`, extra);
+          } else {
+            add('runtimeRegression', 'Runtime Efficiency', rule, 'FAIL', `Avg/test degraded by ${rounded}% vs previous milestone (max: ${rule.maxPercent}%)`, extra);
+          }
         } else {
-          checks.push({ name: 'Runtime Efficiency', status: 'FAIL', detail: `Avg/test degraded by ${rounded}% vs previous milestone` });
+          add('runtimeRegression', 'Runtime Efficiency', rule, 'PASS', `Avg/test: ${ctx.fmtSeconds(currentRuntime.avgRuntimePerTest)}`);
         }
       } else {
-        checks.push({ name: 'Runtime Efficiency', status: 'PASS', detail: `Avg/test: ${ctx.fmtSeconds(currentRuntime.avgRuntimePerTest)}` });
+        add('runtimeRegression', 'Runtime Efficiency', rule, 'PASS', `Avg/test: ${ctx.fmtSeconds(currentRuntime.avgRuntimePerTest)} (no baseline for comparison)`);
       }
-    } else {
-      checks.push({ name: 'Runtime Efficiency', status: 'PASS', detail: `Avg/test: ${ctx.fmtSeconds(currentRuntime.avgRuntimePerTest)} (no baseline for comparison)` });
+    } catch {
+      add('runtimeRegression', 'Runtime Efficiency', rule, 'UNKNOWN', 'Unable to fetch runtime data');
     }
-  } catch {
-    checks.push({ name: 'Runtime Efficiency', status: 'WARN', detail: 'Unable to fetch runtime data' });
   }
 
   // 4. Automation Coverage
-  try {
-    const coverage = await ctx.fetchCoverage(pCtx);
-    const pct = coverage.total > 0 ? Math.round((coverage.automated / coverage.total) * 1000) / 10 : 0;
-    if (pct >= 70) {
-      checks.push({ name: 'Automation Coverage', status: 'PASS', detail: `${pct}% automated (${coverage.automated}/${coverage.total})` });
-    } else if (pct >= 50) {
-      checks.push({ name: 'Automation Coverage', status: 'WARN', detail: `${pct}% automated — consider increasing coverage` });
-    } else {
-      checks.push({ name: 'Automation Coverage', status: 'FAIL', detail: `Only ${pct}% automated (${coverage.automated}/${coverage.total})` });
+  if (gates.automationCoverage.enabled) {
+    const rule = gates.automationCoverage;
+    try {
+      const coverage = await ctx.fetchCoverage(pCtx);
+      const pct = coverage.total > 0 ? Math.round((coverage.automated / coverage.total) * 1000) / 10 : 0;
+      const extra = { value: pct, threshold: rule.min };
+      if (pct >= rule.warnBelow) {
+        add('automationCoverage', 'Automation Coverage', rule, 'PASS', `${pct}% automated (${coverage.automated}/${coverage.total})`, extra);
+      } else if (pct >= rule.min) {
+        add('automationCoverage', 'Automation Coverage', rule, 'WARN', `${pct}% automated — consider increasing coverage`, extra);
+      } else {
+        add('automationCoverage', 'Automation Coverage', rule, 'FAIL', `Only ${pct}% automated (${coverage.automated}/${coverage.total})`, extra);
+      }
+    } catch {
+      add('automationCoverage', 'Automation Coverage', rule, 'UNKNOWN', 'Unable to fetch coverage data');
     }
-  } catch {
-    checks.push({ name: 'Automation Coverage', status: 'WARN', detail: 'Unable to fetch coverage data' });
   }
 
   // 5. Top Defects
-  try {
-    const bugs = await ctx.fetchBugs(pCtx, period, 5, milestone);
-    if (bugs.bugs.length === 0) {
-      checks.push({ name: 'Top Defects', status: 'PASS', detail: 'No recurring defects found' });
-    } else {
-      const topBug = bugs.bugs[0];
-      const detail = `${bugs.bugs.length} recurring defects — top: ${topBug.key} (${topBug.failures} failures, ${topBug.percentage}% repro rate)`;
-      checks.push({ name: 'Top Defects', status: bugs.bugs.length > 3 ? 'WARN' : 'PASS', detail });
+  if (gates.topDefects.enabled) {
+    const rule = gates.topDefects;
+    try {
+      const bugs = await ctx.fetchBugs(pCtx, period, rule.warnAbove + 2, milestone);
+      if (bugs.bugs.length === 0) {
+        add('topDefects', 'Top Defects', rule, 'PASS', 'No recurring defects found', { value: 0 });
+      } else {
+        const topBug = bugs.bugs[0];
+        const detail = `${bugs.bugs.length} recurring defects — top: ${topBug.key} (${topBug.failures} failures, ${topBug.percentage}% repro rate)`;
+        add('topDefects', 'Top Defects', rule, bugs.bugs.length > rule.warnAbove ? 'WARN' : 'PASS', detail, { value: bugs.bugs.length, threshold: rule.warnAbove });
+      }
+    } catch {
+      add('topDefects', 'Top Defects', rule, 'UNKNOWN', 'Unable to fetch defect data');
+    }
+  }
+
+  // 6. Open Critical Bugs
+  if (gates.criticalBugs.enabled) {
+    const rule = gates.criticalBugs;
+    try {
+      const bugs = await ctx.fetchBugs(pCtx, period, 100, milestone, rule.priorities);
+      const count = bugs.bugs.length;
+      const keys = bugs.bugs.slice(0, 5).map(b => b.key).join(', ');
+      add('criticalBugs', 'Critical Bugs', rule, count <= rule.max ? 'PASS' : 'FAIL',
+        count === 0
+          ? `No open defects on ${rule.priorities.join('/')} tests`
+          : `${count} open defect(s) on ${rule.priorities.join('/')} tests (max: ${rule.max})${keys ? ` — ${keys}` : ''}`,
+        { value: count, threshold: rule.max });
+    } catch {
+      add('criticalBugs', 'Critical Bugs', rule, 'UNKNOWN', 'Unable to fetch critical defect data');
     }
-  } catch {
-    checks.push({ name: 'Top Defects', status: 'WARN', detail: 'Unable to fetch defect data' });
   }
 
-  // Recommendation
-  const failCount = checks.filter(c => c.status === 'FAIL').length;
-  const warnCount = checks.filter(c => c.status === 'WARN').length;
+  // 7. Flaky Tests
+  if (gates.flakyTests.enabled) {
+    const rule = gates.flakyTests;
+    try {
+      const flaky = await ctx.fetchFlaky(pCtx, ctx.periodToDays(period), milestone);
+      add('flakyTests', 'Flaky Tests', rule, flaky.total <= rule.max ? 'PASS' : 'FAIL',
+        `${flaky.total} flaky test(s) (max: ${rule.max})`, { value: flaky.total, threshold: rule.max });
+    } catch {
+      add('flakyTests', 'Flaky Tests', rule, 'UNKNOWN', 'Unable to fetch flaky test data');
+    }
+  }
+
+  // 8. Mandatory Suites
+  if (gates.mandatorySuites.enabled && gates.mandatorySuites.suites.length > 0) {
+    const rule = gates.mandatorySuites;
+    try {
+      const launches = await fetchLaunchesInScope(ctx, pCtx, period, milestone);
+      const missing = rule.suites.filter(suite => !launches.some(l =>
+        l.name.toLowerCase().includes(suite.toLowerCase()) && !UNFINISHED_LAUNCH_STATUSES.has(l.status),
+      ));
+      add('mandatorySuites', 'Mandatory Suites', rule, missing.length === 0 ? 'PASS' : 'FAIL',
+        missing.length === 0
+          ? `All ${rule.suites.length} mandatory suite(s) executed`
+          : `Not executed: ${missing.join(', ')}`,
+        { value: rule.suites.length - missing.length, threshold: rule.suites.length });
+    } catch {
+      add('mandatorySuites', 'Mandatory Suites', rule, 'UNKNOWN', 'Unable to fetch launch data');
+    }
+  }
+
+  // Recommendation — a blocking gate that could not be evaluated fails closed
+  const blockingFails = checks.filter(c => c.status === 'FAIL' && c.blocking).length;
+  const blockingUnknown = checks.filter(c => c.status === 'UNKNOWN' && c.blocking).length;
+  const warnCount = checks.filter(c => c.status === 'WARN' || (c.status !== 'PASS' && !c.blocking)).length;
 
-  let recommendation: 'GO' | 'NO-GO' | 'CONDITIONAL';
+  let recommendation: Recommendation;
   let summary: string;
 
-  if (failCount > 0) {
+  if (blockingFails > 0 || blockingUnknown > 0) {
     recommendation = 'NO-GO';
-    summary = `${failCount} check(s) failed. Release not recommended.`;
+    summary = [
+      blockingFails > 0 ? `${blockingFails} blocking check(s) failed.` : '',
+      blockingUnknown > 0 ? `${blockingUnknown} blocking check(s) could not be evaluated.` : '',
+      'Release not recommended.',
+    ].filter(Boolean).join(' ');
   } else if (warnCount > 1) {
     recommendation = 'CONDITIONAL';
-    summary = `${warnCount} warnings detected. Release possible with caveats.`;
+    summary = `${warnCount} warnings or non-blocking failures detected. Release possible with caveats.`;
   } else {
     recommendation = 'GO';
-    summary = 'All checks passed. Release is recommended.';
+    summary = 'All blocking checks passed. Release is recommended.';
+  }
+
+  return { platform: pCtx.alias, projectKey: pCtx.projectKey, checks, recommendation, summary };
+}
+
+/** Launches on the milestone, or started within the period when no milestone is given. */
+async function fetchLaunchesInScope(
+  ctx: ReportContext,
+  pCtx: ProjectContext,
+  period: string,
+  milestone: string | undefined,
+): Promise<Array<{ name: string; status: string }>> {
+  const since = Date.now() - ctx.periodToDays(period) * 24 * 60 * 60 * 1000;
+  const launches: Array<{ name: string; status: string }> = [];
+
+  for (let page = 1; page <= MAX_LAUNCH_PAGES; page++) {
+    const response = await ctx.reportingClient.getLaunches(pCtx.projectId, { page, pageSize: 100, milestone });
+    const items = response.items || [];
+    let reachedOlder = false;
+    for (const l of items) {
+      if (!milestone && l.startedAt && l.startedAt < since) {
+        reachedOlder = true;
+        continue;
+      }
+      launches.push({ name: l.name, status: l.status });
+    }
+    if (reachedOlder || page >= (response._meta?.totalPages ?? 1)) break;
   }
 
-  return { platform: pCtx.alias, checks, recommendation, summary };
+  return launches;
+}
+
+function overallRecommendation(assessments: PlatformReadiness[]): Recommendation {
+  if (assessments.some(a => a.recommendation === 'NO-GO')) return 'NO-GO';
+  if (assessments.every(a => a.recommendation === 'GO')) return 'GO';
+  return 'CONDITIONAL';
+}
+
+export function buildReleaseVerdict(
+  assessments: PlatformReadiness[],
+  period: string,
+  milestone?: string,
+  previousMilestone?: string,
+): ReleaseVerdict {
+  return {
+    verdict: overallRecommendation(assessments),
+    milestone: milestone ?? null,
+    previousMilestone: previousMilestone ?? null,
+    period,
+    generatedAt: new Date().toISOString(),
+    projects: assessments.map(a => ({
+      project: a.platform,
+      projectKey: a.projectKey,
+      verdict: a.recommendation,
+      summary: a.summary,
+      blockingFailures: a.checks.filter(c => (c.status === 'FAIL' || c.status === 'UNKNOWN') && c.blocking).map(c => c.id),
+      checks: a.checks,
+    })),
+  };
 }
 
 function buildReadinessMarkdown(assessments: PlatformReadiness[], milestone?: string): string {
@@ -191,23 +380,22 @@ function buildReadinessMarkdown(assessments: PlatformReadiness[], milestone?: st
     lines.push(`> ${a.summary}`);
     lines.push('');
 
-    lines.push('| Check | Status | Detail |');
-    lines.push('| --- | :---: | --- |');
+    lines.push('| Check | Status | Blocking | Detail |');
+    lines.push('| --- | :---: | :---: | --- |');
     for (const c of a.checks) {
-      const icon = c.status === 'PASS' ? '✅' : c.status === 'WARN' ? '⚠️' : '❌';
-      lines.push(`| ${c.name} | ${icon} ${c.status} | ${c.detail} |`);
+      const icon = c.status === 'PASS' ? '✅' : c.status === 'WARN' ? '⚠️' : c.status === 'UNKNOWN' ? '❔' : '❌';
+      lines.push(`| ${c.name} | ${icon} ${c.status} | ${c.blocking ? 'Yes' : 'No'} | ${c.detail} |`);
     }
     lines.push('');
   }
 
   // Overall recommendation
-  const allGo = assessments.every(a => a.recommendation === 'GO');
-  const anyNoGo = assessments.some(a => a.recommendation === 'NO-GO');
+  const overall = overallRecommendation(assessments);
 
   lines.push('## Overall Recommendation');
-  if (allGo) {
+  if (overall === 'GO') {
     lines.push('**✅ GO** — All platforms pass readiness criteria.');
-  } else if (anyNoGo) {
+  } else if (overall === 'NO-GO') {
     const failed = assessments.filter(a => a.recommendation === 'NO-GO').map(a => a.platform);
     lines.push(`**🛑 NO-GO** — Platform(s) not ready: ${failed.join(', ')}`);
   } else {
@@ -112,6 +112,8 @@ export interface ReportInput {
   targets?: PassRateTargets;
   exclude_suite_patterns?: string[];
   previous_milestone?: string;
+  /** Automation coverage % to project towards (automation_velocity). */
+  coverage_target?: number;
 }
 
 export interface ReportOutput {
@@ -161,7 +163,7 @@ export interface ReportContext {
   fetchPassRate(ctx: ProjectContext, period: string, milestone?: string): Promise<PassRateData>;
   fetchRuntime(ctx: ProjectContext, milestone?: string): Promise<RuntimeData>;
   fetchCoverage(ctx: ProjectContext): Promise<CoverageData>;
-  fetchBugs(ctx: ProjectContext, period: string, limit: number, milestone?: string): Promise<BugsData>;
+  fetchBugs(ctx: ProjectContext, period: string, limit: number, milestone?: string, priorities?: string[]): Promise<BugsData>;
   fetchMilestones(ctx: ProjectContext, periodDays: number): Promise<MilestoneData>;
   fetchFlaky(ctx: ProjectContext, periodDays: number, milestone?: string): Promise<FlakyData>;
   fmtSeconds(sec: number): string;
@@ -1,31 +1,274 @@
 import fs from "fs";
 import path from "path";
 import os from "os";
+import crypto from "crypto";
+import { getCurrentContext } from "../http/request-context.js";
+import { toCsv } from "../utils/csv.js";
 
 const AUDIT_LOG_PATH = path.join(os.homedir(), ".mcp-zebrunner-audit.jsonl");
 
+const DEFAULT_AUDIT_LOG_MAX_MB = 10;
+const DEFAULT_AUDIT_LOG_MAX_FILES = 20;
+
+export type AuditTargetType = "test_case" | "test_suite" | "test_run";
+
 export interface AuditEntry {
+  /** Stable entry ID (assigned by writeAuditLog when omitted). Used by adv_revert_change. */
+  id?: string;
   timestamp: string;
   tool: string;
   method: "POST" | "PUT" | "PATCH";
   url: string;
   projectKey?: string;
+  /** Acting username — filled from requestContext in HTTP mode. */
+  user?: string;
   payload: unknown;
+  /** Entity the mutation applies to — recorded for revertable updates. */
+  target?: { type: AuditTargetType; identifier: string | number };
+  /** Record state fetched right before the mutation (update tools only). */
+  before?: Record<string, unknown>;
+}
+
+export interface AuditRotationOptions {
+  /** Rotate once the active file would exceed this many bytes (0 disables size rotation). */
+  maxBytes: number;
+  /** Rotate when the active file was last written on a previous (UTC) day. */
+  daily: boolean;
+  /** Rotated files to keep; older ones are deleted after a rotation (0 or omitted keeps all). */
+  maxFiles?: number;
+}
+
+/**
+ * Rotation settings from the environment:
+ *   AUDIT_LOG_MAX_MB        — size threshold in MB (default 10, 0 disables)
+ *   AUDIT_LOG_ROTATE_DAILY  — "true" to also start a new file every UTC day
+ *   AUDIT_LOG_MAX_FILES     — rotated files to keep (default 20, 0 keeps all)
+ */
+export function getAuditRotationOptions(): AuditRotationOptions {
+  const rawMb = Number(process.env.AUDIT_LOG_MAX_MB ?? DEFAULT_AUDIT_LOG_MAX_MB);
+  const maxMb = Number.isFinite(rawMb) && rawMb >= 0 ? rawMb : DEFAULT_AUDIT_LOG_MAX_MB;
+  const daily = ["1", "true", "yes", "on"].includes((process.env.AUDIT_LOG_ROTATE_DAILY ?? "").trim().toLowerCase());
+  const rawFiles = Number(process.env.AUDIT_LOG_MAX_FILES ?? DEFAULT_AUDIT_LOG_MAX_FILES);
+  const maxFiles = Number.isInteger(rawFiles) && rawFiles >= 0 ? rawFiles : DEFAULT_AUDIT_LOG_MAX_FILES;
+  return { maxBytes: Math.floor(maxMb * 1024 * 1024), daily, maxFiles };
+}
+
+function rotatedStem(logPath: string): { dir: string; stem: string; ext: string } {
+  const ext = path.extname(logPath);
+  return { dir: path.dirname(logPath), stem: path.basename(logPath, ext), ext };
+}
+
+/**
+ * Move the active log aside (`<stem>.<stamp><ext>`) when it crossed the size
+ * threshold or belongs to a previous day. Returns the rotated path, or null.
+ */
+export function rotateAuditLogIfNeeded(
+  logPath: string,
+  incomingBytes: number,
+  options: AuditRotationOptions,
+  now: Date = new Date(),
+): string | null {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(logPath);
+  } catch {
+    return null;
+  }
+  if (stat.size === 0) return null;
+
+  const staleDay = options.daily && stat.mtime.toISOString().slice(0, 10) !== now.toISOString().slice(0, 10);
+  const oversized = options.maxBytes > 0 && stat.size + incomingBytes > options.maxBytes;
+  if (!staleDay && !oversized) return null;
+
+  const { dir, stem, ext } = rotatedStem(logPath);
+  const stamp = staleDay
+    ? stat.mtime.toISOString().slice(0, 10)
+    : now.toISOString().replace(/[:.]/g, "-");
+  let target = path.join(dir, `${stem}.${stamp}${ext}`);
+  for (let n = 1; fs.existsSync(target); n++) {
+    target = path.join(dir, `${stem}.${stamp}-${n}${ext}`);
+  }
+  fs.renameSync(logPath, target);
+  if (options.maxFiles) pruneRotatedAuditLogs(logPath, options.maxFiles);
+  return target;
+}
+
+/** `<day>`, `<day>T<time>Z`, optionally followed by `-<n>` when the stamp was taken. */
+const ROTATED_STAMP_RE = /^(\d{4}-\d{2}-\d{2})(T[\d-]+Z)?(?:-(\d+))?$/;
+
+/**
+ * Sort key for a rotated file's stamp, or undefined for files that are not
+ * rotated logs. A daily file holds what was left of its day after any size
+ * rotations that day, so it sorts after them; `-<n>` collisions sort after the
+ * unsuffixed file.
+ */
+function rotatedSortKey(stamp: string): { time: string; n: number } | undefined {
+  const m = ROTATED_STAMP_RE.exec(stamp);
+  if (!m) return undefined;
+  return { time: `${m[1]}${m[2] ?? "T~"}`, n: m[3] ? Number(m[3]) : 0 };
+}
+
+/** The active log followed by rotated files, newest first. */
+export function listAuditLogFiles(logPath: string = AUDIT_LOG_PATH): string[] {
+  const { dir, stem, ext } = rotatedStem(logPath);
+  let rotated: Array<{ file: string; time: string; n: number }> = [];
+  try {
+    rotated = fs.readdirSync(dir)
+      .filter((name) => name.startsWith(`${stem}.`) && name.endsWith(ext) && name !== path.basename(logPath))
+      .flatMap((name) => {
+        const key = rotatedSortKey(name.slice(stem.length + 1, name.length - ext.length));
+        return key ? [{ file: path.join(dir, name), ...key }] : [];
+      });
+  } catch {
+    // Directory missing — nothing rotated yet
+  }
+  rotated.sort((a, b) => (a.time === b.time ? b.n - a.n : a.time < b.time ? 1 : -1));
+  return [logPath, ...rotated.map((r) => r.file)];
+}
+
+/** Delete the oldest rotated files beyond `maxFiles`. Returns the deleted paths. */
+export function pruneRotatedAuditLogs(logPath: string, maxFiles: number): string[] {
+  const removed: string[] = [];
+  for (const file of listAuditLogFiles(logPath).slice(1 + maxFiles)) {
+    try {
+      fs.unlinkSync(file);
+      removed.push(file);
+    } catch (err) {
+      process.stderr.write(`[audit] Failed to delete rotated audit log ${file}: ${err}\n`);
+    }
+  }
+  return removed;
 }
 
 /**
  * Append an audit entry to the JSONL log file.
  * Called BEFORE every mutating API call so the intent is recorded
  * even if the call fails. Never throws — audit failures are logged
- * to stderr only.
+ * to stderr only. Returns the entry ID.
  */
-export function writeAuditLog(entry: AuditEntry): void {
-  const line = JSON.stringify(entry) + "\n";
+export function writeAuditLog(
+  entry: AuditEntry,
+  logPath: string = AUDIT_LOG_PATH,
+  rotation: AuditRotationOptions = getAuditRotationOptions(),
+): string {
+  const id = entry.id ?? crypto.randomUUID();
+  const user = entry.user ?? getCurrentContext()?.username;
+  const line = JSON.stringify({ id, ...entry, ...(user ? { user } : {}) }) + "\n";
   try {
-    fs.appendFileSync(AUDIT_LOG_PATH, line, { encoding: "utf-8" });
+    rotateAuditLogIfNeeded(logPath, Buffer.byteLength(line, "utf-8"), rotation);
+  } catch (err) {
+    process.stderr.write(`[audit] Failed to rotate audit log: ${err}\n`);
+  }
+  try {
+    fs.appendFileSync(logPath, line, { encoding: "utf-8" });
   } catch (err) {
     process.stderr.write(`[audit] Failed to write audit log: ${err}\n`);
   }
+  return id;
+}
+
+export interface AuditReadOptions {
+  /** Keep only entries that pass this predicate. */
+  filter?: (entry: AuditEntry) => boolean;
+  /** Stop opening older files once at least this many entries were kept. */
+  limit?: number;
+}
+
+/**
+ * Read parseable entries from the audit log, including rotated files, in
+ * write order (oldest first). Files are opened newest first, so a `limit`
+ * skips the older files once enough entries were found. Malformed lines are
+ * skipped; missing files yield nothing.
+ */
+export function readAuditLog(logPath: string = AUDIT_LOG_PATH, options: AuditReadOptions = {}): AuditEntry[] {
+  const perFile: AuditEntry[][] = [];
+  let kept = 0;
+  for (const file of listAuditLogFiles(logPath)) {
+    if (options.limit !== undefined && kept >= options.limit) break;
+    let raw: string;
+    try {
+      raw = fs.readFileSync(file, "utf-8");
+    } catch {
+      continue;
+    }
+    const entries: AuditEntry[] = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as AuditEntry;
+        if (!options.filter || options.filter(entry)) entries.push(entry);
+      } catch {
+        // Skip partially-written or corrupted lines
+      }
+    }
+    perFile.push(entries);
+    kept += entries.length;
+  }
+  return perFile.reverse().flat();
+}
+
+export function findAuditEntry(id: string, logPath: string = AUDIT_LOG_PATH): AuditEntry | undefined {
+  return readAuditLog(logPath, { filter: (e) => e.id === id, limit: 1 })[0];
+}
+
+export interface AuditQuery {
+  /** Tool name, with or without the adv_ prefix. */
+  tool?: string;
+  projectKey?: string;
+  user?: string;
+  method?: AuditEntry["method"];
+  /** Inclusive ISO-8601 lower bound. */
+  from?: string;
+  /** Inclusive ISO-8601 upper bound. */
+  to?: string;
+}
+
+/** Filter entries and sort newest first. Text filters are case-insensitive exact matches. */
+export function filterAuditEntries(entries: AuditEntry[], query: AuditQuery): AuditEntry[] {
+  const tool = query.tool?.replace(/^adv_/, "").toLowerCase();
+  const projectKey = query.projectKey?.toLowerCase();
+  const user = query.user?.toLowerCase();
+  const fromMs = query.from ? Date.parse(query.from) : undefined;
+  const toMs = query.to ? Date.parse(query.to) : undefined;
+
+  return entries
+    .filter((e) => {
+      if (tool && e.tool?.toLowerCase() !== tool) return false;
+      if (projectKey && e.projectKey?.toLowerCase() !== projectKey) return false;
+      if (user && e.user?.toLowerCase() !== user) return false;
+      if (query.method && e.method !== query.method) return false;
+      const ts = Date.parse(e.timestamp);
+      if (fromMs !== undefined && !(ts >= fromMs)) return false;
+      if (toMs !== undefined && !(ts <= toMs)) return false;
+      return true;
+    })
+    .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+}
+
+/**
+ * Entries the caller may see. In HTTP mode that is only the caller's own
+ * entries; without a request context (stdio) the whole log is visible.
+ */
+export function visibleAuditEntries(entries: AuditEntry[]): AuditEntry[] {
+  const user = getCurrentContext()?.username?.toLowerCase();
+  if (user === undefined) return entries;
+  return entries.filter((e) => e.user?.toLowerCase() === user);
+}
+
+/** Single-entry form of visibleAuditEntries, for use as a readAuditLog filter. */
+export function isAuditEntryVisible(entry: AuditEntry): boolean {
+  return visibleAuditEntries([entry]).length > 0;
+}
+
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+  return toCsv(
+    ["id", "timestamp", "user", "tool", "method", "projectKey", "url", "target", "payload"],
+    entries.map((e) => [
+      e.id, e.timestamp, e.user, e.tool, e.method, e.projectKey, e.url,
+      e.target ? `${e.target.type}:${e.target.identifier}` : "",
+      e.payload,
+    ]),
+  );
 }
 
 export { AUDIT_LOG_PATH };
@@ -0,0 +1,74 @@
+import { computeDiff, type FieldDiff } from "./diff.js";
+
+export type BulkItemResult<R> =
+  | { item: string; ok: true; value: R }
+  | { item: string; ok: false; error: string };
+
+/**
+ * Run `worker` over `items` with at most `concurrency` calls in flight.
+ * Never rejects — each item settles to its own success/failure entry, in input order.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  label: (item: T) => string,
+  worker: (item: T) => Promise<R>,
+): Promise<BulkItemResult<R>[]> {
+  const results: BulkItemResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  async function lane(): Promise<void> {
+    while (nextIndex < items.length) {
+      const i = nextIndex++;
+      const item = items[i];
+      try {
+        results[i] = { item: label(item), ok: true, value: await worker(item) };
+      } catch (err: unknown) {
+        results[i] = { item: label(item), ok: false, error: err instanceof Error ? err.message : String(err) };
+      }
+    }
+  }
+
+  const lanes = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: lanes }, () => lane()));
+  return results;
+}
+
+type Rec = Record<string, unknown>;
+
+function asRec(v: unknown): Rec | undefined {
+  return v && typeof v === "object" && !Array.isArray(v) ? (v as Rec) : undefined;
+}
+
+/**
+ * Project a fetched value onto the shape of a PATCH value so the two can be
+ * compared: `{ id }` / `{ name }` references keep only the referenced key,
+ * customField keeps only the patched keys.
+ */
+function projectCurrent(field: string, current: unknown, patchValue: unknown): unknown {
+  const patchRec = asRec(patchValue);
+  const cur = asRec(current);
+  if (field === "customField" && patchRec) {
+    return Object.fromEntries(Object.keys(patchRec).map((k) => [k, cur?.[k] ?? null]));
+  }
+  if (patchRec && cur) {
+    if ("id" in patchRec) return { id: cur.id };
+    if ("name" in patchRec && typeof cur.name === "string" && typeof patchRec.name === "string") {
+      // Names are resolved case-insensitively by the API
+      return cur.name.toLowerCase() === patchRec.name.toLowerCase() ? patchRec : { name: cur.name };
+    }
+  }
+  return current ?? null;
+}
+
+/**
+ * Field-level diff a PATCH would produce on one record (current → patched).
+ * Empty when the record already matches the patch.
+ */
+export function diffPatchAgainst(current: Rec, patch: Rec): FieldDiff[] {
+  const currentView: Rec = {};
+  for (const [field, value] of Object.entries(patch)) {
+    currentView[field] = projectCurrent(field, current[field], value);
+  }
+  return computeDiff(currentView, patch);
+}
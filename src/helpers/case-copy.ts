@@ -0,0 +1,217 @@
+import type { ZebrunnerMutationClient } from "../api/mutation-client.js";
+import type { CustomFieldDef, SettingsItem } from "./settings.js";
+import { fileRefs, requirementRefs, stepRefs } from "./revert.js";
+import { writeAuditLog } from "./audit.js";
+import { collectAllFileUuids, reUploadFiles, applyUuidMapping, stripFailedFileRefs } from "./file-refs.js";
+
+type Rec = Record<string, unknown>;
+
+function asRec(v: unknown): Rec | undefined {
+  return v && typeof v === "object" && !Array.isArray(v) ? (v as Rec) : undefined;
+}
+
+/**
+ * Convert a fetched test case (GET shape) into a POST /test-cases payload
+ * placed in `targetSuiteId`. Priority and automation state are carried by
+ * name so they resolve in any project; IDs are remapped later when needed.
+ */
+export function buildCaseCopyPayload(source: Rec, targetSuiteId: number): Rec {
+  const payload: Rec = {
+    testSuite: { id: targetSuiteId },
+    title: source.title,
+  };
+  for (const field of ["description", "preConditions", "postConditions"]) {
+    if (typeof source[field] === "string" && source[field]) payload[field] = source[field];
+  }
+  if (typeof source.draft === "boolean") payload.draft = source.draft;
+  if (typeof source.deprecated === "boolean") payload.deprecated = source.deprecated;
+
+  const priorityName = asRec(source.priority)?.name;
+  if (typeof priorityName === "string") payload.priority = { name: priorityName };
+  const stateName = asRec(source.automationState)?.name;
+  if (typeof stateName === "string") payload.automationState = { name: stateName };
+
+  const steps = stepRefs(source.steps);
+  if (steps.length > 0) payload.steps = steps;
+  const requirements = requirementRefs(source.requirements);
+  if (requirements.length > 0) payload.requirements = requirements;
+  const attachments = fileRefs(source.attachments);
+  if (attachments.length > 0) payload.attachments = attachments;
+
+  const customField = asRec(source.customField);
+  if (customField) {
+    const nonEmpty = Object.entries(customField).filter(([, v]) => v !== null && v !== undefined && v !== "");
+    if (nonEmpty.length > 0) payload.customField = Object.fromEntries(nonEmpty);
+  }
+  return payload;
+}
+
+export interface TargetProjectSettings {
+  priorities: SettingsItem[];
+  automationStates: SettingsItem[];
+  customFields: CustomFieldDef[];
+}
+
+export interface SettingsRemapResult {
+  payload: Rec;
+  /** Human-readable descriptions of values dropped because the target project has no equivalent. */
+  unmapped: string[];
+}
+
+function findByName(items: SettingsItem[], name: string): SettingsItem | undefined {
+  const lower = name.toLowerCase();
+  return items.find((i) => i.name.toLowerCase() === lower);
+}
+
+/**
+ * Remap project-scoped references of a copy payload onto the target project.
+ *
+ * - priority / automationState: matched by name (case-insensitive) → `{ id }`
+ * - customField: matched by systemName, then by display name; disabled or
+ *   missing target fields are dropped
+ * - shared steps: dropped (shared step groups are project-scoped)
+ *
+ * Everything dropped is listed in `unmapped`.
+ */
+export function remapCaseSettings(
+  payload: Rec,
+  target: TargetProjectSettings,
+  sourceCustomFields: CustomFieldDef[] = [],
+): SettingsRemapResult {
+  const result: Rec = { ...payload };
+  const unmapped: string[] = [];
+
+  for (const [field, items, label] of [
+    ["priority", target.priorities, "priority"],
+    ["automationState", target.automationStates, "automation state"],
+  ] as const) {
+    const name = asRec(result[field])?.name;
+    if (typeof name !== "string") continue;
+    const match = findByName(items, name);
+    if (match) {
+      result[field] = { id: match.id };
+    } else {
+      delete result[field];
+      unmapped.push(`${label} "${name}"`);
+    }
+  }
+
+  const customField = asRec(result.customField);
+  if (customField) {
+    const bySystemName = new Map(target.customFields.map((f) => [f.systemName, f]));
+    const byName = new Map(target.customFields.map((f) => [f.name.toLowerCase(), f]));
+    const sourceDefs = new Map(sourceCustomFields.map((f) => [f.systemName, f]));
+    const mapped: Rec = {};
+    for (const [key, value] of Object.entries(customField)) {
+      const displayName = sourceDefs.get(key)?.name;
+      const def = bySystemName.get(key) ?? (displayName ? byName.get(displayName.toLowerCase()) : undefined);
+      if (!def) {
+        unmapped.push(`custom field "${displayName ?? key}"`);
+      } else if (!def.enabled) {
+        unmapped.push(`custom field "${def.name}" (disabled in target project)`);
+      } else {
+        mapped[def.systemName] = value;
+      }
+    }
+    if (Object.keys(mapped).length > 0) result.customField = mapped;
+    else delete result.customField;
+  }
+
+  if (Array.isArray(result.steps)) {
+    const steps = result.steps as Rec[];
+    const kept = steps.filter((s) => typeof s.sharedStepsId !== "number");
+    if (kept.length < steps.length) {
+      unmapped.push(`${steps.length - kept.length} shared step reference(s)`);
+      if (kept.length > 0) result.steps = kept;
+      else delete result.steps;
+    }
+  }
+
+  return { payload: result, unmapped };
+}
+
+export interface CaseCopyContext {
+  sourceProject: string;
+  targetProject: string;
+  crossProject: boolean;
+  /** Present only for cross-project copies (references must be remapped). */
+  targetSettings?: TargetProjectSettings;
+  sourceCustomFields: CustomFieldDef[];
+}
+
+/** Fetch the settings needed to remap copies into `targetProject` (no requests for same-project copies). */
+export async function loadCaseCopyContext(
+  mutationClient: ZebrunnerMutationClient,
+  sourceProject: string,
+  targetProject: string,
+): Promise<CaseCopyContext> {
+  const crossProject = targetProject.toUpperCase() !== sourceProject.toUpperCase();
+  if (!crossProject) {
+    return { sourceProject, targetProject, crossProject, sourceCustomFields: [] };
+  }
+  const [priorities, states, targetFields, sourceFields] = await Promise.all([
+    mutationClient.getPriorities(targetProject),
+    mutationClient.getAutomationStates(targetProject),
+    mutationClient.getCustomFields(targetProject),
+    mutationClient.getCustomFields(sourceProject),
+  ]);
+  return {
+    sourceProject,
+    targetProject,
+    crossProject,
+    targetSettings: {
+      priorities: priorities.items as SettingsItem[],
+      automationStates: states.items as SettingsItem[],
+      customFields: targetFields.items as unknown as CustomFieldDef[],
+    },
+    sourceCustomFields: sourceFields.items as unknown as CustomFieldDef[],
+  };
+}
+
+/** Build the create payload for one source case, remapped for the target project when needed. */
+export function prepareCaseCopy(ctx: CaseCopyContext, source: Rec, targetSuiteId: number): SettingsRemapResult {
+  const payload = buildCaseCopyPayload(source, targetSuiteId);
+  return ctx.targetSettings
+    ? remapCaseSettings(payload, ctx.targetSettings, ctx.sourceCustomFields)
+    : { payload, unmapped: [] };
+}
+
+/**
+ * Create one copied test case: re-uploads file references when crossing
+ * projects, writes the audit entry, then POSTs. `notes` describes the file
+ * transfer outcome.
+ */
+export async function createCaseCopy(
+  mutationClient: ZebrunnerMutationClient,
+  ctx: CaseCopyContext,
+  payload: Rec,
+  tool: string,
+): Promise<{ created: Rec; auditId: string; notes: string[] }> {
+  const notes: string[] = [];
+  let body = payload;
+  if (ctx.crossProject) {
+    const { attachmentUuids, inlineUuids } = collectAllFileUuids(body);
+    const uuids = [...new Set([...attachmentUuids, ...inlineUuids])];
+    if (uuids.length > 0) {
+      const { uuidMap, failures } = await reUploadFiles(uuids, mutationClient);
+      body = applyUuidMapping(body, uuidMap);
+      if (failures.length > 0) {
+        body = stripFailedFileRefs(body, failures).cleanedPayload;
+        notes.push(`${failures.length} of ${uuids.length} file(s) could not be transferred and were stripped`);
+      } else {
+        notes.push(`${uuidMap.size} file(s) re-uploaded`);
+      }
+    }
+  }
+
+  const auditId = writeAuditLog({
+    timestamp: new Date().toISOString(),
+    tool,
+    method: "POST",
+    url: `/test-cases?projectKey=${encodeURIComponent(ctx.targetProject)}`,
+    projectKey: ctx.targetProject,
+    payload: body,
+  });
+  const created = (await mutationClient.createTestCase(ctx.targetProject, body)).data ?? {};
+  return { created, auditId, notes };
+}
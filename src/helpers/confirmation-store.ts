@@ -0,0 +1,234 @@
+import { mkdir, readFile, unlink, readdir, open } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { deriveKey, encrypt, decrypt } from '../http/crypto.js';
+import { isNodeEnoent } from '../http/oauth-path-utils.js';
+import { RespClient } from '../utils/resp-client.js';
+
+/** Preview → confirm window for two-step mutation tools. */
+export const CONFIRMATION_TOKEN_TTL_MS = 10 * 60 * 1000;
+
+const CONFIRMATION_KEY_SALT = 'mcp-zebrunner-confirmation-store';
+const CONFIRMATION_TOKEN_PATTERN = /^[a-f0-9]{8,64}$/;
+const REDIS_KEY_PREFIX = 'mcp-zebrunner:confirm:';
+
+export interface PendingConfirmation {
+  /** Full tool args captured at preview time, restored on confirm. */
+  argsJson: string;
+  createdAt: number;
+  /** Lower-cased username from requestContext; undefined in STDIO mode. */
+  owner?: string;
+  /** Tool whose preview issued the token; only that tool may redeem it. */
+  tool?: string;
+}
+
+export interface ConfirmationStore {
+  readonly backend: 'memory' | 'file' | 'redis';
+  set(token: string, data: PendingConfirmation): Promise<void>;
+  get(token: string): Promise<PendingConfirmation | null>;
+  /** Returns true only for the caller that actually removed the entry (one-time use across replicas). */
+  delete(token: string): Promise<boolean>;
+  sweepExpired(): Promise<void>;
+}
+
+export function sanitizeConfirmationToken(token: unknown): void {
+  if (typeof token !== 'string' || !CONFIRMATION_TOKEN_PATTERN.test(token)) {
+    throw new Error('Invalid confirmation token');
+  }
+}
+
+function isExpired(createdAt: number): boolean {
+  return Date.now() - createdAt > CONFIRMATION_TOKEN_TTL_MS;
+}
+
+export class InMemoryConfirmationStore implements ConfirmationStore {
+  readonly backend = 'memory' as const;
+  private entries = new Map<string, PendingConfirmation>();
+
+  async set(token: string, data: PendingConfirmation): Promise<void> {
+    sanitizeConfirmationToken(token);
+    this.entries.set(token, data);
+  }
+
+  async get(token: string): Promise<PendingConfirmation | null> {
+    sanitizeConfirmationToken(token);
+    return this.entries.get(token) ?? null;
+  }
+
+  async delete(token: string): Promise<boolean> {
+    sanitizeConfirmationToken(token);
+    return this.entries.delete(token);
+  }
+
+  async sweepExpired(): Promise<void> {
+    for (const [token, val] of this.entries) {
+      if (isExpired(val.createdAt)) this.entries.delete(token);
+    }
+  }
+}
+
+/**
+ * Encrypted file-based confirmation store (one AES-256-GCM file per token).
+ * Point several replicas at the same shared directory so a preview issued on
+ * one pod can be confirmed on another, or after a restart.
+ */
+export class FileConfirmationStore implements ConfirmationStore {
+  readonly backend = 'file' as const;
+  private baseDir: string;
+  private key: Buffer;
+
+  constructor(baseDir: string, encryptionKey: string) {
+    this.baseDir = baseDir;
+    this.key = deriveKey(encryptionKey, CONFIRMATION_KEY_SALT);
+  }
+
+  private pathFor(token: string): string {
+    sanitizeConfirmationToken(token);
+    const resolved = resolve(this.baseDir, `${token}.enc`);
+    const base = resolve(this.baseDir);
+    if (!resolved.startsWith(base + '/')) {
+      throw new Error('Invalid store path');
+    }
+    return resolved;
+  }
+
+  private async readEncrypted(filePath: string): Promise<PendingConfirmation | null> {
+    try {
+      const raw = await readFile(filePath, 'utf8');
+      return JSON.parse(decrypt(raw, this.key)) as PendingConfirmation;
+    } catch (err: unknown) {
+      if (isNodeEnoent(err)) return null;
+      throw err;
+    }
+  }
+
+  async set(token: string, data: PendingConfirmation): Promise<void> {
+    const filePath = this.pathFor(token);
+    await mkdir(dirname(filePath), { recursive: true });
+    const fh = await open(filePath, 'w', 0o600);
+    try {
+      await fh.writeFile(encrypt(JSON.stringify(data), this.key), 'utf8');
+    } finally {
+      await fh.close();
+    }
+  }
+
+  async get(token: string): Promise<PendingConfirmation | null> {
+    return this.readEncrypted(this.pathFor(token));
+  }
+
+  async delete(token: string): Promise<boolean> {
+    try {
+      await unlink(this.pathFor(token));
+      return true;
+    } catch (err: unknown) {
+      if (isNodeEnoent(err)) return false;
+      throw err;
+    }
+  }
+
+  async sweepExpired(): Promise<void> {
+    let names: string[];
+    try {
+      names = await readdir(this.baseDir);
+    } catch (err: unknown) {
+      if (isNodeEnoent(err)) return;
+      throw err;
+    }
+    for (const name of names) {
+      if (!name.endsWith('.enc')) continue;
+      const filePath = join(this.baseDir, name);
+      const val = await this.readEncrypted(filePath).catch(() => null);
+      if (!val || isExpired(val.createdAt)) {
+        await unlink(filePath).catch(() => {});
+      }
+    }
+  }
+}
+
+/**
+ * Minimal subset of a Redis client (node-redis v4 / ioredis compatible call
+ * shapes). By default the store connects with the bundled RESP client to the
+ * configured Redis URL; deployments may also pass their own connected client.
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+  del(key: string): Promise<number>;
+}
+
+export class RedisConfirmationStore implements ConfirmationStore {
+  readonly backend = 'redis' as const;
+  private client: RedisLikeClient;
+  private key: Buffer;
+
+  constructor(client: RedisLikeClient, encryptionKey: string) {
+    this.client = client;
+    this.key = deriveKey(encryptionKey, CONFIRMATION_KEY_SALT);
+  }
+
+  private redisKey(token: string): string {
+    sanitizeConfirmationToken(token);
+    return `${REDIS_KEY_PREFIX}${token}`;
+  }
+
+  async set(token: string, data: PendingConfirmation): Promise<void> {
+    const ttlMs = Math.max(1, CONFIRMATION_TOKEN_TTL_MS - (Date.now() - data.createdAt));
+    await this.client.set(this.redisKey(token), encrypt(JSON.stringify(data), this.key), 'PX', ttlMs);
+  }
+
+  async get(token: string): Promise<PendingConfirmation | null> {
+    const raw = await this.client.get(this.redisKey(token));
+    if (raw == null) return null;
+    return JSON.parse(decrypt(raw, this.key)) as PendingConfirmation;
+  }
+
+  async delete(token: string): Promise<boolean> {
+    return (await this.client.del(this.redisKey(token))) > 0;
+  }
+
+  async sweepExpired(): Promise<void> {
+    // Redis expires keys on its own (PX TTL set on write).
+  }
+}
+
+export interface CreateConfirmationStoreOptions {
+  /** Connected Redis-compatible client; takes precedence over file/memory backends. */
+  redisClient?: RedisLikeClient;
+  /**
+   * Shared Redis URL (e.g. the response cache's), used when no client is
+   * supplied and TOKEN_STORE_KEY is set. CONFIRMATION_STORE_REDIS_URL wins.
+   */
+  redisUrl?: string;
+}
+
+/**
+ * Pick the confirmation store backend:
+ *   1. Redis — when a client is supplied or a Redis URL is configured
+ *              (CONFIRMATION_STORE_REDIS_URL, else `redisUrl`); requires
+ *              TOKEN_STORE_KEY for encryption
+ *   2. File  — CONFIRMATION_STORE_DIR, or `<dirname(TOKEN_STORE_PATH)>/confirmations`,
+ *              when TOKEN_STORE_KEY is set
+ *   3. Memory — default (STDIO and single-replica HTTP)
+ */
+export function createConfirmationStore(options: CreateConfirmationStoreOptions = {}): ConfirmationStore {
+  const storeKey = process.env.TOKEN_STORE_KEY?.trim();
+  const redisUrl = process.env.CONFIRMATION_STORE_REDIS_URL?.trim() || (storeKey ? options.redisUrl : undefined);
+  if (options.redisClient || redisUrl) {
+    if (!storeKey) {
+      throw new Error('Redis confirmation store requires TOKEN_STORE_KEY for payload encryption');
+    }
+    return new RedisConfirmationStore(options.redisClient ?? new RespClient(redisUrl!), storeKey);
+  }
+
+  const explicitDir = process.env.CONFIRMATION_STORE_DIR?.trim();
+  const tokenPath = process.env.TOKEN_STORE_PATH?.trim();
+  if (storeKey && (explicitDir || tokenPath)) {
+    if (explicitDir?.includes('\0')) {
+      throw new Error('Invalid CONFIRMATION_STORE_DIR');
+    }
+    const dir = explicitDir ? resolve(explicitDir) : join(resolve(dirname(tokenPath!)), 'confirmations');
+    return new FileConfirmationStore(dir, storeKey);
+  }
+
+  return new InMemoryConfirmationStore();
+}
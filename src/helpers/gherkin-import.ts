@@ -0,0 +1,102 @@
+import type { GherkinCase } from "../utils/gherkin.js";
+import type { CustomFieldDef } from "./settings.js";
+import { diffPatchAgainst } from "./bulk.js";
+import type { FieldDiff } from "./diff.js";
+
+type Rec = Record<string, unknown>;
+
+export interface GherkinTagMapping {
+  /** Tag name → custom field systemName; `@name:value` / `@name=value` sets the field to `value`. */
+  tagFields: Record<string, string>;
+  /** Custom field systemName that receives all other tags. Without it they are listed in the description. */
+  tagsField?: string;
+}
+
+export type GherkinImportAction = "create" | "update" | "unchanged";
+
+export interface GherkinImportItem {
+  case: GherkinCase;
+  action: GherkinImportAction;
+  /** Existing case the scenario maps to (update / unchanged). */
+  key?: string;
+  matchedBy?: "key" | "title";
+  /** Create payload, or PATCH payload for updates. */
+  payload: Rec;
+  diffs: FieldDiff[];
+}
+
+/** Custom field values collected from tags, shaped by the field's data type. */
+export function mapTagsToCustomFields(
+  tags: string[],
+  mapping: GherkinTagMapping,
+  fieldDefs: CustomFieldDef[],
+): { customField: Rec; unmapped: string[] } {
+  const values = new Map<string, string[]>();
+  const unmapped: string[] = [];
+  const add = (field: string, value: string) => {
+    const list = values.get(field) ?? [];
+    if (!list.includes(value)) list.push(value);
+    values.set(field, list);
+  };
+
+  for (const tag of tags) {
+    const sep = tag.search(/[:=]/);
+    const name = sep > 0 ? tag.slice(0, sep) : tag;
+    const field = mapping.tagFields[name];
+    if (field && sep > 0) add(field, tag.slice(sep + 1));
+    else if (mapping.tagsField) add(mapping.tagsField, tag);
+    else unmapped.push(tag);
+  }
+
+  const types = new Map(fieldDefs.map(f => [f.systemName, f.dataType]));
+  const customField: Rec = {};
+  for (const [field, list] of values) {
+    customField[field] = types.get(field) === "MULTI_SELECT" ? list : list.join(", ");
+  }
+  return { customField, unmapped };
+}
+
+/**
+ * Create payload for one imported scenario. New cases are always drafts,
+ * like the ones created by create_test_case.
+ */
+export function buildGherkinCasePayload(
+  c: GherkinCase,
+  suiteId: number,
+  mapping: GherkinTagMapping,
+  fieldDefs: CustomFieldDef[],
+): Rec {
+  const { customField, unmapped } = mapTagsToCustomFields(c.tags, mapping, fieldDefs);
+  const tagLine = unmapped.length > 0 ? `**Tags:** ${unmapped.map(t => `@${t}`).join(" ")}` : "";
+  const description = [c.description, tagLine].filter(Boolean).join("\n\n");
+
+  const payload: Rec = {
+    testSuite: { id: suiteId },
+    title: c.title,
+    draft: true,
+  };
+  if (description) payload.description = description;
+  if (c.preConditions) payload.preConditions = c.preConditions;
+  payload.steps = c.steps;
+  if (Object.keys(customField).length > 0) payload.customField = customField;
+  return payload;
+}
+
+/**
+ * Compares a create payload with the existing case it maps to. Updates never
+ * move the case or change its draft flag; steps are compared on action and
+ * expected result only.
+ */
+export function planGherkinUpdate(existing: Rec, payload: Rec): { patch: Rec; diffs: FieldDiff[] } {
+  const patch: Rec = { ...payload };
+  delete patch.testSuite;
+  delete patch.draft;
+  const current: Rec = { ...existing };
+  if (Array.isArray(existing.steps)) {
+    current.steps = (existing.steps as Rec[]).map(s => ({
+      action: typeof s.action === "string" ? s.action : "",
+      expectedResult: typeof s.expectedResult === "string" ? s.expectedResult : "",
+    }));
+  }
+  return { patch, diffs: diffPatchAgainst(current, patch) };
+}
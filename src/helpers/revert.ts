@@ -0,0 +1,215 @@
+import { createHash } from "node:crypto";
+import type { AuditEntry, AuditTargetType } from "./audit.js";
+import { computeDiff, type FieldDiff } from "./diff.js";
+
+/** Tools whose audit entries carry enough state to be reverted. */
+export const REVERTABLE_TOOLS: ReadonlySet<string> = new Set([
+  "update_test_case",
+  "bulk_update_test_cases",
+  "copy_test_cases",
+  "update_test_suite",
+  "manage_test_run",
+  "revert_change",
+  "scan_automation_repo",
+]);
+
+export interface RevertPlan {
+  targetType: AuditTargetType;
+  identifier: string | number;
+  method: "PUT" | "PATCH";
+  /** Payload that restores the before-snapshot for every field the audited change touched. */
+  payload: Record<string, unknown>;
+  /** Current value → restored value, per field. */
+  diffs: FieldDiff[];
+  /** Fields whose current value no longer matches what the audited change wrote. */
+  conflicts: string[];
+  /** Fields that cannot be restored (e.g. the before value was empty and the API rejects null). */
+  skipped: string[];
+}
+
+type Rec = Record<string, unknown>;
+
+function asRec(v: unknown): Rec | undefined {
+  return v && typeof v === "object" && !Array.isArray(v) ? (v as Rec) : undefined;
+}
+
+function idRef(v: unknown): { id: number } | null {
+  const r = asRec(v);
+  return r && typeof r.id === "number" ? { id: r.id } : null;
+}
+
+export function fileRefs(v: unknown): Array<{ fileUuid: string }> {
+  if (!Array.isArray(v)) return [];
+  return v
+    .map((a) => asRec(a)?.fileUuid)
+    .filter((u): u is string => typeof u === "string")
+    .map((fileUuid) => ({ fileUuid }));
+}
+
+export function requirementRefs(v: unknown): Array<{ source: unknown; reference: unknown }> {
+  if (!Array.isArray(v)) return [];
+  return v.map((r) => ({ source: asRec(r)?.source, reference: asRec(r)?.reference }));
+}
+
+export function stepRefs(v: unknown): Rec[] {
+  if (!Array.isArray(v)) return [];
+  return v.map((raw) => {
+    const s = asRec(raw) ?? {};
+    const step: Rec = {};
+    if (typeof s.sharedStepsId === "number") step.sharedStepsId = s.sharedStepsId;
+    if (s.action !== undefined && s.action !== null) step.action = s.action;
+    if (s.expectedResult !== undefined && s.expectedResult !== null) step.expectedResult = s.expectedResult;
+    const atts = fileRefs(s.attachments);
+    if (atts.length > 0) step.attachments = atts;
+    return step;
+  });
+}
+
+/**
+ * Convert one field of a fetched record (GET shape) into the shape the
+ * corresponding PATCH/PUT endpoint accepts. Returns `undefined` when the
+ * value cannot be expressed in the write API (caller reports it as skipped).
+ */
+function toWriteValue(targetType: AuditTargetType, field: string, record: Rec, payloadValue: unknown): unknown {
+  const value = record[field];
+  switch (targetType) {
+    case "test_case":
+      switch (field) {
+        case "testSuite":
+          return idRef(value) ?? undefined;
+        case "priority":
+        case "automationState":
+          return idRef(value) ?? undefined;
+        case "steps":
+          return stepRefs(value);
+        case "requirements":
+          return requirementRefs(value);
+        case "attachments":
+          return fileRefs(value);
+        case "customField": {
+          const before = asRec(value) ?? {};
+          const keys = Object.keys(asRec(payloadValue) ?? {});
+          return Object.fromEntries(keys.map((k) => [k, before[k] ?? null]));
+        }
+        case "title":
+          return typeof value === "string" && value ? value : undefined;
+        default:
+          return value ?? null;
+      }
+    case "test_suite":
+      switch (field) {
+        case "title":
+          return typeof value === "string" && value ? value : undefined;
+        case "parentSuiteId":
+          return value ?? null;
+        default:
+          return value ?? undefined;
+      }
+    case "test_run":
+      switch (field) {
+        case "milestone":
+          return idRef(value) ?? undefined;
+        case "environment": {
+          const key = asRec(value)?.key;
+          return typeof key === "string" ? { key } : undefined;
+        }
+        case "configurations":
+          return Array.isArray(value)
+            ? value.map((c) => ({ group: idRef(asRec(c)?.group), option: idRef(asRec(c)?.option) }))
+            : [];
+        case "requirements":
+          return requirementRefs(value);
+        case "title":
+          return typeof value === "string" && value ? value : undefined;
+        default:
+          return value ?? null;
+      }
+  }
+}
+
+/** True when the current record still holds the value the audited change wrote. */
+function matchesWritten(current: unknown, written: unknown): boolean {
+  const cur = asRec(current);
+  const w = asRec(written);
+  if (w && cur && !Array.isArray(written)) {
+    if (typeof w.id === "number") return cur.id === w.id;
+    if (typeof w.name === "string" && typeof cur.name === "string") {
+      return cur.name.toLowerCase() === w.name.toLowerCase();
+    }
+    if (typeof w.key === "string") return cur.key === w.key;
+  }
+  return JSON.stringify(current ?? null) === JSON.stringify(written ?? null);
+}
+
+/** PUT replaces the whole suite, so a suite revert always restores all writable fields. */
+const SUITE_PUT_FIELDS = ["title", "description", "parentSuiteId"];
+
+/**
+ * Build the reverse operation for an audited update.
+ *
+ * @param entry   Audit entry with `target` and `before` recorded
+ * @param current Record as it is now (used for the reverse diff and conflict check)
+ */
+export function buildRevertPlan(entry: AuditEntry, current: Rec): RevertPlan {
+  if (!REVERTABLE_TOOLS.has(entry.tool)) {
+    throw new Error(`Audit entry tool '${entry.tool}' is not revertable (supported: update_test_case, bulk_update_test_cases, update_test_suite, manage_test_run update, scan_automation_repo confirm)`);
+  }
+  if (!entry.target || !entry.before) {
+    throw new Error("Audit entry has no before-snapshot — it was written before revert support or by a create/add action");
+  }
+  if (entry.method === "POST") {
+    throw new Error("Only PUT/PATCH updates can be reverted; POST (create/add) entries cannot");
+  }
+  const payload = asRec(entry.payload) ?? {};
+  const { type: targetType, identifier } = entry.target;
+
+  const revertPayload: Rec = {};
+  const currentView: Rec = {};
+  const conflicts: string[] = [];
+  const skipped: string[] = [];
+
+  const fields = targetType === "test_suite"
+    ? [...new Set([...SUITE_PUT_FIELDS, ...Object.keys(payload)])]
+    : Object.keys(payload);
+
+  for (const field of fields) {
+    const restored = toWriteValue(targetType, field, entry.before, payload[field]);
+    if (restored === undefined) {
+      // Omitting description from a suite PUT clears it, which is the correct restore
+      if (!(targetType === "test_suite" && field === "description")) skipped.push(field);
+      continue;
+    }
+    revertPayload[field] = restored;
+    currentView[field] = toWriteValue(targetType, field, current, payload[field]) ?? null;
+
+    if (!(field in payload)) continue;
+    if (field === "customField") {
+      const cur = asRec(current.customField) ?? {};
+      for (const [k, v] of Object.entries(asRec(payload.customField) ?? {})) {
+        if (!matchesWritten(cur[k], v)) conflicts.push(`customField.${k}`);
+      }
+    } else if (!matchesWritten(
+      Array.isArray(payload[field]) ? toWriteValue(targetType, field, current, payload[field]) : current[field],
+      payload[field],
+    )) {
+      conflicts.push(field);
+    }
+  }
+
+  return {
+    targetType,
+    identifier,
+    method: targetType === "test_suite" ? "PUT" : "PATCH",
+    payload: revertPayload,
+    diffs: computeDiff(currentView, revertPayload),
+    conflicts,
+    skipped,
+  };
+}
+
+/** Fingerprint of the write a plan makes and the state it was built from; pins a preview to its confirmation. */
+export function revertPlanFingerprint(plan: RevertPlan): string {
+  return createHash("sha256").update(JSON.stringify([
+    plan.targetType, plan.identifier, plan.method, plan.payload, plan.diffs, plan.conflicts, plan.skipped,
+  ])).digest("hex");
+}
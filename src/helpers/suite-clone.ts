@@ -0,0 +1,136 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+import crypto from "crypto";
+import { getCurrentContext } from "../http/request-context.js";
+import { HierarchyProcessor } from "../utils/hierarchy.js";
+import type { ZebrunnerTestSuite } from "../types/core.js";
+
+const CLONE_PROGRESS_DIR = path.join(os.homedir(), ".mcp-zebrunner-clones");
+const CLONE_ID_PATTERN = /^[a-f0-9-]{36}$/;
+
+export interface SuiteCloneNode {
+  sourceId: number;
+  title: string;
+  description?: string;
+  /** Source parent ID; null for the cloned root. */
+  sourceParentId: number | null;
+  depth: number;
+}
+
+/**
+ * Root suite followed by all descendants in parent-before-child order,
+ * so each node's parent clone exists by the time the node is created.
+ */
+export function planSuiteClone(rootSuiteId: number, allSuites: ZebrunnerTestSuite[]): SuiteCloneNode[] {
+  const root = allSuites.find((s) => s.id === rootSuiteId);
+  if (!root) {
+    throw new Error(`Suite ${rootSuiteId} not found in the source project`);
+  }
+  const levels = new Map<number, number>([[rootSuiteId, 0]]);
+  const toNode = (s: ZebrunnerTestSuite, parentId: number | null): SuiteCloneNode => ({
+    sourceId: s.id,
+    title: s.title ?? s.name ?? `Suite ${s.id}`,
+    ...(s.description ? { description: s.description } : {}),
+    sourceParentId: parentId,
+    depth: parentId === null ? 0 : (levels.get(parentId) ?? 0) + 1,
+  });
+
+  const nodes: SuiteCloneNode[] = [toNode(root, null)];
+  for (const s of HierarchyProcessor.getSuiteDescendants(rootSuiteId, allSuites)) {
+    const node = toNode(s, s.parentSuiteId ?? rootSuiteId);
+    levels.set(node.sourceId, node.depth);
+    nodes.push(node);
+  }
+  return nodes;
+}
+
+/** Indented tree preview; `annotate` appends per-suite details (case counts, progress markers). */
+export function renderCloneTree(nodes: SuiteCloneNode[], annotate?: (node: SuiteCloneNode) => string): string {
+  return nodes
+    .map((n) => `${"  ".repeat(n.depth)}${n.depth === 0 ? "📁" : "└─"} ${n.title} (#${n.sourceId})${annotate ? annotate(n) : ""}`)
+    .join("\n");
+}
+
+export interface SuiteCloneProgress {
+  cloneId: string;
+  /** User who started the clone (HTTP mode); absent for stdio. */
+  owner?: string;
+  sourceProject: string;
+  targetProject: string;
+  sourceRootId: number;
+  /** Parent for the cloned root in the target project; null = root level. */
+  targetParentId: number | null;
+  /** Run options, restored on resume so the continuation matches the original run. */
+  includeTestCases: boolean;
+  asDrafts: boolean;
+  newRootTitle?: string;
+  /** Source suite ID → created target suite ID. */
+  suiteMap: Record<string, number>;
+  /** Source test case key → created target case key (or ID when the key is absent). */
+  caseMap: Record<string, string>;
+  /** Latest failure per source suite/case, cleared when a retry succeeds. */
+  failures: Record<string, string>;
+  startedAt: string;
+  updatedAt: string;
+  completed: boolean;
+}
+
+export function newSuiteCloneProgress(
+  input: Pick<SuiteCloneProgress,
+    "sourceProject" | "targetProject" | "sourceRootId" | "targetParentId" | "includeTestCases" | "asDrafts" | "newRootTitle">,
+): SuiteCloneProgress {
+  const now = new Date().toISOString();
+  return {
+    cloneId: crypto.randomUUID(),
+    owner: getCurrentContext()?.username?.toLowerCase(),
+    ...input,
+    suiteMap: {},
+    caseMap: {},
+    failures: {},
+    startedAt: now,
+    updatedAt: now,
+    completed: false,
+  };
+}
+
+function progressPath(cloneId: string, dir: string): string {
+  if (!CLONE_ID_PATTERN.test(cloneId)) {
+    throw new Error("Invalid clone_id");
+  }
+  return path.join(dir, `${cloneId}.json`);
+}
+
+/**
+ * Persist progress after every created suite/case so an interrupted clone can
+ * be resumed (or inspected) even if the process dies. Never throws.
+ */
+export function saveSuiteCloneProgress(progress: SuiteCloneProgress, dir: string = CLONE_PROGRESS_DIR): void {
+  try {
+    fs.mkdirSync(dir, { recursive: true });
+    progress.updatedAt = new Date().toISOString();
+    fs.writeFileSync(progressPath(progress.cloneId, dir), JSON.stringify(progress, null, 2), "utf-8");
+  } catch (err) {
+    process.stderr.write(`[clone] Failed to save clone progress: ${err}\n`);
+  }
+}
+
+export function loadSuiteCloneProgress(cloneId: string, dir: string = CLONE_PROGRESS_DIR): SuiteCloneProgress | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(progressPath(cloneId, dir), "utf-8")) as SuiteCloneProgress;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether the caller may resume `progress`. In HTTP mode only the user who
+ * started the clone may; without a request context (stdio) every clone can.
+ */
+export function isCloneOwner(progress: SuiteCloneProgress): boolean {
+  const user = getCurrentContext()?.username?.toLowerCase();
+  if (user === undefined) return true;
+  return progress.owner?.toLowerCase() === user;
+}
+
+export { CLONE_PROGRESS_DIR };
@@ -2,6 +2,7 @@ import { Router, type Request, type Response } from 'express';
 import { randomBytes } from 'node:crypto';
 import { getMcpOAuthProvider } from './mcp-oauth-provider.js';
 import { queryParamString } from './query-params.js';
+import { clientGrant, resolveGrantedScopes, withConnectionGrant, SCOPE_WRITE } from './scopes.js';
 
 function decodeJwtPayload(token: string): Record<string, any> {
   const parts = token.split('.');
@@ -178,7 +179,22 @@ export function createAuthCallbackRouter(opts?: { zebrunnerBaseUrl?: string; ena
         return;
       }
 
-      // User has stored creds — issue auth code and redirect to MCP client
+      // User has stored creds — the form (and its read-only choice) is skipped.
+      // A client re-authenticating keeps the read-only choice of its earlier
+      // grant; a new client gets what it requested. A per-user read-only grant
+      // from before grants were stored per connection still applies.
+      const previousGrant = clientGrant(stored.grants, pending.mcpClientId);
+      const readOnly = previousGrant
+        ? !previousGrant.scopes.includes(SCOPE_WRITE)
+        : stored.scopes !== undefined && !stored.scopes.includes(SCOPE_WRITE);
+      await tokenStore.set(email!, {
+        ...stored,
+        grants: withConnectionGrant(
+          stored.grants, pending.mcpClientId, oktaTokens.access_token, resolveGrantedScopes(pending.scopes, readOnly),
+        ),
+      });
+
+      // Issue auth code and redirect to MCP client
       const ourCode = randomBytes(32).toString('hex');
 
       await provider.storeIssuedCode(ourCode, {
@@ -8,6 +8,7 @@ export interface AuthResult {
   username: string;
   token: string;
   baseUrl?: string;
+  scopes?: string[];
 }
 
 declare global {
@@ -41,7 +42,7 @@ function extractBearerToken(req: Request): string | null {
   return header.slice(7);
 }
 
-export type BearerVerifier = (token: string) => Promise<{ username: string; zebrunnerToken: string; baseUrl?: string }>;
+export type BearerVerifier = (token: string) => Promise<{ username: string; zebrunnerToken: string; baseUrl?: string; scopes?: string[] }>;
 
 export interface AuthMiddlewareOptions {
   authMode?: AuthMode;
@@ -86,6 +87,7 @@ export function createAuthMiddleware(options: AuthMiddlewareOptions = {}) {
             username: verified.username,
             token: verified.zebrunnerToken,
             baseUrl: verified.baseUrl,
+            ...(verified.scopes ? { scopes: verified.scopes } : {}),
           };
           next();
           return;
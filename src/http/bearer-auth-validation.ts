@@ -2,6 +2,7 @@ export interface VerifiedBearerCredentials {
   username: string;
   zebrunnerToken: string;
   baseUrl?: string;
+  scopes?: string[];
 }
 
 const MAX_USERNAME_LEN = 320;
@@ -39,9 +40,14 @@ export function validateVerifiedBearerCredentials(
     }
   }
 
+  if (creds.scopes !== undefined && (!Array.isArray(creds.scopes) || creds.scopes.some((s) => typeof s !== "string"))) {
+    throw new Error("Invalid bearer auth: scopes");
+  }
+
   return {
     username,
     zebrunnerToken,
     ...(baseUrl ? { baseUrl } : {}),
+    ...(creds.scopes ? { scopes: creds.scopes } : {}),
   };
 }
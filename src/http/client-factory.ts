@@ -72,7 +72,7 @@ export class ClientFactory {
     const client = new EnhancedZebrunnerClient(config);
     const mutationClient = new ZebrunnerMutationClient(config);
     const reportingClient = new ZebrunnerReportingClient(reportingConfig);
-    const reportingHandlers = new ZebrunnerReportingToolHandlers(reportingClient, client);
+    const reportingHandlers = new ZebrunnerReportingToolHandlers(reportingClient, client, this.defaultConfig.debug);
 
     client.setAutomationStatesResolver(async (projectKey: string) => {
       const projectId = await reportingClient.getProjectId(projectKey);
@@ -4,6 +4,7 @@ import { dirname, join } from 'node:path';
 import type { TokenStore } from './token-store.js';
 import { getRecoveredMcpClientRedirectUris } from './mcp-client-fallback-redirects.js';
 import { resolveSafeOAuthFlowStoreDir, isNodeEnoent } from './oauth-path-utils.js';
+import type { RateLimitUsage } from '../utils/rate-limiter.js';
 
 export interface TokenStoreHealth {
   enabled: boolean;
@@ -46,6 +47,8 @@ export interface HealthStatusPayload {
     oauthFlowStore: OAuthFlowStoreHealth;
     recoveredRedirectUriCount: number;
   };
+  /** Aggregate token-bucket usage (no user names). */
+  rateLimits?: RateLimitUsage;
 }
 
 /** Generic message for /health — never expose raw exception text in production. */
@@ -176,6 +179,7 @@ export async function buildHealthStatus(input: {
   mcpServerUrl: string;
   zebrunnerUrlFromEnv: boolean;
   activeSessions: number;
+  rateLimits?: RateLimitUsage;
 }): Promise<HealthStatusPayload> {
   const tokenStoreHealth = await collectTokenStoreHealth(input.tokenStore);
   const oauthFlowHealth = await collectOAuthFlowStoreHealth();
@@ -202,6 +206,7 @@ export async function buildHealthStatus(input: {
       oauthFlowStore: oauthFlowHealth,
       recoveredRedirectUriCount: getRecoveredMcpClientRedirectUris().length,
     },
+    ...(input.rateLimits ? { rateLimits: input.rateLimits } : {}),
   };
 }
 
@@ -4,6 +4,8 @@ import { getSelfAuthProvider } from './selfauth-provider.js';
 import { getMcpOAuthProvider } from './mcp-oauth-provider.js';
 import { normalizeZebrunnerUrl, toWebUrl } from './url-utils.js';
 import { queryParamString } from './query-params.js';
+import { resolveGrantedScopes, withConnectionGrant, SCOPE_WRITE } from './scopes.js';
+import type { TokenEntry } from './token-store.js';
 
 export interface LoginRouterOptions {
   zebrunnerBaseUrl?: string;
@@ -19,6 +21,9 @@ export interface LoginRouterOptions {
  *
  * GET  /login?state=...          -> renders the credential form
  * POST /login                    -> validates creds via Zebrunner IAM, stores, redirects
+ *
+ * The form doubles as the consent step: ticking "Read-only access" grants
+ * only `zebrunner:read`, so mutation tools are refused for that connection.
  */
 export function createLoginRouter(opts: LoginRouterOptions): Router {
   const router = Router();
@@ -49,13 +54,14 @@ export function createLoginRouter(opts: LoginRouterOptions): Router {
   });
 
   router.post('/', async (req: Request, res: Response) => {
-    const { username, token, state, zebrunner_url, okta_access_token, okta_id_token } = req.body as {
+    const { username, token, state, zebrunner_url, okta_access_token, okta_id_token, read_only } = req.body as {
       username?: string;
       token?: string;
       state?: string;
       zebrunner_url?: string;
       okta_access_token?: string;
       okta_id_token?: string;
+      read_only?: string;
     };
 
     if (!username || !token || !state) {
@@ -177,11 +183,18 @@ export function createLoginRouter(opts: LoginRouterOptions): Router {
         return;
       }
 
+      // Self-auth embeds the grant in the signed JWT; Okta tokens are minted
+      // by Okta, so the grant is stored per MCP client (= connection).
+      const grantedScopes = resolveGrantedScopes(pending.scopes, read_only === 'on');
       const userKey = username.includes('@') ? username : `${username}@zebrunner`;
+      const previous: TokenEntry | null = selfAuth ? null : await tokenStore.get(userKey);
       await tokenStore.set(userKey, {
         username: zebrunnerUsername,
         token,
         ...(zebrunnerUrlFromEnv ? {} : { zebrunnerUrl: effectiveApiUrl }),
+        ...(!selfAuth && okta_access_token
+          ? { grants: withConnectionGrant(previous?.grants, pending.mcpClientId, okta_access_token, grantedScopes) }
+          : {}),
       });
 
       const ourCode = randomBytes(32).toString('hex');
@@ -192,7 +205,7 @@ export function createLoginRouter(opts: LoginRouterOptions): Router {
         createdAt: Date.now(),
       };
       if (selfAuth) {
-        await selfAuth.storeIssuedCode(ourCode, { ...issuedCommon, email: userKey });
+        await selfAuth.storeIssuedCode(ourCode, { ...issuedCommon, email: userKey, scopes: grantedScopes });
       } else {
         await oktaAuth!.storeIssuedCode(ourCode, {
           ...issuedCommon,
@@ -209,6 +222,9 @@ export function createLoginRouter(opts: LoginRouterOptions): Router {
         clientRedirect.searchParams.set('state', pending.state);
       }
 
+      if (!grantedScopes.includes(SCOPE_WRITE)) {
+        console.error(`[login-routes] Read-only access granted for ${userKey}`);
+      }
       res.redirect(clientRedirect.toString());
     } catch (err: any) {
       console.error('[login-routes] Error:', err.message);
@@ -306,6 +322,8 @@ document.querySelector('form').addEventListener('submit', function(e) {
     .lock-icon { font-size: 2rem; margin-bottom: 12px; }
     .okta-badge { display: inline-block; background: #e8f0fe; color: #1967d2; font-size: 0.75rem; font-weight: 600; padding: 2px 8px; border-radius: 4px; margin-left: 6px; }
     .field-hint { font-size: 0.75rem; color: #6e6e73; margin: -12px 0 16px 0; }
+    label.checkbox { display: flex; align-items: center; gap: 8px; font-weight: 400; margin-bottom: 16px; }
+    label.checkbox input { width: auto; margin: 0; }
     .settings-link { margin-top: 12px; font-size: 0.8rem; text-align: center; }
     .settings-link a { color: #0071e3; text-decoration: none; }
     .settings-link a:hover { text-decoration: underline; }
@@ -327,6 +345,8 @@ document.querySelector('form').addEventListener('submit', function(e) {
       <input id="username" name="username" type="text" required placeholder="your.name@company.com" autocomplete="username" value="${emailValue}"${oktaAccessToken ? ' readonly class="prefilled"' : ''}>
       <label for="token">API token</label>
       <input id="token" name="token" type="password" required placeholder="Paste your Zebrunner API token" autocomplete="off"${email ? ' autofocus' : ''}>
+      <label class="checkbox"><input type="checkbox" name="read_only"> Read-only access</label>
+      <div class="field-hint">Blocks tools that create, update or delete Zebrunner data for this connection.</div>
       <button type="submit">Connect</button>
     </form>
     <div class="help">
@@ -9,6 +9,7 @@ import { TokenValidator } from './token-validator.js';
 import type { OAuthClientInformationFull } from '@modelcontextprotocol/sdk/shared/auth.js';
 import { getMcpRegisteredClient, registerMcpOAuthClient } from './oauth-client-store.js';
 import type { OktaConfig } from './oauth-provider.js';
+import { connectionScopes, grantForToken } from './scopes.js';
 import {
   InMemoryOAuthFlowStore,
   type OAuthFlowStore,
@@ -151,7 +152,8 @@ export class McpOAuthServerProvider implements OAuthServerProvider {
     return {
       token,
       clientId: (payload.cid ?? payload.client_id ?? 'unknown') as string,
-      scopes: Array.isArray(payload.scp) ? payload.scp as string[] : ['zebrunner:read', 'zebrunner:write'],
+      // The grant chosen for this connection; Okta's zebrunner:* scopes can only narrow it.
+      scopes: connectionScopes(payload.scp, grantForToken(stored.grants, token)?.scopes ?? stored.scopes),
       expiresAt: payload.exp,
       extra: {
         email,
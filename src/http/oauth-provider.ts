@@ -1,5 +1,6 @@
 import { createRemoteJWKSet, jwtVerify } from 'jose';
 import type { TokenStore } from './token-store.js';
+import { connectionScopes, grantForToken } from './scopes.js';
 
 export interface OktaConfig {
   domain: string;
@@ -31,7 +32,7 @@ export interface BearerVerifierOptions {
 
 /**
  * Create a Bearer token verifier using Okta JWKS. Validates the JWT, then
- * resolves per-user Zebrunner credentials from TokenStore.
+ * resolves per-user Zebrunner credentials and granted scopes from TokenStore.
  *
  * Throws if no per-user credentials are found (the user must complete /login first).
  */
@@ -42,7 +43,7 @@ export function createOktaBearerVerifier(options: BearerVerifierOptions) {
   );
   const JWKS = createRemoteJWKSet(jwksUrl);
 
-  return async (token: string): Promise<{ username: string; zebrunnerToken: string }> => {
+  return async (token: string): Promise<{ username: string; zebrunnerToken: string; scopes: string[] }> => {
     const { payload } = await jwtVerify(token, JWKS, {
       issuer: `https://${config.domain}/oauth2/${config.authServerId}`,
     });
@@ -60,6 +61,11 @@ export function createOktaBearerVerifier(options: BearerVerifierOptions) {
       );
     }
 
-    return { username: stored.username, zebrunnerToken: stored.token };
+    return {
+      username: stored.username,
+      zebrunnerToken: stored.token,
+      // The grant chosen for this connection; Okta's zebrunner:* scopes can only narrow it.
+      scopes: connectionScopes(payload.scp, grantForToken(stored.grants, token)?.scopes ?? stored.scopes),
+    };
   };
 }
@@ -4,6 +4,8 @@ export interface RequestContext {
   username: string;
   token: string;
   baseUrl?: string;
+  /** OAuth scopes granted to the bearer token; undefined for header/stdio auth. */
+  scopes?: string[];
 }
 
 export const requestContext = new AsyncLocalStorage<RequestContext>();
@@ -0,0 +1,125 @@
+import { createHash } from 'node:crypto';
+
+export const SCOPE_READ = 'zebrunner:read';
+export const SCOPE_WRITE = 'zebrunner:write';
+export const SUPPORTED_SCOPES = [SCOPE_READ, SCOPE_WRITE];
+
+/**
+ * Keep only the zebrunner:* scopes we understand. Returns undefined when the
+ * input carries none of them (e.g. an Okta token with only "openid email"),
+ * so callers can fall back to a stored grant.
+ */
+export function pickSupportedScopes(value: unknown): string[] | undefined {
+  const list = typeof value === 'string'
+    ? value.split(/\s+/)
+    : Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+  const picked = SUPPORTED_SCOPES.filter(s => list.includes(s));
+  return picked.length > 0 ? picked : undefined;
+}
+
+/**
+ * Scopes granted at consent time. The client's requested scopes (if any
+ * zebrunner:* scope was requested) cap the grant; the user can further
+ * downgrade to read-only on the login form. Write always implies read.
+ */
+export function resolveGrantedScopes(requested: string[] | undefined, readOnly: boolean): string[] {
+  const requestedScopes = pickSupportedScopes(requested) ?? SUPPORTED_SCOPES;
+  const allowWrite = requestedScopes.includes(SCOPE_WRITE) && !readOnly;
+  return allowWrite ? [SCOPE_READ, SCOPE_WRITE] : [SCOPE_READ];
+}
+
+/**
+ * Scopes chosen for one connection, i.e. one registered MCP client. Okta
+ * tokens are re-issued when the client re-authenticates, so the grant is kept
+ * per client and lists the tokens issued to it.
+ */
+export interface ConnectionGrant {
+  scopes: string[];
+  /** Epoch seconds: expiry of the newest token issued to the connection. */
+  expiresAt: number;
+  /** `grantKey` hashes of the access tokens issued to the connection, newest last. */
+  tokens: string[];
+}
+
+/** Grants outlive tokens without an `exp` claim by this long. */
+const GRANT_FALLBACK_TTL_SECONDS = 24 * 60 * 60;
+
+/** Tokens remembered per connection; older ones have long expired. */
+const MAX_TOKENS_PER_GRANT = 5;
+
+/** Client IDs and access tokens are stored only as hashes. */
+export function grantKey(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function tokenExpiry(accessToken: string, nowSeconds: number): number {
+  try {
+    const exp = JSON.parse(Buffer.from(accessToken.split('.')[1] ?? '', 'base64url').toString('utf8')).exp;
+    if (typeof exp === 'number' && exp > nowSeconds) return exp;
+  } catch {
+    // Opaque token — fall through
+  }
+  return nowSeconds + GRANT_FALLBACK_TTL_SECONDS;
+}
+
+/** The live grant of MCP client `clientId`, if it has one. */
+export function clientGrant(
+  grants: Record<string, ConnectionGrant> | undefined,
+  clientId: string,
+  nowSeconds: number = Math.floor(Date.now() / 1000),
+): ConnectionGrant | undefined {
+  const grant = grants?.[grantKey(clientId)];
+  return grant && grant.expiresAt > nowSeconds ? grant : undefined;
+}
+
+/**
+ * Records `scopes` for MCP client `clientId` and adds `accessToken` to the
+ * tokens issued to it; drops the expired grants.
+ */
+export function withConnectionGrant(
+  grants: Record<string, ConnectionGrant> | undefined,
+  clientId: string,
+  accessToken: string,
+  scopes: string[],
+  nowSeconds: number = Math.floor(Date.now() / 1000),
+): Record<string, ConnectionGrant> {
+  const previous = clientGrant(grants, clientId, nowSeconds);
+  const kept = Object.entries(grants ?? {}).filter(([, g]) => g.expiresAt > nowSeconds);
+  return {
+    ...Object.fromEntries(kept),
+    [grantKey(clientId)]: {
+      scopes,
+      expiresAt: Math.max(previous?.expiresAt ?? 0, tokenExpiry(accessToken, nowSeconds)),
+      tokens: [...(previous?.tokens ?? []), grantKey(accessToken)].slice(-MAX_TOKENS_PER_GRANT),
+    },
+  };
+}
+
+/** The grant of the connection `accessToken` was issued to. */
+export function grantForToken(
+  grants: Record<string, ConnectionGrant> | undefined,
+  accessToken: string,
+): ConnectionGrant | undefined {
+  const hash = grantKey(accessToken);
+  return Object.values(grants ?? {}).find(g => g.tokens.includes(hash));
+}
+
+/**
+ * Effective scopes of an Okta connection. `granted` is what was chosen for the
+ * connection (absent = read-only); zebrunner:* scopes in the token's `scp`
+ * claim can only narrow it, never widen it.
+ */
+export function connectionScopes(tokenScopes: unknown, granted: string[] | undefined): string[] {
+  const grant = pickSupportedScopes(granted) ?? [SCOPE_READ];
+  const fromToken = pickSupportedScopes(tokenScopes);
+  return fromToken ? grant.filter(s => fromToken.includes(s)) : grant;
+}
+
+/**
+ * Whether a caller may run mutation tools. `undefined` means the request was
+ * not authenticated via OAuth (stdio, X-Zebrunner-* headers), where the
+ * caller's own Zebrunner token is the only limit.
+ */
+export function hasWriteScope(scopes: string[] | undefined): boolean {
+  return scopes === undefined || scopes.includes(SCOPE_WRITE);
+}
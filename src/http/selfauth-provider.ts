@@ -7,6 +7,7 @@ import type { TokenStore } from './token-store.js';
 import { TokenValidator } from './token-validator.js';
 import type { OAuthClientInformationFull } from '@modelcontextprotocol/sdk/shared/auth.js';
 import { getMcpRegisteredClient, registerMcpOAuthClient } from './oauth-client-store.js';
+import { SUPPORTED_SCOPES, pickSupportedScopes } from './scopes.js';
 import {
   InMemoryOAuthFlowStore,
   type OAuthFlowStore,
@@ -18,6 +19,8 @@ interface IssuedCode extends Record<string, unknown> {
   mcpClientId: string;
   redirectUri: string;
   codeChallenge: string;
+  /** Scopes granted on the login form; older codes without it get read + write. */
+  scopes?: string[];
   createdAt: number;
 }
 
@@ -117,9 +120,10 @@ export class SelfAuthOAuthProvider implements OAuthServerProvider {
       throw new Error('Authorization code was issued to a different client');
     }
 
-    const accessToken = this.signJwt(issued.email);
+    const scopes = pickSupportedScopes(issued.scopes) ?? SUPPORTED_SCOPES;
+    const accessToken = this.signJwt(issued.email, scopes);
 
-    return { access_token: accessToken, token_type: 'bearer' };
+    return { access_token: accessToken, token_type: 'bearer', scope: scopes.join(' ') };
   }
 
   async exchangeRefreshToken(): Promise<any> {
@@ -144,7 +148,8 @@ export class SelfAuthOAuthProvider implements OAuthServerProvider {
     return {
       token,
       clientId: payload.cid ?? 'unknown',
-      scopes: ['zebrunner:read', 'zebrunner:write'],
+      // Tokens signed before scopes were introduced carry no claim — full access.
+      scopes: pickSupportedScopes(payload.scope) ?? SUPPORTED_SCOPES,
       expiresAt: payload.exp,
       extra: {
         email: payload.email,
@@ -179,12 +184,13 @@ export class SelfAuthOAuthProvider implements OAuthServerProvider {
 
   // ─── Server-signed JWT helpers ─────────────────────────────────
 
-  private signJwt(email: string): string {
+  private signJwt(email: string, scopes: string[]): string {
     const header = { alg: 'HS256', typ: 'JWT' };
     const now = Math.floor(Date.now() / 1000);
     const payload = {
       email,
       cid: 'selfauth',
+      scope: scopes.join(' '),
       iat: now,
     };
 
@@ -199,7 +205,7 @@ export class SelfAuthOAuthProvider implements OAuthServerProvider {
     return `${segments.join('.')}.${signature}`;
   }
 
-  private verifyJwt(token: string): { email: string; cid: string; exp?: number } {
+  private verifyJwt(token: string): { email: string; cid: string; scope?: string; exp?: number } {
     const parts = token.split('.');
     if (parts.length !== 3) throw new Error('Invalid token format');
 
@@ -1,5 +1,5 @@
 import express, { type Request, type Response } from 'express';
-import { randomUUID } from 'node:crypto';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import type { IncomingMessage } from 'node:http';
@@ -8,6 +8,9 @@ import { createAuthMiddleware, type BearerVerifier } from './auth-middleware.js'
 import { resolveAuthMode, hasStrategy, hasTokenExchange } from '../config/transport.js';
 import type { TokenStore } from './token-store.js';
 import type { OAuthServerProvider } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import { SUPPORTED_SCOPES } from './scopes.js';
+import { getSharedRateLimiter } from '../utils/rate-limiter.js';
+import { metricsRegistry, setActiveSessionsProvider } from '../utils/prometheus.js';
 
 const SESSION_IDLE_MS = 30 * 60 * 1000;
 const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
@@ -48,7 +51,7 @@ export async function startHttpServer(
       issuerUrl,
       resourceServerUrl,
       resourceName: 'Advanced Zebrunner MCP Server',
-      scopesSupported: ['zebrunner:read', 'zebrunner:write'],
+      scopesSupported: SUPPORTED_SCOPES,
     }));
 
     // Mount Okta callback for Okta mode (with optional token exchange for Mode 5)
@@ -102,6 +105,7 @@ export async function startHttpServer(
         mcpServerUrl: mcpServerUrl || `http://localhost:${port}`,
         zebrunnerUrlFromEnv,
         activeSessions: sessions.size,
+        rateLimits: getSharedRateLimiter().getUsage(),
       });
       res.status(200).json(body);
     } catch (err: unknown) {
@@ -119,6 +123,21 @@ export async function startHttpServer(
     }
   });
 
+  // --- Prometheus metrics (unauthenticated unless MCP_METRICS_TOKEN is set) ---
+  setActiveSessionsProvider(() => sessions.size);
+  const metricsToken = process.env.MCP_METRICS_TOKEN;
+  app.get('/metrics', (req, res) => {
+    if (metricsToken) {
+      const presented = Buffer.from(req.headers.authorization ?? '');
+      const expected = Buffer.from(`Bearer ${metricsToken}`);
+      if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+        res.status(401).set('WWW-Authenticate', 'Bearer').send('Unauthorized\n');
+        return;
+      }
+    }
+    res.status(200).type('text/plain; version=0.0.4').send(metricsRegistry.render());
+  });
+
   // --- Auth middleware for /mcp ---
   const mcpServerBase = (mcpServerUrl || `http://localhost:${port}`).replace(/\/+$/, '');
   const resourceMetadataUrl = needsOAuth
@@ -152,8 +171,8 @@ export async function startHttpServer(
 
     entry.lastUsed = Date.now();
 
-    const { username, token, baseUrl } = req.auth!;
-    await requestContext.run({ username, token, baseUrl }, async () => {
+    const { username, token, baseUrl, scopes } = req.auth!;
+    await requestContext.run({ username, token, baseUrl, scopes }, async () => {
       await entry!.transport.handleRequest(req as unknown as IncomingMessage, res, req.body);
     });
   });
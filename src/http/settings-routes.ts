@@ -114,6 +114,8 @@ export function createSettingsRouter(opts: SettingsRouterOptions): Router {
       username: newUsername,
       token: newToken,
       ...(zebrunnerUrlFromEnv ? {} : { zebrunnerUrl: newUrl }),
+      ...(stored.scopes ? { scopes: stored.scopes } : {}),
+      ...(stored.grants ? { grants: stored.grants } : {}),
     });
 
     res.redirect(`/settings?email=${encodeURIComponent(email)}&success=${encodeURIComponent('Credentials updated successfully.')}`);
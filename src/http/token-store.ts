@@ -1,6 +1,7 @@
 import { readFile, writeFile, mkdir } from 'node:fs/promises';
 import { dirname } from 'node:path';
 import { deriveKey, encrypt, decrypt } from './crypto.js';
+import type { ConnectionGrant } from './scopes.js';
 
 const TOKEN_KEY_SALT = 'mcp-zebrunner-token-store';
 
@@ -8,6 +9,10 @@ export interface TokenEntry {
   username: string;
   token: string;
   zebrunnerUrl?: string;
+  /** Per-user grant written before grants were stored per connection; absent = read-only. */
+  scopes?: string[];
+  /** Okta mode: scopes chosen for each connection, keyed by `grantKey(mcpClientId)`. */
+  grants?: Record<string, ConnectionGrant>;
 }
 
 export interface TokenStore {
@@ -4,6 +4,7 @@
  * Provides read-only reference data via the MCP resource protocol:
  * - Static resources (no API calls): report types, periods, charts, formats
  * - Dynamic resources (cached API calls): projects, suites, automation states, priorities
+ * - Local resources (no API calls): recent mutation audit log entries
  *
  * Resources are accessed by users via the '@' menu in MCP clients.
  */
@@ -13,11 +14,13 @@ import type { EnhancedZebrunnerClient } from "./api/enhanced-client.js";
 import type { ZebrunnerReportingClient } from "./api/reporting-client.js";
 import { ALL_PERIODS } from "./utils/widget-sql.js";
 import { PERIOD_DAYS_MAP } from "./handlers/reports/types.js";
+import { readAuditLog, filterAuditEntries, isAuditEntryVisible } from "./helpers/audit.js";
 
 // ── Cache ────────────────────────────────────────────────────────────────────
 
 const DEFAULT_TTL_MS = 1_200_000; // 20 minutes
 const MAX_CACHE_ENTRIES = 200;
+const AUDIT_RESOURCE_LIMIT = 100;
 
 export class ResourceCache {
   private store = new Map<string, { data: unknown; expiry: number }>();
@@ -122,11 +125,21 @@ export function buildReportTypesContent(): object {
         name: "release_readiness",
         title: "Release Readiness Assessment",
         description: "Go / No-Go / Conditional recommendation with per-check PASS/FAIL/WARN status",
-        checks: ["pass_rate vs target", "unresolved failures", "runtime degradation", "automation coverage", "defect density"],
-        outputs: ["Per-check status table", "Go/No-Go recommendation with evidence"],
+        checks: ["pass_rate vs target", "unresolved failures", "runtime degradation", "automation coverage", "defect density", "critical bugs (opt-in)", "flaky tests (opt-in)", "mandatory suites (opt-in)"],
+        outputs: ["Per-check status table", "Go/No-Go recommendation with evidence", "[RELEASE_VERDICT] JSON block"],
+        policy: "Thresholds, blocking flags and per-project overrides are read from releaseGates in zebrunner-config.json",
         optional_params: ["milestone", "previous_milestone", "targets"],
         example: 'generate_report({ report_types: ["release_readiness"], projects: ["android"], milestone: "25.40.0", previous_milestone: "25.39.0" })',
       },
+      {
+        name: "automation_velocity",
+        title: "Automation Velocity Report",
+        description: "Weekly cases-automated counts from test case change history, manual backlog trend, projected date to reach a coverage target, and per-suite breakdown",
+        outputs: ["Weekly intake table", "Per-suite table", "PNG line chart per project"],
+        optional_params: ["coverage_target"],
+        default_coverage_target: 80,
+        example: 'generate_report({ report_types: ["automation_velocity"], projects: ["android"], period: "Last 90 Days", coverage_target: 85 })',
+      },
     ],
     shared_params: {
       projects: "Required. Array of project aliases or keys (e.g., ['android', 'ios', 'web'])",
@@ -606,6 +619,28 @@ export function registerResources(server: McpServer, deps: ResourceDependencies)
     }),
   );
 
+  // ── 1.9 Static: Mutation Audit Log ────────────────────────────────────────
+
+  server.registerResource(
+    "audit_log",
+    "zebrunner://audit",
+    {
+      description: "Most recent mutation audit log entries (newest first, before-snapshots omitted; in HTTP mode only your own). Use get_audit_log for filtering, paging, and export",
+    },
+    async () => {
+      const recent = filterAuditEntries(readAuditLog(undefined, { filter: isAuditEntryVisible, limit: AUDIT_RESOURCE_LIMIT }), {})
+        .slice(0, AUDIT_RESOURCE_LIMIT)
+        .map(({ before: _before, ...rest }) => rest);
+      return {
+        contents: [{
+          uri: "zebrunner://audit",
+          mimeType: "application/json",
+          text: JSON.stringify(recent, null, 2),
+        }],
+      };
+    },
+  );
+
   // ── 2.1 Template: Milestones ──────────────────────────────────────────────
 
   server.registerResource(
@@ -784,7 +819,7 @@ export function registerResources(server: McpServer, deps: ResourceDependencies)
     },
   );
 
-  debugLog("Registered 14 MCP resources (6 static + 8 templates)");
+  debugLog("Registered 15 MCP resources (7 static + 8 templates)");
 }
 
 /**
@@ -810,6 +845,7 @@ export function getResourcesCatalog(): ResourceMeta[] {
     { name: "time_periods", uri: "zebrunner://periods", description: "Valid time period values accepted by reporting and widget tools", type: "static" },
     { name: "chart_options", uri: "zebrunner://charts", description: "Chart delivery formats (png, html, text) and chart types (pie, bar, line, etc.)", type: "static" },
     { name: "output_formats", uri: "zebrunner://formats", description: "Output format parameter families used across tools", type: "static" },
+    { name: "audit_log", uri: "zebrunner://audit", description: "Most recent mutation audit log entries (newest first)", type: "static" },
     { name: "project_root_suites", uri: "zebrunner://projects/{project_key}/suites", description: "Root test suites for a project", type: "template" },
     { name: "project_automation_states", uri: "zebrunner://projects/{project_key}/automation-states", description: "Automation states for a project", type: "template" },
     { name: "project_priorities", uri: "zebrunner://projects/{project_key}/priorities", description: "Automation priorities for a project", type: "template" },
@@ -5,6 +5,8 @@ import { z } from "zod";
 import { ConfigManager } from "./config/manager.js";
 import { resolveTransportMode } from "./config/transport.js";
 import { createClientProxy, initClientFactory, type PerUserClients } from "./http/client-factory.js";
+import { getCurrentContext } from "./http/request-context.js";
+import { hasWriteScope, SCOPE_WRITE } from "./http/scopes.js";
 
 // Enhanced imports
 import { EnhancedZebrunnerClient } from "./api/enhanced-client.js";
@@ -12,12 +14,48 @@ import { ZebrunnerReportingClient, type FieldsLayout } from "./api/reporting-cli
 import { ZebrunnerReportingToolHandlers } from "./handlers/reporting-tools.js";
 import { ReportHandler } from "./handlers/report-handler.js";
 import { FormatProcessor } from "./utils/formatter.js";
+import {
+  buildTraceabilityMatrix,
+  formatTraceabilityCsv,
+  formatTraceabilityHtml,
+  formatTraceabilityMarkdown,
+  traceabilityGaps,
+  REQUIREMENT_COVERAGE_LABELS,
+  REQUIREMENT_COVERAGE_ORDER,
+  type RequirementRef,
+  type TraceabilityExecution,
+} from "./utils/requirements-traceability.js";
 import { HierarchyProcessor } from "./utils/hierarchy.js";
 import { RulesParser } from "./utils/rules-parser.js";
-import { TestGenerator } from "./utils/test-generator.js";
+import { TestGenerator, getFrameworkFamily } from "./utils/test-generator.js";
+import {
+  detectWorkspaceLayout,
+  pageObjectImportFor,
+  planFingerprint,
+  planWorkspaceFiles,
+  resolveWorkspaceRoot,
+  scanWorkspace,
+  unifiedDiff,
+  writePlannedFiles,
+  type PlannedFileAction,
+} from "./utils/test-workspace.js";
+import { buildAutomationScanReport, formatAutomationScanMarkdown, scanCaseKeyRefs } from "./utils/automation-scan.js";
+import { buildGherkinCases, parseGherkin, type GherkinCase } from "./utils/gherkin.js";
+import {
+  EXPORT_INLINE_MAX_CASES,
+  buildExportSections,
+  exportFileBase,
+  formatCasesCsv,
+  formatCasesGherkin,
+  formatCasesTestRailXml,
+  formatCasesXlsx,
+  toExportCase,
+  type ExportCase,
+  type ExportFile,
+} from "./utils/test-case-export.js";
 import { getClickableLinkConfig, generateTestCaseLink, addTestCaseWebUrl, generateSuiteLink, addSuiteWebUrl } from "./utils/clickable-links.js";
 import { ZebrunnerConfig } from "./types/api.js";
-import { ZebrunnerReportingConfig, ZebrunnerReportingAuthError } from "./types/reporting.js";
+import { ZebrunnerReportingConfig, ZebrunnerReportingAuthError, type LaunchListItem } from "./types/reporting.js";
 import {
   ZebrunnerTestCase,
   ZebrunnerTestSuite,
@@ -26,7 +64,7 @@ import {
   ZebrunnerTestResultResponse
 } from "./types/core.js";
 import { stealthIntegrityCheck } from "./stealth-integrity.js";
-import { sanitizeRqlString } from "./utils/security.js";
+import { sanitizeRqlString, validateFilePath } from "./utils/security.js";
 import {
   buildChartResponse,
   buildStackedStatusChartDatasets,
@@ -53,14 +91,53 @@ import {
   markdownForResources,
 } from "./utils/tool-intel.js";
 import { ToolMetrics, wrapToolHandler } from "./utils/tool-metrics.js";
-import { enrichTestCasesWithHistory, getHistoryBulkWarning, type HistoryFilter, type AutomationStatesMap } from "./utils/testCaseHistory.js";
+import { initTracing, shutdownTracing } from "./utils/tracing.js";
+import { getSharedRateLimiter, formatUserRateLimitUsage } from "./utils/rate-limiter.js";
+import {
+  enrichTestCasesWithHistory,
+  getHistoryBulkWarning,
+  buildChangeReport,
+  autoGranularity,
+  formatChangeReportMarkdown,
+  type HistoryFilter,
+  type AutomationStatesMap,
+} from "./utils/testCaseHistory.js";
 import { analyzeRegressionResults, type RegressionAnalyzerInput } from "./handlers/regression-results-analyzer.js";
 
 // Mutation tools imports
 import { ZebrunnerMutationClient } from "./api/mutation-client.js";
-import { writeAuditLog } from "./helpers/audit.js";
+import { writeAuditLog, findAuditEntry, readAuditLog, filterAuditEntries, visibleAuditEntries, auditEntriesToCsv, AUDIT_LOG_PATH } from "./helpers/audit.js";
+import { buildRevertPlan, revertPlanFingerprint } from "./helpers/revert.js";
+import { runWithConcurrency, diffPatchAgainst } from "./helpers/bulk.js";
+import { loadCaseCopyContext, prepareCaseCopy, createCaseCopy } from "./helpers/case-copy.js";
+import { validateCustomFields, type CustomFieldDef } from "./helpers/settings.js";
+import {
+  planSuiteClone,
+  renderCloneTree,
+  newSuiteCloneProgress,
+  saveSuiteCloneProgress,
+  loadSuiteCloneProgress,
+  isCloneOwner,
+  CLONE_PROGRESS_DIR,
+  type SuiteCloneNode,
+  type SuiteCloneProgress,
+} from "./helpers/suite-clone.js";
 import { steeringHint } from "./helpers/steering.js";
+import {
+  buildKnownIssueIndex,
+  suggestIssueLinks,
+  type IssueLinkSuggestion,
+  type LinkedFailure,
+  type UnlinkedFailure,
+} from "./utils/issue-link-suggestions.js";
+import {
+  createConfirmationStore,
+  CONFIRMATION_TOKEN_TTL_MS,
+  type PendingConfirmation,
+} from "./helpers/confirmation-store.js";
+import { cacheRedisUrl } from "./utils/response-cache.js";
 import { computeDiff, formatDiff } from "./helpers/diff.js";
+import { buildGherkinCasePayload, planGherkinUpdate, type GherkinImportItem } from "./helpers/gherkin-import.js";
 import {
   getLaunchRerunIneligibilityReason,
   toLaunchRerunTarget,
@@ -179,7 +256,7 @@ const reportingConfig: ZebrunnerReportingConfig = {
 };
 
 const _singletonReportingClient = new ZebrunnerReportingClient(reportingConfig);
-const _singletonReportingHandlers = new ZebrunnerReportingToolHandlers(_singletonReportingClient, _singletonClient);
+const _singletonReportingHandlers = new ZebrunnerReportingToolHandlers(_singletonReportingClient, _singletonClient, DEBUG_MODE);
 
 // In HTTP mode, wrap clients with Proxy that resolves to per-user instances via AsyncLocalStorage.
 // In STDIO mode, the proxy falls through to the singleton (zero overhead).
@@ -203,6 +280,11 @@ const reportingHandlers: ZebrunnerReportingToolHandlers = clientFactory
   ? createClientProxy(_singletonReportingHandlers, clientFactory, ZEBRUNNER_URL, (c: PerUserClients) => c.reportingHandlers)
   : _singletonReportingHandlers;
 
+// Pending two-step mutation confirmations. Module-level (not per McpServer) so
+// HTTP sessions share it; file/Redis backends also survive restarts and replicas.
+// Without CONFIRMATION_STORE_REDIS_URL, a Redis response cache is shared.
+const confirmationStore = createConfirmationStore({ redisUrl: cacheRedisUrl() });
+
 // Wire up resolvers on the singleton (HTTP mode wiring happens inside ClientFactory)
 _singletonClient.setAutomationStatesResolver(async (projectKey: string) => {
   const { projectId } = await resolveProjectId(projectKey);
@@ -1077,15 +1159,82 @@ function createConfiguredServer(): McpServer {
     );
   }
 
+  // ── OAuth scope enforcement ──
+  // Tools not annotated readOnlyHint: true change Zebrunner data and need the
+  // `zebrunner:write` scope. Connections granted read-only access on the
+  // OAuth login form get a 403-style error instead; stdio and header auth
+  // carry no scopes and are not restricted.
+  const writeScopeError = (toolName: string, action: string) => {
+    const scopes = getCurrentContext()?.scopes;
+    if (hasWriteScope(scopes)) return undefined;
+    debugLog("Tool call rejected: missing write scope", { tool: toolName, scopes });
+    return {
+      isError: true,
+      content: [{
+        type: "text" as const,
+        text: `❌ 403 Forbidden: ${toolName} ${action} and requires the "${SCOPE_WRITE}" scope. ` +
+          `This connection was granted read-only access (${(scopes ?? []).join(", ") || "no scopes"}). ` +
+          `Reconnect without "Read-only access" to run mutation tools.`,
+      }],
+    };
+  };
+
+  // Not read-only, but they change Zebrunner data only in some branches (or
+  // never: local file writes), so they call writeScopeError themselves.
+  const SCOPE_CHECKED_IN_HANDLER: ReadonlySet<string> = new Set([
+    "cache_admin",
+    "export_test_cases",
+    "scan_automation_repo",
+  ]);
+
+  const withScopeGuard = (toolName: string, config: any, handler: any) => {
+    if (config?.annotations?.readOnlyHint === true) return handler;
+    if (SCOPE_CHECKED_IN_HANDLER.has(toolName.slice(ADV_TOOL_PREFIX.length))) return handler;
+    return async (...handlerArgs: any[]) =>
+      writeScopeError(toolName, "modifies Zebrunner data") ?? handler(...handlerArgs);
+  };
+
+  // ── Rate limiting (HTTP mode) ──
+  // Token buckets per authenticated user and per tool class, shared by all
+  // sessions of the process (see `rateLimits` in zebrunner-config.json).
+  // Rejected calls never reach the handler and are counted in ToolMetrics.
+  const rateLimiter = getSharedRateLimiter();
+  const withRateLimit = (toolName: string, config: any, handler: any) => {
+    const readOnly = config?.annotations?.readOnlyHint === true;
+    return async (...handlerArgs: any[]) => {
+      const user = getCurrentContext()?.username;
+      if (!user || !rateLimiter.enabled) return handler(...handlerArgs);
+      const decision = rateLimiter.consume(user, toolName, readOnly);
+      if (!decision.allowed) {
+        toolMetrics.recordRateLimited(toolName);
+        debugLog("Tool call rate limited", { tool: toolName, limitedBy: decision.limitedBy, retryAfterSeconds: decision.retryAfterSeconds });
+        const scope = decision.limitedBy === "user" ? "all tools" : `${decision.limitedBy!.replace("_", " ")} tools`;
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: `❌ 429 Too Many Requests: rate limit for ${scope} reached. Retry after ${decision.retryAfterSeconds}s.`,
+          }],
+          _meta: { retryAfterSeconds: decision.retryAfterSeconds, limitedBy: decision.limitedBy },
+        };
+      }
+      return handler(...handlerArgs);
+    };
+  };
+
+  const guardTool = (toolName: string, config: any, handler: any) =>
+    withRateLimit(toolName, config, wrapToolHandler(toolName, withScopeGuard(toolName, config, handler), toolMetrics));
+
   const origRegisterTool = server.registerTool.bind(server);
   server.registerTool = ((name: string, config: any, handler: any) => {
     // Defensive: if a caller already passes an adv_-prefixed name, register
     // it once without creating an alias to itself.
     if (typeof name === "string" && name.startsWith(ADV_TOOL_PREFIX)) {
-      return origRegisterTool(name, config, wrapToolHandler(name, handler, toolMetrics));
+      return origRegisterTool(name, config, guardTool(name, config, handler));
     }
 
     const advName = `${ADV_TOOL_PREFIX}${name}`;
+    const guardedHandler = guardTool(advName, config, handler);
     const baseDescription = typeof config?.description === "string" ? config.description : "";
     const advancedConfig = {
       ...config,
@@ -1095,7 +1244,7 @@ function createConfiguredServer(): McpServer {
     const primaryResult = origRegisterTool(
       advName,
       advancedConfig,
-      wrapToolHandler(advName, handler, toolMetrics),
+      guardedHandler,
     );
 
     if (!REGISTER_LEGACY_ALIASES) {
@@ -1106,7 +1255,7 @@ function createConfiguredServer(): McpServer {
       ...config,
       description: `[deprecated alias — use ${advName}] ${baseDescription}`,
     };
-    return origRegisterTool(name, legacyConfig, wrapToolHandler(advName, handler, toolMetrics));
+    return origRegisterTool(name, legacyConfig, guardedHandler);
   }) as typeof server.registerTool;
 
   debugLog("🚀 Starting Advanced Zebrunner MCP Server (mcp-zebrunner) with Reporting API", {
@@ -3078,12 +3227,12 @@ Default format is 'json' which exposes all raw field values. Use 'json' when usi
   server.registerTool(
     "generate_draft_test_by_key",
     {
-      description: "🧪 Generate draft test code from Zebrunner test case with intelligent framework detection",
+      description: "🧪 Generate draft test code from Zebrunner test case with intelligent framework detection (Java/Carina, Jest, Playwright, Cypress, Pytest, WebdriverIO)",
     inputSchema: {
       project_key: z.string().min(1).optional().describe("Project key (auto-detected from case_key if not provided)"),
       case_key: z.string().min(1).describe("Test case key (e.g., 'ANDROID-6')"),
       implementation_context: z.string().min(10).describe("Implementation context (existing code, file paths, or framework hints)"),
-      target_framework: z.enum(['auto', 'java-carina', 'javascript-jest', 'python-pytest']).default('auto').describe("Target test framework (auto-detected if 'auto')"),
+      target_framework: z.enum(['auto', 'java-carina', 'javascript-jest', 'typescript-playwright', 'javascript-cypress', 'python-pytest', 'javascript-webdriverio']).default('auto').describe("Target test framework (auto-detected from implementation_context if 'auto')"),
       output_format: z.enum(['code', 'markdown', 'comments', 'all']).default('code').describe("Output format for generated test"),
       include_setup_teardown: z.boolean().default(true).describe("Include setup and teardown code"),
       include_assertions_templates: z.boolean().default(true).describe("Include assertion templates"),
@@ -3158,25 +3307,25 @@ Default format is 'json' which exposes all raw field values. Use 'json' when usi
           responseText += `**Quality Score**: ${generatedTest.qualityScore}%\n\n`;
 
           if (generatedTest.imports.length > 0) {
-            responseText += `## Imports\n\`\`\`${generatedTest.framework.includes('java') ? 'java' : 'javascript'}\n`;
+            responseText += `## Imports\n\`\`\`${generatedTest.language}\n`;
             responseText += generatedTest.imports.join('\n') + '\n\`\`\`\n\n';
           }
 
-          responseText += `## Test Code\n\`\`\`${generatedTest.framework.includes('java') ? 'java' : 'javascript'}\n`;
+          responseText += `## Test Code\n\`\`\`${generatedTest.language}\n`;
           responseText += generatedTest.testCode + '\n\`\`\`\n\n';
 
           if (generatedTest.setupCode) {
-            responseText += `## Setup Code\n\`\`\`${generatedTest.framework.includes('java') ? 'java' : 'javascript'}\n`;
+            responseText += `## Setup Code\n\`\`\`${generatedTest.language}\n`;
             responseText += generatedTest.setupCode + '\n\`\`\`\n\n';
           }
 
           if (generatedTest.pageObjectCode) {
-            responseText += `## Page Object\n\`\`\`${generatedTest.framework.includes('java') ? 'java' : 'javascript'}\n`;
+            responseText += `## Page Object\n\`\`\`${generatedTest.language}\n`;
             responseText += generatedTest.pageObjectCode + '\n\`\`\`\n\n';
           }
 
           if (generatedTest.dataProviderCode) {
-            responseText += `## Data Provider\n\`\`\`${generatedTest.framework.includes('java') ? 'java' : 'javascript'}\n`;
+            responseText += `## Data Provider\n\`\`\`${generatedTest.language}\n`;
             responseText += generatedTest.dataProviderCode + '\n\`\`\`\n\n';
           }
         }
@@ -3841,39 +3990,57 @@ Supports two modes:
   // Ensures the preview step is always executed before mutation.
   // Preview generates a one-time-use token and stores the full args;
   // the confirm call only needs confirm + token (args are restored).
-  const CONFIRMATION_TOKEN_TTL_MS = 10 * 60 * 1000; // 10 min
-  interface PendingConfirmation { timestamp: number; argsJson: string }
-  const confirmationTokens = new Map<string, PendingConfirmation>();
-
-  function generateConfirmationToken(argsJson: string): string {
-    const now = Date.now();
-    for (const [tok, pd] of confirmationTokens) {
-      if (now - pd.timestamp > CONFIRMATION_TOKEN_TTL_MS) confirmationTokens.delete(tok);
-    }
+  // Tokens live in the module-level `confirmationStore` (shared across HTTP
+  // sessions/replicas) and are bound to the user who requested the preview
+  // and to the tool that issued it.
+  function currentConfirmationOwner(): string | undefined {
+    return getCurrentContext()?.username?.toLowerCase();
+  }
+
+  async function generateConfirmationToken(tool: string, argsJson: string): Promise<string> {
+    await confirmationStore.sweepExpired().catch((err) => debugLog("Confirmation store sweep failed", { error: String(err) }));
     const token = crypto.randomBytes(8).toString("hex");
-    confirmationTokens.set(token, { timestamp: now, argsJson });
+    await confirmationStore.set(token, { argsJson, createdAt: Date.now(), owner: currentConfirmationOwner(), tool });
     return token;
   }
 
-  function validateAndRestoreArgs<T extends Record<string, unknown>>(
+  async function validateAndRestoreArgs<T extends Record<string, unknown>>(
+    tool: string,
     args: T,
-  ): T | { error: string } {
+  ): Promise<T | { error: string }> {
     const token = (args as Record<string, unknown>).confirmation_token as string | undefined;
     if (!token) {
       return { error: "❌ confirmation_token is required when confirm is true. " +
         "Call without confirm first to get a preview and token." };
     }
-    const pd = confirmationTokens.get(token);
+    let pd: PendingConfirmation | null;
+    try {
+      pd = await confirmationStore.get(token);
+    } catch {
+      pd = null;
+    }
     if (pd == null) {
       return { error: "❌ Invalid or already-used confirmation_token. " +
         "Call without confirm first to get a fresh preview and token." };
     }
-    if (Date.now() - pd.timestamp > CONFIRMATION_TOKEN_TTL_MS) {
-      confirmationTokens.delete(token);
+    if ((pd.owner ?? null) !== (currentConfirmationOwner() ?? null)) {
+      return { error: "❌ This confirmation_token was issued to a different user. " +
+        "Call without confirm first to get your own preview and token." };
+    }
+    if (pd.tool !== tool) {
+      return { error: `❌ This confirmation_token was issued for ${pd.tool ?? "another tool"}, not ${tool}. ` +
+        `Call ${tool} without confirm first to get a preview and token for it.` };
+    }
+    if (Date.now() - pd.createdAt > CONFIRMATION_TOKEN_TTL_MS) {
+      await confirmationStore.delete(token).catch(() => false);
       return { error: "❌ Confirmation token expired (10 min TTL). " +
         "Call without confirm first to get a new preview and token." };
     }
-    confirmationTokens.delete(token); // one-time use
+    // One-time use: only the caller that actually removes the entry may proceed
+    if (!(await confirmationStore.delete(token))) {
+      return { error: "❌ Invalid or already-used confirmation_token. " +
+        "Call without confirm first to get a fresh preview and token." };
+    }
     const storedArgs = JSON.parse(pd.argsJson) as T;
     const reviewOverride = (args as Record<string, unknown>).review;
     Object.assign(args, storedArgs);
@@ -3915,7 +4082,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
       try {
         // Restore full args from stored token when confirming
         if (args.confirm) {
-          const restored = validateAndRestoreArgs(args);
+          const restored = await validateAndRestoreArgs("create_test_suite", args);
           if ("error" in restored) return { content: [{ type: "text" as const, text: restored.error }] };
         }
 
@@ -3946,7 +4113,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
           : "root level";
 
         if (!args.confirm) {
-          const token = generateConfirmationToken(JSON.stringify(args));
+          const token = await generateConfirmationToken("create_test_suite", JSON.stringify(args));
           return {
             content: [{ type: "text" as const, text:
               `📋 Preview — create_test_suite\nPOST ${url}\n\n` +
@@ -4035,7 +4202,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
     async (args) => {
       try {
         if (args.confirm) {
-          const restored = validateAndRestoreArgs(args);
+          const restored = await validateAndRestoreArgs("update_test_suite", args);
           if ("error" in restored) return { content: [{ type: "text" as const, text: restored.error }] };
         }
 
@@ -4078,7 +4245,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
             beforeText = "⚠️ Could not fetch current suite state for comparison.\n\n";
           }
 
-          const token = generateConfirmationToken(JSON.stringify(args));
+          const token = await generateConfirmationToken("update_test_suite", JSON.stringify(args));
           return {
             content: [{ type: "text" as const, text:
               `📋 Preview — update_test_suite\nPUT ${url}\n\n` +
@@ -4103,13 +4270,15 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
           // Non-fatal — proceed without diff
         }
 
-        writeAuditLog({
+        const auditId = writeAuditLog({
           timestamp: new Date().toISOString(),
           tool: "update_test_suite",
           method: "PUT",
           url,
           projectKey,
           payload,
+          target: { type: "test_suite", identifier: args.suite_id },
+          ...(Object.keys(beforeData).length > 0 ? { before: beforeData } : {}),
         });
 
         const body = await mutationClient.updateTestSuite(projectKey, args.suite_id, payload);
@@ -4125,7 +4294,8 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
             `ID: ${afterData.id} | Title: ${afterData.title}\n` +
             `Parent: ${parentLabel} | Position: ${afterData.relativePosition ?? "N/A"}\n\n` +
             `Changed fields:\n${formatDiff(diffs)}\n\n` +
-            `Full updated record:\n${JSON.stringify(afterData, null, 2)}`
+            `Full updated record:\n${JSON.stringify(afterData, null, 2)}\n\n` +
+            `Audit entry: ${auditId} (undo with adv_revert_change)`
           }]
         };
       } catch (error: any) {
@@ -4228,7 +4398,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
     async (args) => {
       try {
         if (args.confirm) {
-          const restored = validateAndRestoreArgs(args);
+          const restored = await validateAndRestoreArgs("manage_test_run", args);
           if ("error" in restored) return { content: [{ type: "text" as const, text: restored.error }] };
         }
 
@@ -4262,7 +4432,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
           }
 
           if (!args.confirm) {
-            const token = generateConfirmationToken(JSON.stringify(args));
+            const token = await generateConfirmationToken("manage_test_run", JSON.stringify(args));
             const lines = [
               `📋 Preview — manage_test_run (create)`,
               `POST ${url}\n`,
@@ -4345,19 +4515,29 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
             lines.push("");
             lines.push(`Payload:\n${JSON.stringify(payload, null, 2)}`);
             lines.push("");
-            const token = generateConfirmationToken(JSON.stringify(args));
+            const token = await generateConfirmationToken("manage_test_run", JSON.stringify(args));
             lines.push(`confirmation_token: ${token}`);
             lines.push(`⚠️ To proceed, call again with ONLY: { "confirm": true, "confirmation_token": "${token}" }`);
             return { content: [{ type: "text" as const, text: lines.join("\n") }] };
           }
 
-          writeAuditLog({
+          let beforeRun: Record<string, unknown> = {};
+          try {
+            const before = await client.getPublicTestRunById({ id: args.test_run_id, projectKey });
+            beforeRun = (before.data ?? {}) as Record<string, unknown>;
+          } catch {
+            // Non-fatal — the update proceeds, but this entry won't be revertable
+          }
+
+          const auditId = writeAuditLog({
             timestamp: new Date().toISOString(),
             tool: "manage_test_run",
             method: "PATCH",
             url,
             projectKey,
             payload,
+            target: { type: "test_run", identifier: args.test_run_id },
+            ...(Object.keys(beforeRun).length > 0 ? { before: beforeRun } : {}),
           });
 
           const body = await mutationClient.updateTestRun(projectKey, args.test_run_id, payload, opts);
@@ -4365,7 +4545,8 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
           return { content: [{ type: "text" as const, text:
             `✅ Test Run updated successfully\n` +
             `ID: ${run.id}\nTitle: ${run.title}\nClosed: ${run.closed}\n\n` +
-            `Full updated record:\n${JSON.stringify(run, null, 2)}` +
+            `Full updated record:\n${JSON.stringify(run, null, 2)}\n\n` +
+            `Audit entry: ${auditId} (undo with adv_revert_change)` +
             steeringHint("manage_test_run_update", { id: run.id as number })
           }] };
         }
@@ -4418,7 +4599,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
             lines.push("");
             lines.push(`Payload:\n${JSON.stringify(payload, null, 2)}`);
             lines.push("");
-            const token = generateConfirmationToken(JSON.stringify(args));
+            const token = await generateConfirmationToken("manage_test_run", JSON.stringify(args));
             lines.push(`confirmation_token: ${token}`);
             lines.push(`⚠️ To proceed, call again with ONLY: { "confirm": true, "confirmation_token": "${token}" }`);
             return { content: [{ type: "text" as const, text: lines.join("\n") }] };
@@ -4529,7 +4710,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
     async (args) => {
       try {
         if (args.confirm) {
-          const restored = validateAndRestoreArgs(args);
+          const restored = await validateAndRestoreArgs("import_launch_results_to_test_run", args);
           if ("error" in restored) return { content: [{ type: "text" as const, text: restored.error }] };
         }
 
@@ -4703,7 +4884,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
           }
 
           lines.push("");
-          const token = generateConfirmationToken(JSON.stringify(args));
+          const token = await generateConfirmationToken("import_launch_results_to_test_run", JSON.stringify(args));
           lines.push(`confirmation_token: ${token}`);
           lines.push(`⚠️ To proceed, call again with ONLY: { "confirm": true, "confirmation_token": "${token}" }`);
           return { content: [{ type: "text" as const, text: lines.join("\n") }] };
@@ -4859,7 +5040,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
     async (args: RerunLaunchFailuresArgs) => {
       try {
         if (args.confirm) {
-          const restored = validateAndRestoreArgs(args);
+          const restored = await validateAndRestoreArgs("rerun_launch_failures", args);
           if ("error" in restored) return { content: [{ type: "text" as const, text: restored.error }] };
         }
 
@@ -4931,7 +5112,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
           }
 
           const tokenPayload = { ...args, _resolvedTargets: previewTargets };
-          const token = generateConfirmationToken(JSON.stringify(tokenPayload));
+          const token = await generateConfirmationToken("rerun_launch_failures", JSON.stringify(tokenPayload));
           lines.push(`confirmation_token: ${token}`);
           lines.push(`⚠️ To proceed, call again with ONLY: { "confirm": true, "confirmation_token": "${token}" }`);
           return { content: [{ type: "text" as const, text: lines.join("\n") }] };
@@ -5020,6 +5201,201 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
     }
   );
 
+  // ========== suggest_issue_links (Beta) ==========
+
+  const SuggestIssueLinksSchema = z.object({
+    project: z.union([z.enum(["web", "android", "ios", "api"]), z.string(), z.number()]).optional()
+      .describe("Project alias (web/android/ios/api), project key, or project ID. Required for preview, auto-restored for confirm."),
+    launch_id: z.number().int().positive().optional()
+      .describe("Launch whose unlinked failures should get suggestions. Required for preview, auto-restored for confirm."),
+    history_launches: z.number().int().positive().max(50).default(20)
+      .describe("Previous launches scanned for failures with linked issues (default 20, max 50)"),
+    milestone: z.string().optional()
+      .describe("Only learn known issues from launches in this milestone"),
+    min_confidence: z.number().int().min(0).max(99).default(60)
+      .describe("Hide suggestions below this confidence (0–99, default 60)"),
+    stack_frames: z.number().int().min(0).max(10).default(3)
+      .describe("Top stack frames included in the failure signature"),
+    test_ids: z.array(z.number().int().positive()).optional()
+      .describe("Only suggest links for these test IDs in the launch"),
+    dry_run: BoolParam.describe("If true, show suggestions and API URLs without a confirmation token."),
+    confirm: BoolParam.describe("Must be true to link the suggested issues. Without it, returns a preview."),
+    confirmation_token: z.string().optional()
+      .describe("Token returned by the preview step. Required when confirm is true."),
+  });
+
+  type SuggestIssueLinksArgs = z.infer<typeof SuggestIssueLinksSchema> & {
+    _resolvedLinks?: IssueLinkSuggestion[];
+  };
+
+  /** Learn known issues from recent launches (and already-linked failures in the target launch). */
+  async function collectIssueLinkSuggestions(
+    projectId: number,
+    args: SuggestIssueLinksArgs,
+  ): Promise<{ suggestions: IssueLinkSuggestion[]; unlinked: number; historyLaunches: number; warnings: string[] }> {
+    const launchId = args.launch_id!;
+    const historyCount = args.history_launches ?? 20;
+    const history: LaunchListItem[] = [];
+    let page = 1;
+    while (history.length < historyCount) {
+      const resp = await reportingClient.getLaunches(projectId, {
+        page,
+        pageSize: Math.min(historyCount + 1, 50),
+        milestone: args.milestone,
+      });
+      history.push(...resp.items.filter((l) => l.id !== launchId));
+      if (resp.items.length === 0 || page >= (resp._meta?.totalPages ?? 1)) break;
+      page++;
+    }
+
+    const [target, ...past] = await runWithConcurrency(
+      [launchId, ...history.slice(0, historyCount).map((l) => l.id)],
+      4,
+      (id) => `launch ${id}`,
+      async (id) => (await reportingClient.getAllTestRuns(id, projectId)).items,
+    );
+    if (!target.ok) {
+      throw new Error(`Could not load tests for launch ${launchId}: ${target.error}`);
+    }
+
+    const linked: LinkedFailure[] = [];
+    const warnings: string[] = [];
+    for (const result of [target, ...past]) {
+      if (!result.ok) {
+        warnings.push(`${result.item}: ${result.error}`);
+        continue;
+      }
+      for (const t of result.value) {
+        if (t.message && t.issueReferences.length > 0) {
+          linked.push({ testName: t.name, message: t.message, issues: t.issueReferences.map((i) => ({ type: i.type, value: i.value })) });
+        }
+      }
+    }
+
+    const wanted = args.test_ids?.length ? new Set(args.test_ids) : null;
+    const unlinked: UnlinkedFailure[] = target.value
+      .filter((t) => t.status === "FAILED" && t.issueReferences.length === 0 && t.message)
+      .filter((t) => !wanted || wanted.has(t.id))
+      .map((t) => ({ testId: t.id, testName: t.name, message: t.message! }));
+
+    const index = buildKnownIssueIndex(linked, args.stack_frames ?? 3);
+    return {
+      suggestions: suggestIssueLinks(unlinked, index, args.min_confidence ?? 60),
+      unlinked: unlinked.length,
+      historyLaunches: past.filter((r) => r.ok).length,
+      warnings,
+    };
+  }
+
+  server.registerTool(
+    "suggest_issue_links",
+    {
+      description: `🔗 (Beta) Suggest known issues for unlinked failures in a launch and, after confirmation, link them.
+
+Failures are matched by normalized failure signature against failures in recent launches that already have a linked issue (Jira etc.). Each suggestion has a 0–99 confidence score and the evidence behind it.
+
+TWO-STEP FLOW: 1) Call with project + launch_id (without confirm) to get suggestions + confirmation_token. 2) After user approval, call with ONLY confirm: true and the confirmation_token. The previewed links are stored server-side — do NOT re-send other fields.`,
+      inputSchema: SuggestIssueLinksSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+    },
+    async (args: SuggestIssueLinksArgs) => {
+      try {
+        if (args.confirm) {
+          const restored = await validateAndRestoreArgs("suggest_issue_links", args);
+          if ("error" in restored) return { content: [{ type: "text" as const, text: restored.error }] };
+        }
+        if (args.project == null || args.launch_id == null) {
+          return { content: [{ type: "text" as const, text: "❌ project and launch_id are required" }] };
+        }
+
+        const { projectId } = await resolveProjectId(args.project);
+        const projectKey = await reportingClient.getProjectKey(projectId);
+        const baseUrl = reportingConfig.baseUrl.replace(/\/+$/, "");
+        const launchUrl = `${baseUrl}/projects/${projectKey}/automation-launches/${args.launch_id}`;
+
+        if (!args.confirm) {
+          const { suggestions, unlinked, historyLaunches, warnings } = await collectIssueLinkSuggestions(projectId, args);
+          const lines = [
+            "📋 Preview — suggest_issue_links",
+            `Project: ${projectKey} (ID ${projectId})`,
+            `Launch: ${args.launch_id} — ${launchUrl}`,
+            `Unlinked failures: ${unlinked} | History launches scanned: ${historyLaunches} | Min confidence: ${args.min_confidence ?? 60}`,
+            "",
+          ];
+
+          if (suggestions.length === 0) {
+            lines.push("No issue link suggestions — no unlinked failure matches a known issue signature.");
+            if (warnings.length > 0) lines.push("", "⚠️ Skipped launches:", ...warnings.map((w) => `  • ${w}`));
+            return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+          }
+
+          lines.push(
+            `${suggestions.length} suggested link(s):`,
+            "",
+            "| Test ID | Test | Issue | Confidence | Evidence |",
+            "|---------|------|-------|------------|----------|",
+          );
+          for (const sug of suggestions) {
+            lines.push(`| ${sug.testId} | ${sug.testName.slice(0, 50)} | ${sug.issue.type} ${sug.issue.value} | ${sug.confidence}% | ${sug.basis.join("; ")} |`);
+          }
+          if (warnings.length > 0) lines.push("", "⚠️ Skipped launches:", ...warnings.map((w) => `  • ${w}`));
+
+          if (args.dry_run) {
+            lines.push("", "DRY RUN — API calls that would be made:");
+            for (const sug of suggestions) {
+              lines.push(`  POST /api/reporting/v1/launches/${args.launch_id}/tests/${sug.testId}/issue-references?projectId=${projectId} ${JSON.stringify(sug.issue)}`);
+            }
+            return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+          }
+
+          const token = await generateConfirmationToken("suggest_issue_links", JSON.stringify({ ...args, _resolvedLinks: suggestions }));
+          lines.push("", `confirmation_token: ${token}`);
+          lines.push(`⚠️ To proceed, call again with ONLY: { "confirm": true, "confirmation_token": "${token}" }`);
+          return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+        }
+
+        const links = args._resolvedLinks ?? [];
+        if (links.length === 0) {
+          return { content: [{ type: "text" as const, text: "❌ No issue links to apply. Call without confirm first to get a preview." }] };
+        }
+
+        const results = await runWithConcurrency(
+          links,
+          4,
+          (l) => `${l.testName} (${l.testId}) → ${l.issue.value}`,
+          async (link) => {
+            const url = `/api/reporting/v1/launches/${args.launch_id}/tests/${link.testId}/issue-references?projectId=${projectId}`;
+            writeAuditLog({
+              timestamp: new Date().toISOString(),
+              tool: "suggest_issue_links",
+              method: "POST",
+              url,
+              projectKey,
+              payload: { ...link.issue, confidence: link.confidence },
+            });
+            return reportingClient.linkIssueReference(args.launch_id!, link.testId, projectId, link.issue);
+          },
+        );
+
+        const failed = results.filter((r) => !r.ok);
+        const lines = [
+          `${failed.length === 0 ? "✅" : "⚠️"} Linked ${results.length - failed.length} of ${results.length} issue(s) in launch ${args.launch_id}`,
+          launchUrl,
+          "",
+          ...results.map((r) => (r.ok ? `✅ ${r.item}` : `❌ ${r.item}: ${r.error}`)),
+        ];
+        return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+      } catch (error: any) {
+        return { content: [{ type: "text" as const, text: `❌ Error in suggest_issue_links: ${error.message}` }] };
+      }
+    }
+  );
+
   // ========== start_launch (Beta) ==========
 
   const StartLaunchSchema = z.object({
@@ -5088,7 +5464,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
     async (args: StartLaunchArgs) => {
       try {
         if (args.confirm) {
-          const restored = validateAndRestoreArgs(args);
+          const restored = await validateAndRestoreArgs("start_launch", args);
           if ("error" in restored) return { content: [{ type: "text" as const, text: restored.error }] };
         }
 
@@ -5180,7 +5556,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
           }
 
           const tokenPayload = { ...args, _resolvedTemplate: template, _mergedPayload: mergedPayload };
-          const token = generateConfirmationToken(JSON.stringify(tokenPayload));
+          const token = await generateConfirmationToken("start_launch", JSON.stringify(tokenPayload));
           lines.push(`confirmation_token: ${token}`);
           lines.push(`⚠️ To proceed, call again with ONLY: { "confirm": true, "confirmation_token": "${token}" }`);
           return { content: [{ type: "text" as const, text: lines.join("\n") }] };
@@ -5317,7 +5693,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
       try {
         // Restore full args from stored token when confirming
         if (args.confirm) {
-          const restored = validateAndRestoreArgs(args);
+          const restored = await validateAndRestoreArgs("create_test_case", args);
           if ("error" in restored) return { content: [{ type: "text" as const, text: restored.error }] };
         }
 
@@ -5499,7 +5875,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
             previewText += `\n📎 ${fileTransferReport}\n`;
           }
 
-          const token = generateConfirmationToken(JSON.stringify(args));
+          const token = await generateConfirmationToken("create_test_case", JSON.stringify(args));
           previewText += steeringHint("create_test_case_preview", { id: 0 });
           previewText += `\nPayload:\n${JSON.stringify(payload, null, 2)}\n\n` +
             `confirmation_token: ${token}\n` +
@@ -5681,7 +6057,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
       try {
         // Restore full args from stored token when confirming
         if (args.confirm) {
-          const restored = validateAndRestoreArgs(args);
+          const restored = await validateAndRestoreArgs("update_test_case", args);
           if ("error" in restored) return { content: [{ type: "text" as const, text: restored.error }] };
         }
 
@@ -5762,7 +6138,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
             ? `\n📎 Attachments to upload:\n${filePathLines.join("\n")}\n`
             : "";
 
-          const token = generateConfirmationToken(JSON.stringify(args));
+          const token = await generateConfirmationToken("update_test_case", JSON.stringify(args));
           return {
             content: [{ type: "text" as const, text:
               `📋 Preview — update_test_case (by ${identifierType})\nPATCH ${url}\n\n` +
@@ -5810,13 +6186,15 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
         }
         debugLog("update_test_case: file uploads done", { elapsed: `${Date.now() - t0}ms` });
 
-        writeAuditLog({
+        const auditId = writeAuditLog({
           timestamp: new Date().toISOString(),
           tool: "update_test_case",
           method: "PATCH",
           url,
           projectKey,
           payload,
+          target: { type: "test_case", identifier: args.identifier },
+          ...(Object.keys(beforeData).length > 0 ? { before: beforeData } : {}),
         });
 
         const body = isKeyIdentifier
@@ -5830,7 +6208,8 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
         let resultText =
           `✅ Test Case updated successfully\n` +
           `ID: ${afterData.id ?? "N/A"} | Key: ${afterData.key ?? "N/A"}\n\n` +
-          `Changed fields:\n${formatDiff(diffs)}\n`;
+          `Changed fields:\n${formatDiff(diffs)}\n` +
+          `Audit entry: ${auditId} (undo with adv_revert_change)\n`;
 
         if (uploadReportLines.length > 0) resultText += `\n📎 Files uploaded:\n${uploadReportLines.join("\n")}\n`;
         if (uploadWarnings.length > 0) resultText += `\n${uploadWarnings.join("\n")}\n`;
@@ -5889,30 +6268,58 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
     }
   );
 
-  // ========== END MUTATION TOOLS ==========
+  const BulkUpdateTestCasesSchema = z.object({
+    project_key: z.string().min(1).optional()
+      .describe("Project key. Required for preview, auto-restored for confirm."),
+    keys: z.array(z.string().min(1)).min(1).max(1000).optional()
+      .describe("Selector: explicit test case keys (e.g. ['MCP-1', 'MCP-2'])."),
+    suite_id: z.number().int().positive().optional()
+      .describe("Selector: all test cases directly in this suite."),
+    filters: z.object({
+      root_suite_id: z.number().int().positive().optional(),
+      automation_states: z.union([z.string(), z.number(), z.array(z.union([z.string(), z.number()]))]).optional(),
+      created_after: z.string().optional(),
+      created_before: z.string().optional(),
+      modified_after: z.string().optional(),
+      modified_before: z.string().optional(),
+      exclude_deprecated: z.boolean().optional(),
+      exclude_draft: z.boolean().optional(),
+      field_path: z.string().optional(),
+      field_value: z.string().optional(),
+      field_match: z.enum(["exact", "contains", "regex", "exists"]).optional(),
+    }).optional()
+      .describe("Selector: same filters as get_test_cases_advanced (combinable with suite_id)."),
+    patch: z.object({
+      test_suite_id: z.number().int().positive().optional().describe("Move cases to this suite."),
+      priority: IdOrName.optional(),
+      automation_state: IdOrName.optional(),
+      draft: z.boolean().optional(),
+      deprecated: z.boolean().optional(),
+      custom_field: z.record(z.string(), z.unknown()).optional()
+        .describe("Only specified keys are updated. Set a value to null to clear that field."),
+    }).optional()
+      .describe("Fields applied to every selected case (PATCH semantics)."),
+    max_cases: z.number().int().positive().max(1000).default(200)
+      .describe("Safety cap — the preview fails when the selector matches more cases."),
+    concurrency: z.number().int().min(1).max(10).default(5)
+      .describe("Parallel PATCH requests on confirm."),
+    dry_run: BoolParam.describe("If true, returns the resolved case list and payload for debugging."),
+    confirm: BoolParam.describe("Must be true to execute. Without it, returns a preview for user approval."),
+    confirmation_token: z.string().optional()
+      .describe("Token returned by the preview step. Required when confirm is true."),
+  });
 
   server.registerTool(
-    "get_all_tcm_test_cases_by_project",
+    "bulk_update_test_cases",
     {
-      description: "📋 Get ALL TCM test cases by project using comprehensive pagination",
-    inputSchema: {
-      project_key: z.string().min(1).describe("Project key (e.g., 'android' or 'ANDROID')"),
-      format: z.enum(['dto', 'json', 'string', 'markdown']).default('json').describe("Output format"),
-      include_clickable_links: z.boolean().default(false).describe("Include clickable links to Zebrunner web UI"),
-      exclude_deprecated: z.boolean().default(false).describe("Exclude deprecated test cases from results"),
-      exclude_draft: z.boolean().default(false).describe("Exclude draft test cases from results"),
-      exclude_deleted: z.boolean().default(true).describe("Exclude deleted test cases from results (default: true)"),
-      max_results: z.number().int().positive().max(10000).default(5000).describe("Maximum number of results (configurable limit for performance)"),
-      count_only: z.boolean().default(false).describe(
-        "When true, returns only the total count without test case data. " +
-        "Efficient for metrics collection -- avoids 1MB response limit on large projects."
-      ),
-      include_history: z.boolean().default(false).describe("When true, each test case includes a 'history' array of change log entries. Filtered to steps, preconditions, expected results, and lifecycle events (automation state changes, deprecation) by default."),
-      history_filter: z.enum(['steps_only', 'events_only', 'all']).default('steps_only').describe("What to include in history. 'steps_only': step/precondition/expectedResult diffs only. 'events_only': lifecycle events only (automated, deprecated, etc.). 'all': everything. Only used when include_history=true."),
-      history_limit: z.number().int().min(1).max(100).default(20).describe("Max history entries per test case. Default 20. For bulk tools fetching many cases, keep this low to avoid rate limits."),
-    },
+      description: `🔧 (Beta) Apply one patch (priority, automation state, draft/deprecated, suite, custom fields) to many test cases at once.
+Select cases by explicit keys, by suite_id, or by get_test_cases_advanced-style filters.
+The preview lists the field-level diff for every selected case under a single confirmation token; cases that already match are skipped.
+On confirm, cases are updated with bounded concurrency and a per-case success/failure report is returned. Each update gets its own audit entry (revertable with revert_change).
+TWO-STEP FLOW: 1) Call with selector + patch (without confirm) to get a preview + confirmation_token. 2) After user approval, call with ONLY confirm: true and the confirmation_token.`,
+      inputSchema: BulkUpdateTestCasesSchema,
       annotations: {
-        readOnlyHint: true,
+        readOnlyHint: false,
         destructiveHint: false,
         idempotentHint: true,
         openWorldHint: false,
@@ -5920,82 +6327,1511 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
     },
     async (args) => {
       try {
-        const { project_key, format, include_clickable_links, exclude_deprecated, exclude_draft, exclude_deleted, max_results, count_only, include_history, history_filter, history_limit } = args;
-
-        debugLog("Getting all TCM test cases", { project_key, include_clickable_links, max_results, count_only });
-
-        // Build RQL filter for status exclusions
-        // Note: `deleted` is NOT supported in RQL — must be filtered client-side
-        const filterParts: string[] = [];
-        if (exclude_deprecated) filterParts.push('deprecated = false');
-        if (exclude_draft) filterParts.push('draft = false');
-        const rqlFilter = filterParts.length > 0 ? filterParts.join(' AND ') : undefined;
+        if (args.confirm) {
+          const restored = await validateAndRestoreArgs("bulk_update_test_cases", args);
+          if ("error" in restored) return { content: [{ type: "text" as const, text: restored.error }] };
+        }
 
-        const applyDeletedFilter = (items: any[]): any[] =>
-          exclude_deleted ? items.filter((tc: any) => !tc.deleted) : items;
+        if (!args.project_key) {
+          return { content: [{ type: "text" as const, text: "❌ project_key is required" }] };
+        }
+        if (!args.keys && !args.suite_id && !args.filters) {
+          return { content: [{ type: "text" as const, text: "❌ Provide a selector: keys, suite_id, or filters" }] };
+        }
+        const projectKey = args.project_key;
+        const p = args.patch ?? {};
+        const payload: Record<string, unknown> = {};
+        if (p.test_suite_id !== undefined) payload.testSuite = { id: p.test_suite_id };
+        if (p.priority !== undefined) payload.priority = p.priority;
+        if (p.automation_state !== undefined) payload.automationState = p.automation_state;
+        if (p.draft !== undefined) payload.draft = p.draft;
+        if (p.deprecated !== undefined) payload.deprecated = p.deprecated;
+        if (p.custom_field !== undefined) payload.customField = p.custom_field;
+        if (Object.keys(payload).length === 0) {
+          return { content: [{ type: "text" as const, text: "❌ patch must contain at least one field to update" }] };
+        }
 
-        if (count_only) {
-          let totalCount = 0;
-          let pageCount = 0;
+        // Resolve the selector to a concrete key list (confirm re-uses the previewed list)
+        let keys: string[];
+        if (args.keys) {
+          keys = [...new Set(args.keys)];
+        } else {
+          const f = args.filters ?? {};
+          if (f.field_path && f.field_match !== "exists" && !f.field_value) {
+            return { content: [{ type: "text" as const, text: "❌ filters.field_value is required unless filters.field_match is 'exists'" }] };
+          }
+          const matched: any[] = [];
           let pageToken: string | undefined = undefined;
           do {
-            const result = await client.getTestCases(project_key, {
+            const response = await client.getTestCases(projectKey, {
+              suiteId: args.suite_id,
+              rootSuiteId: f.root_suite_id,
+              automationState: f.automation_states,
+              createdAfter: f.created_after,
+              createdBefore: f.created_before,
+              modifiedAfter: f.modified_after,
+              modifiedBefore: f.modified_before,
+              excludeDeprecated: f.exclude_deprecated,
+              excludeDraft: f.exclude_draft,
+              excludeDeleted: true,
               size: MAX_PAGE_SIZE,
               pageToken,
-              ...(rqlFilter && !pageToken ? { filter: rqlFilter } : {})
             });
-            totalCount += applyDeletedFilter(result.items || []).length;
-            pageCount++;
-            pageToken = result._meta?.nextPageToken;
-          } while (pageToken && pageCount < 100);
-
-          return { content: [{ type: "text" as const, text: JSON.stringify({
-            total_count: totalCount,
-            pages_traversed: pageCount,
-            filters_applied: rqlFilter || "none",
-            project_key
-          }, null, 2) }] };
+            matched.push(...(response.items || []));
+            pageToken = response._meta?.nextPageToken;
+          } while (pageToken);
+          const selected = f.field_path
+            ? filterByField(matched, { fieldPath: f.field_path, fieldValue: f.field_value, matchMode: (f.field_match || "exact") as FieldMatchMode })
+            : matched;
+          keys = selected.map((tc: any) => tc.key).filter((k: unknown): k is string => typeof k === "string");
         }
 
-        // Get clickable links configuration
-        const clickableLinkConfig = getClickableLinkConfig(include_clickable_links, ZEBRUNNER_URL);
-
-        // Get all test cases using proper token-based pagination
-        let allTestCases: ZebrunnerTestCase[] = [];
-        let pageToken: string | undefined = undefined;
-        let pageCount = 0;
-        let wasTruncated = false;
-        let hasMorePages = false;
-        const maxPages = 100; // Safety limit
-
-        do {
-          const result = await client.getTestCases(project_key, {
-            size: MAX_PAGE_SIZE,
-            pageToken: pageToken,
-            ...(rqlFilter && !pageToken ? { filter: rqlFilter } : {})
-          });
+        if (keys.length === 0) {
+          return { content: [{ type: "text" as const, text: "ℹ️ The selector matched no test cases — nothing to update." }] };
+        }
+        if (keys.length > args.max_cases) {
+          return { content: [{ type: "text" as const, text:
+            `❌ The selector matched ${keys.length} test cases, above max_cases (${args.max_cases}). Narrow the selector or raise max_cases (up to 1000).`
+          }] };
+        }
 
-          allTestCases.push(...result.items);
-          pageToken = result._meta?.nextPageToken;
-          pageCount++;
+        if (args.dry_run) {
+          return { content: [{ type: "text" as const, text:
+            `DRY RUN — bulk_update_test_cases\nPATCH /test-cases/key:{key}?projectKey=${encodeURIComponent(projectKey)} × ${keys.length}\n\n` +
+            `Cases: ${keys.join(", ")}\n\nPayload:\n${JSON.stringify(payload, null, 2)}`
+          }] };
+        }
 
-          // Apply max_results limit for performance
-          if (allTestCases.length >= max_results) {
-            allTestCases = allTestCases.slice(0, max_results);
-            wasTruncated = true;
-            hasMorePages = !!pageToken;
-            debugLog(`Limiting results to ${max_results} test cases for performance`);
-            break;
+        if (!args.confirm) {
+          const fetched = await runWithConcurrency(keys, args.concurrency, (k) => k,
+            async (key) => (await mutationClient.getTestCaseByKey(projectKey, key)).data ?? {});
+          const changing: string[] = [];
+          const sections: string[] = [];
+          let unchanged = 0;
+          for (const r of fetched) {
+            if (!r.ok) {
+              sections.push(`❌ ${r.item}: could not load (${r.error})`);
+              continue;
+            }
+            const diffs = diffPatchAgainst(r.value, payload);
+            if (diffs.length === 0) {
+              unchanged++;
+              continue;
+            }
+            changing.push(r.item);
+            sections.push(`• ${r.item} — ${r.value.title ?? ""}\n${formatDiff(diffs)}`);
+          }
+          if (changing.length === 0) {
+            return { content: [{ type: "text" as const, text:
+              `ℹ️ All ${keys.length} selected test cases already match the patch — nothing to update.` +
+              (sections.length > 0 ? `\n\n${sections.join("\n")}` : "")
+            }] };
           }
 
-          debugLog("Fetched test cases page", {
-            pageCount,
-            currentPageSize: result.items.length,
-            totalSoFar: allTestCases.length,
-            hasNextPage: !!pageToken
-          });
-
-        } while (pageToken && pageCount < maxPages);
+          const token = await generateConfirmationToken("bulk_update_test_cases", JSON.stringify({
+            project_key: projectKey,
+            keys: changing,
+            patch: args.patch,
+            max_cases: args.max_cases,
+            concurrency: args.concurrency,
+          }));
+          return { content: [{ type: "text" as const, text:
+            `📋 Preview — bulk_update_test_cases (project ${projectKey})\n` +
+            `Selected: ${keys.length} | To update: ${changing.length} | Already matching: ${unchanged} | Not loaded: ${keys.length - changing.length - unchanged}\n\n` +
+            `Patch:\n${JSON.stringify(payload, null, 2)}\n\n` +
+            `Per-case changes (current → new):\n${sections.join("\n")}\n\n` +
+            `confirmation_token: ${token}\n` +
+            `⚠️ To proceed, call again with ONLY: { "confirm": true, "confirmation_token": "${token}" }`
+          }] };
+        }
+
+        const results = await runWithConcurrency(keys, args.concurrency, (k) => k, async (key) => {
+          const url = `/test-cases/key:${key}?projectKey=${encodeURIComponent(projectKey)}`;
+          let before: Record<string, unknown> = {};
+          try {
+            before = (await mutationClient.getTestCaseByKey(projectKey, key)).data ?? {};
+          } catch {
+            // Non-fatal — the PATCH reports a missing case on its own
+          }
+          const auditId = writeAuditLog({
+            timestamp: new Date().toISOString(),
+            tool: "bulk_update_test_cases",
+            method: "PATCH",
+            url,
+            projectKey,
+            payload,
+            target: { type: "test_case", identifier: key },
+            ...(Object.keys(before).length > 0 ? { before } : {}),
+          });
+          try {
+            const body = await mutationClient.updateTestCaseByKey(projectKey, key, payload);
+            return { auditId, diffs: computeDiff(before, body.data ?? {}) };
+          } catch (err: any) {
+            const hint = err.statusCode === 404 ? " (not found)" : err.statusCode === 409 ? " (concurrent modification — retry)" : "";
+            throw new Error(`${err.message}${hint}`);
+          }
+        });
+
+        const succeeded = results.filter((r) => r.ok);
+        const failed = results.filter((r) => !r.ok);
+        const lines = results.map((r) => r.ok
+          ? `✅ ${r.item}: ${r.value.diffs.map((d) => d.field).join(", ") || "no visible change"} (audit ${r.value.auditId})`
+          : `❌ ${r.item}: ${r.error}`);
+        let text =
+          `${failed.length === 0 ? "✅" : "⚠️"} Bulk update finished: ${succeeded.length} succeeded, ${failed.length} failed (of ${results.length})\n\n` +
+          lines.join("\n");
+        if (failed.length > 0) {
+          const firstError = failed[0].ok ? "" : failed[0].error;
+          const hints = (await enrichMutationError(new Error(firstError), projectKey, mutationClient))
+            .slice(firstError.length).trim();
+          if (hints) text += `\n\n${hints}`;
+          text += `\n\nRetry only the failed cases with keys: ${JSON.stringify(failed.map((r) => r.item))}`;
+        }
+        return { content: [{ type: "text" as const, text }] };
+      } catch (error: any) {
+        const enriched = await enrichMutationError(error, args.project_key ?? "", mutationClient);
+        return { content: [{ type: "text" as const, text:
+          `❌ Error in bulk_update_test_cases: ${enriched}`
+        }] };
+      }
+    }
+  );
+
+  const CopyTestCasesSchema = z.object({
+    project_key: z.string().min(1).optional()
+      .describe("Source project key. Required for preview, auto-restored for confirm."),
+    keys: z.array(z.string().min(1)).min(1).max(500).optional()
+      .describe("Source test case keys. Provide this or source_suite_id."),
+    source_suite_id: z.number().int().positive().optional()
+      .describe("Copy/move all test cases directly in this source suite."),
+    target_suite_id: z.number().int().positive().optional()
+      .describe("Destination suite ID (in the target project)."),
+    target_project_key: z.string().min(1).optional()
+      .describe("Destination project key. Defaults to the source project."),
+    mode: z.enum(["copy", "move"]).default("copy")
+      .describe("'copy' creates new cases; 'move' relocates them (same project: suite change keeps keys/history; cross-project: creates copies and deprecates the originals)."),
+    add_source_link: z.boolean().default(true)
+      .describe("Prepend a link to the source case to copied descriptions (copy mode only)."),
+    concurrency: z.number().int().min(1).max(10).default(3)
+      .describe("Parallel cases processed on confirm."),
+    dry_run: BoolParam.describe("If true, returns the resolved case list and target for debugging."),
+    confirm: BoolParam.describe("Must be true to execute. Without it, returns a preview for user approval."),
+    confirmation_token: z.string().optional()
+      .describe("Token returned by the preview step. Required when confirm is true."),
+  });
+
+  server.registerTool(
+    "copy_test_cases",
+    {
+      description: `🔧 (Beta) Copy or move test cases into another suite, optionally in another project.
+Copies include steps, requirements, custom fields, and attachments (inline and step attachments are re-uploaded when crossing projects).
+Cross-project: priorities, automation states, and custom fields are remapped by name; values with no match in the target project are dropped and reported.
+Copies are created as drafts (same safety rule as create_test_case). Same-project moves only change the suite, so keys and history are kept; cross-project moves create copies and mark the originals deprecated.
+TWO-STEP FLOW: 1) Call with selector + target (without confirm) to get a preview + confirmation_token. 2) After user approval, call with ONLY confirm: true and the confirmation_token.`,
+      inputSchema: CopyTestCasesSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      try {
+        if (args.confirm) {
+          const restored = await validateAndRestoreArgs("copy_test_cases", args);
+          if ("error" in restored) return { content: [{ type: "text" as const, text: restored.error }] };
+        }
+
+        if (!args.project_key) {
+          return { content: [{ type: "text" as const, text: "❌ project_key (source project) is required" }] };
+        }
+        if (!args.keys && !args.source_suite_id) {
+          return { content: [{ type: "text" as const, text: "❌ Provide keys or source_suite_id" }] };
+        }
+        if (!args.target_suite_id) {
+          return { content: [{ type: "text" as const, text: "❌ target_suite_id is required" }] };
+        }
+        const sourceProject = args.project_key;
+        const targetProject = args.target_project_key ?? sourceProject;
+        const targetSuiteId = args.target_suite_id;
+        const crossProject = targetProject.toUpperCase() !== sourceProject.toUpperCase();
+        const inPlaceMove = args.mode === "move" && !crossProject;
+
+        let keys: string[];
+        if (args.keys) {
+          keys = [...new Set(args.keys)];
+        } else {
+          const found: any[] = [];
+          let pageToken: string | undefined = undefined;
+          do {
+            const response = await client.getTestCases(sourceProject, {
+              suiteId: args.source_suite_id,
+              excludeDeleted: true,
+              size: MAX_PAGE_SIZE,
+              pageToken,
+            });
+            found.push(...(response.items || []));
+            pageToken = response._meta?.nextPageToken;
+          } while (pageToken);
+          keys = found.map((tc: any) => tc.key).filter((k: unknown): k is string => typeof k === "string");
+        }
+        if (keys.length === 0) {
+          return { content: [{ type: "text" as const, text: "ℹ️ No source test cases found — nothing to copy." }] };
+        }
+        if (keys.length > 500) {
+          return { content: [{ type: "text" as const, text: `❌ ${keys.length} test cases selected; split the operation into batches of at most 500.` }] };
+        }
+
+        if (args.dry_run) {
+          return { content: [{ type: "text" as const, text:
+            `DRY RUN — copy_test_cases (${args.mode})\n` +
+            `${sourceProject} → ${targetProject} suite ${targetSuiteId}\n\nCases: ${keys.join(", ")}`
+          }] };
+        }
+
+        const copyCtx = await loadCaseCopyContext(mutationClient, sourceProject, targetProject);
+        const baseWebUrl = ZEBRUNNER_URL.replace("/api/public/v1", "");
+        const prepareCopy = (source: Record<string, unknown>, key: string) => {
+          const { payload, unmapped } = prepareCaseCopy(copyCtx, source, targetSuiteId);
+          if (args.mode === "copy") {
+            payload.draft = true;
+            if (args.add_source_link) {
+              const sourceLink = source.id
+                ? `[${key}](${baseWebUrl}/projects/${sourceProject}/test-cases?caseId=${source.id})`
+                : key;
+              payload.description = payload.description
+                ? `**Source:** ${sourceLink}\n\n${payload.description}`
+                : `**Source:** ${sourceLink}`;
+            }
+          }
+          return { payload, unmapped };
+        };
+
+        if (!args.confirm) {
+          const fetched = await runWithConcurrency(keys, args.concurrency, (k) => k,
+            async (key) => (await mutationClient.getTestCaseByKey(sourceProject, key)).data ?? {});
+          const lines: string[] = [];
+          const unmappedAll = new Map<string, string[]>();
+          let fileCount = 0;
+          for (const r of fetched) {
+            if (!r.ok) {
+              lines.push(`❌ ${r.item}: could not load (${r.error})`);
+              continue;
+            }
+            const title = String(r.value.title ?? "");
+            if (inPlaceMove) {
+              lines.push(`• ${r.item} — ${title} (suite ${(r.value.testSuite as { id?: number } | undefined)?.id ?? "?"} → ${targetSuiteId})`);
+              continue;
+            }
+            const { payload, unmapped } = prepareCopy(r.value, r.item);
+            const { attachmentUuids, inlineUuids } = collectAllFileUuids(payload);
+            const files = new Set([...attachmentUuids, ...inlineUuids]).size;
+            fileCount += files;
+            const stepCount = Array.isArray(payload.steps) ? payload.steps.length : 0;
+            lines.push(`• ${r.item} — ${title} (${stepCount} step(s), ${files} file(s))`);
+            for (const u of unmapped) unmappedAll.set(u, [...(unmappedAll.get(u) ?? []), r.item]);
+          }
+          const loaded = fetched.filter((r) => r.ok).map((r) => r.item);
+          if (loaded.length === 0) {
+            return { content: [{ type: "text" as const, text: `❌ None of the source test cases could be loaded:\n${lines.join("\n")}` }] };
+          }
+
+          const action = inPlaceMove
+            ? `Move ${loaded.length} case(s) to suite ${targetSuiteId} (PATCH testSuite — keys and history are kept)`
+            : args.mode === "move"
+            ? `Copy ${loaded.length} case(s) to ${targetProject} suite ${targetSuiteId}, then mark the ${sourceProject} originals deprecated`
+            : `Create ${loaded.length} draft copie(s) in ${targetProject} suite ${targetSuiteId}`;
+          const unmappedText = unmappedAll.size > 0
+            ? `\n⚠️ Not mappable to ${targetProject} (will be dropped):\n` +
+              [...unmappedAll].map(([what, where]) => `  ${what} — ${where.join(", ")}`).join("\n") + "\n"
+            : "";
+          const filesText = crossProject && fileCount > 0
+            ? `\n📎 ${fileCount} file reference(s) will be re-uploaded to ${targetProject}\n`
+            : "";
+
+          const token = await generateConfirmationToken("copy_test_cases", JSON.stringify({ ...args, keys: loaded, source_suite_id: undefined }));
+          return { content: [{ type: "text" as const, text:
+            `📋 Preview — copy_test_cases (${args.mode})\n${action}\n\n` +
+            `${lines.join("\n")}\n` + unmappedText + filesText + `\n` +
+            `confirmation_token: ${token}\n` +
+            `⚠️ To proceed, call again with ONLY: { "confirm": true, "confirmation_token": "${token}" }`
+          }] };
+        }
+
+        const results = await runWithConcurrency(keys, args.concurrency, (k) => k, async (key) => {
+          const source = (await mutationClient.getTestCaseByKey(sourceProject, key)).data ?? {};
+
+          if (inPlaceMove) {
+            const payload = { testSuite: { id: targetSuiteId } };
+            const auditId = writeAuditLog({
+              timestamp: new Date().toISOString(),
+              tool: "copy_test_cases",
+              method: "PATCH",
+              url: `/test-cases/key:${key}?projectKey=${encodeURIComponent(sourceProject)}`,
+              projectKey: sourceProject,
+              payload,
+              target: { type: "test_case", identifier: key },
+              before: source,
+            });
+            await mutationClient.updateTestCaseByKey(sourceProject, key, payload);
+            return { summary: `moved to suite ${targetSuiteId}`, auditId, unmapped: [] as string[], notes: [] as string[] };
+          }
+
+          const { payload, unmapped } = prepareCopy(source, key);
+          const { created, auditId, notes } = await createCaseCopy(mutationClient, copyCtx, payload, "copy_test_cases");
+
+          if (args.mode === "move") {
+            const deprecate = { deprecated: true };
+            writeAuditLog({
+              timestamp: new Date().toISOString(),
+              tool: "copy_test_cases",
+              method: "PATCH",
+              url: `/test-cases/key:${key}?projectKey=${encodeURIComponent(sourceProject)}`,
+              projectKey: sourceProject,
+              payload: deprecate,
+              target: { type: "test_case", identifier: key },
+              before: source,
+            });
+            try {
+              await mutationClient.updateTestCaseByKey(sourceProject, key, deprecate);
+              notes.push("original deprecated");
+            } catch (err: any) {
+              notes.push(`⚠️ copy created but the original could not be deprecated: ${err.message}`);
+            }
+          }
+          return { summary: `→ ${created.key ?? created.id ?? "created"}`, auditId, unmapped, notes };
+        });
+
+        const failed = results.filter((r) => !r.ok);
+        const lines = results.map((r) => r.ok
+          ? `✅ ${r.item} ${r.value.summary} (${[...r.value.notes, `audit ${r.value.auditId}`].join("; ")})` +
+            (r.value.unmapped.length > 0 ? `\n   dropped: ${r.value.unmapped.join(", ")}` : "")
+          : `❌ ${r.item}: ${r.error}`);
+        return { content: [{ type: "text" as const, text:
+          `${failed.length === 0 ? "✅" : "⚠️"} copy_test_cases (${args.mode}) finished: ` +
+          `${results.length - failed.length} succeeded, ${failed.length} failed (of ${results.length})\n` +
+          `Target: ${targetProject} suite ${targetSuiteId}\n\n` +
+          lines.join("\n") +
+          (failed.length > 0 ? `\n\nRetry only the failed cases with keys: ${JSON.stringify(failed.map((r) => r.item))}` : "")
+        }] };
+      } catch (error: any) {
+        const hint = error.statusCode === 404
+          ? "\nHint: The source case or target suite was not found — check keys, suite IDs, and project keys."
+          : "";
+        return { content: [{ type: "text" as const, text:
+          `❌ Error in copy_test_cases: ${error.message}${hint}`
+        }] };
+      }
+    }
+  );
+
+  const CloneSuiteTreeSchema = z.object({
+    project_key: z.string().min(1).optional()
+      .describe("Source project key. Required for preview, auto-restored for confirm."),
+    suite_id: z.number().int().positive().optional()
+      .describe("Root of the subtree to clone (the suite itself and all descendants)."),
+    target_project_key: z.string().min(1).optional()
+      .describe("Destination project key. Defaults to the source project."),
+    target_parent_suite_id: z.number().int().positive().optional()
+      .describe("Parent for the cloned root in the destination. Omit to create it at root level."),
+    new_root_title: z.string().min(1).max(255).optional()
+      .describe("Title for the cloned root suite (defaults to the source title)."),
+    include_test_cases: z.boolean().default(true)
+      .describe("Also copy the test cases of every suite (steps, custom fields, attachments)."),
+    as_drafts: z.boolean().default(true)
+      .describe("Create copied test cases as drafts (default, same safety rule as create_test_case)."),
+    concurrency: z.number().int().min(1).max(10).default(3)
+      .describe("Parallel test case copies within a suite."),
+    resume_clone_id: z.string().optional()
+      .describe("clone_id of an interrupted run. Skips suites and cases that were already created and continues from there, with the original run's include_test_cases, as_drafts and new_root_title."),
+    dry_run: BoolParam.describe("If true, returns the planned tree only (no token)."),
+    confirm: BoolParam.describe("Must be true to execute. Without it, returns a preview for user approval."),
+    confirmation_token: z.string().optional()
+      .describe("Token returned by the preview step. Required when confirm is true."),
+  });
+
+  server.registerTool(
+    "clone_suite_tree",
+    {
+      description: `🔧 (Beta) Recreate a suite and all of its descendant suites — optionally with their test cases — under a new parent or in another project (e.g. fork a regression suite for a new product line).
+Test cases are copied like copy_test_cases (cross-project: priorities, automation states, and custom fields remapped by name, attachments re-uploaded).
+Progress is saved after every created suite/case under a clone_id. If a run fails halfway, the report lists exactly what exists; call again with resume_clone_id to continue without duplicating. In HTTP mode only the user who started a clone can resume it.
+TWO-STEP FLOW: 1) Call with suite_id + target (without confirm) to get a tree preview + confirmation_token. 2) After user approval, call with ONLY confirm: true and the confirmation_token.`,
+      inputSchema: CloneSuiteTreeSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      try {
+        if (args.confirm) {
+          const restored = await validateAndRestoreArgs("clone_suite_tree", args);
+          if ("error" in restored) return { content: [{ type: "text" as const, text: restored.error }] };
+        }
+
+        let resumed: SuiteCloneProgress | undefined;
+        if (args.resume_clone_id) {
+          // HTTP callers may only resume their own clones; others' read as missing
+          const found = loadSuiteCloneProgress(args.resume_clone_id);
+          resumed = found && isCloneOwner(found) ? found : undefined;
+          if (!resumed) {
+            return { content: [{ type: "text" as const, text: `❌ No clone progress found for clone_id ${args.resume_clone_id} (looked in ${CLONE_PROGRESS_DIR})` }] };
+          }
+          if (resumed.completed) {
+            return { content: [{ type: "text" as const, text:
+              `ℹ️ Clone ${resumed.cloneId} already completed: ${Object.keys(resumed.suiteMap).length} suite(s), ${Object.keys(resumed.caseMap).length} test case(s). Nothing to resume.`
+            }] };
+          }
+        }
+
+        const sourceProject = resumed?.sourceProject ?? args.project_key;
+        const rootId = resumed?.sourceRootId ?? args.suite_id;
+        if (!sourceProject || !rootId) {
+          return { content: [{ type: "text" as const, text: "❌ project_key and suite_id are required (or resume_clone_id)" }] };
+        }
+        const targetProject = resumed?.targetProject ?? args.target_project_key ?? sourceProject;
+        const targetParentId = resumed ? resumed.targetParentId : (args.target_parent_suite_id ?? null);
+        // Progress saved before these options were recorded falls back to the call's arguments
+        const includeTestCases = resumed?.includeTestCases ?? args.include_test_cases;
+        const asDrafts = resumed?.asDrafts ?? args.as_drafts;
+        const newRootTitle = resumed ? resumed.newRootTitle : args.new_root_title;
+
+        const plan = planSuiteClone(rootId, await client.getAllTestSuites(sourceProject));
+        if (newRootTitle) plan[0].title = newRootTitle;
+
+        const caseKeys = new Map<number, string[]>();
+        if (includeTestCases) {
+          for (const node of plan) {
+            const keys: string[] = [];
+            let pageToken: string | undefined = undefined;
+            do {
+              const response = await client.getTestCases(sourceProject, {
+                suiteId: node.sourceId,
+                excludeDeleted: true,
+                size: MAX_PAGE_SIZE,
+                pageToken,
+              });
+              for (const tc of response.items || []) if (typeof tc.key === "string") keys.push(tc.key);
+              pageToken = response._meta?.nextPageToken;
+            } while (pageToken);
+            caseKeys.set(node.sourceId, keys);
+          }
+        }
+        const totalCases = [...caseKeys.values()].reduce((n, keys) => n + keys.length, 0);
+        const destination = `${targetProject} ${targetParentId != null ? `under suite ${targetParentId}` : "at root level"}`;
+        const annotate = (node: SuiteCloneNode) => {
+          const keys = caseKeys.get(node.sourceId) ?? [];
+          const doneCases = resumed ? keys.filter((k) => resumed!.caseMap[k]).length : 0;
+          const suiteDone = resumed?.suiteMap[node.sourceId] !== undefined;
+          return (includeTestCases ? ` — ${keys.length} case(s)` : "") +
+            (suiteDone ? ` ✅ → #${resumed!.suiteMap[node.sourceId]}${doneCases > 0 ? ` (${doneCases} case(s) copied)` : ""}` : "");
+        };
+        const tree = renderCloneTree(plan, annotate);
+
+        if (args.dry_run) {
+          return { content: [{ type: "text" as const, text:
+            `DRY RUN — clone_suite_tree\n${sourceProject} #${rootId} → ${destination}\n` +
+            `${plan.length} suite(s), ${totalCases} test case(s)\n\n${tree}`
+          }] };
+        }
+
+        if (!args.confirm) {
+          const token = await generateConfirmationToken("clone_suite_tree", JSON.stringify(args));
+          return { content: [{ type: "text" as const, text:
+            `📋 Preview — clone_suite_tree${resumed ? ` (resuming ${resumed.cloneId})` : ""}\n` +
+            `${sourceProject} #${rootId} → ${destination}\n` +
+            `${plan.length} suite(s)${includeTestCases ? `, ${totalCases} test case(s)${asDrafts ? " (created as drafts)" : ""}` : ""}\n\n` +
+            `${tree}\n\n` +
+            `confirmation_token: ${token}\n` +
+            `⚠️ To proceed, call again with ONLY: { "confirm": true, "confirmation_token": "${token}" }`
+          }] };
+        }
+
+        const progress = resumed ?? newSuiteCloneProgress({
+          sourceProject, targetProject, sourceRootId: rootId, targetParentId, includeTestCases, asDrafts, newRootTitle,
+        });
+        saveSuiteCloneProgress(progress);
+        const copyCtx = await loadCaseCopyContext(mutationClient, sourceProject, targetProject);
+        let suitesCreated = 0;
+        let casesCreated = 0;
+        let abortedAt: SuiteCloneNode | undefined;
+
+        for (const node of plan) {
+          let targetSuiteId = progress.suiteMap[node.sourceId];
+          if (targetSuiteId === undefined) {
+            const parentSuiteId = node.sourceParentId === null ? targetParentId : progress.suiteMap[node.sourceParentId];
+            const payload: Record<string, unknown> = { title: node.title };
+            if (node.description) payload.description = node.description;
+            if (parentSuiteId != null) payload.parentSuiteId = parentSuiteId;
+            writeAuditLog({
+              timestamp: new Date().toISOString(),
+              tool: "clone_suite_tree",
+              method: "POST",
+              url: `/test-suites?projectKey=${encodeURIComponent(targetProject)}`,
+              projectKey: targetProject,
+              payload,
+            });
+            try {
+              const created = (await mutationClient.createTestSuite(targetProject, payload)).data;
+              targetSuiteId = created.id as number;
+            } catch (err: any) {
+              progress.failures[`suite:${node.sourceId}`] = err.message;
+              saveSuiteCloneProgress(progress);
+              abortedAt = node;
+              break;
+            }
+            progress.suiteMap[node.sourceId] = targetSuiteId;
+            delete progress.failures[`suite:${node.sourceId}`];
+            saveSuiteCloneProgress(progress);
+            suitesCreated++;
+          }
+
+          const pending = (caseKeys.get(node.sourceId) ?? []).filter((k) => !progress.caseMap[k]);
+          const results = await runWithConcurrency(pending, args.concurrency, (k) => k, async (key) => {
+            const source = (await mutationClient.getTestCaseByKey(sourceProject, key)).data ?? {};
+            const { payload } = prepareCaseCopy(copyCtx, source, targetSuiteId);
+            if (asDrafts) payload.draft = true;
+            const { created } = await createCaseCopy(mutationClient, copyCtx, payload, "clone_suite_tree");
+            progress.caseMap[key] = String(created.key ?? created.id);
+            delete progress.failures[key];
+            saveSuiteCloneProgress(progress);
+            return created;
+          });
+          for (const r of results) {
+            if (r.ok) casesCreated++;
+            else progress.failures[r.item] = r.error;
+          }
+          saveSuiteCloneProgress(progress);
+        }
+
+        const failureEntries = Object.entries(progress.failures);
+        progress.completed = !abortedAt && failureEntries.length === 0;
+        saveSuiteCloneProgress(progress);
+
+        const doneTree = renderCloneTree(plan, (node) => {
+          const id = progress.suiteMap[node.sourceId];
+          const keys = caseKeys.get(node.sourceId) ?? [];
+          const copied = keys.filter((k) => progress.caseMap[k]).length;
+          return id === undefined
+            ? " ⏸️ not created"
+            : ` ✅ → #${id}${includeTestCases ? ` (${copied}/${keys.length} case(s))` : ""}`;
+        });
+        const status = progress.completed ? "✅ Suite tree cloned" : "⚠️ Suite tree clone incomplete";
+        return { content: [{ type: "text" as const, text:
+          `${status}\n` +
+          `clone_id: ${progress.cloneId}\n` +
+          `${sourceProject} #${rootId} → ${destination}\n` +
+          `This run: ${suitesCreated} suite(s) and ${casesCreated} test case(s) created\n` +
+          `Total: ${Object.keys(progress.suiteMap).length}/${plan.length} suite(s), ${Object.keys(progress.caseMap).length}/${totalCases} test case(s)\n\n` +
+          `${doneTree}\n` +
+          (failureEntries.length > 0
+            ? `\nFailures:\n${failureEntries.map(([what, msg]) => `  ❌ ${what}: ${msg}`).join("\n")}\n`
+            : "") +
+          (abortedAt ? `\nStopped at suite "${abortedAt.title}" (#${abortedAt.sourceId}) — its descendants were not created.\n` : "") +
+          (progress.completed
+            ? ""
+            : `\nTo continue, call again with: { "resume_clone_id": "${progress.cloneId}" } (already-created suites and cases are skipped).`)
+        }] };
+      } catch (error: any) {
+        const hint = error.statusCode === 404
+          ? "\nHint: The source suite, target parent suite, or project was not found."
+          : "";
+        return { content: [{ type: "text" as const, text:
+          `❌ Error in clone_suite_tree: ${error.message}${hint}`
+        }] };
+      }
+    }
+  );
+
+  const RevertChangeSchema = z.object({
+    audit_entry_id: z.string().min(1).optional()
+      .describe("ID of the audit entry to undo (shown as 'Audit entry: …' in update responses). Required for preview, auto-restored for confirm."),
+    dry_run: BoolParam.describe("If true, returns raw payload for debugging (skips validation)."),
+    confirm: BoolParam.describe("Must be true to execute. Without it, returns a preview for user approval."),
+    confirmation_token: z.string().optional()
+      .describe("Token returned by the preview step. Required when confirm is true."),
+  });
+
+  server.registerTool(
+    "revert_change",
+    {
+      description: `↩️ (Beta) Undo a previous update_test_case, bulk_update_test_cases (per case), update_test_suite, or manage_test_run (update) call using its audit log entry.
+Restores the before-snapshot recorded in the audit log for every field the original change touched.
+The preview shows the reverse diff (current → restored) and warns when a field was modified again after the audited change.
+Only entries written with a before-snapshot (v9.2+) can be reverted; create/add actions cannot. In HTTP mode only your own changes can be reverted. Confirm refuses if the entry or the target changed since the preview.
+TWO-STEP FLOW: 1) Call with audit_entry_id (without confirm) to get a preview + confirmation_token. 2) After user approval, call with ONLY confirm: true and the confirmation_token.`,
+      inputSchema: RevertChangeSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      try {
+        if (args.confirm) {
+          const restored = await validateAndRestoreArgs("revert_change", args);
+          if ("error" in restored) return { content: [{ type: "text" as const, text: restored.error }] };
+        }
+
+        if (!args.audit_entry_id) {
+          return { content: [{ type: "text" as const, text: "❌ audit_entry_id is required" }] };
+        }
+        // HTTP callers may only revert their own changes; others' entries read as missing
+        const found = findAuditEntry(args.audit_entry_id);
+        const [entry] = found ? visibleAuditEntries([found]) : [];
+        if (!entry) {
+          return { content: [{ type: "text" as const, text:
+            `❌ Audit entry ${args.audit_entry_id} not found in ${AUDIT_LOG_PATH}`
+          }] };
+        }
+        if (!entry.projectKey || !entry.target) {
+          return { content: [{ type: "text" as const, text:
+            `❌ Audit entry ${entry.id} (${entry.tool}) has no target/project recorded and cannot be reverted.`
+          }] };
+        }
+        const projectKey = entry.projectKey;
+        const { type: targetType, identifier } = entry.target;
+
+        let current: Record<string, unknown>;
+        if (targetType === "test_case") {
+          const res = typeof identifier === "string"
+            ? await mutationClient.getTestCaseByKey(projectKey, identifier)
+            : await mutationClient.getTestCaseById(projectKey, identifier);
+          current = res.data ?? {};
+        } else if (targetType === "test_suite") {
+          current = (await mutationClient.getTestSuiteById(projectKey, Number(identifier))).data ?? {};
+        } else {
+          const res = await client.getPublicTestRunById({ id: Number(identifier), projectKey });
+          current = (res.data ?? {}) as Record<string, unknown>;
+        }
+
+        const plan = buildRevertPlan(entry, current);
+        const fingerprint = revertPlanFingerprint(plan);
+        if (args.confirm && (args as { _planFingerprint?: string })._planFingerprint !== fingerprint) {
+          return { content: [{ type: "text" as const, text:
+            `❌ Audit entry ${entry.id} or its target changed since the preview; nothing was reverted.\n` +
+            `Call again without confirm to review the new plan and get a new confirmation_token.`
+          }] };
+        }
+        if (Object.keys(plan.payload).length === 0) {
+          return { content: [{ type: "text" as const, text:
+            `❌ Nothing to revert for audit entry ${entry.id}: none of the changed fields can be restored` +
+            (plan.skipped.length > 0 ? ` (skipped: ${plan.skipped.join(", ")})` : "")
+          }] };
+        }
+
+        const resourcePath = targetType === "test_case"
+          ? (typeof identifier === "string" ? `/test-cases/key:${identifier}` : `/test-cases/${identifier}`)
+          : targetType === "test_suite"
+          ? `/test-suites/${identifier}`
+          : `/test-runs/${identifier}`;
+        const url = `${resourcePath}?projectKey=${encodeURIComponent(projectKey)}`;
+
+        if (args.dry_run) {
+          return { content: [{ type: "text" as const, text:
+            `DRY RUN — revert_change\n${plan.method} ${url}\n\nPayload:\n${JSON.stringify(plan.payload, null, 2)}`
+          }] };
+        }
+
+        const conflictText = plan.conflicts.length > 0
+          ? `\n⚠️ WARNING: modified again after the audited change (reverting will overwrite the newer value): ${plan.conflicts.join(", ")}\n`
+          : "";
+        const skippedText = plan.skipped.length > 0
+          ? `\n⚠️ Cannot be restored (empty before-value not accepted by the API): ${plan.skipped.join(", ")}\n`
+          : "";
+
+        if (!args.confirm) {
+          const token = await generateConfirmationToken("revert_change", JSON.stringify({ ...args, _planFingerprint: fingerprint }));
+          return { content: [{ type: "text" as const, text:
+            `📋 Preview — revert_change\n${plan.method} ${url}\n\n` +
+            `Audit entry: ${entry.id}\n` +
+            `Original change: ${entry.tool} ${entry.method} at ${entry.timestamp}\n\n` +
+            `Reverse diff (current → restored):\n${formatDiff(plan.diffs)}\n` +
+            conflictText + skippedText + `\n` +
+            `Payload:\n${JSON.stringify(plan.payload, null, 2)}\n\n` +
+            `confirmation_token: ${token}\n` +
+            `⚠️ To proceed, call again with ONLY: { "confirm": true, "confirmation_token": "${token}" }`
+          }] };
+        }
+
+        const auditId = writeAuditLog({
+          timestamp: new Date().toISOString(),
+          tool: "revert_change",
+          method: plan.method,
+          url,
+          projectKey,
+          payload: plan.payload,
+          target: entry.target,
+          before: current,
+        });
+
+        let afterData: Record<string, unknown>;
+        if (targetType === "test_case") {
+          const body = typeof identifier === "string"
+            ? await mutationClient.updateTestCaseByKey(projectKey, identifier, plan.payload)
+            : await mutationClient.updateTestCaseById(projectKey, identifier, plan.payload);
+          afterData = body.data ?? {};
+        } else if (targetType === "test_suite") {
+          afterData = (await mutationClient.updateTestSuite(projectKey, Number(identifier), plan.payload)).data ?? {};
+        } else {
+          afterData = (await mutationClient.updateTestRun(projectKey, Number(identifier), plan.payload)).data ?? {};
+        }
+
+        return { content: [{ type: "text" as const, text:
+          `✅ Change reverted (audit entry ${entry.id})\n` +
+          `Target: ${targetType} ${identifier}\n\n` +
+          `Changed fields:\n${formatDiff(computeDiff(current, afterData))}\n` +
+          skippedText + `\n` +
+          `Audit entry: ${auditId} (revert this revert with adv_revert_change)`
+        }] };
+      } catch (error: any) {
+        const hint = error.statusCode === 404
+          ? "\nHint: The reverted entity no longer exists in this project."
+          : error.statusCode === 409
+          ? "\nHint: A concurrent modification is in progress. Wait a moment and retry."
+          : "";
+        return { content: [{ type: "text" as const, text:
+          `❌ Error in revert_change: ${error.message}${hint}`
+        }] };
+      }
+    }
+  );
+
+  server.registerTool(
+    "get_audit_log",
+    {
+      description: `📜 Query the local mutation audit log (every create/update sent by the mutation tools).
+Filter by tool, project, user (recorded from the OAuth/session user in HTTP mode), HTTP method, and time range. Newest entries first.
+In HTTP mode only the caller's own entries are returned.
+Use format 'csv' or 'json' to export; entry IDs can be passed to revert_change.`,
+      inputSchema: {
+        tool: z.string().min(1).optional().describe("Tool name, with or without the adv_ prefix (e.g., 'update_test_case')"),
+        project_key: z.string().min(1).optional().describe("Project key (case-insensitive)"),
+        user: z.string().min(1).optional().describe("Username that made the change (HTTP mode only; case-insensitive)"),
+        method: z.enum(["POST", "PUT", "PATCH"]).optional().describe("HTTP method of the audited request"),
+        from: z.string().datetime({ offset: true }).optional().describe("Inclusive start (ISO-8601, e.g. '2026-01-01T00:00:00Z')"),
+        to: z.string().datetime({ offset: true }).optional().describe("Inclusive end (ISO-8601)"),
+        include_snapshots: BoolParam.describe("Include the before-snapshot recorded for update entries (large)"),
+        page: z.number().int().nonnegative().default(0).describe("Page number (0-based)"),
+        size: z.number().int().positive().max(1000).default(50).describe("Page size"),
+        format: z.enum(["json", "csv", "markdown"]).default("markdown").describe("Output format"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      try {
+        const matched = filterAuditEntries(visibleAuditEntries(readAuditLog()), {
+          tool: args.tool,
+          projectKey: args.project_key,
+          user: args.user,
+          method: args.method,
+          from: args.from,
+          to: args.to,
+        });
+        const pageEntries = matched
+          .slice(args.page * args.size, (args.page + 1) * args.size)
+          .map((e) => (args.include_snapshots ? e : (({ before: _before, ...rest }) => rest)(e)));
+        const hasMore = (args.page + 1) * args.size < matched.length;
+
+        if (args.format === "csv") {
+          return { content: [{ type: "text" as const, text: auditEntriesToCsv(pageEntries) }] };
+        }
+        if (args.format === "json") {
+          return { content: [{ type: "text" as const, text: JSON.stringify({
+            total: matched.length,
+            page: args.page,
+            size: args.size,
+            hasMore,
+            items: pageEntries,
+          }, null, 2) }] };
+        }
+
+        if (matched.length === 0) {
+          return { content: [{ type: "text" as const, text:
+            `No audit entries match the given filters (log: ${AUDIT_LOG_PATH})`
+          }] };
+        }
+        const rows = pageEntries.map((e) =>
+          `| ${e.timestamp} | ${e.user ?? "—"} | ${e.tool} | ${e.method} | ${e.projectKey ?? "—"} | ` +
+          `${e.target ? `${e.target.type} ${e.target.identifier}` : e.url} | \`${e.id ?? "—"}\` |`
+        );
+        return { content: [{ type: "text" as const, text:
+          `## Audit Log (${matched.length} entr${matched.length === 1 ? "y" : "ies"}, page ${args.page})\n\n` +
+          `| Time | User | Tool | Method | Project | Target | Entry ID |\n` +
+          `|------|------|------|--------|---------|--------|----------|\n` +
+          rows.join("\n") +
+          (hasMore ? `\n\nMore entries available — call again with page: ${args.page + 1}` : "")
+        }] };
+      } catch (error: any) {
+        return { content: [{ type: "text" as const, text:
+          `❌ Error in get_audit_log: ${error.message}`
+        }] };
+      }
+    }
+  );
+
+  // ========== write_draft_test_to_workspace (Beta) ==========
+
+  server.registerTool(
+    "write_draft_test_to_workspace",
+    {
+      description: `🧪 Generate a draft test for a Zebrunner test case and write it into the configured local automation repository (workspace.root / ZEBRUNNER_WORKSPACE_ROOT).
+The target folder, package and file extension are detected from the repository's existing test files; the test is tagged with its case key (Carina @TestCaseKey, Playwright annotation, pytest marker) and new page objects are written next to existing ones.
+TWO-STEP FLOW: 1) Call without confirm to get the planned files as a unified diff + confirmation_token. 2) After user approval, call with ONLY confirm: true and the confirmation_token.
+The confirm call writes nothing if the test case or the workspace changed the planned files since the preview.
+An existing test file is only replaced with overwrite: true; existing page objects are never replaced.`,
+      inputSchema: {
+        project_key: z.string().min(1).optional().describe("Project key (auto-detected from case_key if not provided)"),
+        case_key: z.string().min(1).optional().describe("Test case key (e.g., 'ANDROID-6'). Required for preview, auto-restored for confirm."),
+        implementation_context: z.string().optional().describe("Extra framework hints (code, file paths); the workspace's own files are always used for detection"),
+        target_framework: z.enum(['auto', 'java-carina', 'javascript-jest', 'typescript-playwright', 'javascript-cypress', 'python-pytest', 'javascript-webdriverio']).default('auto').describe("Target test framework (auto-detected from the workspace if 'auto')"),
+        target_dir: z.string().optional().describe("Folder for the test, relative to the workspace root (default: where most existing tests of the framework live)"),
+        generate_page_objects: z.boolean().default(true).describe("Also write a page object (API client for pytest) when none with that name exists"),
+        overwrite: z.boolean().default(false).describe("Replace an existing test file with the same name"),
+        confirm: BoolParam.describe("Must be true to write files. Without it, returns the diff preview."),
+        confirmation_token: z.string().optional().describe("Token returned by the preview step. Required when confirm is true."),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      try {
+        debugLog("write_draft_test_to_workspace called", args);
+
+        if (args.confirm) {
+          const restored = await validateAndRestoreArgs("write_draft_test_to_workspace", args);
+          if ("error" in restored) return { content: [{ type: "text" as const, text: restored.error }] };
+        }
+
+        if (!ENABLE_RULES_ENGINE) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: `⚠️ Draft test generation requires the enhanced rules engine.\n\nSet ENABLE_RULES_ENGINE=true in your .env file and restart the MCP server.`
+            }]
+          };
+        }
+        if (!args.case_key) {
+          return { content: [{ type: "text" as const, text: "❌ case_key is required" }] };
+        }
+
+        const { project_key, case_key } = FormatProcessor.resolveProjectKey(args);
+        const workspaceConfig = getConfig().workspace;
+        const root = resolveWorkspaceRoot(workspaceConfig);
+        const scan = scanWorkspace(root, workspaceConfig.maxScanFiles);
+
+        const testCase = await client.getTestCaseByKey(project_key, case_key);
+        if (!testCase) {
+          throw new Error(`Test case ${case_key} not found in project ${project_key}`);
+        }
+
+        // Resolve the framework up front so layout detection and generation agree
+        const rulesParser = RulesParser.getInstance();
+        const rules = await rulesParser.getRules();
+        const detectionContext = `${args.implementation_context ?? ""}\n${scan.files.join("\n")}`;
+        const framework = (args.target_framework !== 'auto'
+          ? rules.frameworks.find(f => f.name === args.target_framework)
+          : await rulesParser.detectFramework(detectionContext))
+          ?? rules.frameworks.find(f => f.name === 'java-carina')
+          ?? rules.frameworks[0];
+        const family = getFrameworkFamily(framework.name);
+
+        const layout = detectWorkspaceLayout(root, family, scan.files, args.target_dir);
+        const testGenerator = new TestGenerator();
+        const pageObjectClass = args.generate_page_objects
+          ? testGenerator.getPageObjectClassName(testCase, framework, detectionContext)
+          : undefined;
+
+        const generatedTest = await testGenerator.generateTest(testCase, detectionContext, {
+          framework: framework.name,
+          outputFormat: 'code',
+          includeSetupTeardown: true,
+          includeAssertionTemplates: true,
+          generatePageObjects: args.generate_page_objects,
+          // Steps use placeholder values instead of testData, since no data file is written
+          includeDataProviders: false,
+          annotateCaseKey: true,
+          pageObjectImport: pageObjectClass ? pageObjectImportFor(layout, pageObjectClass) : undefined,
+        });
+
+        const plan = planWorkspaceFiles(layout, generatedTest, testCase.title || case_key, pageObjectClass);
+        const actionLabels: Record<PlannedFileAction, string> = {
+          create: "🆕 create",
+          overwrite: "✏️ overwrite",
+          unchanged: "= unchanged",
+          keep: "⏭️ keep existing",
+        };
+
+        const lines: string[] = [
+          `**Workspace**: ${root}`,
+          `**Framework**: ${framework.name}`,
+          `**Test folder**: ${layout.testDir || "."} (${layout.source === "existing_tests" ? `${layout.existingTests} existing test file(s)` : layout.source === "target_dir" ? "target_dir" : "framework default"})` +
+            (layout.javaPackage ? ` — package \`${layout.javaPackage}\`` : ""),
+          `**Page objects**: ${layout.pageObjectDir}`,
+          "",
+          "| File | Kind | Action |",
+          "| --- | --- | --- |",
+          ...plan.files.map(f => `| ${f.path} | ${f.kind} | ${actionLabels[f.action]} |`),
+        ];
+        if (scan.truncated) lines.push("", `⚠️ Layout detected from the first ${workspaceConfig.maxScanFiles} files only (workspace.maxScanFiles).`);
+        for (const note of plan.notes) lines.push("", `ℹ️ ${note}`);
+
+        const diffs = plan.files
+          .filter(f => f.action === "create" || f.action === "overwrite")
+          .map(f => unifiedDiff(f.path, f.previous, f.content));
+        const diffBlock = diffs.length > 0 ? `\n\n\`\`\`diff\n${diffs.join("\n")}\n\`\`\`` : "";
+
+        const fingerprint = planFingerprint(plan.files);
+        if (args.confirm && (args as { _planFingerprint?: string })._planFingerprint !== fingerprint) {
+          return {
+            content: [{ type: "text" as const, text:
+              `❌ The generated files or the workspace changed since the preview; nothing was written.\n` +
+              `Call again without confirm to review the current diff and get a new confirmation_token.\n\n` +
+              lines.join("\n") + diffBlock
+            }]
+          };
+        }
+
+        const blocked = plan.files.filter(f => f.action === "overwrite" && !args.overwrite);
+        if (blocked.length > 0) {
+          return {
+            content: [{ type: "text" as const, text:
+              `❌ Refusing to overwrite existing test file(s): ${blocked.map(f => f.path).join(", ")}\n` +
+              `Review the diff and call again with overwrite: true to replace them, or pass a different target_dir.\n\n` +
+              lines.join("\n") + diffBlock
+            }]
+          };
+        }
+
+        if (diffs.length === 0) {
+          return {
+            content: [{ type: "text" as const, text: `✅ Nothing to write — the workspace already contains this test.\n\n${lines.join("\n")}` }]
+          };
+        }
+
+        if (!args.confirm) {
+          const token = await generateConfirmationToken("write_draft_test_to_workspace", JSON.stringify({ ...args, _planFingerprint: fingerprint }));
+          return {
+            content: [{ type: "text" as const, text:
+              `📋 Preview — write_draft_test_to_workspace (${case_key})\n\n` +
+              lines.join("\n") + diffBlock + "\n\n" +
+              `confirmation_token: ${token}\n` +
+              `⚠️ To write these files, call again with ONLY: { "confirm": true, "confirmation_token": "${token}" }`
+            }]
+          };
+        }
+
+        const written = writePlannedFiles(root, plan.files);
+        debugLog("write_draft_test_to_workspace wrote files", { root, written });
+
+        return {
+          content: [{ type: "text" as const, text:
+            `✅ Wrote ${written.length} file(s) for ${case_key}\n\n` +
+            lines.join("\n") + diffBlock
+          }]
+        };
+      } catch (error: any) {
+        debugLog("Error in write_draft_test_to_workspace", { error: error.message, args });
+        return {
+          content: [{
+            type: "text" as const,
+            text: `❌ Error writing draft test for ${args.case_key ?? "test case"}: ${error?.message || error}`
+          }]
+        };
+      }
+    }
+  );
+
+  // ========== scan_automation_repo (Beta) ==========
+
+  server.registerTool(
+    "scan_automation_repo",
+    {
+      description: `🔍 Scan the configured local automation repository (workspace.root / ZEBRUNNER_WORKSPACE_ROOT) for test case keys and cross-reference them with the project's TCM test cases.
+Keys are read from Carina @TestCaseKey, JUnit @Tag, Playwright annotations and test titles, and pytest markers.
+Reports cases marked Automated with no code, code referencing unknown or deprecated keys, and cases with code that are not marked Automated.
+With propose_updates: true the preview also returns a confirmation_token to mark the cases with code as Automated; call again with ONLY confirm: true and the confirmation_token to apply it.`,
+      inputSchema: {
+        project_key: z.string().min(1).optional().describe("Project key. Required for preview, auto-restored for confirm."),
+        path: z.string().optional().describe("Only scan this folder, relative to the workspace root"),
+        automated_state: z.string().min(1).default("Automated").describe("Name of the automation state that means 'has automated code'"),
+        propose_updates: z.boolean().default(false).describe("Propose setting automated_state on cases that have code but are not marked Automated"),
+        keys: z.array(z.string().min(1)).max(1000).optional().describe("Limit proposed updates to these case keys"),
+        format: z.enum(["markdown", "json"]).default("markdown").describe("Output format"),
+        max_items: z.number().int().positive().max(1000).default(50).describe("Maximum rows per finding section in markdown output"),
+        confirm: BoolParam.describe("Must be true to apply the proposed updates. Without it, returns the report and preview."),
+        confirmation_token: z.string().optional().describe("Token returned by the preview step. Required when confirm is true."),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      try {
+        debugLog("scan_automation_repo called", args);
+
+        if (args.confirm) {
+          const denied = writeScopeError("scan_automation_repo", "updates automation states in Zebrunner");
+          if (denied) return denied;
+          const restored = await validateAndRestoreArgs("scan_automation_repo", args);
+          if ("error" in restored) return { content: [{ type: "text" as const, text: restored.error }] };
+        }
+        if (!args.project_key) {
+          return { content: [{ type: "text" as const, text: "❌ project_key is required" }] };
+        }
+        const projectKey = args.project_key;
+        const automationState = { name: args.automated_state };
+
+        // Confirm applies exactly the keys shown in the preview
+        if (args.confirm) {
+          const keys = args.keys ?? [];
+          if (keys.length === 0) {
+            return { content: [{ type: "text" as const, text: "ℹ️ No automation-state updates to apply." }] };
+          }
+          const results = await runWithConcurrency(keys, 5, (k) => k, async (key) => {
+            let before: Record<string, unknown> = {};
+            try {
+              before = (await mutationClient.getTestCaseByKey(projectKey, key)).data ?? {};
+            } catch {
+              // Non-fatal — the PATCH reports a missing case on its own
+            }
+            const auditId = writeAuditLog({
+              timestamp: new Date().toISOString(),
+              tool: "scan_automation_repo",
+              method: "PATCH",
+              url: `/test-cases/key:${key}?projectKey=${encodeURIComponent(projectKey)}`,
+              projectKey,
+              payload: { automationState },
+              target: { type: "test_case", identifier: key },
+              ...(Object.keys(before).length > 0 ? { before } : {}),
+            });
+            await mutationClient.updateTestCaseByKey(projectKey, key, { automationState });
+            return auditId;
+          });
+          const failed = results.filter((r) => !r.ok);
+          const lines = results.map((r) => r.ok
+            ? `✅ ${r.item}: automation state → ${args.automated_state} (audit ${r.value}, undo with adv_revert_change)`
+            : `❌ ${r.item}: ${r.error}`);
+          let text =
+            `${failed.length === 0 ? "✅" : "⚠️"} Automation states updated: ${results.length - failed.length} succeeded, ${failed.length} failed (of ${results.length})\n\n` +
+            lines.join("\n");
+          if (failed.length > 0) {
+            const firstError = failed[0].ok ? "" : failed[0].error;
+            const hints = (await enrichMutationError(new Error(firstError), projectKey, mutationClient))
+              .slice(firstError.length).trim();
+            if (hints) text += `\n\n${hints}`;
+          }
+          return { content: [{ type: "text" as const, text }] };
+        }
+
+        const workspaceConfig = getConfig().workspace;
+        const root = resolveWorkspaceRoot(workspaceConfig);
+        const scanRoot = args.path ? validateFilePath(args.path, root) : root;
+        const scan = scanWorkspace(scanRoot, workspaceConfig.maxScanFiles);
+        const prefix = path.relative(root, scanRoot).split(path.sep).join("/");
+        const files = prefix ? scan.files.map(f => `${prefix}/${f}`) : scan.files;
+        const { refs, filesScanned } = scanCaseKeyRefs(root, files, projectKey);
+
+        const cases = await client.getAllTCMTestCasesByProject(projectKey);
+        const report = buildAutomationScanReport(refs, cases, filesScanned, args.automated_state);
+
+        const only = args.keys ? new Set(args.keys.map(k => k.toUpperCase())) : null;
+        const updates = args.propose_updates
+          ? report.codeButNotAutomated.filter(c => !only || only.has(c.key.toUpperCase())).map(c => c.key)
+          : [];
+
+        const notes: string[] = [];
+        if (scan.truncated) notes.push(`⚠️ Only the first ${workspaceConfig.maxScanFiles} files were scanned (workspace.maxScanFiles); cases may be reported as having no code.`);
+
+        const token = updates.length > 0
+          ? await generateConfirmationToken("scan_automation_repo", JSON.stringify({
+            project_key: projectKey,
+            automated_state: args.automated_state,
+            keys: updates,
+          }))
+          : undefined;
+
+        // JSON output carries the token in the object so the reply stays parseable
+        if (args.format === "json") {
+          return { content: [{ type: "text" as const, text: JSON.stringify({
+            root: scanRoot,
+            truncated: scan.truncated,
+            proposedUpdates: updates,
+            ...(token ? {
+              confirmationToken: token,
+              confirmInstructions: `To set automation state to "${args.automated_state}" on ${updates.length} case(s), call again with ONLY: { "confirm": true, "confirmation_token": "${token}" }`,
+            } : {}),
+            ...report,
+          }, null, 2) }] };
+        }
+
+        let text = formatAutomationScanMarkdown(report, `${projectKey} — ${scanRoot}`, args.max_items);
+        if (notes.length > 0) text += `\n\n${notes.join("\n")}`;
+
+        if (!token) {
+          if (args.propose_updates) text += "\n\nℹ️ No automation-state updates to propose.";
+          return { content: [{ type: "text" as const, text }] };
+        }
+
+        return { content: [{ type: "text" as const, text:
+          `${text}\n\n` +
+          `📋 Proposed updates — set automation state to "${args.automated_state}" on ${updates.length} case(s): ${updates.join(", ")}\n\n` +
+          `confirmation_token: ${token}\n` +
+          `⚠️ To proceed, call again with ONLY: { "confirm": true, "confirmation_token": "${token}" }`
+        }] };
+      } catch (error: any) {
+        debugLog("Error in scan_automation_repo", { error: error.message, args });
+        return {
+          content: [{
+            type: "text" as const,
+            text: `❌ Error scanning automation repository: ${error?.message || error}`
+          }]
+        };
+      }
+    }
+  );
+
+  // ========== import_gherkin (Beta) ==========
+
+  server.registerTool(
+    "import_gherkin",
+    {
+      description: `🔧 (Beta) Import test cases from Gherkin .feature files into a test suite.
+Each Scenario becomes a test case: Given/When lines form the step action, the Then lines after them the expected result; the Background becomes the pre-conditions. Scenario Outlines are kept with <placeholders> and their Examples tables (outlines: 'parameterize') or expanded into one case per Examples row (outlines: 'expand').
+Tags map to custom fields via tag_fields ('@component:checkout' with { "component": "component" }) and tags_field. A scenario tagged with a case key (@MCP-12, @tc:MCP-12) updates that case, so re-imports are idempotent; untagged scenarios match by title in the target suite (match_by_title) or are created as drafts. With outlines: 'expand', a key tag must sit on an Examples block with a single row (or an outline with a single row in total).
+Features come from feature_text or feature_path (a .feature file or folder under the configured workspace root).
+TWO-STEP FLOW: 1) Call without confirm to get the per-scenario plan + confirmation_token. 2) After user approval, call with ONLY confirm: true and the confirmation_token. The confirm call imports nothing if the feature files changed since the preview.`,
+      inputSchema: {
+        project_key: z.string().min(1).optional().describe("Project key. Required for preview, auto-restored for confirm."),
+        target_suite_id: z.number().int().positive().optional().describe("Suite that receives new cases. Required for preview, auto-restored for confirm."),
+        feature_text: z.string().optional().describe("Content of one .feature file"),
+        feature_path: z.string().optional().describe("A .feature file or a folder of them, relative to the workspace root (workspace.root / ZEBRUNNER_WORKSPACE_ROOT)"),
+        outlines: z.enum(["parameterize", "expand"]).default("parameterize").describe("Keep Scenario Outlines as one case with the Examples table, or create one case per Examples row"),
+        tag_fields: z.record(z.string(), z.string()).optional().describe("Tag name → custom field systemName; '@name:value' or '@name=value' sets the field to value"),
+        tags_field: z.string().optional().describe("Custom field systemName that receives all other tags (otherwise they are listed in the description)"),
+        match_by_title: z.boolean().default(true).describe("Update a case with the same title in target_suite_id when the scenario has no key tag"),
+        max_cases: z.number().int().positive().max(1000).default(200).describe("Safety cap — the preview fails when the features produce more cases"),
+        confirm: BoolParam.describe("Must be true to execute. Without it, returns a preview for user approval."),
+        confirmation_token: z.string().optional().describe("Token returned by the preview step. Required when confirm is true."),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      try {
+        debugLog("import_gherkin called", { ...args, feature_text: args.feature_text ? `${args.feature_text.length} chars` : undefined });
+
+        if (args.confirm) {
+          const restored = await validateAndRestoreArgs("import_gherkin", args);
+          if ("error" in restored) return { content: [{ type: "text" as const, text: restored.error }] };
+        }
+        if (!args.project_key) {
+          return { content: [{ type: "text" as const, text: "❌ project_key is required" }] };
+        }
+        if (!args.target_suite_id) {
+          return { content: [{ type: "text" as const, text: "❌ target_suite_id is required" }] };
+        }
+        if (!args.feature_text && !args.feature_path) {
+          return { content: [{ type: "text" as const, text: "❌ Provide feature_text or feature_path" }] };
+        }
+        const projectKey = args.project_key;
+        const suiteId = args.target_suite_id;
+
+        // Collect the feature files
+        const sources: Array<{ file: string; text: string }> = [];
+        if (args.feature_text) sources.push({ file: "feature_text", text: args.feature_text });
+        if (args.feature_path) {
+          const root = resolveWorkspaceRoot(getConfig().workspace);
+          const target = validateFilePath(args.feature_path, root);
+          const files = fs.statSync(target).isDirectory()
+            ? scanWorkspace(target, getConfig().workspace.maxScanFiles).files.filter(f => f.endsWith(".feature")).map(f => path.join(target, f))
+            : [target];
+          for (const file of files) {
+            sources.push({ file: path.relative(root, file).split(path.sep).join("/"), text: fs.readFileSync(file, "utf-8") });
+          }
+          if (sources.length === 0) throw new Error(`No .feature files found under ${args.feature_path}`);
+        }
+
+        // The confirm call re-reads feature_path; refuse if the files differ from what was previewed
+        const sourcesHash = crypto.createHash("sha256").update(JSON.stringify(sources)).digest("hex");
+        if (args.confirm && (args as { _sourcesHash?: string })._sourcesHash !== sourcesHash) {
+          return { content: [{ type: "text" as const, text:
+            `❌ The feature files changed since the preview; nothing was imported.\n` +
+            `Call again without confirm to review the new plan and get a new confirmation_token.`
+          }] };
+        }
+
+        const cases: GherkinCase[] = [];
+        for (const src of sources) {
+          cases.push(...buildGherkinCases(parseGherkin(src.text, src.file), projectKey, args.outlines));
+        }
+        if (cases.length === 0) {
+          return { content: [{ type: "text" as const, text: "ℹ️ The features contain no scenarios — nothing to import." }] };
+        }
+        if (cases.length > args.max_cases) {
+          return { content: [{ type: "text" as const, text:
+            `❌ The features produce ${cases.length} test cases, above max_cases (${args.max_cases}). Import fewer files or raise max_cases (up to 1000).`
+          }] };
+        }
+
+        const mapping = { tagFields: args.tag_fields ?? {}, tagsField: args.tags_field };
+        const fieldDefs = Object.keys(mapping.tagFields).length > 0 || mapping.tagsField
+          ? (await mutationClient.getCustomFields(projectKey)).items as unknown as CustomFieldDef[]
+          : [];
+        const payloads = cases.map(c => buildGherkinCasePayload(c, suiteId, mapping, fieldDefs));
+        for (const payload of payloads) {
+          if (payload.customField) validateCustomFields(payload.customField as Record<string, unknown>, fieldDefs);
+        }
+
+        // Resolve existing cases: key tag first, then title within the target suite
+        const titleToKey = new Map<string, string>();
+        if (args.match_by_title && cases.some(c => !c.key)) {
+          let pageToken: string | undefined = undefined;
+          do {
+            const page = await client.getTestCases(projectKey, { suiteId, size: MAX_PAGE_SIZE, pageToken });
+            for (const tc of page.items || []) {
+              const title = String(tc.title ?? "").trim().toLowerCase();
+              if (tc.key && !tc.deprecated && !titleToKey.has(title)) titleToKey.set(title, tc.key);
+            }
+            pageToken = page._meta?.nextPageToken;
+          } while (pageToken);
+        }
+        const targets = cases.map(c => c.key
+          ? { key: c.key, matchedBy: "key" as const }
+          : titleToKey.has(c.title.trim().toLowerCase())
+            ? { key: titleToKey.get(c.title.trim().toLowerCase())!, matchedBy: "title" as const }
+            : undefined);
+        const existingKeys = [...new Set(targets.filter(t => t !== undefined).map(t => t!.key))];
+        const fetched = await runWithConcurrency(existingKeys, 5, (k) => k,
+          async (key) => (await mutationClient.getTestCaseByKey(projectKey, key)).data ?? {});
+        const missing = fetched.filter((r) => !r.ok);
+        if (missing.length > 0) {
+          return { content: [{ type: "text" as const, text:
+            `❌ Could not load the test case(s) referenced by key tags:\n` +
+            missing.map((r) => `• ${r.item}: ${r.ok ? "" : r.error}`).join("\n") +
+            `\n\nFix or remove the tags, then run the import again.`
+          }] };
+        }
+        const existing = new Map(fetched.map((r) => [r.item, r.ok ? r.value : {}]));
+
+        const items: GherkinImportItem[] = cases.map((c, i) => {
+          const target = targets[i];
+          if (!target) return { case: c, action: "create", payload: payloads[i], diffs: [] };
+          const { patch, diffs } = planGherkinUpdate(existing.get(target.key) ?? {}, payloads[i]);
+          return { case: c, action: diffs.length > 0 ? "update" : "unchanged", key: target.key, matchedBy: target.matchedBy, payload: patch, diffs };
+        });
+        const toCreate = items.filter(it => it.action === "create");
+        const toUpdate = items.filter(it => it.action === "update");
+        const unchanged = items.length - toCreate.length - toUpdate.length;
+
+        const actionLabels = { create: "🆕 create", update: "✏️ update", unchanged: "= unchanged" };
+        const table = [
+          "| Scenario | Source | Action | Case |",
+          "| --- | --- | --- | --- |",
+          ...items.map(it => `| ${it.case.title.replace(/\|/g, "\\|")} | ${it.case.source} | ${actionLabels[it.action]} | ${it.key ? `${it.key} (by ${it.matchedBy})` : "—"} |`),
+        ].join("\n");
+        const summary = `Scenarios: ${items.length} | Create: ${toCreate.length} | Update: ${toUpdate.length} | Unchanged: ${unchanged}`;
+
+        if (toCreate.length === 0 && toUpdate.length === 0) {
+          return { content: [{ type: "text" as const, text: `✅ Nothing to import — all ${items.length} scenario(s) already match their test cases.\n\n${table}` }] };
+        }
+
+        if (!args.confirm) {
+          const updates = toUpdate.map(it => `• ${it.key} — ${it.case.title}\n${formatDiff(it.diffs)}`);
+          const sample = toCreate[0] ? `\n\nFirst create payload (${toCreate[0].case.source}):\n${JSON.stringify(toCreate[0].payload, null, 2)}` : "";
+          const token = await generateConfirmationToken("import_gherkin", JSON.stringify({ ...args, _sourcesHash: sourcesHash }));
+          return { content: [{ type: "text" as const, text:
+            `📋 Preview — import_gherkin (project ${projectKey}, suite ${suiteId})\n${summary}\n\n${table}` +
+            (updates.length > 0 ? `\n\nPer-case changes (current → new):\n${updates.join("\n")}` : "") +
+            sample + "\n\n" +
+            `New cases are created as drafts.\n` +
+            `confirmation_token: ${token}\n` +
+            `⚠️ To proceed, call again with ONLY: { "confirm": true, "confirmation_token": "${token}" }`
+          }] };
+        }
+
+        const changes = [...toCreate, ...toUpdate];
+        const results = await runWithConcurrency(changes, 3, (it) => it.case.source, async (it) => {
+          if (it.action === "create") {
+            writeAuditLog({
+              timestamp: new Date().toISOString(),
+              tool: "import_gherkin",
+              method: "POST",
+              url: `/test-cases?projectKey=${encodeURIComponent(projectKey)}`,
+              projectKey,
+              payload: it.payload,
+            });
+            const body = await mutationClient.createTestCase(projectKey, it.payload);
+            return `🆕 created ${body.data?.key ?? "test case"}`;
+          }
+          const auditId = writeAuditLog({
+            timestamp: new Date().toISOString(),
+            tool: "import_gherkin",
+            method: "PATCH",
+            url: `/test-cases/key:${it.key}?projectKey=${encodeURIComponent(projectKey)}`,
+            projectKey,
+            payload: it.payload,
+            target: { type: "test_case", identifier: it.key! },
+            before: existing.get(it.key!),
+          });
+          await mutationClient.updateTestCaseByKey(projectKey, it.key!, it.payload);
+          return `✏️ updated ${it.key}: ${it.diffs.map(d => d.field).join(", ")} (audit ${auditId})`;
+        });
+
+        const failed = results.filter((r) => !r.ok);
+        const lines = results.map((r, i) => r.ok
+          ? `✅ ${r.item} — ${changes[i].case.title}: ${r.value}`
+          : `❌ ${r.item} — ${changes[i].case.title}: ${r.error}`);
+        let text =
+          `${failed.length === 0 ? "✅" : "⚠️"} Gherkin import finished: ${results.length - failed.length} succeeded, ${failed.length} failed (of ${results.length}); ${unchanged} unchanged\n\n` +
+          lines.join("\n");
+        if (toCreate.length > 0) {
+          text += `\n\n💡 Tag the new scenarios with their case keys (e.g. @${projectKey.toUpperCase()}-123) so later imports update them instead of matching by title.`;
+        }
+        if (failed.length > 0) {
+          const firstError = failed[0].ok ? "" : failed[0].error;
+          const hints = (await enrichMutationError(new Error(firstError), projectKey, mutationClient))
+            .slice(firstError.length).trim();
+          if (hints) text += `\n\n${hints}`;
+        }
+        return { content: [{ type: "text" as const, text }] };
+      } catch (error: any) {
+        debugLog("Error in import_gherkin", { error: error.message });
+        const enriched = await enrichMutationError(error, args.project_key ?? "", mutationClient);
+        return { content: [{ type: "text" as const, text: `❌ Error in import_gherkin: ${enriched}` }] };
+      }
+    }
+  );
+
+  // ========== END MUTATION TOOLS ==========
+
+  server.registerTool(
+    "get_all_tcm_test_cases_by_project",
+    {
+      description: "📋 Get ALL TCM test cases by project using comprehensive pagination",
+    inputSchema: {
+      project_key: z.string().min(1).describe("Project key (e.g., 'android' or 'ANDROID')"),
+      format: z.enum(['dto', 'json', 'string', 'markdown']).default('json').describe("Output format"),
+      include_clickable_links: z.boolean().default(false).describe("Include clickable links to Zebrunner web UI"),
+      exclude_deprecated: z.boolean().default(false).describe("Exclude deprecated test cases from results"),
+      exclude_draft: z.boolean().default(false).describe("Exclude draft test cases from results"),
+      exclude_deleted: z.boolean().default(true).describe("Exclude deleted test cases from results (default: true)"),
+      max_results: z.number().int().positive().max(10000).default(5000).describe("Maximum number of results (configurable limit for performance)"),
+      count_only: z.boolean().default(false).describe(
+        "When true, returns only the total count without test case data. " +
+        "Efficient for metrics collection -- avoids 1MB response limit on large projects."
+      ),
+      include_history: z.boolean().default(false).describe("When true, each test case includes a 'history' array of change log entries. Filtered to steps, preconditions, expected results, and lifecycle events (automation state changes, deprecation) by default."),
+      history_filter: z.enum(['steps_only', 'events_only', 'all']).default('steps_only').describe("What to include in history. 'steps_only': step/precondition/expectedResult diffs only. 'events_only': lifecycle events only (automated, deprecated, etc.). 'all': everything. Only used when include_history=true."),
+      history_limit: z.number().int().min(1).max(100).default(20).describe("Max history entries per test case. Default 20. For bulk tools fetching many cases, keep this low to avoid rate limits."),
+    },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      try {
+        const { project_key, format, include_clickable_links, exclude_deprecated, exclude_draft, exclude_deleted, max_results, count_only, include_history, history_filter, history_limit } = args;
+
+        debugLog("Getting all TCM test cases", { project_key, include_clickable_links, max_results, count_only });
+
+        // Build RQL filter for status exclusions
+        // Note: `deleted` is NOT supported in RQL — must be filtered client-side
+        const filterParts: string[] = [];
+        if (exclude_deprecated) filterParts.push('deprecated = false');
+        if (exclude_draft) filterParts.push('draft = false');
+        const rqlFilter = filterParts.length > 0 ? filterParts.join(' AND ') : undefined;
+
+        const applyDeletedFilter = (items: any[]): any[] =>
+          exclude_deleted ? items.filter((tc: any) => !tc.deleted) : items;
+
+        if (count_only) {
+          let totalCount = 0;
+          let pageCount = 0;
+          let pageToken: string | undefined = undefined;
+          do {
+            const result = await client.getTestCases(project_key, {
+              size: MAX_PAGE_SIZE,
+              pageToken,
+              ...(rqlFilter && !pageToken ? { filter: rqlFilter } : {})
+            });
+            totalCount += applyDeletedFilter(result.items || []).length;
+            pageCount++;
+            pageToken = result._meta?.nextPageToken;
+          } while (pageToken && pageCount < 100);
+
+          return { content: [{ type: "text" as const, text: JSON.stringify({
+            total_count: totalCount,
+            pages_traversed: pageCount,
+            filters_applied: rqlFilter || "none",
+            project_key
+          }, null, 2) }] };
+        }
+
+        // Get clickable links configuration
+        const clickableLinkConfig = getClickableLinkConfig(include_clickable_links, ZEBRUNNER_URL);
+
+        // Get all test cases using proper token-based pagination
+        let allTestCases: ZebrunnerTestCase[] = [];
+        let pageToken: string | undefined = undefined;
+        let pageCount = 0;
+        let wasTruncated = false;
+        let hasMorePages = false;
+        const maxPages = 100; // Safety limit
+
+        do {
+          const result = await client.getTestCases(project_key, {
+            size: MAX_PAGE_SIZE,
+            pageToken: pageToken,
+            ...(rqlFilter && !pageToken ? { filter: rqlFilter } : {})
+          });
+
+          allTestCases.push(...result.items);
+          pageToken = result._meta?.nextPageToken;
+          pageCount++;
+
+          // Apply max_results limit for performance
+          if (allTestCases.length >= max_results) {
+            allTestCases = allTestCases.slice(0, max_results);
+            wasTruncated = true;
+            hasMorePages = !!pageToken;
+            debugLog(`Limiting results to ${max_results} test cases for performance`);
+            break;
+          }
+
+          debugLog("Fetched test cases page", {
+            pageCount,
+            currentPageSize: result.items.length,
+            totalSoFar: allTestCases.length,
+            hasNextPage: !!pageToken
+          });
+
+        } while (pageToken && pageCount < maxPages);
 
         if (!wasTruncated && pageCount >= maxPages && pageToken) {
           wasTruncated = true;
@@ -6079,6 +7915,173 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
     }
   );
 
+  server.registerTool(
+    "export_test_cases",
+    {
+      description: "📤 Export a suite (and its sub-suites) with steps, priority, automation state and custom fields to CSV, Excel (XLSX), Gherkin .feature files or TestRail-compatible XML. Writes to a file under the workspace root, or returns the export inline for small sets",
+      inputSchema: {
+        project_key: z.string().min(1).describe("Project key (e.g., 'MCP')"),
+        suite_id: z.number().int().positive().describe("Suite to export"),
+        include_sub_suites: z.boolean().default(true).describe("Include all descendant suites (default: true)"),
+        format: z.enum(["csv", "xlsx", "gherkin", "testrail_xml"]).default("csv").describe(
+          "csv: one row per case. xlsx: workbook with a cases sheet and a steps sheet. " +
+          "gherkin: one .feature file per suite, scenarios tagged with the case key (not a lossless copy: re-importing with import_gherkin merges pre-conditions and steps). " +
+          "testrail_xml: TestRail suite import XML with nested sections"
+        ),
+        include_deprecated: z.boolean().default(false).describe("Include deprecated test cases"),
+        output_path: z.string().min(1).optional().describe(
+          "File to write, relative to the workspace root (a folder for gherkin). " +
+          `Omit to return the export inline (at most ${EXPORT_INLINE_MAX_CASES} cases)`
+        ),
+        overwrite: z.boolean().default(false).describe("Replace existing files at output_path"),
+        max_cases: z.number().int().positive().max(10000).default(2000).describe("Refuse exports with more test cases than this"),
+      },
+      annotations: {
+        // Writes files under the workspace root and, with overwrite, replaces them
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      try {
+        const { project_key, suite_id, include_sub_suites, format, include_deprecated, output_path, overwrite, max_cases } = args;
+        debugLog("export_test_cases called", args);
+
+        const allSuites = await client.getAllTestSuites(project_key);
+        const suite = allSuites.find(s => s.id === suite_id);
+        if (!suite) {
+          throw new Error(`Suite ${suite_id} not found in project ${project_key}`);
+        }
+        const subtree = include_sub_suites
+          ? [suite, ...HierarchyProcessor.getSuiteDescendants(suite_id, allSuites)]
+          : [suite];
+        const suitePath = HierarchyProcessor.generateSuitePath(suite_id, allSuites);
+
+        const filter = `testSuite.id IN [${subtree.map(s => s.id).join(',')}]`;
+        let listed: ZebrunnerTestCase[] = [];
+        let pageToken: string | undefined = undefined;
+        do {
+          const result = await client.getTestCases(project_key, { size: MAX_PAGE_SIZE, filter, pageToken });
+          listed.push(...result.items);
+          pageToken = result._meta?.nextPageToken;
+        } while (pageToken && listed.length <= max_cases);
+        listed = listed.filter(tc => !tc.deleted && (include_deprecated || !tc.deprecated));
+
+        if (listed.length === 0) {
+          return { content: [{ type: "text" as const, text: `ℹ️ No test cases to export in ${suitePath}${include_deprecated ? "" : " (deprecated cases excluded)"}.` }] };
+        }
+        if (listed.length > max_cases) {
+          throw new Error(`${suitePath} has more than ${max_cases} test cases — raise max_cases or export a smaller suite`);
+        }
+        if (!output_path && listed.length > EXPORT_INLINE_MAX_CASES) {
+          throw new Error(`${listed.length} test cases are too many to return inline (max ${EXPORT_INLINE_MAX_CASES}) — pass output_path to write a file`);
+        }
+
+        // The list endpoint omits steps, so every case is loaded in full
+        const fetched = await runWithConcurrency(listed, 5, tc => tc.key ?? String(tc.id),
+          tc => tc.key ? client.getTestCaseByKey(project_key, tc.key) : Promise.resolve(tc));
+        const notes: string[] = [];
+        const failed = fetched.filter(r => !r.ok).map(r => r.item);
+        if (failed.length > 0) {
+          notes.push(`⚠️ ${failed.length} case(s) exported without steps (details could not be loaded): ${failed.slice(0, 10).join(", ")}${failed.length > 10 ? ", …" : ""}`);
+        }
+
+        const fieldsLayout = await getFieldsLayoutForProject(project_key);
+        if (!fieldsLayout) notes.push("ℹ️ Fields layout unavailable — custom fields are named by their API keys.");
+        const displayMap = FormatProcessor.buildCustomFieldDisplayMap(fieldsLayout);
+
+        const suiteOrder = new Map(subtree.map((s, i) => [s.id, i]));
+        const paths = new Map<number, string>();
+        const cases: ExportCase[] = fetched.map((r, i) => {
+          const tc: ZebrunnerTestCase = r.ok ? { ...listed[i], ...r.value } : listed[i];
+          const suiteId: number | undefined = tc.testSuite?.id;
+          if (suiteId !== undefined && !paths.has(suiteId)) paths.set(suiteId, HierarchyProcessor.generateSuitePath(suiteId, allSuites));
+          return toExportCase(tc, suiteId !== undefined ? paths.get(suiteId)! : suitePath, displayMap);
+        });
+        cases.sort((a, b) =>
+          (suiteOrder.get(a.suiteId ?? -1) ?? subtree.length) - (suiteOrder.get(b.suiteId ?? -1) ?? subtree.length) ||
+          a.key.localeCompare(b.key, undefined, { numeric: true }));
+
+        const fileBase = exportFileBase(project_key, suite.title || suite.name || `suite_${suite_id}`);
+        let files: ExportFile[];
+        switch (format) {
+          case "csv":
+            files = [{ name: `${fileBase}.csv`, content: formatCasesCsv(cases) }];
+            break;
+          case "xlsx":
+            files = [{ name: `${fileBase}.xlsx`, content: formatCasesXlsx(cases) }];
+            break;
+          case "gherkin":
+            files = formatCasesGherkin(cases);
+            break;
+          case "testrail_xml":
+            files = [{
+              name: `${fileBase}.xml`,
+              content: formatCasesTestRailXml(buildExportSections(suite_id, subtree, cases), `${project_key.toUpperCase()} — ${suitePath}`),
+            }];
+            break;
+        }
+
+        const summary = `✅ Exported ${cases.length} test case(s) from ${suitePath} (${subtree.length} suite(s)) as ${format}`;
+
+        if (output_path) {
+          const root = resolveWorkspaceRoot(getConfig().workspace);
+          const target = validateFilePath(output_path, root);
+          const targets = files.map(f => ({
+            file: f,
+            path: format === "gherkin" ? validateFilePath(path.join(target, f.name), root) : target,
+          }));
+          const existing = targets.filter(t => fs.existsSync(t.path));
+          if (existing.length > 0 && !overwrite) {
+            throw new Error(`Refusing to overwrite ${existing.map(t => path.relative(root, t.path)).join(", ")} — call again with overwrite: true or pick another output_path`);
+          }
+          for (const t of targets) {
+            fs.mkdirSync(path.dirname(t.path), { recursive: true });
+            fs.writeFileSync(t.path, t.file.content);
+          }
+          const lines = [
+            summary,
+            "",
+            ...targets.map(t => `- ${path.relative(root, t.path)} (${Buffer.byteLength(t.file.content)} bytes)`),
+            ...notes.map(n => `\n${n}`),
+          ];
+          return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+        }
+
+        const header = [summary, ...notes].join("\n\n");
+        if (format === "xlsx") {
+          const [file] = files;
+          return {
+            content: [
+              { type: "text" as const, text: `${header}\n\nThe workbook ${file.name} is attached (base64).` },
+              {
+                type: "resource" as const,
+                resource: {
+                  uri: `zebrunner://exports/${file.name}`,
+                  mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+                  blob: Buffer.from(file.content).toString("base64"),
+                },
+              },
+            ],
+          };
+        }
+        const fence = format === "csv" ? "csv" : format === "gherkin" ? "gherkin" : "xml";
+        const body = files
+          .map(f => format === "gherkin" ? `# file: ${f.name}\n${f.content.toString()}` : f.content.toString())
+          .join("\n")
+          .trimEnd();
+        return { content: [{ type: "text" as const, text: `${header}\n\n\`\`\`${fence}\n${body}\n\`\`\`` }] };
+      } catch (error: any) {
+        debugLog("Error in export_test_cases", { error: error.message, args });
+        return {
+          content: [{ type: "text" as const, text: `❌ Error exporting test cases: ${error.message}` }]
+        };
+      }
+    }
+  );
+
   server.registerTool(
     "get_all_tcm_test_cases_with_root_suite_id",
     {
@@ -7006,11 +9009,199 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
         debugLog("get_launch_summary called", args);
         return await reportingHandlers.getLauncherSummary(args);
       } catch (error: any) {
-        debugLog("Error in get_launch_summary", { error: error.message, args });
+        debugLog("Error in get_launch_summary", { error: error.message, args });
+        return {
+          content: [{
+            type: "text" as const,
+            text: `❌ Error getting launcher summary: ${error.message}`
+          }]
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    "analyze_regression_runtime",
+    {
+      description: "📊 Analyze Regression Runtime Efficiency: collects per-launch elapsed time, attempt/re-run breakdown, per-test duration classification (Short / Medium / Long with configurable thresholds), Average Runtime per Test, and Weighted Runtime Index. Supports baseline comparison with a previous milestone or build to track deviation (%). Targets one project per call; aggregate across teams by calling multiple times.",
+    inputSchema: {
+      project: z.union([z.enum(["web","android","ios","api"]), z.string(), z.number()]).describe("Project alias (web/android/ios/api), project key, or project ID"),
+      milestone: z.string().optional().describe("Milestone name to find launches (e.g., 'develop-49771')"),
+      build: z.string().optional().describe("Build identifier / query to find launches"),
+      suite_names: z.array(z.string()).optional().describe("Array of suite names to filter launches (partial match, case-insensitive)"),
+      launch_ids: z.array(z.number().int().positive()).optional().describe("Explicit launch IDs to analyze (overrides milestone/build/suite_names)"),
+      period_days: z.number().int().positive().max(365).optional().describe("Only analyze launches started in the last N days. Served from the local history store (see sync_history) when it covers the window"),
+      previous_milestone: z.string().optional().describe("Previous milestone name for baseline comparison"),
+      previous_build: z.string().optional().describe("Previous build identifier for baseline comparison"),
+      include_test_details: z.boolean().default(false).describe("Include per-test duration listing within each duration class"),
+      include_attempts_details: z.boolean().default(true).describe("Include detailed re-run attempt breakdown per launch"),
+      format: z.enum(['dto', 'json', 'string']).default('json').describe("Output format"),
+      session_resolution: z.enum(['auto', 'per_test', 'launch_level']).default('auto').describe("Session duration resolution strategy: auto (launch-level first, fallback per-test), per_test, or launch_level"),
+      medium_threshold_seconds: z.number().int().positive().default(300).describe("Duration threshold (seconds) above which a test is classified as Medium. Default: 300 (5 min)"),
+      long_threshold_seconds: z.number().int().positive().default(600).describe("Duration threshold (seconds) above which a test is classified as Long. Default: 600 (10 min)"),
+      chart: z.enum(['none', 'png', 'html', 'text']).default('none').describe(
+        "When set, returns a chart visualization. 'png' = base64 PNG image, 'html' = Chart.js page, 'text' = ASCII chart."
+      ),
+      chart_type: z.enum(['auto', 'pie', 'bar', 'stacked_bar', 'horizontal_bar', 'line']).default('auto').describe(
+        "Chart type override. 'auto' picks the best type for this tool's data. Explicit value forces that chart type."
+      ),
+    },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      try {
+        debugLog("analyze_regression_runtime called", args);
+
+        const { projectId } = await resolveProjectId(args.project);
+        const resolvedKey = typeof args.project === 'string'
+          ? (getProjectAliases()[args.project] || args.project)
+          : undefined;
+
+        return await reportingHandlers.analyzeRegressionRuntime({
+          projectKey: resolvedKey,
+          projectId,
+          milestone: args.milestone,
+          build: args.build,
+          suiteNames: args.suite_names,
+          launchIds: args.launch_ids,
+          period_days: args.period_days,
+          previousMilestone: args.previous_milestone,
+          previousBuild: args.previous_build,
+          includeTestDetails: args.include_test_details,
+          includeAttemptsDetails: args.include_attempts_details,
+          format: args.format,
+          session_resolution: args.session_resolution,
+          medium_threshold_seconds: args.medium_threshold_seconds,
+          long_threshold_seconds: args.long_threshold_seconds,
+          chart: args.chart,
+          chart_type: args.chart_type,
+        });
+      } catch (error: any) {
+        debugLog("Error in analyze_regression_runtime", { error: error.message, args });
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Error analyzing regression runtime: ${error.message}`
+          }]
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    "find_flaky_tests",
+    {
+      description: "🔍 Find flaky tests across launches using a 3-phase approach: (1) cross-launch flip-flop analysis of automated tests, (2) manual-only test case scan via TCM execution history, (3) dual-perspective enrichment of top automated flaky tests with TCM data. Detects tests that oscillate between PASSED/FAILED across multiple launches within a time window. Scans at most 50 launches from the API, or every launch in the window when the local history store covers it (see sync_history).",
+    inputSchema: {
+      project: z.union([z.enum(["web","android","ios","api"]), z.string(), z.number()]).describe("Project alias (web/android/ios/api), project key, or project ID"),
+      period_days: z.number().int().positive().max(365).default(14).describe("Time window in days to scan for flakiness (default: 14, max: 365; windows beyond the last 50 launches need the local history store)"),
+      min_flip_count: z.number().int().positive().default(2).describe("Minimum pass/fail transitions to qualify as flaky (default: 2)"),
+      stability_threshold: z.number().min(0).max(100).default(80).describe("Max avg stability % to include — tests above this are considered stable (default: 80)"),
+      milestone: z.string().optional().describe("Optional milestone filter for launches"),
+      build: z.string().optional().describe("Optional build number filter for launches"),
+      suite_names: z.array(z.string()).optional().describe("Optional suite names to scope the manual test scan (Phase 2)"),
+      include_manual: z.boolean().default(true).describe("Scan manual-only test cases via TCM execution history (Phase 2)"),
+      enrich_top_n: z.number().int().min(0).default(10).describe("Number of top automated flaky tests to enrich with TCM data (Phase 3). Set to 0 to skip."),
+      limit: z.number().int().positive().max(200).default(50).describe("Max flaky tests to return"),
+      include_history: z.boolean().default(false).describe("Include per-test execution timeline with dates, statuses, and MANUAL/AUTOMATED type"),
+      format: z.enum(['json', 'string', 'jira']).default('json').describe("Output format: json, markdown string, or Jira wiki markup"),
+      count_only: z.boolean().default(false).describe(
+        "When true, returns only the count of automated flaky tests found (Phase 1 only). Skips Phase 2/3."
+      ),
+      chart: z.enum(['none', 'png', 'html', 'text']).default('none').describe(
+        "When set, returns a bar chart of top flaky tests by flip count. " +
+        "'png' returns a base64 PNG image, 'html' returns Chart.js page, 'text' returns ASCII chart."
+      ),
+      chart_type: z.enum(['auto', 'pie', 'bar', 'stacked_bar', 'horizontal_bar', 'line']).default('auto').describe(
+        "Chart type override. 'auto' picks the best type for this tool's data. Explicit value forces that chart type."
+      )
+    },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      try {
+        debugLog("find_flaky_tests called", args);
+        const { projectId } = await resolveProjectId(args.project);
+        const projectKey = typeof args.project === 'string'
+          ? (getProjectAliases()[args.project] || args.project)
+          : undefined;
+        return await reportingHandlers.findFlakyTests({
+          projectKey: projectKey,
+          projectId,
+          period_days: args.period_days,
+          min_flip_count: args.min_flip_count,
+          stability_threshold: args.stability_threshold,
+          milestone: args.milestone,
+          build: args.build,
+          suite_names: args.suite_names,
+          include_manual: args.include_manual,
+          enrich_top_n: args.enrich_top_n,
+          limit: args.limit,
+          include_history: args.include_history,
+          format: args.format,
+          count_only: args.count_only,
+          chart: args.chart,
+          chart_type: args.chart_type,
+        });
+      } catch (error: any) {
+        debugLog("Error in find_flaky_tests", { error: error.message, args });
+        return {
+          content: [{
+            type: "text" as const,
+            text: `❌ Error finding flaky tests: ${error.message}`
+          }]
+        };
+      }
+    }
+  );
+
+  server.registerTool(
+    "sync_history",
+    {
+      description: "🗄️ Sync a project's launches, test runs, statuses, durations and linked issues into the local history store (opt-in SQLite file, see historyStore in zebrunner-config.json). Incremental: only launches not already stored as finished are downloaded. Once synced, find_flaky_tests, analyze_regression_runtime and generate_weekly_regression_stability_report read from the store, making 90- and 365-day windows practical.",
+    inputSchema: {
+      project: z.union([z.enum(["web","android","ios","api"]), z.string(), z.number()]).describe("Project alias (web/android/ios/api), project key, or project ID"),
+      days: z.number().int().positive().max(3650).optional().describe("Window to sync in days (default: historyStore.defaultSyncDays, 90)"),
+      max_launches: z.number().int().positive().max(5000).optional().describe("Launches whose test runs are downloaded in this call (default: historyStore.maxLaunchesPerSync, 500). Call again to continue a long backfill"),
+      status_only: z.boolean().default(false).describe("Only report what the store currently covers for the project, without syncing")
+    },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      try {
+        debugLog("sync_history called", args);
+        const { projectId } = await resolveProjectId(args.project);
+        const projectKey = typeof args.project === 'string'
+          ? (getProjectAliases()[args.project] || args.project)
+          : undefined;
+        return await reportingHandlers.syncHistory({
+          projectId,
+          projectKey,
+          days: args.days,
+          max_launches: args.max_launches,
+          status_only: args.status_only,
+        });
+      } catch (error: any) {
+        debugLog("Error in sync_history", { error: error.message, args });
         return {
           content: [{
             type: "text" as const,
-            text: `❌ Error getting launcher summary: ${error.message}`
+            text: `❌ Error syncing launch history: ${error.message}`
           }]
         };
       }
@@ -7018,29 +9209,17 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
   );
 
   server.registerTool(
-    "analyze_regression_runtime",
+    "cluster_failures",
     {
-      description: "📊 Analyze Regression Runtime Efficiency: collects per-launch elapsed time, attempt/re-run breakdown, per-test duration classification (Short / Medium / Long with configurable thresholds), Average Runtime per Test, and Weighted Runtime Index. Supports baseline comparison with a previous milestone or build to track deviation (%). Targets one project per call; aggregate across teams by calling multiple times.",
+      description: "🧬 Cluster failures across recent launches by normalized error signature (numbers, IDs, timestamps and hex stripped from the message and top stack frames). Scans the last N launches (or a milestone) of one or more projects and reports each cluster's first/last seen launch, affected tests, platforms and linked issues — use it to spot one root cause spreading across android/ios/web.",
     inputSchema: {
-      project: z.union([z.enum(["web","android","ios","api"]), z.string(), z.number()]).describe("Project alias (web/android/ios/api), project key, or project ID"),
-      milestone: z.string().optional().describe("Milestone name to find launches (e.g., 'develop-49771')"),
-      build: z.string().optional().describe("Build identifier / query to find launches"),
-      suite_names: z.array(z.string()).optional().describe("Array of suite names to filter launches (partial match, case-insensitive)"),
-      launch_ids: z.array(z.number().int().positive()).optional().describe("Explicit launch IDs to analyze (overrides milestone/build/suite_names)"),
-      previous_milestone: z.string().optional().describe("Previous milestone name for baseline comparison"),
-      previous_build: z.string().optional().describe("Previous build identifier for baseline comparison"),
-      include_test_details: z.boolean().default(false).describe("Include per-test duration listing within each duration class"),
-      include_attempts_details: z.boolean().default(true).describe("Include detailed re-run attempt breakdown per launch"),
-      format: z.enum(['dto', 'json', 'string']).default('json').describe("Output format"),
-      session_resolution: z.enum(['auto', 'per_test', 'launch_level']).default('auto').describe("Session duration resolution strategy: auto (launch-level first, fallback per-test), per_test, or launch_level"),
-      medium_threshold_seconds: z.number().int().positive().default(300).describe("Duration threshold (seconds) above which a test is classified as Medium. Default: 300 (5 min)"),
-      long_threshold_seconds: z.number().int().positive().default(600).describe("Duration threshold (seconds) above which a test is classified as Long. Default: 600 (10 min)"),
-      chart: z.enum(['none', 'png', 'html', 'text']).default('none').describe(
-        "When set, returns a chart visualization. 'png' = base64 PNG image, 'html' = Chart.js page, 'text' = ASCII chart."
-      ),
-      chart_type: z.enum(['auto', 'pie', 'bar', 'stacked_bar', 'horizontal_bar', 'line']).default('auto').describe(
-        "Chart type override. 'auto' picks the best type for this tool's data. Explicit value forces that chart type."
-      ),
+      projects: z.array(z.union([z.enum(["web","android","ios","api"]), z.string(), z.number()])).min(1).max(10).describe("Project aliases (web/android/ios/api), project keys, or project IDs to scan together"),
+      milestone: z.string().optional().describe("Only scan launches in this milestone"),
+      launch_count: z.number().int().positive().max(50).default(10).describe("Most recent launches to scan per project (default: 10, max: 50)"),
+      stack_frames: z.number().int().min(0).max(10).default(3).describe("Top stack frames included in the signature (0 = message headline only)"),
+      min_occurrences: z.number().int().positive().default(2).describe("Hide clusters with fewer failures than this (default: 2)"),
+      limit: z.number().int().positive().max(200).default(25).describe("Max clusters to return"),
+      format: z.enum(['json', 'string']).default('json').describe("Output format: json or markdown string"),
     },
       annotations: {
         readOnlyHint: true,
@@ -7051,37 +9230,31 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
     },
     async (args) => {
       try {
-        debugLog("analyze_regression_runtime called", args);
-
-        const { projectId } = await resolveProjectId(args.project);
-        const resolvedKey = typeof args.project === 'string'
-          ? (getProjectAliases()[args.project] || args.project)
-          : undefined;
-
-        return await reportingHandlers.analyzeRegressionRuntime({
-          projectKey: resolvedKey,
-          projectId,
+        debugLog("cluster_failures called", args);
+        const aliases = getProjectAliases();
+        const projects = await Promise.all(args.projects.map(async (project) => {
+          const { projectId } = await resolveProjectId(project);
+          return {
+            projectId,
+            projectKey: typeof project === 'string' ? (aliases[project] || project) : undefined,
+            label: String(project),
+          };
+        }));
+        return await reportingHandlers.clusterFailures({
+          projects,
           milestone: args.milestone,
-          build: args.build,
-          suiteNames: args.suite_names,
-          launchIds: args.launch_ids,
-          previousMilestone: args.previous_milestone,
-          previousBuild: args.previous_build,
-          includeTestDetails: args.include_test_details,
-          includeAttemptsDetails: args.include_attempts_details,
+          launch_count: args.launch_count,
+          stack_frames: args.stack_frames,
+          min_occurrences: args.min_occurrences,
+          limit: args.limit,
           format: args.format,
-          session_resolution: args.session_resolution,
-          medium_threshold_seconds: args.medium_threshold_seconds,
-          long_threshold_seconds: args.long_threshold_seconds,
-          chart: args.chart,
-          chart_type: args.chart_type,
         });
       } catch (error: any) {
-        debugLog("Error in analyze_regression_runtime", { error: error.message, args });
+        debugLog("Error in cluster_failures", { error: error.message, args });
         return {
           content: [{
             type: "text" as const,
-            text: `Error analyzing regression runtime: ${error.message}`
+            text: `❌ Error clustering failures: ${error.message}`
           }]
         };
       }
@@ -7089,32 +9262,23 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
   );
 
   server.registerTool(
-    "find_flaky_tests",
+    "compare_launches",
     {
-      description: "🔍 Find flaky tests across launches using a 3-phase approach: (1) cross-launch flip-flop analysis of automated tests, (2) manual-only test case scan via TCM execution history, (3) dual-perspective enrichment of top automated flaky tests with TCM data. Detects tests that oscillate between PASSED/FAILED across multiple launches within a time window.",
+      description: "🔀 Compare two launches test by test: newly failing, newly passing, still failing, added, removed and significantly slower tests, each with owner and linked issues. Warns when the launches don't look comparable (low name similarity or test overlap).",
     inputSchema: {
       project: z.union([z.enum(["web","android","ios","api"]), z.string(), z.number()]).describe("Project alias (web/android/ios/api), project key, or project ID"),
-      period_days: z.number().int().positive().max(90).default(14).describe("Time window in days to scan for flakiness (default: 14, max: 90)"),
-      min_flip_count: z.number().int().positive().default(2).describe("Minimum pass/fail transitions to qualify as flaky (default: 2)"),
-      stability_threshold: z.number().min(0).max(100).default(80).describe("Max avg stability % to include — tests above this are considered stable (default: 80)"),
-      milestone: z.string().optional().describe("Optional milestone filter for launches"),
-      build: z.string().optional().describe("Optional build number filter for launches"),
-      suite_names: z.array(z.string()).optional().describe("Optional suite names to scope the manual test scan (Phase 2)"),
-      include_manual: z.boolean().default(true).describe("Scan manual-only test cases via TCM execution history (Phase 2)"),
-      enrich_top_n: z.number().int().min(0).default(10).describe("Number of top automated flaky tests to enrich with TCM data (Phase 3). Set to 0 to skip."),
-      limit: z.number().int().positive().max(200).default(50).describe("Max flaky tests to return"),
-      include_history: z.boolean().default(false).describe("Include per-test execution timeline with dates, statuses, and MANUAL/AUTOMATED type"),
-      format: z.enum(['json', 'string', 'jira']).default('json').describe("Output format: json, markdown string, or Jira wiki markup"),
-      count_only: z.boolean().default(false).describe(
-        "When true, returns only the count of automated flaky tests found (Phase 1 only). Skips Phase 2/3."
-      ),
+      base_launch_id: z.number().int().positive().describe("Baseline launch ID (the 'before' run)"),
+      target_launch_id: z.number().int().positive().describe("Launch ID to compare against the baseline (the 'after' run)"),
+      slower_threshold_percent: z.number().positive().default(50).describe("Flag tests whose duration grew by at least this % (default: 50)"),
+      min_slowdown_seconds: z.number().min(0).default(10).describe("Ignore slowdowns smaller than this many seconds (default: 10)"),
+      limit: z.number().int().positive().max(500).default(50).describe("Max tests listed per category"),
+      format: z.enum(['dto', 'json', 'string']).default('json').describe("Output format: dto, json, or markdown string"),
       chart: z.enum(['none', 'png', 'html', 'text']).default('none').describe(
-        "When set, returns a bar chart of top flaky tests by flip count. " +
-        "'png' returns a base64 PNG image, 'html' returns Chart.js page, 'text' returns ASCII chart."
+        "When set, returns a chart visualization. 'png' = base64 PNG image, 'html' = Chart.js page, 'text' = ASCII chart."
       ),
       chart_type: z.enum(['auto', 'pie', 'bar', 'stacked_bar', 'horizontal_bar', 'line']).default('auto').describe(
         "Chart type override. 'auto' picks the best type for this tool's data. Explicit value forces that chart type."
-      )
+      ),
     },
       annotations: {
         readOnlyHint: true,
@@ -7125,35 +9289,25 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
     },
     async (args) => {
       try {
-        debugLog("find_flaky_tests called", args);
+        debugLog("compare_launches called", args);
         const { projectId } = await resolveProjectId(args.project);
-        const projectKey = typeof args.project === 'string'
-          ? (getProjectAliases()[args.project] || args.project)
-          : undefined;
-        return await reportingHandlers.findFlakyTests({
-          projectKey: projectKey,
+        return await reportingHandlers.compareLaunches({
           projectId,
-          period_days: args.period_days,
-          min_flip_count: args.min_flip_count,
-          stability_threshold: args.stability_threshold,
-          milestone: args.milestone,
-          build: args.build,
-          suite_names: args.suite_names,
-          include_manual: args.include_manual,
-          enrich_top_n: args.enrich_top_n,
+          baseLaunchId: args.base_launch_id,
+          targetLaunchId: args.target_launch_id,
+          slower_threshold_percent: args.slower_threshold_percent,
+          min_slowdown_seconds: args.min_slowdown_seconds,
           limit: args.limit,
-          include_history: args.include_history,
           format: args.format,
-          count_only: args.count_only,
           chart: args.chart,
           chart_type: args.chart_type,
         });
       } catch (error: any) {
-        debugLog("Error in find_flaky_tests", { error: error.message, args });
+        debugLog("Error in compare_launches", { error: error.message, args });
         return {
           content: [{
             type: "text" as const,
-            text: `❌ Error finding flaky tests: ${error.message}`
+            text: `❌ Error comparing launches: ${error.message}`
           }]
         };
       }
@@ -7166,11 +9320,12 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
   server.registerTool(
     "generate_report",
     {
-      description: "📊 (Beta) Universal report generator. Supports 6 report types: quality_dashboard (HTML+Markdown with 6 panels), coverage (per-suite test coverage table), pass_rate (per-platform with targets), runtime_efficiency (with delta vs previous milestone), executive_dashboard (standup-ready combined report), release_readiness (Go/No-Go assessment). Can generate single or multiple reports per call.",
+      description: "📊 (Beta) Universal report generator. Supports 7 report types: quality_dashboard (HTML+Markdown with 6 panels), coverage (per-suite test coverage table), pass_rate (per-platform with targets), runtime_efficiency (with delta vs previous milestone), executive_dashboard (standup-ready combined report), release_readiness (Go/No-Go assessment), automation_velocity (weekly automation intake, manual backlog trend and projected date to reach a coverage target). Can generate single or multiple reports per call.",
     inputSchema: {
       report_types: z.array(z.enum([
         'quality_dashboard', 'coverage', 'pass_rate',
-        'runtime_efficiency', 'executive_dashboard', 'release_readiness'
+        'runtime_efficiency', 'executive_dashboard', 'release_readiness',
+        'automation_velocity'
       ])).min(1).describe(
         "Report type(s) to generate. Can request multiple in one call."
       ),
@@ -7198,6 +9353,9 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
       previous_milestone: z.string().optional().describe(
         "Baseline milestone for delta comparison (runtime_efficiency, release_readiness)"
       ),
+      coverage_target: z.number().min(1).max(100).optional().describe(
+        "Automation coverage % to project towards (automation_velocity). Default: 80"
+      ),
     },
       annotations: {
         readOnlyHint: true,
@@ -7219,6 +9377,7 @@ TWO-STEP FLOW: 1) Call with all fields (without confirm) to get a preview + conf
           targets: args.targets,
           exclude_suite_patterns: args.exclude_suite_patterns,
           previous_milestone: args.previous_milestone,
+          coverage_target: args.coverage_target,
         });
       } catch (error: any) {
         debugLog("Error in generate_report", { error: error.message, args });
@@ -7918,7 +10077,11 @@ if (args.format === 'raw') {
 
         if (args.mode === "metrics") {
           const header = `MCP version: ${snapshot.mcpVersion}\n\n`;
-          return { content: [{ type: "text" as const, text: header + toolMetrics.getSummaryMarkdown() }] };
+          const user = getCurrentContext()?.username;
+          const rateLimits = user && rateLimiter.enabled
+            ? `\n\n${formatUserRateLimitUsage(rateLimiter.getUserUsage(user))}`
+            : "";
+          return { content: [{ type: "text" as const, text: header + toolMetrics.getSummaryMarkdown() + rateLimits }] };
         }
 
         if (args.mode === "routing") {
@@ -8013,6 +10176,66 @@ if (args.format === 'raw') {
     }
   );
 
+  server.registerTool(
+    "cache_admin",
+    {
+      description: "🗄️ Inspect or flush the shared response cache (projects, suite trees, fields layouts, automation states/priorities). Only your own cached entries are shown or flushed. Use action='flush' after changing data outside this server (e.g. in the Zebrunner UI) to force fresh reads.",
+      inputSchema: {
+        action: z.enum(["stats", "flush"]).default("stats")
+          .describe("stats: backend, TTLs, entry counts and hit ratios; flush: drop cached entries"),
+        cache_class: z.enum(["project", "suites", "fields_layout", "reference_data"]).optional()
+          .describe("Limit a flush to one endpoint class (default: all classes)")
+      },
+      // flush deletes entries from a cache other replicas may share; they are re-fetched on the next read
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      try {
+        debugLog("cache_admin called", args);
+        const cache = reportingClient.responseCache;
+
+        if (args.action === "flush") {
+          const denied = writeScopeError("cache_admin", "flushes the shared response cache");
+          if (denied) return denied;
+          const removed = await cache.invalidate(args.cache_class);
+          const scope = args.cache_class ? `\`${args.cache_class}\`` : "all classes";
+          return { content: [{ type: "text" as const, text: `✅ Flushed ${removed} cached entr${removed === 1 ? "y" : "ies"} (${scope}, backend: ${cache.backend}).` }] };
+        }
+
+        const stats = await cache.describe();
+        const lines = [
+          "## Response cache",
+          "",
+          `**Backend:** ${cache.backend} | **Your entries:** ${stats.reduce((n, s) => n + s.entries, 0)}`,
+          "",
+          "| Class | TTL (s) | Your entries | Hits | Misses | Hit ratio |",
+          "|-------|---------|--------------|------|--------|-----------|",
+          ...stats.map((s) => {
+            const total = s.hits + s.misses;
+            const ratio = total > 0 ? `${Math.round((s.hits / total) * 100)}%` : "—";
+            return `| ${s.cacheClass} | ${s.ttlSeconds === 0 ? "off" : s.ttlSeconds} | ${s.entries} | ${s.hits} | ${s.misses} | ${ratio} |`;
+          }),
+          "",
+          "_Hits and misses count lookups by all users since server start._",
+        ];
+        return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+      } catch (error: any) {
+        debugLog("Error in cache_admin", { error: error.message, args });
+        return {
+          content: [{
+            type: "text" as const,
+            text: `❌ Error in cache_admin: ${error?.message || error}`
+          }]
+        };
+      }
+    }
+  );
+
   // ========== ZEBRUNNER WIDGET TOOLS ==========
 
   // === Tool #1: Platform test results by period ===
@@ -9814,6 +12037,187 @@ ${detailsInfo.map((detail, i) => {
     }
   );
 
+  // Test runs traced per milestone; pass test_run_ids for more
+  const TRACEABILITY_MAX_MILESTONE_RUNS = 200;
+
+  server.registerTool(
+    "requirements_traceability",
+    {
+      description: "🧭 Requirements traceability matrix: requirement (JIRA / AZURE_DEVOPS) → linked test cases → latest result in the selected test runs or milestone. Flags requirements with no tests, no executions, or failing coverage. Export as markdown, json, csv or html.",
+    inputSchema: {
+      project: z.union([z.enum(["web","android","ios","api"]), z.string()])
+        .describe("Project alias ('web', 'android', 'ios', 'api') or project key"),
+      test_run_ids: z.array(z.number().int().positive()).max(50).optional()
+        .describe("Test Run IDs to trace. Alternative to milestone."),
+      milestone: z.union([z.string(), z.number()]).optional()
+        .describe("Milestone name or ID; traces every test run in it. Alternative to test_run_ids."),
+      requirements: z.array(z.object({
+        source: z.enum(["JIRA", "AZURE_DEVOPS"]),
+        reference: z.string().min(1),
+      })).optional()
+        .describe("Extra requirements to include even when no test case or run links them (reported as 'no tests')."),
+      gaps_only: z.boolean().default(false)
+        .describe("Only list requirements with no tests, no executions, or failing coverage"),
+      max_cases: z.number().int().positive().max(1000).default(300)
+        .describe("Maximum distinct test cases whose requirement links are fetched"),
+      format: z.enum(["markdown", "json", "csv", "html"]).default("markdown")
+        .describe("Output format. 'html' is a self-contained page with a coverage chart and the matrix table."),
+      chart: z.enum(['none', 'png', 'html', 'text']).default('none').describe(
+        "When set, returns a requirement coverage chart instead of the matrix. 'png' = base64 PNG image, 'html' = Chart.js page, 'text' = ASCII chart."
+      ),
+    },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      try {
+        debugLog("requirements_traceability called", args);
+
+        const { projectId } = await resolveProjectId(args.project);
+        const projectKey = typeof args.project === 'string'
+          ? (getProjectAliases()[args.project] || args.project)
+          : undefined;
+        if (!projectKey) {
+          throw new Error(`Invalid project: ${args.project}. Use aliases like 'android', 'ios', 'web', 'api' or direct project keys.`);
+        }
+        if (!args.test_run_ids?.length && args.milestone === undefined) {
+          throw new Error("Provide test_run_ids or milestone");
+        }
+
+        // Collect the test runs in scope
+        const runs: any[] = [];
+        let runsCapped = false;
+        if (args.test_run_ids?.length) {
+          for (const id of args.test_run_ids) {
+            runs.push((await client.getPublicTestRunById({ id, projectKey })).data);
+          }
+        } else {
+          let milestoneId: number;
+          if (typeof args.milestone === 'number') {
+            milestoneId = args.milestone;
+          } else {
+            const milestonesData = await reportingClient.getMilestones(projectId, { page: 1, pageSize: 100, completed: 'all' });
+            const milestone = milestonesData.items.find((m: any) => m.name === args.milestone);
+            if (!milestone) {
+              throw new Error(`Milestone '${args.milestone}' not found. Use get_project_milestones to see available milestones.`);
+            }
+            milestoneId = milestone.id;
+          }
+          let pageToken: string | undefined = undefined;
+          do {
+            const page: any = await client.listPublicTestRuns({
+              projectKey,
+              maxPageSize: 100,
+              filter: `milestone.id = ${milestoneId}`,
+              sortBy: "-createdAt",
+              pageToken
+            });
+            runs.push(...(page.items || []));
+            pageToken = page._meta?.nextPageToken;
+          } while (pageToken && runs.length < TRACEABILITY_MAX_MILESTONE_RUNS);
+          if (runs.length === 0) throw new Error(`No test runs found in milestone '${args.milestone}'`);
+          runsCapped = Boolean(pageToken);
+        }
+
+        const executions: TraceabilityExecution[] = [];
+        for (const run of runs) {
+          const runCases = await client.listPublicTestRunTestCases({ testRunId: run.id, projectKey });
+          for (const item of runCases.items || []) {
+            executions.push({
+              runId: run.id,
+              caseId: item.testCase.id,
+              caseKey: item.testCase.key,
+              title: item.testCase.title,
+              status: item.result?.status?.name ?? null,
+            });
+          }
+        }
+
+        // Requirement links live on the full test case only
+        const caseIds = [...new Set(executions.map(e => e.caseId))];
+        const fetchedIds = caseIds.slice(0, args.max_cases);
+        const caseRequirements = new Map<number, RequirementRef[]>();
+        for (let i = 0; i < fetchedIds.length; i += 5) {
+          const batch = fetchedIds.slice(i, i + 5);
+          const results = await Promise.allSettled(batch.map(id => client.getTestCaseById(projectKey, id)));
+          results.forEach((r, j) => {
+            if (r.status === 'fulfilled') {
+              caseRequirements.set(batch[j], (r.value.requirements || []).filter((req: any) => req?.source && req?.reference));
+            }
+          });
+        }
+        const fetchedSet = new Set(fetchedIds);
+
+        const statuses = await client.listResultStatuses({ projectKey });
+        const matrix = buildTraceabilityMatrix({
+          runs: runs.map(r => ({ id: r.id, title: r.title, createdAt: r.createdAt, requirements: r.requirements || [] })),
+          executions: executions.filter(e => fetchedSet.has(e.caseId)),
+          caseRequirements,
+          statuses: statuses.items,
+          requirements: args.requirements,
+        });
+        const rows = args.gaps_only ? traceabilityGaps(matrix) : matrix.requirements;
+        const scope = args.milestone !== undefined ? `${projectKey} / milestone ${args.milestone}` : projectKey;
+        const notes: string[] = [];
+        if (caseIds.length > fetchedIds.length) {
+          notes.push(`Requirement links were fetched for ${fetchedIds.length} of ${caseIds.length} test cases; raise max_cases for full coverage.`);
+        }
+        const unknown = fetchedIds.filter(id => !caseRequirements.has(id));
+        if (unknown.length > 0) {
+          const keys = unknown.slice(0, 10).map(id => executions.find(e => e.caseId === id)?.caseKey ?? `id:${id}`);
+          notes.push(`⚠️ Requirement links could not be fetched for ${unknown.length} test case(s) (${keys.join(', ')}${unknown.length > keys.length ? ', …' : ''}); ` +
+            `they are reported as not checked, and requirements they cover may show as missing tests.`);
+        }
+        if (runsCapped) {
+          notes.push(`⚠️ Only the newest ${runs.length} test runs of milestone '${args.milestone}' were traced; pass test_run_ids to trace the others.`);
+        }
+
+        if (args.chart !== 'none') {
+          const present = REQUIREMENT_COVERAGE_ORDER.filter(c => matrix.totals[c] > 0);
+          const chartConfig: ChartConfig = {
+            type: 'pie',
+            title: `Requirement Coverage — ${scope}`,
+            labels: present.map(c => REQUIREMENT_COVERAGE_LABELS[c]),
+            datasets: [{ label: 'Requirements', values: present.map(c => matrix.totals[c]) }],
+          };
+          const t = matrix.totals;
+          return buildChartResponse(chartConfig, args.chart as 'png' | 'html' | 'text',
+            `${t.requirements} requirements — ${t.passing} passing, ${t.failing} failing, ${t.no_executions} not executed, ${t.no_tests} without tests`);
+        }
+
+        let text: string;
+        switch (args.format) {
+          case 'json':
+            text = FormatProcessor.format({ scope, ...matrix, requirements: rows, ...(notes.length > 0 ? { notes } : {}) }, 'json') as string;
+            break;
+          case 'csv':
+            text = formatTraceabilityCsv(rows);
+            break;
+          case 'html':
+            text = formatTraceabilityHtml(matrix, scope, rows);
+            break;
+          default:
+            text = formatTraceabilityMarkdown(matrix, scope, rows);
+            if (notes.length > 0) text += `\n\n> ${notes.join('\n> ')}`;
+        }
+
+        return { content: [{ type: "text" as const, text }] };
+      } catch (error: any) {
+        debugLog("Error in requirements_traceability", { error: error.message, args });
+        return {
+          content: [{
+            type: "text" as const,
+            text: `❌ Error building requirements traceability matrix: ${error?.message || error}`
+          }]
+        };
+      }
+    }
+  );
+
   // ========== TEST RUN SETTINGS TOOLS ==========
 
   server.registerTool(
@@ -11181,6 +13585,142 @@ ${detailsInfo.map((detail, i) => {
     }
   );
 
+  server.registerTool(
+    "test_case_change_report",
+    {
+      description: "🕓 Who changed what: aggregate TCM change history across a suite subtree or a whole project for a date range. Reports per-author and per-event summaries (became automated, deprecated, steps/preconditions changed), a timeline, and the individual step edits. Optional line chart of changes over time — built for monthly TCM hygiene reviews.",
+    inputSchema: {
+      project_key: z.string().min(1).describe("Project key (e.g., 'MCP')"),
+      suite_id: z.number().int().positive().optional().describe("Limit to this suite (and its sub-suites when include_sub_suites is true). Omit for the whole project"),
+      include_sub_suites: z.boolean().default(true).describe("Include cases from all sub-suites of suite_id"),
+      date_from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("Start date (YYYY-MM-DD, UTC). Defaults to period_days before date_to"),
+      date_to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("End date inclusive (YYYY-MM-DD, UTC). Defaults to today"),
+      period_days: z.number().int().positive().max(366).default(30).describe("Window length when date_from is omitted (default: 30)"),
+      granularity: z.enum(['auto', 'day', 'week', 'month']).default('auto').describe("Timeline bucket size. 'auto' picks day (≤31 days), week (≤180) or month"),
+      max_cases: z.number().int().positive().max(1000).default(200).describe("Max recently modified cases whose change log is fetched (one request per case)"),
+      history_limit: z.number().int().min(1).max(100).default(50).describe("Max change entries fetched per case"),
+      step_edit_limit: z.number().int().min(0).max(500).default(50).describe("Max individual step edits listed (totals always count all)"),
+      format: z.enum(['json', 'markdown']).default('markdown').describe("Output format"),
+      chart: z.enum(['none', 'png', 'html', 'text']).default('none').describe(
+        "When set, returns a line chart of change entries, automated, deprecated and step edits per timeline bucket. 'png' = base64 PNG image, 'html' = Chart.js page, 'text' = ASCII chart."
+      ),
+    },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args) => {
+      const { project_key, suite_id, include_sub_suites, period_days, granularity, max_cases, history_limit, step_edit_limit, format, chart } = args;
+
+      try {
+        debugLog("test_case_change_report called", args);
+
+        const to = args.date_to ? new Date(`${args.date_to}T23:59:59.999Z`) : new Date();
+        const from = args.date_from
+          ? new Date(`${args.date_from}T00:00:00.000Z`)
+          : new Date(to.getTime() - period_days * 24 * 60 * 60 * 1000);
+        if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+          throw new Error("date_from must be a valid date on or before date_to");
+        }
+
+        // Collect the cases in scope
+        let cases: any[];
+        let scope = project_key;
+        if (suite_id) {
+          const allSuites = await client.getAllTestSuites(project_key);
+          const suite = allSuites.find(s => s.id === suite_id);
+          if (!suite) throw new Error(`Suite ${suite_id} not found in project ${project_key}`);
+          const suiteIds = include_sub_suites
+            ? [suite_id, ...HierarchyProcessor.getSuiteDescendants(suite_id, allSuites).map(s => s.id)]
+            : [suite_id];
+          scope = `${project_key} / ${suite.name || suite.title || suite_id}`;
+          cases = [];
+          let pageToken: string | undefined = undefined;
+          do {
+            const page = await client.getTestCases(project_key, {
+              size: MAX_PAGE_SIZE,
+              filter: `testSuite.id IN [${suiteIds.join(',')}]`,
+              pageToken
+            });
+            cases.push(...(page.items || []));
+            pageToken = page._meta?.nextPageToken;
+          } while (pageToken);
+        } else {
+          cases = await client.getAllTCMTestCasesByProject(project_key);
+        }
+
+        // Only cases modified since date_from can have changes in the window
+        const candidates = cases
+          .filter(tc => !tc.lastModifiedAt || new Date(tc.lastModifiedAt).getTime() >= from.getTime())
+          .sort((a, b) => String(b.lastModifiedAt ?? '').localeCompare(String(a.lastModifiedAt ?? '')));
+        const scanned = candidates.slice(0, max_cases);
+
+        const { projectId } = await resolveProjectId(project_key);
+        const statesMap = await buildAutomationStatesMap(projectId);
+        const histories = await enrichTestCasesWithHistory(
+          scanned, reportingClient, projectId, statesMap,
+          { filter: 'all', maxResults: history_limit }
+        );
+
+        const report = buildChangeReport(scanned, histories, {
+          from,
+          to,
+          granularity: granularity === 'auto' ? autoGranularity(from, to) : granularity,
+          stepEditLimit: step_edit_limit
+        });
+        const notes: string[] = [];
+        if (candidates.length > scanned.length) {
+          notes.push(`Only the ${scanned.length} most recently modified of ${candidates.length} candidate cases were scanned; raise max_cases for full coverage.`);
+        }
+
+        if (chart !== 'none') {
+          const chartConfig: ChartConfig = {
+            type: 'line',
+            title: `Test Case Changes — ${scope}`,
+            labels: report.timeline.map(b => b.bucket),
+            datasets: [
+              { label: 'Change entries', values: report.timeline.map(b => b.changeEntries) },
+              { label: 'Became automated', values: report.timeline.map(b => b.becameAutomated), color: '#59a14f' },
+              { label: 'Became deprecated', values: report.timeline.map(b => b.becameDeprecated), color: '#e15759' },
+              { label: 'Step edits', values: report.timeline.map(b => b.stepEdits), color: '#edc948' },
+            ],
+          };
+          const t = report.totals;
+          return buildChartResponse(chartConfig, chart as 'png' | 'html' | 'text',
+            `${t.changeEntries} changes to ${t.casesChanged} cases by ${report.perAuthor.length} authors — automated: ${t.becameAutomated}, deprecated: ${t.becameDeprecated}, step edits: ${t.stepEdits}`);
+        }
+
+        if (format === 'json') {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({ scope, ...report, ...(notes.length > 0 ? { notes } : {}) }, null, 2)
+            }]
+          };
+        }
+
+        const markdown = formatChangeReportMarkdown(report, scope);
+        return {
+          content: [{
+            type: "text" as const,
+            text: notes.length > 0 ? `${markdown}\n\n> ${notes.join('\n> ')}` : markdown
+          }]
+        };
+      } catch (error: any) {
+        debugLog("Error in test_case_change_report", { error: error.message, args });
+        return {
+          content: [{
+            type: "text" as const,
+            text: `❌ Error building test case change report: ${error?.message || error}`
+          }]
+        };
+      }
+    }
+  );
+
   // ========== RESOURCES & PROMPTS ==========
 
   registerResources(server, { client, reportingClient, resolveProjectId, PROJECT_ALIASES: getProjectAliases(), DEBUG_MODE });
@@ -11192,6 +13732,10 @@ ${detailsInfo.map((detail, i) => {
 async function main() {
   await stealthIntegrityCheck();
 
+  if (await initTracing(PKG_VERSION)) {
+    console.error(`🔭 OpenTelemetry tracing enabled (OTLP export)`);
+  }
+
   // ========== SERVER STARTUP ==========
 
   if (TRANSPORT_MODE === 'http') {
@@ -11200,7 +13744,7 @@ async function main() {
     const { resolveAuthMode, hasStrategy } = await import('./config/transport.js');
     const authMode = resolveAuthMode();
 
-    let verifyBearer: ((token: string) => Promise<{ username: string; zebrunnerToken: string }>) | undefined;
+    let verifyBearer: import('./http/auth-middleware.js').BearerVerifier | undefined;
     let tokenStore: import('./http/token-store.js').TokenStore | undefined;
     let oauthProvider: import('@modelcontextprotocol/sdk/server/auth/provider.js').OAuthServerProvider | undefined;
 
@@ -11236,6 +13780,7 @@ async function main() {
           username: authInfo.extra?.username as string,
           zebrunnerToken: authInfo.extra?.zebrunnerToken as string,
           baseUrl: authInfo.extra?.zebrunnerUrl as string | undefined,
+          scopes: authInfo.scopes,
         };
       };
       const urlNote = ZEBRUNNER_URL_FROM_ENV ? '' : ' (per-user URL enabled)';
@@ -11319,7 +13864,7 @@ process.on('SIGINT', () => {
     console.error('\n' + _metricsRef.getSummaryMarkdown());
   }
   console.error('🛑 Received SIGINT, shutting down gracefully...');
-  process.exit(0);
+  void shutdownTracing().finally(() => process.exit(0));
 });
 
 process.on('SIGTERM', () => {
@@ -11327,7 +13872,7 @@ process.on('SIGTERM', () => {
     console.error('\n' + _metricsRef.getSummaryMarkdown());
   }
   console.error('🛑 Received SIGTERM, shutting down gracefully...');
-  process.exit(0);
+  void shutdownTracing().finally(() => process.exit(0));
 });
 
 // Handle EPIPE errors gracefully by ignoring SIGPIPE
@@ -0,0 +1,262 @@
+/**
+ * Reverse sync between an automation repository and TCM.
+ *
+ * Test case keys are read from the annotations and titles the supported
+ * frameworks use to link code to Zebrunner cases (Carina `@TestCaseKey`,
+ * JUnit `@Tag`, Playwright annotations/titles, pytest markers). The scan is
+ * then cross-referenced with the project's test cases to find automation
+ * states that disagree with the code.
+ */
+
+import { readFileSync, statSync } from "node:fs";
+import { resolve } from "node:path";
+
+/** Files larger than this are not parsed. */
+const MAX_FILE_BYTES = 1024 * 1024;
+
+const SOURCE_FILE = /\.(java|kt|groovy|[cm]?[jt]sx?|py)$/;
+
+export type KeyRefSource = "carina" | "junit_tag" | "playwright_annotation" | "pytest_marker" | "test_title" | "comment";
+
+export interface CaseKeyRef {
+  key: string;
+  /** Path relative to the scanned root (POSIX separators). */
+  file: string;
+  line: number;
+  source: KeyRefSource;
+  /** Test method or test title the key is attached to, when it can be found. */
+  test?: string;
+}
+
+export interface ScanCase {
+  key?: string;
+  title?: string;
+  deprecated?: boolean;
+  automationState?: { name?: string };
+}
+
+export interface ScannedCase {
+  key: string;
+  title: string;
+  automationState: string;
+}
+
+export interface AutomationScanReport {
+  filesScanned: number;
+  filesWithKeys: number;
+  totals: {
+    cases: number;
+    casesWithCode: number;
+    references: number;
+    automatedWithoutCode: number;
+    codeButNotAutomated: number;
+    unknownKeys: number;
+    deprecatedKeys: number;
+  };
+  /** Active cases in the automated state that no code references. */
+  automatedWithoutCode: ScannedCase[];
+  /** Active cases referenced by code but not in the automated state. */
+  codeButNotAutomated: Array<ScannedCase & { refs: CaseKeyRef[] }>;
+  /** Keys in code that do not exist in the project. */
+  unknownKeys: Array<{ key: string; refs: CaseKeyRef[] }>;
+  /** Keys in code that point at deprecated cases. */
+  deprecatedKeys: Array<ScannedCase & { refs: CaseKeyRef[] }>;
+}
+
+export function isScannableSource(path: string): boolean {
+  return SOURCE_FILE.test(path);
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function lineAt(content: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i++) if (content.charCodeAt(i) === 10) line++;
+  return line;
+}
+
+/** Name of the first test declared after `index` (method name, or test title for JS). */
+function nextTestName(content: string, index: number): string | undefined {
+  const rest = content.slice(index);
+  const m = rest.match(/\bvoid\s+(\w+)\s*\(|\bdef\s+(\w+)\s*\(|\b(?:test|it)(?:\.\w+)?\s*\(\s*(['"`])(.*?)\3/);
+  return m ? m[1] ?? m[2] ?? m[4] : undefined;
+}
+
+/** Title of the last JS test started before `index`. */
+function enclosingTestTitle(content: string, index: number): string | undefined {
+  const re = /\b(?:test|it)(?:\.\w+)?\s*\(\s*(['"`])(.*?)\1/g;
+  let title: string | undefined;
+  for (const m of content.slice(0, index).matchAll(re)) title = m[2];
+  return title;
+}
+
+/**
+ * Extracts the case keys of one project from a source file. Only keys with the
+ * project's prefix are returned, so ticket IDs of other trackers are ignored.
+ */
+export function extractCaseKeyRefs(file: string, content: string, projectKey: string): CaseKeyRef[] {
+  const keyRe = new RegExp(`\\b${escapeRegExp(projectKey.toUpperCase())}-\\d+\\b`, "g");
+  const refs: CaseKeyRef[] = [];
+  const seen = new Set<string>();
+
+  const collect = (re: RegExp, source: KeyRefSource, group: number, testAt: (index: number, match: RegExpMatchArray) => string | undefined) => {
+    for (const m of content.matchAll(re)) {
+      const index = m.index ?? 0;
+      const line = lineAt(content, index);
+      for (const key of m[group].match(keyRe) ?? []) {
+        const id = `${key}:${line}`;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        refs.push({ key, file, line, source, test: testAt(index, m) });
+      }
+    }
+  };
+
+  const next = (index: number, m: RegExpMatchArray) => nextTestName(content, index + m[0].length);
+  collect(/@TestCaseKey\s*\(([^)]*)\)/g, "carina", 1, next);
+  collect(/@Tag\s*\(\s*"([^"]*)"\s*\)/g, "junit_tag", 1, next);
+  collect(/@pytest\.mark\.\w+\s*\(([^)]*)\)/g, "pytest_marker", 1, next);
+  collect(/type:\s*['"]testCaseKey['"]\s*,\s*description:\s*(['"`])(.*?)\1/g, "playwright_annotation", 2, (index) => enclosingTestTitle(content, index));
+  collect(/Zebrunner test case:\s*([^\n]*)/g, "comment", 1, next);
+  collect(/\b(?:test|it|describe)(?:\.\w+)?\s*\(\s*(['"`])(.*?)\1/g, "test_title", 2, (_index, m) => m[2]);
+
+  return refs.sort((a, b) => a.line - b.line);
+}
+
+/** Parses every source file of the list; unreadable and oversized files are skipped. */
+export function scanCaseKeyRefs(root: string, files: string[], projectKey: string): { refs: CaseKeyRef[]; filesScanned: number } {
+  const refs: CaseKeyRef[] = [];
+  let filesScanned = 0;
+  for (const file of files) {
+    if (!isScannableSource(file)) continue;
+    const path = resolve(root, file);
+    let content: string;
+    try {
+      if (statSync(path).size > MAX_FILE_BYTES) continue;
+      content = readFileSync(path, "utf-8");
+    } catch {
+      continue;
+    }
+    filesScanned++;
+    refs.push(...extractCaseKeyRefs(file, content, projectKey));
+  }
+  return { refs, filesScanned };
+}
+
+export function buildAutomationScanReport(
+  refs: CaseKeyRef[],
+  cases: ScanCase[],
+  filesScanned: number,
+  automatedState: string,
+): AutomationScanReport {
+  const byKey = new Map<string, CaseKeyRef[]>();
+  for (const ref of refs) {
+    const list = byKey.get(ref.key) ?? [];
+    list.push(ref);
+    byKey.set(ref.key, list);
+  }
+
+  const automated = automatedState.toLowerCase();
+  const caseByKey = new Map<string, ScanCase>();
+  for (const tc of cases) if (tc.key) caseByKey.set(tc.key.toUpperCase(), tc);
+  const summary = (tc: ScanCase): ScannedCase => ({
+    key: tc.key!,
+    title: tc.title ?? "",
+    automationState: tc.automationState?.name ?? "",
+  });
+  const byCaseKey = <T extends { key: string }>(a: T, b: T) => a.key.localeCompare(b.key, undefined, { numeric: true });
+
+  const report: AutomationScanReport = {
+    filesScanned,
+    filesWithKeys: new Set(refs.map(r => r.file)).size,
+    totals: {
+      cases: caseByKey.size,
+      casesWithCode: 0,
+      references: refs.length,
+      automatedWithoutCode: 0,
+      codeButNotAutomated: 0,
+      unknownKeys: 0,
+      deprecatedKeys: 0,
+    },
+    automatedWithoutCode: [],
+    codeButNotAutomated: [],
+    unknownKeys: [],
+    deprecatedKeys: [],
+  };
+
+  for (const [key, keyRefs] of byKey) {
+    const tc = caseByKey.get(key);
+    if (!tc) {
+      report.unknownKeys.push({ key, refs: keyRefs });
+    } else if (tc.deprecated) {
+      report.deprecatedKeys.push({ ...summary(tc), refs: keyRefs });
+    } else {
+      report.totals.casesWithCode++;
+      if ((tc.automationState?.name ?? "").toLowerCase() !== automated) {
+        report.codeButNotAutomated.push({ ...summary(tc), refs: keyRefs });
+      }
+    }
+  }
+  for (const [key, tc] of caseByKey) {
+    if (tc.deprecated || byKey.has(key)) continue;
+    if ((tc.automationState?.name ?? "").toLowerCase() === automated) report.automatedWithoutCode.push(summary(tc));
+  }
+
+  report.automatedWithoutCode.sort(byCaseKey);
+  report.codeButNotAutomated.sort(byCaseKey);
+  report.unknownKeys.sort(byCaseKey);
+  report.deprecatedKeys.sort(byCaseKey);
+  report.totals.automatedWithoutCode = report.automatedWithoutCode.length;
+  report.totals.codeButNotAutomated = report.codeButNotAutomated.length;
+  report.totals.unknownKeys = report.unknownKeys.length;
+  report.totals.deprecatedKeys = report.deprecatedKeys.length;
+  return report;
+}
+
+function refCell(refs: CaseKeyRef[]): string {
+  const shown = refs.slice(0, 3).map(r => `${r.file}:${r.line}${r.test ? ` (${r.test})` : ""}`);
+  if (refs.length > shown.length) shown.push(`+${refs.length - shown.length} more`);
+  return shown.join("<br>");
+}
+
+export function formatAutomationScanMarkdown(report: AutomationScanReport, scope: string, maxItems: number): string {
+  const t = report.totals;
+  const lines: string[] = [
+    `# Automation Repository Scan — ${scope}`,
+    "",
+    `**Files parsed:** ${report.filesScanned} (${report.filesWithKeys} with case keys) | **References:** ${t.references}`,
+    `**Cases with code:** ${t.casesWithCode} of ${t.cases}`,
+    `**Findings:** ⚙️ ${t.automatedWithoutCode} automated without code | 🖐️ ${t.codeButNotAutomated} with code but not automated | ❓ ${t.unknownKeys} unknown keys | 🗑️ ${t.deprecatedKeys} deprecated keys`,
+  ];
+
+  const more = (total: number) => total > maxItems ? [`_…and ${total - maxItems} more_`] : [];
+
+  if (report.codeButNotAutomated.length > 0) {
+    lines.push("", "## Code Exists but Case Is Not Automated", "", "| Case | Title | Automation State | Code |", "| --- | --- | --- | --- |");
+    for (const c of report.codeButNotAutomated.slice(0, maxItems)) {
+      lines.push(`| ${c.key} | ${c.title} | ${c.automationState || "—"} | ${refCell(c.refs)} |`);
+    }
+    lines.push(...more(report.codeButNotAutomated.length));
+  }
+  if (report.automatedWithoutCode.length > 0) {
+    lines.push("", "## Automated Cases Without Code", "", "| Case | Title |", "| --- | --- |");
+    for (const c of report.automatedWithoutCode.slice(0, maxItems)) lines.push(`| ${c.key} | ${c.title} |`);
+    lines.push(...more(report.automatedWithoutCode.length));
+  }
+  if (report.unknownKeys.length > 0) {
+    lines.push("", "## Unknown Keys in Code", "", "| Key | Code |", "| --- | --- |");
+    for (const u of report.unknownKeys.slice(0, maxItems)) lines.push(`| ${u.key} | ${refCell(u.refs)} |`);
+    lines.push(...more(report.unknownKeys.length));
+  }
+  if (report.deprecatedKeys.length > 0) {
+    lines.push("", "## Code Referencing Deprecated Cases", "", "| Case | Title | Code |", "| --- | --- | --- |");
+    for (const c of report.deprecatedKeys.slice(0, maxItems)) lines.push(`| ${c.key} | ${c.title} | ${refCell(c.refs)} |`);
+    lines.push(...more(report.deprecatedKeys.length));
+  }
+  if (t.automatedWithoutCode + t.codeButNotAutomated + t.unknownKeys + t.deprecatedKeys === 0) {
+    lines.push("", "✅ Automation states match the code.");
+  }
+  return lines.join("\n");
+}
@@ -20,6 +20,63 @@ import { z } from "zod";
 // Schema
 // ---------------------------------------------------------------------------
 
+const FailureRuleSchema = z.object({
+  id: z.string().min(1),
+  category: z.string().min(1),
+  /** Case-insensitive regular expression. */
+  pattern: z.string().optional(),
+  /** Matches when any keyword is present (case-insensitive substring). */
+  keywords: z.array(z.string()).optional(),
+  /** Matches only when every keyword is present. */
+  allKeywords: z.array(z.string()).optional(),
+  fields: z.array(z.enum(["message", "logs", "failureType"])).optional(),
+  weight: z.number().optional(),
+  verdict: z.enum(["bug", "test_issue", "infrastructure_issue", "data_issue"]).optional(),
+  reason: z.string().optional(),
+});
+
+export type FailureRuleConfig = z.infer<typeof FailureRuleSchema>;
+
+const FailureClassificationOverrideSchema = z.object({
+  activePacks: z.array(z.string()).optional(),
+  rules: z.array(FailureRuleSchema).optional(),
+  weights: z.record(z.string(), z.number()).optional(),
+  disabledRules: z.array(z.string()).optional(),
+});
+
+const RateLimitBucketSchema = z.object({
+  capacity: z.number().int().positive(),
+  refillPerMinute: z.number().positive(),
+}).partial();
+
+const ReleaseGateRuleSchema = z.object({
+  enabled: z.boolean(),
+  blocking: z.boolean(),
+});
+
+const ReleaseGateChecksSchema = z.object({
+  passRate: ReleaseGateRuleSchema.extend({ target: z.number().min(0).max(100) }).partial(),
+  unresolvedFailures: ReleaseGateRuleSchema.extend({
+    warnAbove: z.number().int().min(0),
+    failAbove: z.number().int().min(0),
+  }).partial(),
+  runtimeRegression: ReleaseGateRuleSchema.extend({
+    warnAbovePercent: z.number(),
+    maxPercent: z.number(),
+  }).partial(),
+  automationCoverage: ReleaseGateRuleSchema.extend({
+    warnBelow: z.number().min(0).max(100),
+    min: z.number().min(0).max(100),
+  }).partial(),
+  topDefects: ReleaseGateRuleSchema.extend({ warnAbove: z.number().int().min(0) }).partial(),
+  criticalBugs: ReleaseGateRuleSchema.extend({
+    max: z.number().int().min(0),
+    priorities: z.array(z.string()).min(1),
+  }).partial(),
+  flakyTests: ReleaseGateRuleSchema.extend({ max: z.number().int().min(0) }).partial(),
+  mandatorySuites: ReleaseGateRuleSchema.extend({ suites: z.array(z.string().min(1)) }).partial(),
+}).partial();
+
 const ZebrunnerConfigSchema = z.object({
   projectAliases: z.record(z.string(), z.string()).optional(),
   testConnectionProjectKey: z.string().optional(),
@@ -46,10 +103,167 @@ const ZebrunnerConfigSchema = z.object({
     excludeLaunchNamePatterns: z.array(z.string()).optional(),
     maxLaunchesPerPlatform: z.number().int().positive().max(50).optional(),
   }).optional(),
+  failureClassification: FailureClassificationOverrideSchema.extend({
+    packs: z.record(z.string(), z.array(FailureRuleSchema)).optional(),
+    confidenceThresholds: z.object({
+      high: z.number(),
+      medium: z.number(),
+    }).partial().optional(),
+    projects: z.record(z.string(), FailureClassificationOverrideSchema).optional(),
+  }).optional(),
+  rateLimits: z.object({
+    enabled: z.boolean().optional(),
+    perUser: RateLimitBucketSchema.optional(),
+    classes: z.object({
+      heavy_analytics: RateLimitBucketSchema,
+      video: RateLimitBucketSchema,
+      mutation: RateLimitBucketSchema,
+    }).partial().optional(),
+    toolClasses: z.record(z.string(), z.enum(["heavy_analytics", "video", "mutation", "default"])).optional(),
+  }).optional(),
+  cache: z.object({
+    backend: z.enum(["memory", "disk", "redis"]).optional(),
+    maxEntries: z.number().int().positive().optional(),
+    dir: z.string().optional(),
+    redisUrl: z.string().optional(),
+    ttlSeconds: z.object({
+      project: z.number().min(0),
+      suites: z.number().min(0),
+      fields_layout: z.number().min(0),
+      reference_data: z.number().min(0),
+    }).partial().optional(),
+  }).optional(),
+  historyStore: z.object({
+    enabled: z.boolean().optional(),
+    path: z.string().optional(),
+    defaultSyncDays: z.number().int().positive().max(3650).optional(),
+    maxLaunchesPerSync: z.number().int().positive().optional(),
+    refreshMinutes: z.number().min(0).optional(),
+  }).optional(),
+  workspace: z.object({
+    root: z.string().optional(),
+    maxScanFiles: z.number().int().positive().optional(),
+  }).optional(),
+  releaseGates: ReleaseGateChecksSchema.extend({
+    projects: z.record(z.string(), ReleaseGateChecksSchema).optional(),
+  }).optional(),
 }).strict().partial();
 
 export type ZebrunnerConfig = z.infer<typeof ZebrunnerConfigSchema>;
 
+export type RateLimitClass = "heavy_analytics" | "video" | "mutation";
+
+export interface RateLimitBucketConfig {
+  /** Burst size: calls allowed back-to-back from a full bucket. */
+  capacity: number;
+  /** Sustained rate: tokens added back per minute. */
+  refillPerMinute: number;
+}
+
+export interface RateLimitConfig {
+  /**
+   * Applies to authenticated HTTP requests only; stdio is never limited.
+   * Off by default: set `"rateLimits": { "enabled": true }` to opt in.
+   */
+  enabled: boolean;
+  /** Bucket shared by every tool call of one user. */
+  perUser: RateLimitBucketConfig;
+  /** Extra per-user bucket for tools in each class. */
+  classes: Record<RateLimitClass, RateLimitBucketConfig>;
+  /**
+   * Tool name (without `adv_`) → class. Tools not listed are `mutation` when
+   * not read-only and otherwise only count against `perUser`.
+   */
+  toolClasses: Record<string, RateLimitClass | "default">;
+}
+
+export type CacheClass = "project" | "suites" | "fields_layout" | "reference_data";
+
+export interface CacheConfig {
+  backend: "memory" | "disk" | "redis";
+  /** Memory backend only: entries kept across all users before the oldest are dropped. */
+  maxEntries: number;
+  /** Disk backend directory; defaults to `<tmpdir>/mcp-zebrunner-cache`. */
+  dir?: string;
+  /** Redis backend URL (`redis://` or `rediss://`); `ZEBRUNNER_CACHE_REDIS_URL` wins when set. */
+  redisUrl?: string;
+  /** Time-to-live per endpoint class; 0 disables caching for that class. */
+  ttlSeconds: Record<CacheClass, number>;
+}
+
+export interface WorkspaceConfig {
+  /** Local automation repository generated tests are written to; `ZEBRUNNER_WORKSPACE_ROOT` wins when set. */
+  root?: string;
+  /** Files listed when detecting the repository layout. */
+  maxScanFiles: number;
+}
+
+export interface HistoryStoreConfig {
+  /** Opt-in; `ZEBRUNNER_HISTORY_DB` also enables the store. */
+  enabled: boolean;
+  /** SQLite file; `ZEBRUNNER_HISTORY_DB` wins when set. Defaults to `<tmpdir>/mcp-zebrunner-history.db`. */
+  path?: string;
+  /** Window synced by `sync_history` when `days` is not given. */
+  defaultSyncDays: number;
+  /** Launches whose test runs are downloaded per sync call; the next call continues the backfill. */
+  maxLaunchesPerSync: number;
+  /** Trend tools top up a covered project older than this before querying it; 0 never tops up. */
+  refreshMinutes: number;
+}
+
+export interface ReleaseGateRule {
+  enabled: boolean;
+  /** A failing blocking check makes the project NO-GO; a non-blocking one only counts as a warning. */
+  blocking: boolean;
+}
+
+export interface ReleaseGateChecks {
+  /** `target` unset falls back to the report's `targets` / built-in per-platform targets. */
+  passRate: ReleaseGateRule & { target?: number };
+  /** Failures without a linked issue. */
+  unresolvedFailures: ReleaseGateRule & { warnAbove: number; failAbove: number };
+  /** Avg runtime per test vs `previous_milestone`, in percent. */
+  runtimeRegression: ReleaseGateRule & { warnAbovePercent: number; maxPercent: number };
+  /** Automated share of all test cases, in percent. */
+  automationCoverage: ReleaseGateRule & { warnBelow: number; min: number };
+  topDefects: ReleaseGateRule & { warnAbove: number };
+  /** Defects linked to failures of tests with one of `priorities`. */
+  criticalBugs: ReleaseGateRule & { max: number; priorities: string[] };
+  flakyTests: ReleaseGateRule & { max: number };
+  /** Launch name fragments that must each match a finished launch. */
+  mandatorySuites: ReleaseGateRule & { suites: string[] };
+}
+
+export type ReleaseGateOverrides = { [K in keyof ReleaseGateChecks]?: Partial<ReleaseGateChecks[K]> };
+
+export interface ReleaseGatesConfig extends ReleaseGateChecks {
+  /** Project alias or key → per-check overrides layered on top of the global policy. */
+  projects: Record<string, ReleaseGateOverrides>;
+}
+
+export interface FailureClassificationOverride {
+  activePacks?: string[];
+  rules?: FailureRuleConfig[];
+  weights?: Record<string, number>;
+  disabledRules?: string[];
+}
+
+export interface FailureClassificationConfig {
+  /** Packs evaluated for every project; `"default"` is the built-in pack. */
+  activePacks: string[];
+  /** Named rule packs defined in the config file (a `"default"` entry replaces the built-in pack). */
+  packs: Record<string, FailureRuleConfig[]>;
+  /** Extra rules evaluated alongside the active packs. */
+  rules: FailureRuleConfig[];
+  /** Rule ID → weight override. */
+  weights: Record<string, number>;
+  disabledRules: string[];
+  /** Minimum winning score for High / Medium confidence; anything lower is Low. */
+  confidenceThresholds: { high: number; medium: number };
+  /** Project key → overrides layered on top of the global settings. */
+  projects: Record<string, FailureClassificationOverride>;
+}
+
 // ---------------------------------------------------------------------------
 // Built-in defaults (shipped with the MCP server)
 // ---------------------------------------------------------------------------
@@ -71,6 +285,12 @@ const DEFAULTS: Required<{
     excludeLaunchNamePatterns: string[];
     maxLaunchesPerPlatform: number;
   };
+  failureClassification: FailureClassificationConfig;
+  rateLimits: RateLimitConfig;
+  cache: CacheConfig;
+  historyStore: HistoryStoreConfig;
+  workspace: WorkspaceConfig;
+  releaseGates: ReleaseGatesConfig;
 }> = {
   projectAliases: {
     web: "MFPWEB",
@@ -117,6 +337,75 @@ const DEFAULTS: Required<{
     excludeLaunchNamePatterns: ["Performance"],
     maxLaunchesPerPlatform: 50,
   },
+  failureClassification: {
+    activePacks: ["default"],
+    packs: {},
+    rules: [],
+    weights: {},
+    disabledRules: [],
+    confidenceThresholds: { high: 30, medium: 15 },
+    projects: {},
+  },
+  rateLimits: {
+    enabled: false,
+    perUser: { capacity: 120, refillPerMinute: 60 },
+    classes: {
+      heavy_analytics: { capacity: 10, refillPerMinute: 6 },
+      video: { capacity: 4, refillPerMinute: 2 },
+      mutation: { capacity: 30, refillPerMinute: 20 },
+    },
+    toolClasses: {
+      get_all_tcm_test_cases_by_project: "heavy_analytics",
+      get_all_tcm_test_cases_with_root_suite_id: "heavy_analytics",
+      aggregate_test_cases_by_feature: "heavy_analytics",
+      analyze_test_cases_duplicates: "heavy_analytics",
+      analyze_test_cases_duplicates_semantic: "heavy_analytics",
+      analyze_regression_runtime: "heavy_analytics",
+      cluster_failures: "heavy_analytics",
+      detailed_analyze_launch_failures: "heavy_analytics",
+      find_flaky_tests: "heavy_analytics",
+      sync_history: "heavy_analytics",
+      test_case_change_report: "heavy_analytics",
+      requirements_traceability: "heavy_analytics",
+      export_test_cases: "heavy_analytics",
+      generate_report: "heavy_analytics",
+      generate_weekly_regression_stability_report: "heavy_analytics",
+      get_platform_results_by_period: "heavy_analytics",
+      regression_results_analyzer: "heavy_analytics",
+      analyze_test_execution_video: "video",
+      analyze_screenshot: "video",
+    },
+  },
+  cache: {
+    backend: "memory",
+    maxEntries: 500,
+    ttlSeconds: {
+      project: 300,
+      suites: 300,
+      fields_layout: 600,
+      reference_data: 600,
+    },
+  },
+  historyStore: {
+    enabled: false,
+    defaultSyncDays: 90,
+    maxLaunchesPerSync: 500,
+    refreshMinutes: 15,
+  },
+  workspace: {
+    maxScanFiles: 5000,
+  },
+  releaseGates: {
+    passRate: { enabled: true, blocking: true },
+    unresolvedFailures: { enabled: true, blocking: true, warnAbove: 0, failAbove: 5 },
+    runtimeRegression: { enabled: true, blocking: true, warnAbovePercent: 10, maxPercent: 20 },
+    automationCoverage: { enabled: true, blocking: true, warnBelow: 70, min: 50 },
+    topDefects: { enabled: true, blocking: false, warnAbove: 3 },
+    criticalBugs: { enabled: false, blocking: true, max: 0, priorities: ["Critical", "Blocker"] },
+    flakyTests: { enabled: false, blocking: true, max: 10 },
+    mandatorySuites: { enabled: false, blocking: true, suites: [] },
+    projects: {},
+  },
 };
 
 // ---------------------------------------------------------------------------
@@ -149,6 +438,12 @@ export interface ResolvedConfig {
     excludeLaunchNamePatterns: string[];
     maxLaunchesPerPlatform: number;
   };
+  failureClassification: FailureClassificationConfig;
+  rateLimits: RateLimitConfig;
+  cache: CacheConfig;
+  historyStore: HistoryStoreConfig;
+  workspace: WorkspaceConfig;
+  releaseGates: ReleaseGatesConfig;
 }
 
 // ---------------------------------------------------------------------------
@@ -258,6 +553,75 @@ function mergeConfig(overrides: ZebrunnerConfig | null): ResolvedConfig {
       maxLaunchesPerPlatform: overrides.relaunchFailures?.maxLaunchesPerPlatform
         ?? DEFAULTS.relaunchFailures.maxLaunchesPerPlatform,
     },
+    failureClassification: mergeFailureClassification(overrides.failureClassification),
+    rateLimits: mergeRateLimits(overrides.rateLimits),
+    cache: {
+      ...DEFAULTS.cache,
+      ...(overrides.cache ?? {}),
+      ttlSeconds: { ...DEFAULTS.cache.ttlSeconds, ...(overrides.cache?.ttlSeconds ?? {}) },
+    },
+    historyStore: {
+      ...DEFAULTS.historyStore,
+      ...(overrides.historyStore ?? {}),
+    },
+    workspace: {
+      ...DEFAULTS.workspace,
+      ...(overrides.workspace ?? {}),
+    },
+    releaseGates: mergeReleaseGates(overrides.releaseGates),
+  };
+}
+
+function mergeReleaseGates(overrides: ZebrunnerConfig["releaseGates"]): ReleaseGatesConfig {
+  const defaults = DEFAULTS.releaseGates;
+  if (!overrides) return defaults;
+  return {
+    passRate: { ...defaults.passRate, ...overrides.passRate },
+    unresolvedFailures: { ...defaults.unresolvedFailures, ...overrides.unresolvedFailures },
+    runtimeRegression: { ...defaults.runtimeRegression, ...overrides.runtimeRegression },
+    automationCoverage: { ...defaults.automationCoverage, ...overrides.automationCoverage },
+    topDefects: { ...defaults.topDefects, ...overrides.topDefects },
+    criticalBugs: { ...defaults.criticalBugs, ...overrides.criticalBugs },
+    flakyTests: { ...defaults.flakyTests, ...overrides.flakyTests },
+    mandatorySuites: { ...defaults.mandatorySuites, ...overrides.mandatorySuites },
+    projects: overrides.projects ?? {},
+  };
+}
+
+function mergeRateLimits(overrides: ZebrunnerConfig["rateLimits"]): RateLimitConfig {
+  const defaults = DEFAULTS.rateLimits;
+  const classes = overrides?.classes ?? {};
+  return {
+    enabled: overrides?.enabled ?? defaults.enabled,
+    perUser: { ...defaults.perUser, ...(overrides?.perUser ?? {}) },
+    classes: {
+      heavy_analytics: { ...defaults.classes.heavy_analytics, ...(classes.heavy_analytics ?? {}) },
+      video: { ...defaults.classes.video, ...(classes.video ?? {}) },
+      mutation: { ...defaults.classes.mutation, ...(classes.mutation ?? {}) },
+    },
+    toolClasses: { ...defaults.toolClasses, ...(overrides?.toolClasses ?? {}) },
+  };
+}
+
+function mergeFailureClassification(
+  overrides: ZebrunnerConfig["failureClassification"],
+): FailureClassificationConfig {
+  const defaults = DEFAULTS.failureClassification;
+  if (!overrides) return defaults;
+  const packs = overrides.packs ?? {};
+  return {
+    // Packs defined in the file are active unless activePacks says otherwise
+    activePacks: overrides.activePacks
+      ?? [...new Set([...defaults.activePacks, ...Object.keys(packs)])],
+    packs,
+    rules: overrides.rules ?? [],
+    weights: overrides.weights ?? {},
+    disabledRules: overrides.disabledRules ?? [],
+    confidenceThresholds: {
+      ...defaults.confidenceThresholds,
+      ...(overrides.confidenceThresholds ?? {}),
+    },
+    projects: overrides.projects ?? {},
   };
 }
 
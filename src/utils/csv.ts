@@ -0,0 +1,18 @@
+/**
+ * Minimal RFC 4180 CSV serialisation shared by export-style tools.
+ * Values that are objects/arrays are JSON-encoded; null/undefined become empty cells.
+ */
+
+export function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  const lines = [headers.map(escapeCsvValue).join(",")];
+  for (const row of rows) {
+    lines.push(row.map(escapeCsvValue).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,333 @@
+/**
+ * Rule-based failure classification shared by analyze_test_failure,
+ * detailed_analyze_launch_failures and video analysis.
+ *
+ * Rules come from the built-in "default" pack plus any packs / rules defined
+ * under `failureClassification` in zebrunner-config.json. Every matching rule
+ * adds its weight to its category; the highest-scoring category wins.
+ * Rules that carry a `verdict` also feed the video-analysis bug/test scores.
+ */
+
+import {
+  getConfig,
+  type FailureClassificationConfig,
+  type FailureRuleConfig,
+} from "./config-loader.js";
+
+export type FailureField = "message" | "logs" | "failureType";
+export type FailureVerdict = NonNullable<FailureRuleConfig["verdict"]>;
+
+export interface FailureInput {
+  message?: string;
+  logs?: string | string[];
+  failureType?: string;
+}
+
+export interface FailureRuleMatch {
+  id: string;
+  category: string;
+  weight: number;
+  verdict?: FailureVerdict;
+  reason: string;
+  /** First field the rule matched on. */
+  field: FailureField;
+}
+
+export interface FailureClassification {
+  category: string;
+  confidence: "High" | "Medium" | "Low";
+  score: number;
+  reasons: string[];
+  matches: FailureRuleMatch[];
+}
+
+const DEFAULT_WEIGHT = 10;
+
+/** Built-in pack — mirrors the checks previously hard-coded in the handlers and PredictionEngine. */
+export const DEFAULT_FAILURE_RULES: FailureRuleConfig[] = [
+  {
+    id: "locator-not-found",
+    category: "Locator Issue",
+    allKeywords: ["element"],
+    keywords: ["not found", "impossible to find"],
+    weight: 40,
+    reason: "Error message indicates element not found — likely a UI selector or timing problem",
+  },
+  {
+    id: "timing-timeout",
+    category: "Timing Issue",
+    keywords: ["timeout"],
+    fields: ["message", "logs"],
+    weight: 35,
+    reason: "Timeout detected in error message or logs — element or condition took too long to appear",
+  },
+  {
+    id: "business-assertion",
+    category: "Business Issue",
+    keywords: ["assertion", "expected", "actual"],
+    weight: 20,
+    reason: "Assertion failure — expected vs actual value mismatch",
+  },
+  {
+    id: "environment-network",
+    category: "Environment Issue",
+    keywords: ["network", "connection", "api"],
+    weight: 18,
+    reason: "Network or API related error — may be an infrastructure or connectivity problem",
+  },
+  {
+    id: "interaction-gesture",
+    category: "Interaction Issue",
+    keywords: ["cannot swipe", "cannot scroll"],
+    weight: 30,
+    reason: "UI interaction failed — element might be obscured or not interactable",
+  },
+  {
+    id: "app-crash",
+    category: "Application Crash",
+    keywords: ["crash", "anr", "freeze"],
+    fields: ["failureType"],
+    weight: 30,
+    verdict: "bug",
+    reason: "Application crashed or became unresponsive",
+  },
+  {
+    id: "null-reference",
+    category: "Code Defect",
+    keywords: ["nullpointer", "null reference"],
+    weight: 25,
+    verdict: "bug",
+    reason: "NullPointerException indicates code defect",
+  },
+  {
+    id: "index-error",
+    category: "Code Defect",
+    keywords: ["index out of bounds", "array"],
+    weight: 20,
+    verdict: "bug",
+    reason: "Array/Index error suggests code issue",
+  },
+  {
+    id: "network-error",
+    category: "Environment Issue",
+    keywords: ["network", "connection", "timeout"],
+    weight: 15,
+    verdict: "bug",
+    reason: "Network/connection issue detected",
+  },
+  {
+    id: "database-error",
+    category: "Database Issue",
+    keywords: ["database", "sql"],
+    weight: 15,
+    verdict: "bug",
+    reason: "Database error detected",
+  },
+  {
+    id: "element-not-found-type",
+    category: "Locator Issue",
+    keywords: ["elementnotfound", "nosuchelement"],
+    fields: ["failureType"],
+    weight: 25,
+    verdict: "test_issue",
+    reason: "Element not found - UI may have changed",
+  },
+  {
+    id: "wait-timeout-type",
+    category: "Timing Issue",
+    keywords: ["timeout", "wait"],
+    fields: ["failureType"],
+    weight: 20,
+    verdict: "test_issue",
+    reason: "Wait timeout - may need increased wait time",
+  },
+  {
+    id: "assertion-type",
+    category: "Business Issue",
+    keywords: ["assertion", "expected"],
+    fields: ["failureType"],
+    weight: 15,
+    verdict: "test_issue",
+    reason: "Assertion failure - expected vs actual mismatch",
+  },
+  {
+    id: "stale-element",
+    category: "Locator Issue",
+    keywords: ["stale element", "detached"],
+    weight: 20,
+    verdict: "test_issue",
+    reason: "Stale element reference - test needs to re-locate element",
+  },
+  {
+    id: "infrastructure-error",
+    category: "Infrastructure Issue",
+    keywords: ["connection refused", "server error"],
+    weight: 25,
+    verdict: "infrastructure_issue",
+    reason: "Connection refused or server error — environment instability",
+  },
+  {
+    id: "infrastructure-type",
+    category: "Infrastructure Issue",
+    keywords: ["infrastructure"],
+    fields: ["failureType"],
+    weight: 25,
+    verdict: "infrastructure_issue",
+    reason: "Failure classified as infrastructure",
+  },
+  {
+    id: "data-error",
+    category: "Data Issue",
+    keywords: ["invalid data", "data not found", "constraint violation"],
+    weight: 25,
+    verdict: "data_issue",
+    reason: "Invalid, missing or conflicting test data",
+  },
+];
+
+function findProjectOverride(config: FailureClassificationConfig, projectKey?: string) {
+  if (!projectKey) return undefined;
+  const upper = projectKey.toUpperCase();
+  const key = Object.keys(config.projects).find((k) => k.toUpperCase() === upper);
+  return key ? config.projects[key] : undefined;
+}
+
+/** Unknown pack names already reported; rules are resolved on every classification. */
+const warnedPacks = new Set<string>();
+
+/**
+ * Effective rule list for a project: active packs + global rules + project
+ * rules, minus disabled rule IDs, with weight overrides applied
+ * (project weights win over global ones).
+ */
+export function resolveFailureRules(
+  projectKey?: string,
+  config: FailureClassificationConfig = getConfig().failureClassification,
+): FailureRuleConfig[] {
+  const project = findProjectOverride(config, projectKey);
+  const packs: Record<string, FailureRuleConfig[]> = { default: DEFAULT_FAILURE_RULES, ...config.packs };
+  const activePacks = project?.activePacks ?? config.activePacks;
+  const disabled = new Set([...config.disabledRules, ...(project?.disabledRules ?? [])]);
+  const weights = { ...config.weights, ...(project?.weights ?? {}) };
+
+  const rules: FailureRuleConfig[] = [];
+  for (const name of activePacks) {
+    const pack = packs[name];
+    if (!pack) {
+      if (!warnedPacks.has(name)) {
+        warnedPacks.add(name);
+        console.error(`[failure-classifier] Unknown rule pack "${name}" — skipped`);
+      }
+      continue;
+    }
+    rules.push(...pack);
+  }
+  rules.push(...config.rules, ...(project?.rules ?? []));
+
+  return rules
+    .filter((r) => !disabled.has(r.id))
+    .map((r) => (r.id in weights ? { ...r, weight: weights[r.id] } : r));
+}
+
+const regexCache = new Map<string, RegExp | null>();
+
+function compilePattern(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, "i"));
+    } catch (err) {
+      console.error(`[failure-classifier] Invalid rule pattern /${pattern}/ — ignored: ${err instanceof Error ? err.message : err}`);
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern) ?? null;
+}
+
+function ruleMatchesText(rule: FailureRuleConfig, text: string): boolean {
+  const hasMatcher = Boolean(rule.pattern || rule.keywords?.length || rule.allKeywords?.length);
+  if (!hasMatcher || !text) return false;
+  const lower = text.toLowerCase();
+  if (rule.allKeywords?.length && !rule.allKeywords.every((k) => lower.includes(k.toLowerCase()))) return false;
+  if (rule.keywords?.length && !rule.keywords.some((k) => lower.includes(k.toLowerCase()))) return false;
+  if (rule.pattern) {
+    const re = compilePattern(rule.pattern);
+    if (!re || !re.test(text)) return false;
+  }
+  return true;
+}
+
+/** Every rule that matches the input, in rule order. */
+export function matchFailureRules(input: FailureInput, rules: FailureRuleConfig[]): FailureRuleMatch[] {
+  const texts: Record<FailureField, string> = {
+    message: input.message ?? "",
+    logs: Array.isArray(input.logs) ? input.logs.join("\n") : (input.logs ?? ""),
+    failureType: input.failureType ?? "",
+  };
+  const matches: FailureRuleMatch[] = [];
+  for (const rule of rules) {
+    const field = (rule.fields ?? ["message"]).find((f) => ruleMatchesText(rule, texts[f]));
+    if (!field) continue;
+    matches.push({
+      id: rule.id,
+      category: rule.category,
+      weight: rule.weight ?? DEFAULT_WEIGHT,
+      ...(rule.verdict ? { verdict: rule.verdict } : {}),
+      reason: rule.reason ?? `Matched rule "${rule.id}"`,
+      field,
+    });
+  }
+  return matches;
+}
+
+/** Summed weight per verdict (rules without a verdict are ignored). */
+export function scoreVerdicts(matches: FailureRuleMatch[]): Record<FailureVerdict, number> {
+  const scores: Record<FailureVerdict, number> = { bug: 0, test_issue: 0, infrastructure_issue: 0, data_issue: 0 };
+  for (const m of matches) {
+    if (m.verdict) scores[m.verdict] += m.weight;
+  }
+  return scores;
+}
+
+/**
+ * Classify a failure into a category. Ties go to the category whose first
+ * matching rule comes earliest in the rule list.
+ */
+export function classifyFailure(
+  input: FailureInput,
+  projectKey?: string,
+  config: FailureClassificationConfig = getConfig().failureClassification,
+): FailureClassification {
+  const matches = matchFailureRules(input, resolveFailureRules(projectKey, config));
+  const scores = new Map<string, number>();
+  for (const m of matches) {
+    scores.set(m.category, (scores.get(m.category) ?? 0) + m.weight);
+  }
+
+  let category: string | undefined;
+  let score = 0;
+  for (const [name, total] of scores) {
+    if (total > score) {
+      category = name;
+      score = total;
+    }
+  }
+
+  if (!category) {
+    return {
+      category: "Unknown",
+      confidence: "Low",
+      score: 0,
+      reasons: ["Unable to determine specific error category"],
+      matches,
+    };
+  }
+
+  const { high, medium } = config.confidenceThresholds;
+  return {
+    category,
+    confidence: score >= high ? "High" : score >= medium ? "Medium" : "Low",
+    score,
+    reasons: [...new Set(matches.filter((m) => m.category === category).map((m) => m.reason))],
+    matches,
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Failure signatures: error messages / stack traces normalised so that the
+ * same root cause produces the same signature across launches, devices and
+ * platforms (numbers, IDs, timestamps and hex values are stripped).
+ */
+
+import { createHash } from "crypto";
+
+const ISO_TIMESTAMP = /\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?/g;
+const UUID = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi;
+const HEX_PREFIXED = /\b0x[0-9a-f]+\b/gi;
+/** Bare hex runs (session IDs, hashes) — must mix digits and letters to avoid eating words. */
+const HEX_BARE = /\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi;
+const DATE = /\b\d{4}[-/.]\d{1,2}[-/.]\d{1,2}\b|\b\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}\b/g;
+const TIME = /\b\d{1,2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?\b/g;
+const NUMBER = /\d+(?:\.\d+)?/g;
+
+const STACK_FRAME = /^\s*(?:at\s+\S|File\s+".*",\s+line)/;
+const MAX_HEADLINE_LENGTH = 300;
+
+/** Strip volatile tokens from one line of failure text. */
+export function normalizeFailureText(text: string): string {
+  return text
+    .replace(ISO_TIMESTAMP, "<ts>")
+    .replace(UUID, "<id>")
+    .replace(HEX_PREFIXED, "<hex>")
+    .replace(HEX_BARE, "<hex>")
+    .replace(DATE, "<date>")
+    .replace(TIME, "<time>")
+    .replace(NUMBER, "<n>")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+export interface FailureSignature {
+  /** Short stable hash of `headline` + `frames`. */
+  id: string;
+  headline: string;
+  frames: string[];
+}
+
+/**
+ * Signature of a failure message: the first non-frame line plus the top
+ * `stackFrames` stack frames, each normalised.
+ */
+export function buildFailureSignature(message: string, stackFrames: number = 3): FailureSignature {
+  const lines = message.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  const headlineRaw = lines.find((l) => !STACK_FRAME.test(l)) ?? "";
+  const headline = normalizeFailureText(headlineRaw).slice(0, MAX_HEADLINE_LENGTH);
+  const frames = lines
+    .filter((l) => STACK_FRAME.test(l))
+    .slice(0, stackFrames)
+    .map(normalizeFailureText);
+  const id = createHash("sha1").update([headline, ...frames].join("\n")).digest("hex").slice(0, 12);
+  return { id, headline, frames };
+}
+
+export interface FailureOccurrence {
+  launchId: number;
+  launchName: string;
+  /** Launch start (epoch ms). */
+  launchStartedAt: number;
+  platform: string;
+  projectKey: string;
+  testName: string;
+  message: string;
+  issues: string[];
+}
+
+export interface FailureLaunchRef {
+  launchId: number;
+  launchName: string;
+  projectKey: string;
+  startedAt: string;
+}
+
+export interface FailureCluster {
+  signature: FailureSignature;
+  /** First line of one raw message in the cluster, for display. */
+  sampleMessage: string;
+  occurrences: number;
+  launchCount: number;
+  firstSeen: FailureLaunchRef;
+  lastSeen: FailureLaunchRef;
+  tests: string[];
+  platforms: string[];
+  projects: string[];
+  issues: string[];
+}
+
+function launchRef(o: FailureOccurrence): FailureLaunchRef {
+  return {
+    launchId: o.launchId,
+    launchName: o.launchName,
+    projectKey: o.projectKey,
+    startedAt: new Date(o.launchStartedAt).toISOString(),
+  };
+}
+
+const sorted = (values: Set<string>) => [...values].sort((a, b) => a.localeCompare(b));
+
+/**
+ * Group failure occurrences by signature. Clusters are sorted by number of
+ * platforms, then occurrences (widest-spreading root causes first).
+ */
+export function clusterFailures(
+  occurrences: FailureOccurrence[],
+  options: { stackFrames?: number; minOccurrences?: number } = {},
+): FailureCluster[] {
+  const { stackFrames = 3, minOccurrences = 1 } = options;
+  const groups = new Map<string, { signature: FailureSignature; items: FailureOccurrence[] }>();
+  for (const o of occurrences) {
+    const signature = buildFailureSignature(o.message, stackFrames);
+    const group = groups.get(signature.id);
+    if (group) group.items.push(o);
+    else groups.set(signature.id, { signature, items: [o] });
+  }
+
+  const clusters: FailureCluster[] = [];
+  for (const { signature, items } of groups.values()) {
+    if (items.length < minOccurrences) continue;
+    const byTime = [...items].sort((a, b) => a.launchStartedAt - b.launchStartedAt);
+    clusters.push({
+      signature,
+      sampleMessage: (items[0].message.split(/\r?\n/).find((l) => l.trim()) ?? "").trim().slice(0, MAX_HEADLINE_LENGTH),
+      occurrences: items.length,
+      launchCount: new Set(items.map((o) => o.launchId)).size,
+      firstSeen: launchRef(byTime[0]),
+      lastSeen: launchRef(byTime[byTime.length - 1]),
+      tests: sorted(new Set(items.map((o) => o.testName))),
+      platforms: sorted(new Set(items.map((o) => o.platform))),
+      projects: sorted(new Set(items.map((o) => o.projectKey))),
+      issues: sorted(new Set(items.flatMap((o) => o.issues))),
+    });
+  }
+
+  return clusters.sort((a, b) =>
+    b.platforms.length - a.platforms.length || b.occurrences - a.occurrences || a.signature.id.localeCompare(b.signature.id),
+  );
+}
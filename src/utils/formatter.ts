@@ -29,7 +29,7 @@ export class FormatProcessor {
    * Build a lookup from customField API key → display name using fields layout.
    * The API uses camelCase keys (e.g., "manualOnly") while the layout has display names ("Manual Only").
    */
-  private static buildCustomFieldDisplayMap(fieldsLayout?: FieldsLayout): Map<string, FieldLayoutItem> {
+  static buildCustomFieldDisplayMap(fieldsLayout?: FieldsLayout): Map<string, FieldLayoutItem> {
     if (!fieldsLayout) return new Map();
 
     const map = new Map<string, FieldLayoutItem>();
@@ -0,0 +1,358 @@
+/**
+ * Gherkin `.feature` parsing and mapping to TCM test cases.
+ *
+ * Covers the subset BDD teams use in practice: Feature, Rule, Background,
+ * Scenario/Example, Scenario Outline/Template with Examples, tags, data
+ * tables and doc strings (English keywords only). Each scenario becomes one
+ * test case whose steps pair the Given/When lines (action) with the Then
+ * lines that follow them (expected result).
+ */
+
+export interface GherkinStep {
+  /** Keyword as written: Given, When, Then, And, But or `*`. */
+  keyword: string;
+  text: string;
+  line: number;
+  docString?: string;
+  dataTable?: string[][];
+}
+
+export interface GherkinExamples {
+  name: string;
+  tags: string[];
+  line: number;
+  header: string[];
+  rows: string[][];
+  /** Line of each row in `rows`. */
+  rowLines: number[];
+}
+
+export interface GherkinScenario {
+  name: string;
+  description: string;
+  /** Rule and scenario tags (feature tags live on the feature). */
+  tags: string[];
+  line: number;
+  outline: boolean;
+  /** Feature background followed by the enclosing rule's background. */
+  background: GherkinStep[];
+  steps: GherkinStep[];
+  examples: GherkinExamples[];
+}
+
+export interface GherkinFeature {
+  file: string;
+  name: string;
+  description: string;
+  tags: string[];
+  scenarios: GherkinScenario[];
+}
+
+export type OutlineMode = "expand" | "parameterize";
+
+export interface GherkinCase {
+  title: string;
+  /** Case key taken from a scenario or Examples tag, when present. */
+  key?: string;
+  /** Feature, rule, scenario and Examples tags without the `@` and without the key tag. */
+  tags: string[];
+  description?: string;
+  preConditions?: string;
+  steps: Array<{ action: string; expectedResult: string }>;
+  /** `file:line` of the scenario (or Examples row). */
+  source: string;
+}
+
+const STEP_RE = /^(Given|When|Then|And|But|\*)\s+(.*)$/;
+const HEADER_RE = /^(Feature|Rule|Background|Scenario Outline|Scenario Template|Scenario|Example|Examples|Scenarios):\s*(.*)$/;
+const TITLE_MAX = 255;
+
+function parseTags(line: string): string[] {
+  return line.replace(/\s#.*$/, "").split(/\s+/).filter(t => t.startsWith("@")).map(t => t.slice(1));
+}
+
+function parseRow(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  const body = line.trim().replace(/^\|/, "");
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === "\\" && i + 1 < body.length) {
+      const next = body[++i];
+      cell += next === "n" ? "\n" : next;
+    } else if (ch === "|") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  return cells;
+}
+
+/** Parses one feature file; throws with the line number on malformed input. */
+export function parseGherkin(text: string, file: string): GherkinFeature {
+  const lines = text.split(/\r?\n/);
+  const feature: GherkinFeature = { file, name: "", description: "", tags: [], scenarios: [] };
+  let featureBackground: GherkinStep[] = [];
+  let ruleBackground: GherkinStep[] = [];
+  let ruleTags: string[] = [];
+  let inRule = false;
+  let pendingTags: string[] = [];
+
+  type Container = { kind: "feature" | "rule" | "background" | "scenario" | "examples"; steps?: GherkinStep[]; describe?: (line: string) => void };
+  let current: Container | null = null;
+  let scenario: GherkinScenario | null = null;
+  let examples: GherkinExamples | null = null;
+
+  const fail = (n: number, message: string): never => {
+    throw new Error(`${file}:${n}: ${message}`);
+  };
+  const lastStep = (n: number): GherkinStep => {
+    const step = current?.steps?.[current.steps.length - 1];
+    return step ?? fail(n, "table or doc string without a step");
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const n = i + 1;
+    const trimmed = lines[i].trim();
+    if (trimmed === "" || trimmed.startsWith("#")) continue;
+
+    if (trimmed.startsWith("@")) {
+      pendingTags.push(...parseTags(trimmed));
+      continue;
+    }
+
+    if (trimmed.startsWith('"""') || trimmed.startsWith("```")) {
+      const fence = trimmed.slice(0, 3);
+      const indent = lines[i].indexOf(fence);
+      const body: string[] = [];
+      for (i++; i < lines.length && lines[i].trim() !== fence; i++) {
+        const raw = lines[i];
+        body.push(raw.slice(Math.min(indent, raw.length - raw.trimStart().length)));
+      }
+      if (i >= lines.length) fail(n, "unterminated doc string");
+      lastStep(n).docString = body.join("\n");
+      continue;
+    }
+
+    if (trimmed.startsWith("|")) {
+      if (current?.kind === "examples" && examples) {
+        const row = parseRow(trimmed);
+        if (examples.header.length === 0) examples.header = row;
+        else if (row.length !== examples.header.length) fail(n, `Examples row has ${row.length} cells, header has ${examples.header.length}`);
+        else {
+          examples.rows.push(row);
+          examples.rowLines.push(n);
+        }
+      } else {
+        const step = lastStep(n);
+        (step.dataTable ??= []).push(parseRow(trimmed));
+      }
+      continue;
+    }
+
+    const header = trimmed.match(HEADER_RE);
+    if (header) {
+      const [, keyword, name] = header;
+      const tags = pendingTags;
+      pendingTags = [];
+      switch (keyword) {
+        case "Feature":
+          feature.name = name;
+          feature.tags = tags;
+          current = { kind: "feature", describe: l => { feature.description += (feature.description ? "\n" : "") + l; } };
+          break;
+        case "Rule":
+          if (!feature.name) fail(n, "Rule before Feature");
+          inRule = true;
+          ruleTags = tags;
+          ruleBackground = [];
+          scenario = null;
+          current = { kind: "rule", describe: () => undefined };
+          break;
+        case "Background": {
+          if (!feature.name) fail(n, "Background before Feature");
+          const steps: GherkinStep[] = [];
+          if (inRule) ruleBackground = steps;
+          else featureBackground = steps;
+          current = { kind: "background", steps, describe: () => undefined };
+          break;
+        }
+        case "Examples":
+        case "Scenarios":
+          if (!scenario?.outline) fail(n, "Examples outside a Scenario Outline");
+          examples = { name, tags, line: n, header: [], rows: [], rowLines: [] };
+          scenario!.examples.push(examples);
+          current = { kind: "examples" };
+          break;
+        default: {
+          if (!feature.name) fail(n, "Scenario before Feature");
+          const s: GherkinScenario = {
+            name,
+            description: "",
+            tags: [...ruleTags, ...tags],
+            line: n,
+            outline: keyword === "Scenario Outline" || keyword === "Scenario Template",
+            background: [...featureBackground, ...ruleBackground],
+            steps: [],
+            examples: [],
+          };
+          scenario = s;
+          feature.scenarios.push(s);
+          current = { kind: "scenario", steps: s.steps, describe: l => { s.description += (s.description ? "\n" : "") + l; } };
+        }
+      }
+      continue;
+    }
+
+    const step = trimmed.match(STEP_RE);
+    if (step) {
+      if (!current?.steps) fail(n, `step outside a Scenario or Background: "${trimmed}"`);
+      current!.steps!.push({ keyword: step[1], text: step[2], line: n });
+      // Description text is only allowed before the first step
+      current!.describe = undefined;
+      continue;
+    }
+
+    if (current?.describe) {
+      current.describe(trimmed);
+      continue;
+    }
+    fail(n, `unexpected line: "${trimmed}"`);
+  }
+
+  if (!feature.name && feature.scenarios.length === 0) fail(1, "no Feature found");
+  if (pendingTags.length > 0) fail(lines.length, "tags without a Feature, Scenario or Examples");
+  return feature;
+}
+
+function substitute(text: string, values: Map<string, string>): string {
+  return values.size === 0 ? text : text.replace(/<([^<>\n]+)>/g, (m, name: string) => values.get(name) ?? m);
+}
+
+function markdownTable(rows: string[][]): string {
+  const esc = (c: string) => c.replace(/\|/g, "\\|").replace(/\n/g, "<br>");
+  const [head, ...body] = rows;
+  return [
+    `| ${head.map(esc).join(" | ")} |`,
+    `| ${head.map(() => "---").join(" | ")} |`,
+    ...body.map(r => `| ${r.map(esc).join(" | ")} |`),
+  ].join("\n");
+}
+
+function renderStep(step: GherkinStep, values: Map<string, string>): string {
+  const parts = [`${step.keyword} ${substitute(step.text, values)}`];
+  if (step.dataTable && step.dataTable.length > 0) {
+    parts.push(markdownTable(step.dataTable.map(r => r.map(c => substitute(c, values)))));
+  }
+  if (step.docString !== undefined) parts.push("```\n" + substitute(step.docString, values) + "\n```");
+  return parts.join("\n");
+}
+
+/**
+ * Groups steps into TCM steps: Given/When lines (with their And/But) form the
+ * action, the Then lines that follow form the expected result. A Given or
+ * When after a Then starts the next step.
+ */
+export function gherkinToCaseSteps(steps: GherkinStep[], values: Map<string, string> = new Map()): Array<{ action: string; expectedResult: string }> {
+  const out: Array<{ action: string[]; expected: string[] }> = [];
+  let phase: "action" | "expected" = "action";
+  for (const step of steps) {
+    const conjunction = step.keyword === "And" || step.keyword === "But" || step.keyword === "*";
+    const next: "action" | "expected" = step.keyword === "Then" ? "expected" : conjunction ? phase : "action";
+    if (out.length === 0 || (next === "action" && phase === "expected")) out.push({ action: [], expected: [] });
+    phase = next;
+    const rendered = renderStep(step, values);
+    if (phase === "action") out[out.length - 1].action.push(rendered);
+    else out[out.length - 1].expected.push(rendered);
+  }
+  return out.map(s => ({ action: s.action.join("\n"), expectedResult: s.expected.join("\n") }));
+}
+
+/** Returns the case key a tag carries (`@MCP-12`, `@tc:MCP-12`, `@key=MCP-12`), if any. */
+export function caseKeyFromTag(tag: string, projectKey: string): string | undefined {
+  const value = tag.includes(":") || tag.includes("=") ? tag.split(/[:=]/).slice(1).join(":") : tag;
+  return new RegExp(`^${projectKey.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}-\\d+$`, "i").test(value) ? value.toUpperCase() : undefined;
+}
+
+function truncateTitle(title: string): string {
+  return title.length > TITLE_MAX ? `${title.slice(0, TITLE_MAX - 1)}…` : title;
+}
+
+/**
+ * Maps the scenarios of a feature to test cases. Outlines are either expanded
+ * (one case per Examples row, placeholders filled in) or kept as one case
+ * with `<placeholders>` and the Examples tables in the description.
+ */
+export function buildGherkinCases(feature: GherkinFeature, projectKey: string, outlines: OutlineMode): GherkinCase[] {
+  const cases: GherkinCase[] = [];
+
+  const make = (s: GherkinScenario, tags: string[], values: Map<string, string>, title: string, source: string, extraDescription?: string): GherkinCase => {
+    let key: string | undefined;
+    const plain: string[] = [];
+    for (const tag of [...feature.tags, ...tags]) {
+      const k = tags.includes(tag) ? caseKeyFromTag(tag, projectKey) : undefined;
+      if (k) {
+        if (key && key !== k) throw new Error(`${source}: scenario has two case keys (${key}, ${k})`);
+        key = k;
+      } else if (!plain.includes(tag)) {
+        plain.push(tag);
+      }
+    }
+    const description = [substitute(s.description, values), extraDescription].filter(Boolean).join("\n\n");
+    const background = s.background.map(step => renderStep(step, values)).join("\n");
+    return {
+      title: truncateTitle(title),
+      key,
+      tags: plain,
+      description: description || undefined,
+      preConditions: background || undefined,
+      steps: gherkinToCaseSteps(s.steps, values),
+      source,
+    };
+  };
+
+  for (const s of feature.scenarios) {
+    const source = `${feature.file}:${s.line}`;
+    const blocks = s.examples.filter(e => e.header.length > 0);
+    if (!s.outline || blocks.length === 0) {
+      cases.push(make(s, s.tags, new Map(), s.name, source));
+      continue;
+    }
+    if (outlines === "parameterize") {
+      const tables = blocks.map(e => `**Examples${e.name ? `: ${e.name}` : ""}**\n\n${markdownTable([e.header, ...e.rows])}`).join("\n\n");
+      cases.push(make(s, [...s.tags, ...blocks.flatMap(e => e.tags)], new Map(), s.name, source, tables));
+      continue;
+    }
+    // Every expanded row becomes its own case, so a key tag may only cover one row
+    const keyOf = (tags: string[]) => tags.map(t => caseKeyFromTag(t, projectKey)).find(Boolean);
+    const outlineKey = keyOf(s.tags);
+    if (outlineKey && blocks.reduce((n, e) => n + e.rows.length, 0) > 1) {
+      throw new Error(`${source}: Scenario Outline is tagged with case key ${outlineKey}, but outlines: 'expand' creates one case per Examples row. ` +
+        `Move the key to an Examples block with a single row, or import with outlines: 'parameterize'`);
+    }
+    for (const e of blocks) {
+      const examplesKey = keyOf(e.tags);
+      if (examplesKey && e.rows.length > 1) {
+        throw new Error(`${feature.file}:${e.line}: Examples block is tagged with case key ${examplesKey} but has ${e.rows.length} rows; ` +
+          `with outlines: 'expand' a key tag only fits an Examples block with a single row`);
+      }
+      e.rows.forEach((row, r) => {
+        const values = new Map(e.header.map((h, i) => [h, row[i]]));
+        const named = substitute(s.name, values);
+        const title = named !== s.name ? named : `${s.name} (${e.header.map((h, i) => `${h}: ${row[i]}`).join(", ")})`;
+        cases.push(make(s, [...s.tags, ...e.tags], values, title, `${feature.file}:${e.rowLines[r]}`));
+      });
+    }
+  }
+
+  const seen = new Map<string, string>();
+  for (const c of cases) {
+    if (!c.key) continue;
+    const other = seen.get(c.key);
+    if (other) throw new Error(`Case key ${c.key} is tagged on more than one scenario (${other}, ${c.source})`);
+    seen.set(c.key, c.source);
+  }
+  return cases;
+}
@@ -0,0 +1,352 @@
+/**
+ * Local launch-history warehouse.
+ *
+ * An opt-in SQLite file that keeps launches and their test runs (status,
+ * timing, stability, linked issues) per set of credentials and project, so
+ * trend tools can look back 90 or 365 days without re-paging the Reporting
+ * API. `sync_history` fills it incrementally; readers fall back to the API
+ * whenever the store does not cover the requested window.
+ */
+
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { mkdirSync } from "node:fs";
+import type BetterSqlite3 from "better-sqlite3";
+import type { ZebrunnerReportingClient } from "../api/reporting-client.js";
+import type { LaunchListItem, TestRunResponse } from "../types/reporting.js";
+import { getConfig, type HistoryStoreConfig } from "./config-loader.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Launches in these states are re-fetched by the next sync. */
+const UNFINISHED_STATUSES = ["IN_PROGRESS", "QUEUED"];
+
+/** Re-scan this far behind the newest stored launch to catch late finishers. */
+const INCREMENTAL_OVERLAP_MS = DAY_MS;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS launches (
+  instance TEXT NOT NULL,
+  id INTEGER NOT NULL,
+  project_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  status TEXT,
+  milestone TEXT,
+  build TEXT,
+  started_at INTEGER,
+  finished_at INTEGER,
+  payload TEXT NOT NULL,
+  synced_at INTEGER NOT NULL,
+  PRIMARY KEY (instance, id)
+);
+CREATE INDEX IF NOT EXISTS launches_by_project ON launches (instance, project_id, started_at);
+CREATE TABLE IF NOT EXISTS test_runs (
+  instance TEXT NOT NULL,
+  launch_id INTEGER NOT NULL,
+  id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  status TEXT,
+  start_time INTEGER,
+  duration_ms INTEGER,
+  payload TEXT NOT NULL,
+  PRIMARY KEY (instance, launch_id, id)
+);
+CREATE TABLE IF NOT EXISTS sync_state (
+  instance TEXT NOT NULL,
+  project_id INTEGER NOT NULL,
+  covered_from INTEGER NOT NULL,
+  last_sync_at INTEGER NOT NULL,
+  PRIMARY KEY (instance, project_id)
+);
+`;
+
+export interface HistoryCoverage {
+  projectId: number;
+  /** Every launch started at or after this timestamp has been synced. */
+  coveredFrom: number;
+  lastSyncAt: number;
+  launches: number;
+  testRuns: number;
+}
+
+export interface HistoryLaunchFilter {
+  since?: number;
+  milestone?: string;
+  /** Matched against the build number or launch name, case-insensitive. */
+  build?: string;
+  /** Keep launches whose name contains any of these, case-insensitive. */
+  nameContains?: string[];
+}
+
+/**
+ * History synced with one set of credentials. Several share one file; every
+ * row is keyed by the credential namespace (`cacheNamespace(baseUrl, token)`,
+ * stored in the `instance` column), so users never read each other's syncs.
+ */
+export class HistoryStore {
+  constructor(private readonly db: BetterSqlite3.Database, readonly instance: string) {
+    db.exec(SCHEMA);
+  }
+
+  coverage(projectId: number): HistoryCoverage | null {
+    const state = this.db.prepare(
+      "SELECT covered_from AS coveredFrom, last_sync_at AS lastSyncAt FROM sync_state WHERE instance = ? AND project_id = ?",
+    ).get(this.instance, projectId) as { coveredFrom: number; lastSyncAt: number } | undefined;
+    if (!state) return null;
+    const counts = this.db.prepare(
+      `SELECT COUNT(*) AS launches,
+              (SELECT COUNT(*) FROM test_runs t JOIN launches l ON l.instance = t.instance AND l.id = t.launch_id
+                WHERE l.instance = ? AND l.project_id = ?) AS testRuns
+         FROM launches WHERE instance = ? AND project_id = ?`,
+    ).get(this.instance, projectId, this.instance, projectId) as { launches: number; testRuns: number };
+    return { projectId, ...state, ...counts };
+  }
+
+  /** True when every launch since `since` is in the store. */
+  covers(projectId: number, since: number): boolean {
+    const state = this.coverage(projectId);
+    return !!state && state.coveredFrom <= since;
+  }
+
+  /** True when the launch is stored and finished, so its test runs are final. */
+  hasFinishedLaunch(launchId: number): boolean {
+    const row = this.db.prepare("SELECT status FROM launches WHERE instance = ? AND id = ?")
+      .get(this.instance, launchId) as { status: string | null } | undefined;
+    return !!row && !UNFINISHED_STATUSES.includes((row.status ?? "").toUpperCase());
+  }
+
+  /** Start time of the oldest stored launch that was still running when synced. */
+  oldestUnfinished(projectId: number): number | null {
+    const row = this.db.prepare(
+      `SELECT MIN(started_at) AS startedAt FROM launches
+        WHERE instance = ? AND project_id = ? AND UPPER(COALESCE(status, '')) IN (${UNFINISHED_STATUSES.map(() => "?").join(", ")})`,
+    ).get(this.instance, projectId, ...UNFINISHED_STATUSES) as { startedAt: number | null };
+    return row.startedAt;
+  }
+
+  /** Replace a launch and its test runs in one transaction. */
+  saveLaunch(launch: LaunchListItem, testRuns: TestRunResponse[], syncedAt: number = Date.now()): void {
+    const upsertLaunch = this.db.prepare(
+      `INSERT OR REPLACE INTO launches (instance, id, project_id, name, status, milestone, build, started_at, finished_at, payload, synced_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    const insertRun = this.db.prepare(
+      `INSERT OR REPLACE INTO test_runs (instance, launch_id, id, name, status, start_time, duration_ms, payload)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    this.db.transaction(() => {
+      upsertLaunch.run(
+        this.instance, launch.id, launch.projectId, launch.name, launch.status,
+        launch.milestone?.name ?? null, launch.buildNumber ?? null,
+        launch.startedAt ?? null, launch.finishedAt ?? null, JSON.stringify(launch), syncedAt,
+      );
+      this.db.prepare("DELETE FROM test_runs WHERE instance = ? AND launch_id = ?").run(this.instance, launch.id);
+      for (const run of testRuns) {
+        const duration = run.finishTime && run.startTime ? run.finishTime - run.startTime : null;
+        insertRun.run(this.instance, launch.id, run.id, run.name, run.status, run.startTime ?? null, duration, JSON.stringify(run));
+      }
+    })();
+  }
+
+  recordSync(projectId: number, coveredFrom: number, syncedAt: number = Date.now()): void {
+    this.db.prepare(
+      "INSERT OR REPLACE INTO sync_state (instance, project_id, covered_from, last_sync_at) VALUES (?, ?, ?, ?)",
+    ).run(this.instance, projectId, coveredFrom, syncedAt);
+  }
+
+  /** Stored launches of a project, newest first. */
+  queryLaunches(projectId: number, filter: HistoryLaunchFilter = {}): LaunchListItem[] {
+    const where = ["instance = ?", "project_id = ?"];
+    const params: Array<string | number> = [this.instance, projectId];
+    if (filter.since !== undefined) {
+      where.push("started_at >= ?");
+      params.push(filter.since);
+    }
+    if (filter.milestone) {
+      where.push("milestone = ?");
+      params.push(filter.milestone);
+    }
+    if (filter.build) {
+      where.push("(LOWER(COALESCE(build, '')) LIKE ? OR LOWER(name) LIKE ?)");
+      const like = `%${filter.build.toLowerCase()}%`;
+      params.push(like, like);
+    }
+    const rows = this.db.prepare(
+      `SELECT payload FROM launches WHERE ${where.join(" AND ")} ORDER BY started_at DESC, id DESC`,
+    ).all(...params) as Array<{ payload: string }>;
+    const launches = rows.map(r => JSON.parse(r.payload) as LaunchListItem);
+    const needles = (filter.nameContains ?? []).map(n => n.toLowerCase());
+    return needles.length > 0
+      ? launches.filter(l => needles.some(n => l.name.toLowerCase().includes(n)))
+      : launches;
+  }
+
+  getLaunch(projectId: number, launchId: number): LaunchListItem | null {
+    const row = this.db.prepare("SELECT payload FROM launches WHERE instance = ? AND project_id = ? AND id = ?")
+      .get(this.instance, projectId, launchId) as { payload: string } | undefined;
+    return row ? JSON.parse(row.payload) as LaunchListItem : null;
+  }
+
+  /** Stored test runs of a launch, or null when the launch was never synced. */
+  getTestRuns(projectId: number, launchId: number): TestRunResponse[] | null {
+    if (!this.getLaunch(projectId, launchId)) return null;
+    const rows = this.db.prepare(
+      "SELECT payload FROM test_runs WHERE instance = ? AND launch_id = ? ORDER BY start_time, id",
+    ).all(this.instance, launchId) as Array<{ payload: string }>;
+    return rows.map(r => JSON.parse(r.payload) as TestRunResponse);
+  }
+}
+
+export interface HistorySyncOptions {
+  /** Window start (epoch ms); launches started earlier are not fetched. */
+  since: number;
+  /** Launches whose test runs are downloaded in this call. */
+  maxLaunches: number;
+  now?: number;
+}
+
+export interface HistorySyncResult {
+  projectId: number;
+  /** True when the whole window is now in the store. */
+  complete: boolean;
+  launchesSynced: number;
+  launchesSkipped: number;
+  testRunsSynced: number;
+  launchErrors: Array<{ launchId: number; error: string }>;
+  coverage: HistoryCoverage | null;
+}
+
+export function historyWindowStart(days: number, now: number = Date.now()): number {
+  return now - days * DAY_MS;
+}
+
+/**
+ * Pull launches newest-first until the window start, downloading test runs
+ * only for launches not already stored as finished. Once a project covers
+ * the window, later calls stop shortly behind the previous sync.
+ */
+export async function syncProjectHistory(
+  store: HistoryStore,
+  client: Pick<ZebrunnerReportingClient, "getLaunches" | "getAllTestRuns">,
+  projectId: number,
+  options: HistorySyncOptions,
+): Promise<HistorySyncResult> {
+  const now = options.now ?? Date.now();
+  const windowStart = options.since;
+  const previous = store.coverage(projectId);
+  const stopAt = previous && previous.coveredFrom <= windowStart
+    ? Math.max(windowStart, Math.min(previous.lastSyncAt - INCREMENTAL_OVERLAP_MS, store.oldestUnfinished(projectId) ?? Infinity))
+    : windowStart;
+
+  let launchesSynced = 0;
+  let launchesSkipped = 0;
+  let testRunsSynced = 0;
+  let reachedStop = false;
+  let hitCap = false;
+  let oldestSeen = now;
+  const launchErrors: HistorySyncResult["launchErrors"] = [];
+
+  for (let page = 1; !reachedStop && !hitCap; page++) {
+    const resp = await client.getLaunches(projectId, { page, pageSize: 50 });
+    const items = resp.items || [];
+    for (const launch of items) {
+      if (!launch.startedAt) continue;
+      if (launch.startedAt < stopAt) {
+        reachedStop = true;
+        break;
+      }
+      if (store.hasFinishedLaunch(launch.id)) {
+        launchesSkipped++;
+      } else {
+        if (launchesSynced >= options.maxLaunches) {
+          hitCap = true;
+          break;
+        }
+        try {
+          const runs = await client.getAllTestRuns(launch.id, projectId);
+          store.saveLaunch(launch, runs.items || [], now);
+          launchesSynced++;
+          testRunsSynced += (runs.items || []).length;
+        } catch (error: any) {
+          launchErrors.push({ launchId: launch.id, error: error?.message || String(error) });
+          continue;
+        }
+      }
+      oldestSeen = Math.min(oldestSeen, launch.startedAt);
+    }
+    if (hitCap) break;
+    if (items.length === 0 || page >= (resp._meta?.totalPages ?? 1)) {
+      reachedStop = true;
+    }
+  }
+
+  // Failed launches leave a hole, so coverage only advances on a clean pass
+  const complete = reachedStop && launchErrors.length === 0;
+  let coveredFrom: number | undefined;
+  if (complete) {
+    coveredFrom = previous ? Math.min(previous.coveredFrom, windowStart) : windowStart;
+  } else if (launchErrors.length === 0) {
+    coveredFrom = previous && oldestSeen <= previous.lastSyncAt
+      ? Math.min(previous.coveredFrom, oldestSeen)
+      : oldestSeen;
+  }
+  if (coveredFrom !== undefined) {
+    store.recordSync(projectId, coveredFrom, now);
+  }
+
+  return {
+    projectId,
+    complete,
+    launchesSynced,
+    launchesSkipped,
+    testRunsSynced,
+    launchErrors,
+    coverage: store.coverage(projectId),
+  };
+}
+
+let _db: BetterSqlite3.Database | null = null;
+let _opening: Promise<BetterSqlite3.Database> | null = null;
+const _stores = new Map<string, HistoryStore>();
+
+export function isHistoryStoreEnabled(config: HistoryStoreConfig = getConfig().historyStore): boolean {
+  return config.enabled || !!process.env.ZEBRUNNER_HISTORY_DB?.trim();
+}
+
+async function openDatabase(config: HistoryStoreConfig): Promise<BetterSqlite3.Database> {
+  const file = resolve(process.env.ZEBRUNNER_HISTORY_DB?.trim() || config.path || join(tmpdir(), "mcp-zebrunner-history.db"));
+  mkdirSync(dirname(file), { recursive: true });
+  // Loaded lazily so servers without the store never load the native module.
+  // It is an optional dependency: installs where it failed to build still run everything else.
+  let Database: typeof BetterSqlite3;
+  try {
+    ({ default: Database } = await import("better-sqlite3"));
+  } catch (err) {
+    throw new Error(
+      `historyStore is enabled but the optional dependency better-sqlite3 could not be loaded (${err instanceof Error ? err.message : String(err)}). ` +
+      "Install it with 'npm install better-sqlite3' or disable historyStore / unset ZEBRUNNER_HISTORY_DB."
+    );
+  }
+  const db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  return db;
+}
+
+/**
+ * Store for the given credential namespace, or null when the history store is
+ * not enabled.
+ */
+export async function getHistoryStore(namespace: string): Promise<HistoryStore | null> {
+  const config = getConfig().historyStore;
+  if (!isHistoryStoreEnabled(config)) return null;
+  if (!_db) {
+    _opening ??= openDatabase(config).finally(() => { _opening = null; });
+    _db = await _opening;
+  }
+  let store = _stores.get(namespace);
+  if (!store) {
+    store = new HistoryStore(_db, namespace);
+    _stores.set(namespace, store);
+  }
+  return store;
+}
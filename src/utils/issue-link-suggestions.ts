@@ -0,0 +1,147 @@
+/**
+ * Suggest known issues for unlinked failures by matching their failure
+ * signature against failures that already carry an issue reference.
+ */
+
+import { buildFailureSignature } from "./failure-signature.js";
+
+export interface IssueRef {
+  type: string;
+  value: string;
+}
+
+/** A past failure with at least one linked issue. */
+export interface LinkedFailure {
+  testName: string;
+  message: string;
+  issues: IssueRef[];
+}
+
+/** A failure without a linked issue, looking for one. */
+export interface UnlinkedFailure {
+  testId: number;
+  testName: string;
+  message: string;
+}
+
+export interface IssueLinkSuggestion {
+  testId: number;
+  testName: string;
+  issue: IssueRef;
+  /** 0–99 */
+  confidence: number;
+  basis: string[];
+  signatureId: string;
+}
+
+interface IssueEvidence {
+  issue: IssueRef;
+  count: number;
+  tests: Set<string>;
+}
+
+type IssueCounts = Map<string, IssueEvidence>;
+
+export interface KnownIssueIndex {
+  stackFrames: number;
+  /** Full signature (headline + frames) → issue evidence. */
+  bySignature: Map<string, IssueCounts>;
+  /** Headline-only signature → issue evidence (matches when stack traces differ). */
+  byHeadline: Map<string, IssueCounts>;
+}
+
+const issueKey = (issue: IssueRef) => `${issue.type}:${issue.value}`;
+
+function addEvidence(map: Map<string, IssueCounts>, signatureId: string, failure: LinkedFailure): void {
+  let counts = map.get(signatureId);
+  if (!counts) {
+    counts = new Map();
+    map.set(signatureId, counts);
+  }
+  for (const issue of failure.issues) {
+    const key = issueKey(issue);
+    const evidence = counts.get(key) ?? { issue, count: 0, tests: new Set<string>() };
+    evidence.count++;
+    evidence.tests.add(failure.testName);
+    counts.set(key, evidence);
+  }
+}
+
+export function buildKnownIssueIndex(history: LinkedFailure[], stackFrames: number = 3): KnownIssueIndex {
+  const index: KnownIssueIndex = { stackFrames, bySignature: new Map(), byHeadline: new Map() };
+  for (const failure of history) {
+    if (!failure.message || failure.issues.length === 0) continue;
+    addEvidence(index.bySignature, buildFailureSignature(failure.message, stackFrames).id, failure);
+    addEvidence(index.byHeadline, buildFailureSignature(failure.message, 0).id, failure);
+  }
+  return index;
+}
+
+const EXACT_MATCH_BASE = 70;
+const HEADLINE_MATCH_BASE = 50;
+const SAME_TEST_BONUS = 15;
+const MAX_REPEAT_BONUS = 10;
+
+/**
+ * Score one candidate issue. An exact signature match starts at 70, a
+ * headline-only match at 50. The base is scaled by the issue's share of all
+ * issues seen for that signature. The same test having been linked before
+ * adds 15, and repeated prior occurrences add up to 10.
+ */
+function scoreCandidate(
+  evidence: IssueEvidence,
+  group: IssueCounts,
+  exact: boolean,
+  testName: string,
+): { confidence: number; basis: string[] } {
+  const total = [...group.values()].reduce((sum, e) => sum + e.count, 0);
+  const share = total > 0 ? evidence.count / total : 0;
+  const basis = [
+    exact
+      ? `exact signature match (${evidence.count} prior failure(s))`
+      : `error message match, stack trace differs (${evidence.count} prior failure(s))`,
+  ];
+  let confidence = (exact ? EXACT_MATCH_BASE : HEADLINE_MATCH_BASE) * (0.5 + 0.5 * share);
+  if (group.size > 1) {
+    basis.push(`signature also linked to ${group.size - 1} other issue(s)`);
+  }
+  if (evidence.tests.has(testName)) {
+    confidence += SAME_TEST_BONUS;
+    basis.push("same test previously linked to this issue");
+  }
+  confidence += Math.min(MAX_REPEAT_BONUS, 2 * (evidence.count - 1));
+  return { confidence: Math.min(99, Math.round(confidence)), basis };
+}
+
+/**
+ * Best-scoring known issue for each unlinked failure, keeping only
+ * suggestions at or above `minConfidence`. Sorted by confidence, highest first.
+ */
+export function suggestIssueLinks(
+  failures: UnlinkedFailure[],
+  index: KnownIssueIndex,
+  minConfidence: number = 60,
+): IssueLinkSuggestion[] {
+  const suggestions: IssueLinkSuggestion[] = [];
+  for (const failure of failures) {
+    if (!failure.message) continue;
+    const full = buildFailureSignature(failure.message, index.stackFrames);
+    const exactGroup = index.bySignature.get(full.id);
+    const headlineGroup = index.byHeadline.get(buildFailureSignature(failure.message, 0).id);
+
+    let best: IssueLinkSuggestion | undefined;
+    const consider = (group: IssueCounts | undefined, exact: boolean) => {
+      for (const evidence of group?.values() ?? []) {
+        const { confidence, basis } = scoreCandidate(evidence, group!, exact, failure.testName);
+        if (!best || confidence > best.confidence) {
+          best = { testId: failure.testId, testName: failure.testName, issue: evidence.issue, confidence, basis, signatureId: full.id };
+        }
+      }
+    };
+    consider(exactGroup, true);
+    consider(headlineGroup, false);
+
+    if (best && best.confidence >= minConfidence) suggestions.push(best);
+  }
+  return suggestions.sort((a, b) => b.confidence - a.confidence || a.testId - b.testId);
+}
@@ -0,0 +1,126 @@
+/**
+ * Test-level diff between two launches: status transitions, added/removed
+ * tests and significant slowdowns.
+ */
+
+import type { TestRunResponse } from "../types/reporting.js";
+
+export type LaunchTestOutcome = "passed" | "failed" | "skipped" | "other";
+
+export interface LaunchTestDiffEntry {
+  name: string;
+  testClass?: string;
+  owner?: string;
+  baseStatus?: string;
+  targetStatus?: string;
+  /** Test ID in the target launch (base launch for removed tests). */
+  testId: number;
+  issues: string[];
+  baseDurationSeconds?: number;
+  targetDurationSeconds?: number;
+  /** Target vs base duration change, % (slower tests only). */
+  slowdownPercent?: number;
+}
+
+export interface LaunchTestDiff {
+  newlyFailing: LaunchTestDiffEntry[];
+  newlyPassing: LaunchTestDiffEntry[];
+  stillFailing: LaunchTestDiffEntry[];
+  added: LaunchTestDiffEntry[];
+  removed: LaunchTestDiffEntry[];
+  slower: LaunchTestDiffEntry[];
+  unchanged: number;
+}
+
+export interface LaunchDiffOptions {
+  /** Minimum duration increase, % of the base duration (default 50). */
+  slowerThresholdPercent?: number;
+  /** Ignore slowdowns smaller than this many seconds (default 10). */
+  minSlowdownSeconds?: number;
+}
+
+export function testOutcome(test: Pick<TestRunResponse, "status" | "passedManually">): LaunchTestOutcome {
+  const status = (test.status || "").toUpperCase();
+  if (status === "PASSED" || test.passedManually === true) return "passed";
+  if (status === "FAILED" || status === "ABORTED") return "failed";
+  if (status === "SKIPPED") return "skipped";
+  return "other";
+}
+
+function durationSeconds(test: TestRunResponse): number | undefined {
+  if (!test.finishTime || !test.startTime || test.finishTime < test.startTime) return undefined;
+  return Math.round((test.finishTime - test.startTime) / 1000);
+}
+
+/**
+ * Key tests by class + normalised name; repeated keys (data-provider rows)
+ * get an occurrence suffix so rows pair up in execution order.
+ */
+function keyTests(tests: TestRunResponse[]): Map<string, TestRunResponse> {
+  const keyed = new Map<string, TestRunResponse>();
+  const seen = new Map<string, number>();
+  for (const t of tests) {
+    const base = `${(t.testClass || "").toLowerCase()}::${t.name.toLowerCase().replace(/\s+/g, " ").trim()}`;
+    const n = (seen.get(base) ?? 0) + 1;
+    seen.set(base, n);
+    keyed.set(n === 1 ? base : `${base}#${n}`, t);
+  }
+  return keyed;
+}
+
+function toEntry(test: TestRunResponse, base?: TestRunResponse, target?: TestRunResponse): LaunchTestDiffEntry {
+  const issues = (target?.issueReferences?.length ? target.issueReferences : base?.issueReferences ?? []).map((i) => i.value);
+  const baseDuration = base ? durationSeconds(base) : undefined;
+  const targetDuration = target ? durationSeconds(target) : undefined;
+  return {
+    name: test.name,
+    ...(test.testClass ? { testClass: test.testClass } : {}),
+    ...((target?.owner ?? base?.owner) ? { owner: target?.owner ?? base?.owner } : {}),
+    ...(base ? { baseStatus: base.status } : {}),
+    ...(target ? { targetStatus: target.status } : {}),
+    testId: test.id,
+    issues,
+    ...(baseDuration !== undefined ? { baseDurationSeconds: baseDuration } : {}),
+    ...(targetDuration !== undefined ? { targetDurationSeconds: targetDuration } : {}),
+  };
+}
+
+export function diffLaunchTests(
+  baseTests: TestRunResponse[],
+  targetTests: TestRunResponse[],
+  options: LaunchDiffOptions = {},
+): LaunchTestDiff {
+  const { slowerThresholdPercent = 50, minSlowdownSeconds = 10 } = options;
+  const base = keyTests(baseTests);
+  const target = keyTests(targetTests);
+  const diff: LaunchTestDiff = {
+    newlyFailing: [], newlyPassing: [], stillFailing: [], added: [], removed: [], slower: [], unchanged: 0,
+  };
+
+  for (const [key, t] of target) {
+    const b = base.get(key);
+    if (!b) {
+      diff.added.push(toEntry(t, undefined, t));
+      continue;
+    }
+    const before = testOutcome(b);
+    const after = testOutcome(t);
+    const entry = toEntry(t, b, t);
+    if (after === "failed" && before === "failed") diff.stillFailing.push(entry);
+    else if (after === "failed") diff.newlyFailing.push(entry);
+    else if (after === "passed" && before === "failed") diff.newlyPassing.push(entry);
+    else diff.unchanged++;
+
+    const { baseDurationSeconds: bd, targetDurationSeconds: td } = entry;
+    if (bd !== undefined && td !== undefined && bd > 0 && td - bd >= minSlowdownSeconds) {
+      const percent = Math.round(((td - bd) / bd) * 100);
+      if (percent >= slowerThresholdPercent) diff.slower.push({ ...entry, slowdownPercent: percent });
+    }
+  }
+  for (const [key, b] of base) {
+    if (!target.has(key)) diff.removed.push(toEntry(b, b, undefined));
+  }
+
+  diff.slower.sort((a, b) => (b.slowdownPercent ?? 0) - (a.slowdownPercent ?? 0));
+  return diff;
+}
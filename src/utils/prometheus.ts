@@ -0,0 +1,242 @@
+/**
+ * Minimal Prometheus text-format (0.0.4) registry for the HTTP `/metrics`
+ * endpoint: counters, gauges and histograms with labels, kept process-wide
+ * so every HTTP session and per-user API client reports into one place.
+ */
+
+import type { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import type { CacheClass } from "./config-loader.js";
+
+type Labels = Record<string, string>;
+
+const DURATION_BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+const RESPONSE_SIZE_BUCKETS_CHARS = [1_000, 5_000, 20_000, 50_000, 100_000, 250_000, 500_000, 1_000_000];
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map(k => `${k}=${labels[k]}`).join(",");
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels, extra?: Labels): string {
+  const all = { ...labels, ...extra };
+  const keys = Object.keys(all);
+  if (keys.length === 0) return "";
+  return `{${keys.map(k => `${k}="${escapeLabelValue(all[k])}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (Number.isNaN(value)) return "NaN";
+  return String(value);
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render(): string[];
+}
+
+export class Counter implements Metric {
+  readonly type = "counter" as const;
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key);
+    if (entry) entry.value += amount;
+    else this.values.set(key, { labels, value: amount });
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+export class Gauge implements Metric {
+  readonly type = "gauge" as const;
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  /** `collect` runs on every render, for values read at scrape time. */
+  constructor(readonly name: string, readonly help: string, private collect?: (gauge: Gauge) => void) {}
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  render(): string[] {
+    this.collect?.(this);
+    return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+export class Histogram implements Metric {
+  readonly type = "histogram" as const;
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private buckets: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let s = this.series.get(key);
+    if (!s) {
+      s = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, s);
+    }
+    this.buckets.forEach((le, i) => { if (value <= le) s!.counts[i]++; });
+    s.sum += value;
+    s.count++;
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((le, i) => lines.push(`${this.name}_bucket${formatLabels(labels, { le: formatValue(le) })} ${counts[i]}`));
+      lines.push(`${this.name}_bucket${formatLabels(labels, { le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    const out: string[] = [];
+    for (const m of this.metrics) {
+      out.push(`# HELP ${m.name} ${m.help}`, `# TYPE ${m.name} ${m.type}`, ...m.render());
+    }
+    return out.join("\n") + "\n";
+  }
+}
+
+export const metricsRegistry = new MetricsRegistry();
+
+// ── Tool calls ──────────────────────────────────────────────────────
+
+const toolCalls = metricsRegistry.register(new Counter(
+  "mcp_tool_calls_total", "MCP tool calls by tool and outcome (ok, error, rate_limited)."));
+const toolDuration = metricsRegistry.register(new Histogram(
+  "mcp_tool_duration_seconds", "MCP tool call latency.", DURATION_BUCKETS_SECONDS));
+const toolResponseSize = metricsRegistry.register(new Histogram(
+  "mcp_tool_response_chars", "Text size of MCP tool responses in characters.", RESPONSE_SIZE_BUCKETS_CHARS));
+
+export type ToolCallOutcome = "ok" | "error" | "rate_limited";
+
+export function observeToolCall(tool: string, durationMs: number, responseChars: number, outcome: ToolCallOutcome): void {
+  toolCalls.inc({ tool, status: outcome });
+  if (outcome === "rate_limited") return;
+  toolDuration.observe({ tool }, durationMs / 1000);
+  toolResponseSize.observe({ tool }, responseChars);
+}
+
+// ── Zebrunner upstream requests ─────────────────────────────────────
+
+const upstreamRequests = metricsRegistry.register(new Counter(
+  "zebrunner_upstream_requests_total", "Zebrunner API requests by client, method, route and HTTP status."));
+const upstreamDuration = metricsRegistry.register(new Histogram(
+  "zebrunner_upstream_request_duration_seconds", "Zebrunner API request latency.", DURATION_BUCKETS_SECONDS));
+
+/**
+ * Collapse a request URL into a low-cardinality route: query string and
+ * origin dropped, numeric IDs and test case keys (MCP-123, key:MCP-123)
+ * replaced.
+ */
+export function normalizeUpstreamRoute(url: string | undefined): string {
+  if (!url) return "unknown";
+  const path = url.replace(/^[a-z]+:\/\/[^/]+/i, "").split("?")[0];
+  return path
+    .split("/")
+    .map(seg => /^\d+$/.test(seg) ? ":id"
+      : /^[A-Z][A-Z0-9]*-\d+$/.test(seg) ? ":key"
+      // The TCM API addresses cases as key:<KEY>, with the key as typed by the caller
+      : /^key:/i.test(seg) ? "key::key"
+      : seg)
+    .join("/") || "/";
+}
+
+const REQUEST_START = Symbol("metricsRequestStart");
+
+/**
+ * Record latency and status of every request made through `http`. Call
+ * before registering other interceptors so the response hook sees the raw
+ * axios error (with `config` and `response`) rather than a wrapped one.
+ */
+export function instrumentAxios(http: AxiosInstance, client: string): void {
+  http.interceptors.request.use((config: InternalAxiosRequestConfig) => {
+    (config as any)[REQUEST_START] = performance.now();
+    return config;
+  });
+
+  const record = (config: any, status: string) => {
+    const start = config?.[REQUEST_START];
+    const labels = {
+      client,
+      method: String(config?.method ?? "get").toUpperCase(),
+      route: normalizeUpstreamRoute(config?.url),
+    };
+    upstreamRequests.inc({ ...labels, status });
+    if (typeof start === "number") upstreamDuration.observe(labels, (performance.now() - start) / 1000);
+  };
+
+  http.interceptors.response.use(
+    (response) => {
+      record(response.config, String(response.status));
+      return response;
+    },
+    (error) => {
+      record(error?.config, error?.response?.status ? String(error.response.status) : (error?.code ?? "network_error"));
+      return Promise.reject(error);
+    },
+  );
+}
+
+// ── Caches ──────────────────────────────────────────────────────────
+
+const cacheLookups = metricsRegistry.register(new Counter(
+  "zebrunner_cache_lookups_total", "Response cache lookups by endpoint class and result (hit, miss)."));
+const cachesSeen = new Set<string>();
+metricsRegistry.register(new Gauge(
+  "zebrunner_cache_hit_ratio", "Share of cache lookups served from cache since start-up.",
+  (gauge) => {
+    for (const cache of cachesSeen) {
+      const hits = cacheLookups.get({ cache, result: "hit" });
+      const total = hits + cacheLookups.get({ cache, result: "miss" });
+      if (total > 0) gauge.set({ cache }, hits / total);
+    }
+  },
+));
+
+export function recordCacheLookup(cache: CacheClass, hit: boolean): void {
+  cachesSeen.add(cache);
+  cacheLookups.inc({ cache, result: hit ? "hit" : "miss" });
+}
+
+// ── Sessions ────────────────────────────────────────────────────────
+
+let activeSessionsProvider: (() => number) | undefined;
+
+metricsRegistry.register(new Gauge(
+  "mcp_active_sessions", "Open MCP HTTP sessions.",
+  (gauge) => { if (activeSessionsProvider) gauge.set({}, activeSessionsProvider()); },
+));
+
+export function setActiveSessionsProvider(provider: () => number): void {
+  activeSessionsProvider = provider;
+}
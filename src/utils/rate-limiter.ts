@@ -0,0 +1,188 @@
+import { getConfig, type RateLimitBucketConfig, type RateLimitClass, type RateLimitConfig } from "./config-loader.js";
+
+const RATE_LIMIT_CLASSES: RateLimitClass[] = ["heavy_analytics", "video", "mutation"];
+/** Full buckets are dropped once the map grows past this many entries. */
+const SWEEP_THRESHOLD = 1000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Whole seconds until the call would be allowed (0 when allowed). */
+  retryAfterSeconds: number;
+  /** Bucket that ran out: `"user"` or a tool class. */
+  limitedBy?: "user" | RateLimitClass;
+  toolClass: RateLimitClass | "default";
+}
+
+export interface RateLimitBucketUsage extends RateLimitBucketConfig {
+  /** Users with a partially drained bucket. */
+  activeUsers: number;
+  /** Users currently at zero tokens. */
+  exhaustedUsers: number;
+  /** Calls rejected by this bucket since start-up. */
+  limitedCalls: number;
+}
+
+export interface RateLimitUsage {
+  enabled: boolean;
+  perUser: RateLimitBucketUsage;
+  classes: Record<RateLimitClass, RateLimitBucketUsage>;
+}
+
+export interface UserRateLimitUsage {
+  /** Tokens left / capacity per bucket for one user. */
+  perUser: { remaining: number; capacity: number };
+  classes: Record<RateLimitClass, { remaining: number; capacity: number }>;
+}
+
+/**
+ * Token-bucket limiter keyed by user: one bucket for all of a user's tool
+ * calls, plus one per tool class (heavy analytics, video, mutations).
+ * A call must find a token in every bucket it touches; on rejection nothing
+ * is consumed.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private limited = new Map<"user" | RateLimitClass, number>();
+
+  constructor(private readonly config: RateLimitConfig) {}
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  classify(toolName: string, readOnly: boolean): RateLimitClass | "default" {
+    const name = toolName.replace(/^adv_/, "");
+    return this.config.toolClasses[name] ?? (readOnly ? "default" : "mutation");
+  }
+
+  consume(user: string, toolName: string, readOnly: boolean, now: number = Date.now()): RateLimitDecision {
+    const toolClass = this.classify(toolName, readOnly);
+    if (!this.config.enabled) {
+      return { allowed: true, retryAfterSeconds: 0, toolClass };
+    }
+    const userKey = user.toLowerCase();
+    const checks: Array<{ key: string; limit: RateLimitBucketConfig; name: "user" | RateLimitClass }> = [
+      { key: `user:${userKey}`, limit: this.config.perUser, name: "user" },
+    ];
+    if (toolClass !== "default") {
+      checks.push({ key: `${toolClass}:${userKey}`, limit: this.config.classes[toolClass], name: toolClass });
+    }
+
+    let blocked: { name: "user" | RateLimitClass; waitMs: number } | undefined;
+    const buckets = checks.map(({ key, limit, name }) => {
+      const bucket = this.refill(key, limit, now);
+      if (bucket.tokens < 1) {
+        const waitMs = ((1 - bucket.tokens) / limit.refillPerMinute) * 60_000;
+        if (!blocked || waitMs > blocked.waitMs) blocked = { name, waitMs };
+      }
+      return bucket;
+    });
+
+    if (blocked) {
+      this.limited.set(blocked.name, (this.limited.get(blocked.name) ?? 0) + 1);
+      return {
+        allowed: false,
+        retryAfterSeconds: Math.max(1, Math.ceil(blocked.waitMs / 1000)),
+        limitedBy: blocked.name,
+        toolClass,
+      };
+    }
+
+    for (const bucket of buckets) bucket.tokens -= 1;
+    if (this.buckets.size > SWEEP_THRESHOLD) this.sweep(now);
+    return { allowed: true, retryAfterSeconds: 0, toolClass };
+  }
+
+  /** Aggregate usage without user names, for the unauthenticated /health endpoint. */
+  getUsage(now: number = Date.now()): RateLimitUsage {
+    const usage = (prefix: string, limit: RateLimitBucketConfig, name: "user" | RateLimitClass): RateLimitBucketUsage => {
+      let activeUsers = 0;
+      let exhaustedUsers = 0;
+      for (const key of this.buckets.keys()) {
+        if (!key.startsWith(`${prefix}:`)) continue;
+        const tokens = this.peek(key, limit, now);
+        if (tokens < limit.capacity) activeUsers++;
+        if (tokens < 1) exhaustedUsers++;
+      }
+      return { ...limit, activeUsers, exhaustedUsers, limitedCalls: this.limited.get(name) ?? 0 };
+    };
+    return {
+      enabled: this.config.enabled,
+      perUser: usage("user", this.config.perUser, "user"),
+      classes: Object.fromEntries(
+        RATE_LIMIT_CLASSES.map(c => [c, usage(c, this.config.classes[c], c)]),
+      ) as Record<RateLimitClass, RateLimitBucketUsage>,
+    };
+  }
+
+  getUserUsage(user: string, now: number = Date.now()): UserRateLimitUsage {
+    const userKey = user.toLowerCase();
+    const remaining = (key: string, limit: RateLimitBucketConfig) => ({
+      remaining: Math.floor(this.peek(key, limit, now)),
+      capacity: limit.capacity,
+    });
+    return {
+      perUser: remaining(`user:${userKey}`, this.config.perUser),
+      classes: Object.fromEntries(
+        RATE_LIMIT_CLASSES.map(c => [c, remaining(`${c}:${userKey}`, this.config.classes[c])]),
+      ) as Record<RateLimitClass, { remaining: number; capacity: number }>,
+    };
+  }
+
+  /** Current tokens without creating or updating the bucket. */
+  private peek(key: string, limit: RateLimitBucketConfig, now: number): number {
+    const bucket = this.buckets.get(key);
+    if (!bucket) return limit.capacity;
+    const elapsedMs = Math.max(0, now - bucket.updatedAt);
+    return Math.min(limit.capacity, bucket.tokens + (elapsedMs / 60_000) * limit.refillPerMinute);
+  }
+
+  private refill(key: string, limit: RateLimitBucketConfig, now: number): Bucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: limit.capacity, updatedAt: now };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+    bucket.tokens = this.peek(key, limit, now);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private sweep(now: number): void {
+    for (const key of [...this.buckets.keys()]) {
+      const [prefix] = key.split(":", 1);
+      const limit = prefix === "user" ? this.config.perUser : this.config.classes[prefix as RateLimitClass];
+      if (this.peek(key, limit, now) >= limit.capacity) this.buckets.delete(key);
+    }
+  }
+}
+
+export function formatUserRateLimitUsage(usage: UserRateLimitUsage): string {
+  const lines = [
+    "## Rate limits (your remaining calls)",
+    "",
+    "| Bucket | Remaining | Capacity |",
+    "|--------|-----------|----------|",
+    `| all tools | ${usage.perUser.remaining} | ${usage.perUser.capacity} |`,
+  ];
+  for (const c of RATE_LIMIT_CLASSES) {
+    lines.push(`| ${c.replace("_", " ")} | ${usage.classes[c].remaining} | ${usage.classes[c].capacity} |`);
+  }
+  return lines.join("\n");
+}
+
+let _shared: RateLimiter | null = null;
+
+/** Process-wide limiter shared by all HTTP sessions, built from `rateLimits` config. */
+export function getSharedRateLimiter(): RateLimiter {
+  if (!_shared) {
+    _shared = new RateLimiter(getConfig().rateLimits);
+  }
+  return _shared;
+}
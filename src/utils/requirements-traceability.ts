@@ -0,0 +1,290 @@
+/**
+ * Requirement → test case → latest result traceability matrix.
+ *
+ * Requirement links come from two places: the test cases themselves
+ * (`requirements` on the full test case) and the test runs they were
+ * executed in (`requirements` on the run). The matrix is scoped to the
+ * cases of the selected test runs; a requirement linked only at run level
+ * with no linked case in those runs is reported as having no tests.
+ */
+
+import { toCsv } from "./csv.js";
+import { generateDashboardHtml, type DashboardSection } from "./dashboard-template.js";
+
+export interface RequirementRef {
+  source: string;
+  reference: string;
+}
+
+export interface TraceabilityRun {
+  id: number;
+  title: string;
+  createdAt: string;
+  requirements: RequirementRef[];
+}
+
+export interface TraceabilityExecution {
+  runId: number;
+  caseId: number;
+  caseKey: string;
+  title: string;
+  /** Result status name; null when the case has no result in the run. */
+  status: string | null;
+}
+
+export interface TraceabilityStatus {
+  name: string;
+  isSuccess: boolean;
+  isFailure: boolean;
+}
+
+export type CaseOutcome = 'passed' | 'failed' | 'other' | 'not_executed';
+export type RequirementCoverage = 'passing' | 'partial' | 'failing' | 'no_executions' | 'no_tests';
+
+export interface TraceabilityCase {
+  caseId: number;
+  caseKey: string;
+  title: string;
+  status: string | null;
+  outcome: CaseOutcome;
+  /** Run the latest result came from. */
+  runId: number | null;
+  runTitle: string | null;
+}
+
+export interface TraceabilityRow {
+  source: string;
+  reference: string;
+  /** Selected runs that list this requirement. */
+  runIds: number[];
+  cases: TraceabilityCase[];
+  passed: number;
+  failed: number;
+  notExecuted: number;
+  coverage: RequirementCoverage;
+}
+
+export interface TraceabilityMatrix {
+  runs: Array<{ id: number; title: string }>;
+  totals: Record<RequirementCoverage, number> & {
+    requirements: number;
+    casesInRuns: number;
+    casesWithoutRequirements: number;
+    /** Cases whose requirement links could not be looked up. */
+    casesWithUnknownRequirements: number;
+  };
+  requirements: TraceabilityRow[];
+}
+
+export interface TraceabilityInput {
+  runs: TraceabilityRun[];
+  executions: TraceabilityExecution[];
+  /** Case ID → requirement links on the test case; cases missing here could not be looked up. */
+  caseRequirements: Map<number, RequirementRef[]>;
+  statuses: TraceabilityStatus[];
+  /** Extra requirements to report on even if nothing links to them. */
+  requirements?: RequirementRef[];
+}
+
+export const REQUIREMENT_COVERAGE_ORDER: RequirementCoverage[] = ['no_tests', 'no_executions', 'failing', 'partial', 'passing'];
+
+export const REQUIREMENT_COVERAGE_LABELS: Record<RequirementCoverage, string> = {
+  passing: '✅ Passing',
+  partial: '🟡 Partial',
+  failing: '❌ Failing',
+  no_executions: '⚪ No executions',
+  no_tests: '⛔ No tests',
+};
+
+export const REQUIREMENT_COVERAGE_COLORS: Record<RequirementCoverage, string> = {
+  passing: '#59a14f',
+  partial: '#edc948',
+  failing: '#e15759',
+  no_executions: '#bab0ac',
+  no_tests: '#76b7b2',
+};
+
+export function requirementKey(r: RequirementRef): string {
+  return `${r.source.toUpperCase()}:${r.reference.trim().toUpperCase()}`;
+}
+
+export function buildTraceabilityMatrix(input: TraceabilityInput): TraceabilityMatrix {
+  const statusByName = new Map(input.statuses.map(s => [s.name.toLowerCase(), s]));
+  const outcomeOf = (status: string | null): CaseOutcome => {
+    if (!status) return 'not_executed';
+    const s = statusByName.get(status.toLowerCase());
+    if (s?.isSuccess) return 'passed';
+    if (s?.isFailure) return 'failed';
+    return 'other';
+  };
+
+  // Newest run first, so the first result seen per case is the latest one
+  const runs = [...input.runs].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const runOrder = new Map(runs.map((r, i) => [r.id, i]));
+  const runTitle = new Map(runs.map(r => [r.id, r.title]));
+  const executions = [...input.executions].sort((a, b) => (runOrder.get(a.runId) ?? 0) - (runOrder.get(b.runId) ?? 0));
+
+  const latest = new Map<number, TraceabilityCase>();
+  for (const ex of executions) {
+    const existing = latest.get(ex.caseId);
+    if (existing && (existing.status || !ex.status)) continue;
+    latest.set(ex.caseId, {
+      caseId: ex.caseId,
+      caseKey: ex.caseKey,
+      title: ex.title,
+      status: ex.status,
+      outcome: outcomeOf(ex.status),
+      runId: ex.status ? ex.runId : null,
+      runTitle: ex.status ? runTitle.get(ex.runId) ?? null : null,
+    });
+  }
+
+  const rows = new Map<string, { ref: RequirementRef; runIds: Set<number>; cases: Map<number, TraceabilityCase> }>();
+  const rowFor = (ref: RequirementRef) => {
+    const key = requirementKey(ref);
+    let row = rows.get(key);
+    if (!row) {
+      row = { ref: { source: ref.source.toUpperCase(), reference: ref.reference.trim() }, runIds: new Set(), cases: new Map() };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  for (const ref of input.requirements ?? []) rowFor(ref);
+  for (const run of runs) {
+    for (const ref of run.requirements) rowFor(ref).runIds.add(run.id);
+  }
+
+  let casesWithoutRequirements = 0;
+  let casesWithUnknownRequirements = 0;
+  for (const tc of latest.values()) {
+    const refs = input.caseRequirements.get(tc.caseId);
+    if (!refs) casesWithUnknownRequirements++;
+    else if (refs.length === 0) casesWithoutRequirements++;
+    for (const ref of refs ?? []) rowFor(ref).cases.set(tc.caseId, tc);
+  }
+
+  const totals = {
+    requirements: rows.size,
+    casesInRuns: latest.size,
+    casesWithoutRequirements,
+    casesWithUnknownRequirements,
+    passing: 0, partial: 0, failing: 0, no_executions: 0, no_tests: 0,
+  };
+
+  const requirements: TraceabilityRow[] = [...rows.values()].map(({ ref, runIds, cases }) => {
+    const list = [...cases.values()].sort((a, b) => a.caseKey.localeCompare(b.caseKey, undefined, { numeric: true }));
+    const passed = list.filter(c => c.outcome === 'passed').length;
+    const failed = list.filter(c => c.outcome === 'failed').length;
+    const notExecuted = list.filter(c => c.outcome === 'not_executed').length;
+
+    let coverage: RequirementCoverage;
+    if (list.length === 0) coverage = 'no_tests';
+    else if (notExecuted === list.length) coverage = 'no_executions';
+    else if (failed > 0) coverage = 'failing';
+    else if (passed === list.length) coverage = 'passing';
+    else coverage = 'partial';
+    totals[coverage]++;
+
+    return { ...ref, runIds: [...runIds].sort((a, b) => a - b), cases: list, passed, failed, notExecuted, coverage };
+  }).sort((a, b) =>
+    REQUIREMENT_COVERAGE_ORDER.indexOf(a.coverage) - REQUIREMENT_COVERAGE_ORDER.indexOf(b.coverage)
+    || a.reference.localeCompare(b.reference, undefined, { numeric: true }));
+
+  return { runs: runs.map(r => ({ id: r.id, title: r.title })), totals, requirements };
+}
+
+/** Requirements flagged as gaps: no tests, no executions, or failing. */
+export function traceabilityGaps(matrix: TraceabilityMatrix): TraceabilityRow[] {
+  return matrix.requirements.filter(r => r.coverage === 'no_tests' || r.coverage === 'no_executions' || r.coverage === 'failing');
+}
+
+function caseCell(c: TraceabilityCase): string {
+  return `${c.caseKey} (${c.status ?? 'not executed'})`;
+}
+
+export function formatTraceabilityMarkdown(matrix: TraceabilityMatrix, scope: string, rows: TraceabilityRow[] = matrix.requirements): string {
+  const t = matrix.totals;
+  const lines: string[] = [
+    `# Requirements Traceability — ${scope}`,
+    '',
+    `**Test runs:** ${matrix.runs.map(r => `${r.title} (#${r.id})`).join(', ') || 'none'}`,
+    `**Requirements:** ${t.requirements} | ✅ ${t.passing} passing | 🟡 ${t.partial} partial | ❌ ${t.failing} failing | ⚪ ${t.no_executions} not executed | ⛔ ${t.no_tests} without tests`,
+    `**Cases in runs:** ${t.casesInRuns} (${t.casesWithoutRequirements} without requirement links` +
+      `${t.casesWithUnknownRequirements > 0 ? `, ${t.casesWithUnknownRequirements} not checked` : ''})`,
+    '',
+  ];
+
+  if (rows.length === 0) {
+    lines.push('_No requirements to show._');
+    return lines.join('\n');
+  }
+
+  lines.push('| Requirement | Coverage | Passed | Failed | Not Executed | Test Cases |');
+  lines.push('| --- | --- | ---: | ---: | ---: | --- |');
+  for (const r of rows) {
+    const cases = r.cases.length > 0 ? r.cases.map(caseCell).join(', ') : '—';
+    lines.push(`| ${r.source}: ${r.reference} | ${REQUIREMENT_COVERAGE_LABELS[r.coverage]} | ${r.passed} | ${r.failed} | ${r.notExecuted} | ${cases} |`);
+  }
+  return lines.join('\n');
+}
+
+/** One row per requirement × linked case; requirements without cases get a single row. */
+export function formatTraceabilityCsv(rows: TraceabilityRow[]): string {
+  const out: unknown[][] = [];
+  for (const r of rows) {
+    if (r.cases.length === 0) {
+      out.push([r.source, r.reference, r.coverage, r.runIds.join(' '), '', '', '', '', '']);
+      continue;
+    }
+    for (const c of r.cases) {
+      out.push([r.source, r.reference, r.coverage, r.runIds.join(' '), c.caseKey, c.title, c.status ?? '', c.outcome, c.runId ?? '']);
+    }
+  }
+  return toCsv(
+    ['source', 'requirement', 'coverage', 'run_ids', 'case_key', 'case_title', 'latest_status', 'outcome', 'result_run_id'],
+    out,
+  );
+}
+
+export function formatTraceabilityHtml(matrix: TraceabilityMatrix, scope: string, rows: TraceabilityRow[] = matrix.requirements): string {
+  const present = REQUIREMENT_COVERAGE_ORDER.filter(c => matrix.totals[c] > 0);
+  const sections: DashboardSection[] = [
+    {
+      id: 'coverage',
+      title: 'Requirement Coverage',
+      chartType: 'pie',
+      labels: present.map(c => REQUIREMENT_COVERAGE_LABELS[c]),
+      datasets: [{
+        label: 'Requirements',
+        data: present.map(c => matrix.totals[c]),
+        backgroundColor: present.map(c => REQUIREMENT_COVERAGE_COLORS[c]),
+      }],
+      summary: `${matrix.totals.requirements} requirements across ${matrix.runs.length} test run(s)`,
+    },
+    {
+      id: 'matrix',
+      title: 'Traceability Matrix',
+      chartType: 'table',
+      labels: [],
+      datasets: [],
+      tableHeaders: ['Requirement', 'Coverage', 'Passed', 'Failed', 'Not Executed', 'Test Cases'],
+      tableRows: rows.map(r => [
+        `${r.source}: ${r.reference}`,
+        REQUIREMENT_COVERAGE_LABELS[r.coverage],
+        String(r.passed),
+        String(r.failed),
+        String(r.notExecuted),
+        r.cases.map(caseCell).join(', ') || '—',
+      ]),
+    },
+  ];
+
+  return generateDashboardHtml({
+    title: `Requirements Traceability — ${scope}`,
+    period: matrix.runs.map(r => r.title).join(', '),
+    projects: [scope],
+    generatedAt: new Date().toISOString(),
+    sections,
+  });
+}
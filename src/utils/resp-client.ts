@@ -0,0 +1,225 @@
+/**
+ * Minimal Redis protocol (RESP2) client covering the handful of commands the
+ * response cache needs. Works against Redis, Valkey, KeyDB, Dragonfly and
+ * other RESP-compatible servers without shipping a Redis driver.
+ */
+
+import { connect, type Socket } from "node:net";
+import { connect as tlsConnect } from "node:tls";
+
+type RespValue = string | number | null | RespValue[];
+
+interface PendingCommand {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RespError";
+  }
+}
+
+function encodeCommand(args: Array<string | number>): string {
+  let out = `*${args.length}\r\n`;
+  for (const arg of args) {
+    const s = String(arg);
+    out += `$${Buffer.byteLength(s)}\r\n${s}\r\n`;
+  }
+  return out;
+}
+
+/**
+ * Parse one reply starting at `offset`. Returns undefined when the buffer
+ * does not yet hold a complete reply.
+ */
+export function parseReply(buf: Buffer, offset: number = 0): { value: RespValue | RespError; next: number } | undefined {
+  const lineEnd = buf.indexOf("\r\n", offset);
+  if (lineEnd === -1) return undefined;
+  const type = String.fromCharCode(buf[offset]);
+  const line = buf.toString("utf8", offset + 1, lineEnd);
+  const afterLine = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, next: afterLine };
+    case "-":
+      return { value: new RespError(line), next: afterLine };
+    case ":":
+      return { value: Number(line), next: afterLine };
+    case "$": {
+      const len = Number(line);
+      if (len < 0) return { value: null, next: afterLine };
+      if (buf.length < afterLine + len + 2) return undefined;
+      return { value: buf.toString("utf8", afterLine, afterLine + len), next: afterLine + len + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count < 0) return { value: null, next: afterLine };
+      const items: RespValue[] = [];
+      let error: RespError | undefined;
+      let next = afterLine;
+      // Consume every element, even after an error one, so the next reply starts in step
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buf, next);
+        if (!item) return undefined;
+        if (item.value instanceof RespError) error ??= item.value;
+        else items.push(item.value);
+        next = item.next;
+      }
+      return { value: error ?? items, next };
+    }
+    default:
+      throw new RespError(`Unexpected RESP reply type '${type}'`);
+  }
+}
+
+/**
+ * Lazily connecting client for `redis://[user:pass@]host:port[/db]` and
+ * `rediss://` URLs. Commands are pipelined over one socket; a dropped
+ * connection fails pending commands and reconnects on the next call.
+ * `timeoutMs` bounds both connecting and each command: a command without a
+ * reply in time drops the connection, since later replies would be out of step.
+ */
+export class RespClient {
+  private socket: Socket | undefined;
+  private connecting: Promise<void> | undefined;
+  private pending: PendingCommand[] = [];
+  private buffer: Buffer = Buffer.alloc(0);
+  private readonly url: URL;
+
+  constructor(url: string, private readonly timeoutMs: number = 5_000) {
+    this.url = new URL(url);
+    if (this.url.protocol !== "redis:" && this.url.protocol !== "rediss:") {
+      throw new Error(`Unsupported Redis URL protocol: ${this.url.protocol}`);
+    }
+  }
+
+  async get(key: string): Promise<string | null> {
+    return (await this.command("GET", key)) as string | null;
+  }
+
+  async set(key: string, value: string, mode: "PX", ttlMs: number): Promise<unknown> {
+    return this.command("SET", key, value, mode, Math.max(1, Math.round(ttlMs)));
+  }
+
+  async del(key: string): Promise<number> {
+    return (await this.command("DEL", key)) as number;
+  }
+
+  /** All keys matching a glob pattern, via incremental SCAN. */
+  async keys(pattern: string): Promise<string[]> {
+    const found = new Set<string>();
+    let cursor = "0";
+    do {
+      const [next, batch] = (await this.command("SCAN", cursor, "MATCH", pattern, "COUNT", 500)) as [string, string[]];
+      for (const key of batch) found.add(key);
+      cursor = next;
+    } while (cursor !== "0");
+    return [...found];
+  }
+
+  close(): void {
+    if (this.socket) this.drop(this.socket, new Error("Redis connection closed"));
+  }
+
+  private async command(...args: Array<string | number>): Promise<RespValue> {
+    await this.ensureConnected();
+    return this.send(args);
+  }
+
+  private send(args: Array<string | number>): Promise<RespValue> {
+    const socket = this.socket!;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.drop(socket, new Error(`Redis ${args[0]} timed out after ${this.timeoutMs} ms`));
+      }, this.timeoutMs);
+      timer.unref();
+      this.pending.push({
+        resolve: (value) => { clearTimeout(timer); resolve(value); },
+        reject: (error) => { clearTimeout(timer); reject(error); },
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private ensureConnected(): Promise<void> {
+    if (this.socket) return Promise.resolve();
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => { this.connecting = undefined; });
+    }
+    return this.connecting;
+  }
+
+  private async open(): Promise<void> {
+    const port = Number(this.url.port || 6379);
+    const host = this.url.hostname;
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const s = this.url.protocol === "rediss:"
+        ? tlsConnect({ host, port, servername: host }, () => resolve(s))
+        : connect({ host, port }, () => resolve(s));
+      s.setTimeout(this.timeoutMs, () => s.destroy(new Error(`Redis connection to ${host}:${port} timed out`)));
+      s.once("error", reject);
+    });
+    socket.setTimeout(0);
+    socket.unref();
+    socket.on("data", (chunk: Buffer) => this.onData(socket, chunk));
+    socket.on("error", (err) => this.drop(socket, err));
+    socket.on("close", () => this.drop(socket, new Error("Redis connection closed")));
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    try {
+      const password = decodeURIComponent(this.url.password);
+      const username = decodeURIComponent(this.url.username);
+      if (password) {
+        await (username ? this.send(["AUTH", username, password]) : this.send(["AUTH", password]));
+      }
+      const db = this.url.pathname.replace(/^\//, "");
+      if (db && db !== "0") await this.send(["SELECT", db]);
+    } catch (err) {
+      this.close();
+      throw err;
+    }
+  }
+
+  private onData(socket: Socket, chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      let reply: ReturnType<typeof parseReply>;
+      try {
+        reply = parseReply(this.buffer, offset);
+      } catch (err) {
+        // The stream can't be resynchronised: fail what is waiting and reconnect on the next call
+        this.drop(socket, err as Error);
+        return;
+      }
+      if (!reply) break;
+      offset = reply.next;
+      const waiter = this.pending.shift();
+      if (!waiter) continue;
+      if (reply.value instanceof RespError) waiter.reject(reply.value);
+      else waiter.resolve(reply.value);
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  /**
+   * Forget the connection and fail its pending commands. Events from a socket
+   * that was already replaced are ignored, so they can't fail the new one's.
+   */
+  private drop(socket: Socket, error: Error): void {
+    if (this.socket !== socket) return;
+    this.socket = undefined;
+    socket.destroy();
+    this.failAll(error);
+  }
+
+  private failAll(error: Error): void {
+    const waiting = this.pending;
+    this.pending = [];
+    for (const w of waiting) w.reject(error);
+  }
+}
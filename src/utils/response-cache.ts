@@ -0,0 +1,392 @@
+/**
+ * Shared response cache for the TCM, Reporting and mutation clients.
+ *
+ * Entries are grouped by endpoint class (each with its own TTL) and
+ * namespaced per credential, so one user's cached data is never served to
+ * another. Backends: in-process memory (default), one file per entry on
+ * disk, or any Redis-protocol server. Values written to disk or Redis are
+ * AES-256-GCM encrypted when TOKEN_STORE_KEY is set.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, unlink, open } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { deriveKey, encrypt, decrypt } from "../http/crypto.js";
+import { isNodeEnoent } from "../http/oauth-path-utils.js";
+import { getConfig, type CacheClass, type CacheConfig } from "./config-loader.js";
+import { recordCacheLookup } from "./prometheus.js";
+import { RespClient } from "./resp-client.js";
+
+export type { CacheClass } from "./config-loader.js";
+
+export const CACHE_CLASSES: CacheClass[] = ["project", "suites", "fields_layout", "reference_data"];
+
+const KEY_PREFIX = "mcp-zebrunner:cache:";
+const CACHE_KEY_SALT = "mcp-zebrunner-response-cache";
+
+export interface CacheBackend {
+  readonly backend: CacheConfig["backend"];
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  /** Remove one key; returns whether it existed. */
+  delete(key: string): Promise<boolean>;
+  /** Unexpired keys starting with `prefix`. */
+  keys(prefix: string): Promise<string[]>;
+  /** Remove every key starting with `prefix`; returns how many were removed. */
+  deleteByPrefix(prefix: string): Promise<number>;
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+  readonly backend = "memory" as const;
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  constructor(private readonly maxEntries: number = 500) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    // Re-insert so Map order tracks recency of writes
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const now = Date.now();
+    return [...this.entries].filter(([k, e]) => k.startsWith(prefix) && e.expiresAt > now).map(([k]) => k);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let removed = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+interface DiskEntry {
+  key: string;
+  expiresAt: number;
+  value: string;
+}
+
+/**
+ * One JSON file per entry, named by a hash of the key. Point several
+ * replicas at a shared directory to share the cache.
+ */
+export class DiskCacheBackend implements CacheBackend {
+  readonly backend = "disk" as const;
+
+  constructor(private readonly baseDir: string) {}
+
+  private pathFor(key: string): string {
+    return join(this.baseDir, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+
+  private async read(filePath: string): Promise<DiskEntry | null> {
+    try {
+      return JSON.parse(await readFile(filePath, "utf8")) as DiskEntry;
+    } catch (err: unknown) {
+      if (isNodeEnoent(err) || err instanceof SyntaxError) return null;
+      throw err;
+    }
+  }
+
+  private async entries(): Promise<Array<{ filePath: string; entry: DiskEntry | null }>> {
+    let names: string[];
+    try {
+      names = await readdir(this.baseDir);
+    } catch (err: unknown) {
+      if (isNodeEnoent(err)) return [];
+      throw err;
+    }
+    const out: Array<{ filePath: string; entry: DiskEntry | null }> = [];
+    for (const name of names) {
+      if (!name.endsWith(".json")) continue;
+      const filePath = join(this.baseDir, name);
+      out.push({ filePath, entry: await this.read(filePath) });
+    }
+    return out;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const filePath = this.pathFor(key);
+    const entry = await this.read(filePath);
+    if (!entry || entry.key !== key) return null;
+    if (entry.expiresAt <= Date.now()) {
+      await unlink(filePath).catch(() => {});
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await mkdir(this.baseDir, { recursive: true, mode: 0o700 });
+    const fh = await open(this.pathFor(key), "w", 0o600);
+    try {
+      await fh.writeFile(JSON.stringify({ key, expiresAt: Date.now() + ttlMs, value } satisfies DiskEntry), "utf8");
+    } finally {
+      await fh.close();
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const filePath = this.pathFor(key);
+    const entry = await this.read(filePath);
+    if (!entry || entry.key !== key) return false;
+    await unlink(filePath).catch(() => {});
+    return true;
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const now = Date.now();
+    const keys: string[] = [];
+    for (const { filePath, entry } of await this.entries()) {
+      if (!entry || entry.expiresAt <= now) {
+        await unlink(filePath).catch(() => {});
+        continue;
+      }
+      if (entry.key.startsWith(prefix)) keys.push(entry.key);
+    }
+    return keys;
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let removed = 0;
+    for (const { filePath, entry } of await this.entries()) {
+      if (entry && !entry.key.startsWith(prefix)) continue;
+      await unlink(filePath).catch(() => {});
+      if (entry) removed++;
+    }
+    return removed;
+  }
+}
+
+/** Subset of a Redis client used by the cache (RespClient, node-redis v4 and ioredis all fit). */
+export interface RedisCacheClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: "PX", ttlMs: number): Promise<unknown>;
+  del(key: string): Promise<number>;
+  keys(pattern: string): Promise<string[]>;
+}
+
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, "\\$&");
+}
+
+export class RedisCacheBackend implements CacheBackend {
+  readonly backend = "redis" as const;
+
+  constructor(private readonly client: RedisCacheClient) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(key);
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.client.set(key, value, "PX", ttlMs);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return (await this.client.del(key)) > 0;
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    return this.client.keys(`${escapeGlob(prefix)}*`);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let removed = 0;
+    for (const key of await this.keys(prefix)) {
+      removed += await this.client.del(key);
+    }
+    return removed;
+  }
+}
+
+/**
+ * Cache namespace for one set of credentials: a hash of the instance origin
+ * and API token, so clients built from the same credentials (TCM, Reporting,
+ * mutation) share entries while different users never do.
+ */
+export function cacheNamespace(baseUrl: string, token: string): string {
+  let origin = baseUrl;
+  try {
+    origin = new URL(baseUrl).origin;
+  } catch {
+    // keep the raw value
+  }
+  return createHash("sha256").update(`${origin}\n${token}`).digest("hex").slice(0, 16);
+}
+
+export interface CacheClassStats {
+  cacheClass: CacheClass;
+  ttlSeconds: number;
+  /** Entries in the caller's namespace. */
+  entries: number;
+  /** Lookups since start-up, all users. */
+  hits: number;
+  misses: number;
+}
+
+export class ResponseCache {
+  private stats = new Map<CacheClass, { hits: number; misses: number }>();
+  private key: Buffer | undefined;
+
+  constructor(
+    readonly store: CacheBackend,
+    private readonly ttlSeconds: Record<CacheClass, number>,
+    encryptionKey?: string,
+  ) {
+    // In-process memory never leaves the server; encrypt only what is persisted
+    if (encryptionKey && store.backend !== "memory") {
+      this.key = deriveKey(encryptionKey, CACHE_KEY_SALT);
+    }
+  }
+
+  private prefix(namespace: string, cacheClass?: CacheClass): string {
+    return cacheClass ? `${KEY_PREFIX}${namespace}:${cacheClass}:` : `${KEY_PREFIX}${namespace}:`;
+  }
+
+  private count(cacheClass: CacheClass, hit: boolean): void {
+    const s = this.stats.get(cacheClass) ?? { hits: 0, misses: 0 };
+    if (hit) s.hits++;
+    else s.misses++;
+    this.stats.set(cacheClass, s);
+    recordCacheLookup(cacheClass, hit);
+  }
+
+  /**
+   * Return the cached value or run `loader` and cache its result. Backend
+   * failures are logged and treated as misses so a broken cache never
+   * breaks a tool call.
+   */
+  async getOrLoad<T>(namespace: string, cacheClass: CacheClass, key: string, loader: () => Promise<T>): Promise<T> {
+    const ttlMs = this.ttlSeconds[cacheClass] * 1000;
+    if (ttlMs <= 0) return loader();
+
+    const fullKey = `${this.prefix(namespace, cacheClass)}${key}`;
+    let raw: string | null = null;
+    try {
+      raw = await this.store.get(fullKey);
+      if (raw !== null && this.key) raw = decrypt(raw, this.key);
+    } catch (err) {
+      console.error(`⚠️ [ResponseCache] ${this.store.backend} read failed: ${err instanceof Error ? err.message : err}`);
+      raw = null;
+    }
+    if (raw !== null) {
+      this.count(cacheClass, true);
+      return JSON.parse(raw) as T;
+    }
+
+    this.count(cacheClass, false);
+    const value = await loader();
+    const serialized = JSON.stringify(value);
+    await this.store
+      .set(fullKey, this.key ? encrypt(serialized, this.key) : serialized, ttlMs)
+      .catch((err) => console.error(`⚠️ [ResponseCache] ${this.store.backend} write failed: ${err instanceof Error ? err.message : err}`));
+    return value;
+  }
+
+  /** Drop one entry, one class, or (without `cacheClass`) everything in the namespace. */
+  async invalidate(namespace: string, cacheClass?: CacheClass, key?: string): Promise<number> {
+    const prefix = this.prefix(namespace, cacheClass);
+    // A key names exactly one entry, so dropping "MCP" keeps "MCP2"
+    if (key !== undefined && cacheClass) return (await this.store.delete(`${prefix}${key}`)) ? 1 : 0;
+    return this.store.deleteByPrefix(prefix);
+  }
+
+  async describe(namespace: string): Promise<CacheClassStats[]> {
+    const keys = await this.store.keys(this.prefix(namespace));
+    return CACHE_CLASSES.map((cacheClass) => {
+      const prefix = this.prefix(namespace, cacheClass);
+      return {
+        cacheClass,
+        ttlSeconds: this.ttlSeconds[cacheClass],
+        entries: keys.filter((k) => k.startsWith(prefix)).length,
+        ...(this.stats.get(cacheClass) ?? { hits: 0, misses: 0 }),
+      };
+    });
+  }
+
+  /** Bind to one namespace, for use inside an API client. */
+  scoped(namespace: string): ScopedResponseCache {
+    return new ScopedResponseCache(this, namespace);
+  }
+}
+
+export class ScopedResponseCache {
+  constructor(private readonly cache: ResponseCache, readonly namespace: string) {}
+
+  get backend(): CacheConfig["backend"] {
+    return this.cache.store.backend;
+  }
+
+  getOrLoad<T>(cacheClass: CacheClass, key: string, loader: () => Promise<T>): Promise<T> {
+    return this.cache.getOrLoad(this.namespace, cacheClass, key, loader);
+  }
+
+  invalidate(cacheClass?: CacheClass, key?: string): Promise<number> {
+    return this.cache.invalidate(this.namespace, cacheClass, key);
+  }
+
+  describe(): Promise<CacheClassStats[]> {
+    return this.cache.describe(this.namespace);
+  }
+}
+
+/** Redis URL of the cache when its backend is `redis`; `ZEBRUNNER_CACHE_REDIS_URL` wins. */
+export function cacheRedisUrl(config: CacheConfig = getConfig().cache): string | undefined {
+  if (config.backend !== "redis") return undefined;
+  return process.env.ZEBRUNNER_CACHE_REDIS_URL?.trim() || config.redisUrl;
+}
+
+export function createResponseCache(config: CacheConfig = getConfig().cache): ResponseCache {
+  const encryptionKey = process.env.TOKEN_STORE_KEY?.trim() || undefined;
+  switch (config.backend) {
+    case "disk": {
+      const dir = resolve(config.dir ?? join(tmpdir(), "mcp-zebrunner-cache"));
+      return new ResponseCache(new DiskCacheBackend(dir), config.ttlSeconds, encryptionKey);
+    }
+    case "redis": {
+      const url = cacheRedisUrl(config);
+      if (!url) {
+        console.error("⚠️ [ResponseCache] cache.backend is 'redis' but no redisUrl / ZEBRUNNER_CACHE_REDIS_URL is set — using memory");
+        break;
+      }
+      return new ResponseCache(new RedisCacheBackend(new RespClient(url)), config.ttlSeconds, encryptionKey);
+    }
+  }
+  return new ResponseCache(new MemoryCacheBackend(config.maxEntries), config.ttlSeconds);
+}
+
+let _shared: ResponseCache | null = null;
+
+/** Process-wide cache shared by every client, built from `cache` config. */
+export function getResponseCache(): ResponseCache {
+  if (!_shared) {
+    _shared = createResponseCache();
+  }
+  return _shared;
+}
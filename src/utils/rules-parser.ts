@@ -31,6 +31,8 @@ export interface CoverageRules {
  */
 export interface FrameworkConfig {
   name: string;
+  /** Language of generated code, used for code fences and file extensions */
+  language?: 'java' | 'javascript' | 'typescript' | 'python';
   filePatterns: string[];
   keywords: string[];
   imports: string[];
@@ -103,6 +105,7 @@ const DEFAULT_RULES: RulesConfig = {
   frameworks: [
     {
       name: 'java-carina',
+      language: 'java',
       filePatterns: ['*.java', '*Test.java', '*Tests.java'],
       keywords: ['@Test', 'extends AbstractTest', 'WebDriver', 'MobileDriver'],
       imports: ['com.qaprosoft.carina', 'org.testng', 'org.junit'],
@@ -127,9 +130,10 @@ public void {{TEST_METHOD_NAME}}() {
     },
     {
       name: 'javascript-jest',
+      language: 'javascript',
       filePatterns: ['*.test.js', '*.spec.js', '*.test.ts'],
       keywords: ['describe', 'it', 'expect', 'jest'],
-      imports: ['@testing-library', 'jest', 'cypress'],
+      imports: ['@testing-library', 'jest'],
       templates: {
         testSuite: `describe('{{TEST_SUITE_NAME}}', () => {
     beforeEach(() => {
@@ -148,6 +152,97 @@ public void {{TEST_METHOD_NAME}}() {
     afterEach(() => {
         {{TEARDOWN_CODE}}
     });
+});`,
+      },
+    },
+    {
+      name: 'typescript-playwright',
+      language: 'typescript',
+      filePatterns: ['*.spec.ts', 'playwright.config.ts', 'playwright.config.js'],
+      keywords: ['playwright', 'test.describe', 'page.goto', 'getByRole', 'getByTestId', 'toHaveURL'],
+      imports: ['@playwright/test'],
+      templates: {
+        testSuite: `test.describe('{{TEST_SUITE_NAME}}', () => {
+  test.beforeEach(async ({ page }) => {
+    {{SETUP_CODE}}
+  });
+
+  test('{{TEST_DESCRIPTION}}', async ({ page }) => {
+    {{#each STEPS}}
+    // Step {{this.index}}: {{this.action}}
+    {{this.stepCode}}
+    // Expected: {{this.expectedResult}}
+    {{this.validationCode}}
+    {{/each}}
+  });
+});`,
+      },
+    },
+    {
+      name: 'javascript-cypress',
+      language: 'javascript',
+      filePatterns: ['*.cy.js', '*.cy.ts', 'cypress.config.js', 'cypress.config.ts'],
+      keywords: ['cypress', 'cy.visit', 'cy.get', 'cy.contains', 'Cypress.Commands'],
+      imports: ['cypress'],
+      templates: {
+        testSuite: `describe('{{TEST_SUITE_NAME}}', () => {
+  beforeEach(() => {
+    {{SETUP_CODE}}
+  });
+
+  it('{{TEST_DESCRIPTION}}', () => {
+    {{#each STEPS}}
+    // Step {{this.index}}: {{this.action}}
+    {{this.stepCode}}
+    // Expected: {{this.expectedResult}}
+    {{this.validationCode}}
+    {{/each}}
+  });
+});`,
+      },
+    },
+    {
+      name: 'python-pytest',
+      language: 'python',
+      filePatterns: ['test_*.py', '*_test.py', 'conftest.py'],
+      keywords: ['pytest', 'def test_', '@pytest.fixture', 'conftest', 'httpx', 'requests.'],
+      imports: ['pytest', 'httpx', 'requests'],
+      templates: {
+        testSuite: `class Test{{TEST_CLASS_NAME}}:
+    def {{TEST_FUNCTION_NAME}}(self, api_client):
+        \"\"\"{{TEST_DESCRIPTION}}\"\"\"
+        {{#each STEPS}}
+        # Step {{this.index}}: {{this.action}}
+        {{this.stepCode}}
+        # Expected: {{this.expectedResult}}
+        {{this.validationCode}}
+        {{/each}}`,
+      },
+    },
+    {
+      name: 'javascript-webdriverio',
+      language: 'javascript',
+      filePatterns: ['wdio.conf.js', 'wdio.conf.ts', '*.e2e.js', '*.e2e.ts'],
+      keywords: ['webdriverio', 'wdio', 'appium', 'browser.url', 'driver.', 'toBeDisplayed'],
+      imports: ['@wdio/globals', '@wdio/'],
+      templates: {
+        testSuite: `describe('{{TEST_SUITE_NAME}}', () => {
+    beforeEach(async () => {
+        {{SETUP_CODE}}
+    });
+
+    afterEach(async () => {
+        {{TEARDOWN_CODE}}
+    });
+
+    it('{{TEST_DESCRIPTION}}', async () => {
+        {{#each STEPS}}
+        // Step {{this.index}}: {{this.action}}
+        {{this.stepCode}}
+        // Expected: {{this.expectedResult}}
+        {{this.validationCode}}
+        {{/each}}
+    });
 });`,
       },
     },
@@ -196,6 +291,37 @@ public void {{TEST_METHOD_NAME}}() {
   customRules: {},
 };
 
+/**
+ * Template sections recognised in the rules file (`#### <heading> Template` + fenced code)
+ */
+const TEMPLATE_SECTIONS: Array<{ heading: string; fence: string; framework: string; slot: 'testMethod' | 'testSuite' }> = [
+  { heading: 'Java/Carina', fence: 'java', framework: 'java-carina', slot: 'testMethod' },
+  { heading: 'JavaScript/Jest', fence: 'javascript', framework: 'javascript-jest', slot: 'testSuite' },
+  { heading: 'Playwright', fence: 'typescript', framework: 'typescript-playwright', slot: 'testSuite' },
+  { heading: 'Cypress', fence: 'javascript', framework: 'javascript-cypress', slot: 'testSuite' },
+  { heading: 'Python/Pytest', fence: 'python', framework: 'python-pytest', slot: 'testSuite' },
+  { heading: 'WebdriverIO', fence: 'javascript', framework: 'javascript-webdriverio', slot: 'testSuite' },
+];
+
+/**
+ * Builds a case-insensitive regex for a detection keyword; word-like edges get
+ * word boundaries so short keywords such as `it` don't match inside other words.
+ */
+function keywordRegex(keyword: string): RegExp {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const start = /^\w/.test(keyword) ? '\\b' : '';
+  const end = /\w$/.test(keyword) ? '\\b' : '';
+  return new RegExp(`${start}${escaped}${end}`, 'gi');
+}
+
+/**
+ * Converts a file glob such as `test_*.py` into a regex matching paths in free text
+ */
+function filePatternRegex(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[\\w.-]*');
+  return new RegExp(`(?<![\\w.-])${escaped}(?![\\w-])`, 'gi');
+}
+
 /**
  * Parses markdown rules file and extracts configuration
  */
@@ -279,19 +405,12 @@ export class RulesParser {
       }
 
       // Parse framework templates
-      const javaTemplateMatch = content.match(/#### Java\/Carina Template\s*```java\s*([\s\S]*?)\s*```/);
-      if (javaTemplateMatch) {
-        const javaFramework = (rules.frameworks as FrameworkConfig[]).find((f: FrameworkConfig) => f.name === 'java-carina');
-        if (javaFramework) {
-          javaFramework.templates.testMethod = javaTemplateMatch[1].trim();
-        }
-      }
-
-      const jsTemplateMatch = content.match(/#### JavaScript\/Jest Template\s*```javascript\s*([\s\S]*?)\s*```/);
-      if (jsTemplateMatch) {
-        const jsFramework = (rules.frameworks as FrameworkConfig[]).find((f: FrameworkConfig) => f.name === 'javascript-jest');
-        if (jsFramework) {
-          jsFramework.templates.testSuite = jsTemplateMatch[1].trim();
+      for (const section of TEMPLATE_SECTIONS) {
+        const escaped = section.heading.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const match = content.match(new RegExp(`#### ${escaped} Template\\s*\`\`\`${section.fence}\\s*([\\s\\S]*?)\\s*\`\`\``));
+        const framework = (rules.frameworks as FrameworkConfig[]).find((f: FrameworkConfig) => f.name === section.framework);
+        if (match && framework) {
+          framework.templates[section.slot] = match[1].trim();
         }
       }
 
@@ -346,8 +465,7 @@ export class RulesParser {
 
       // Check keywords
       for (const keyword of framework.keywords) {
-        const regex = new RegExp(keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
-        const matches = implementationContext.match(regex);
+        const matches = implementationContext.match(keywordRegex(keyword));
         if (matches) {
           score += matches.length * 2; // Keywords are weighted more
         }
@@ -355,8 +473,7 @@ export class RulesParser {
 
       // Check imports
       for (const importPattern of framework.imports) {
-        const regex = new RegExp(importPattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
-        const matches = implementationContext.match(regex);
+        const matches = implementationContext.match(keywordRegex(importPattern));
         if (matches) {
           score += matches.length;
         }
@@ -364,8 +481,7 @@ export class RulesParser {
 
       // Check file patterns (if context includes file paths)
       for (const pattern of framework.filePatterns) {
-        const regex = new RegExp(pattern.replace(/\*/g, '.*').replace(/\./g, '\\.'), 'gi');
-        const matches = implementationContext.match(regex);
+        const matches = implementationContext.match(filePatternRegex(pattern));
         if (matches) {
           score += matches.length;
         }
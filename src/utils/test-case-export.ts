@@ -0,0 +1,357 @@
+/**
+ * Test case export to CSV, XLSX, Gherkin `.feature` files and TestRail XML.
+ *
+ * Cases are first normalised into `ExportCase` records (custom fields keyed by
+ * their display names from the project's fields layout), then rendered per
+ * format. Suites become sections (TestRail), features (Gherkin) or a
+ * `Suite` column (CSV/XLSX).
+ */
+
+import type { FieldLayoutItem } from "../api/reporting-client.js";
+import type { ZebrunnerTestSuite } from "../types/core.js";
+import { toCsv } from "./csv.js";
+import { buildXlsx } from "./xlsx.js";
+
+export type ExportFormat = "csv" | "xlsx" | "gherkin" | "testrail_xml";
+
+export interface ExportStep {
+  action: string;
+  expectedResult: string;
+}
+
+export interface ExportCase {
+  key: string;
+  title: string;
+  suiteId: number | null;
+  /** Suite path from the project root, e.g. `Web > Checkout`. */
+  suitePath: string;
+  priority: string;
+  automationState: string;
+  draft: boolean;
+  deprecated: boolean;
+  description: string;
+  preConditions: string;
+  postConditions: string;
+  steps: ExportStep[];
+  /** Custom field display name → value, in fields-layout order. */
+  customFields: Array<{ name: string; value: string }>;
+}
+
+/** One suite of the exported subtree with its own cases and child suites. */
+export interface ExportSection {
+  id: number;
+  name: string;
+  cases: ExportCase[];
+  children: ExportSection[];
+}
+
+export interface ExportFile {
+  /** File name relative to the output folder (Gherkin) or the single output file. */
+  name: string;
+  content: string | Buffer;
+}
+
+/** Without an output path, exports of more cases than this are refused. */
+export const EXPORT_INLINE_MAX_CASES = 100;
+
+const BASE_COLUMNS = [
+  "Key", "Title", "Suite", "Priority", "Automation State", "Draft", "Deprecated",
+  "Description", "Preconditions", "Postconditions", "Steps", "Expected Results",
+];
+
+function text(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(text).filter(Boolean).join(", ");
+  if (typeof value === "object") {
+    const rec = value as Record<string, unknown>;
+    return text(rec.name ?? rec.username ?? rec.email ?? rec.value ?? JSON.stringify(value));
+  }
+  return String(value);
+}
+
+/**
+ * Normalises a full test case (GET shape). `displayMap` is
+ * `FormatProcessor.buildCustomFieldDisplayMap(fieldsLayout)`; unknown custom
+ * fields keep their API key as the name.
+ */
+export function toExportCase(tc: Record<string, any>, suitePath: string, displayMap: Map<string, FieldLayoutItem>): ExportCase {
+  const steps: ExportStep[] = (Array.isArray(tc.steps) ? tc.steps : []).map((s: Record<string, any>) => ({
+    action: s.sharedStepsId ? `[Shared steps #${s.sharedStepsId}]` : text(s.action ?? s.step ?? s.actionText ?? s.instruction),
+    expectedResult: text(s.expectedResult ?? s.expected ?? s.expectedText ?? s.result),
+  }));
+
+  const customFields = Object.entries((tc.customField ?? {}) as Record<string, unknown>)
+    .map(([apiKey, value]) => {
+      const meta = displayMap.get(apiKey);
+      return { name: meta?.name ?? apiKey, value: text(value), position: meta?.relativePosition ?? 999 };
+    })
+    .filter(f => f.value !== "")
+    .sort((a, b) => a.position - b.position || a.name.localeCompare(b.name))
+    .map(({ name, value }) => ({ name, value }));
+
+  return {
+    key: tc.key ?? `id-${tc.id}`,
+    title: tc.title ?? "",
+    suiteId: tc.testSuite?.id ?? null,
+    suitePath,
+    priority: text(tc.priority?.name),
+    automationState: text(tc.automationState?.name),
+    draft: Boolean(tc.draft),
+    deprecated: Boolean(tc.deprecated),
+    description: text(tc.description),
+    preConditions: text(tc.preConditions),
+    postConditions: text(tc.postConditions),
+    steps,
+    customFields,
+  };
+}
+
+/**
+ * Nests the cases under the exported suite and its descendants. Cases whose
+ * suite is outside the subtree are ignored.
+ */
+export function buildExportSections(rootSuiteId: number, suites: ZebrunnerTestSuite[], cases: ExportCase[]): ExportSection {
+  const sections = new Map<number, ExportSection>();
+  for (const s of suites) {
+    sections.set(s.id, { id: s.id, name: s.title || s.name || `Suite ${s.id}`, cases: [], children: [] });
+  }
+  const root = sections.get(rootSuiteId);
+  if (!root) throw new Error(`Suite ${rootSuiteId} is not part of the exported suites`);
+  for (const s of suites) {
+    if (s.id !== rootSuiteId && s.parentSuiteId) sections.get(s.parentSuiteId)?.children.push(sections.get(s.id)!);
+  }
+  for (const c of cases) {
+    if (c.suiteId !== null) sections.get(c.suiteId)?.cases.push(c);
+  }
+  return root;
+}
+
+/** Custom field columns present in any case, in first-seen (layout) order. */
+export function customFieldColumns(cases: ExportCase[]): string[] {
+  const names: string[] = [];
+  for (const c of cases) for (const f of c.customFields) if (!names.includes(f.name)) names.push(f.name);
+  return names;
+}
+
+function numbered(values: string[]): string {
+  return values.map((v, i) => `${i + 1}. ${v}`).join("\n");
+}
+
+function caseRows(cases: ExportCase[]): { headers: string[]; rows: unknown[][] } {
+  const custom = customFieldColumns(cases);
+  return {
+    headers: [...BASE_COLUMNS, ...custom],
+    rows: cases.map(c => {
+      const values = new Map(c.customFields.map(f => [f.name, f.value]));
+      return [
+        c.key, c.title, c.suitePath, c.priority, c.automationState,
+        c.draft ? "Yes" : "No", c.deprecated ? "Yes" : "No",
+        c.description, c.preConditions, c.postConditions,
+        numbered(c.steps.map(s => s.action)), numbered(c.steps.map(s => s.expectedResult)),
+        ...custom.map(name => values.get(name) ?? ""),
+      ];
+    }),
+  };
+}
+
+/** One row per test case; steps and expected results are numbered lists. */
+export function formatCasesCsv(cases: ExportCase[]): string {
+  const { headers, rows } = caseRows(cases);
+  return toCsv(headers, rows);
+}
+
+/** Workbook with a "Test Cases" sheet (as the CSV) and a "Steps" sheet with one row per step. */
+export function formatCasesXlsx(cases: ExportCase[]): Buffer {
+  const { headers, rows } = caseRows(cases);
+  const stepRows = cases.flatMap(c => c.steps.map((s, i) => [c.key, c.title, i + 1, s.action, s.expectedResult]));
+  return buildXlsx([
+    { name: "Test Cases", headers, rows },
+    { name: "Steps", headers: ["Key", "Title", "Step", "Action", "Expected Result"], rows: stepRows },
+  ]);
+}
+
+// ---------- Gherkin ----------
+
+const KEYWORD_RE = /^(Given|When|Then|And|But)\s/;
+/** Description lines a Gherkin parser would read as a header, step, tag, table, comment or doc string. */
+const RESERVED_LINE_RE = /^(?:(?:Feature|Rule|Background|Scenario Outline|Scenario Template|Scenario|Examples?|Scenarios):|(?:Given|When|Then|And|But|\*)\s|[@|#]|"""|```)/;
+
+function tagValue(value: string): string {
+  return value.trim().replace(/\s+/g, "_");
+}
+
+/**
+ * Renders free text as Gherkin step lines. Lines that already start with a
+ * keyword are kept; others get `first` for the first line and `And` after
+ * that. Markdown tables become data tables and fenced blocks doc strings.
+ */
+function gherkinLines(value: string, first: string, indent: string): string[] {
+  const out: string[] = [];
+  let keyword = first;
+  let fence = false;
+  for (const raw of value.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line.startsWith("```")) {
+      out.push(`${indent}  """`);
+      fence = !fence;
+      continue;
+    }
+    if (fence) {
+      out.push(`${indent}  ${raw}`);
+      continue;
+    }
+    if (line === "") continue;
+    if (line.startsWith("|")) {
+      // Skip markdown separator rows such as | --- | --- |
+      if (!/^\|[\s:|-]+\|$/.test(line)) out.push(`${indent}  ${line}`);
+      continue;
+    }
+    const stripped = line.replace(/^\d+[.)]\s+/, "");
+    out.push(KEYWORD_RE.test(stripped) ? `${indent}${stripped}` : `${indent}${keyword} ${stripped}`);
+    keyword = "And";
+  }
+  if (fence) out.push(`${indent}  """`);
+  return out;
+}
+
+function scenarioLines(c: ExportCase): string[] {
+  const tags = [`@${c.key}`];
+  if (c.priority) tags.push(`@priority:${tagValue(c.priority)}`);
+  if (c.automationState) tags.push(`@automation:${tagValue(c.automationState)}`);
+  if (c.deprecated) tags.push("@deprecated");
+
+  const lines = [`  ${tags.join(" ")}`, `  Scenario: ${c.title.replace(/\r?\n/g, " ")}`];
+  for (const raw of c.description.split(/\r?\n/)) {
+    // Escape description lines that would otherwise end the description
+    const line = raw.trim();
+    if (line) lines.push(`    ${RESERVED_LINE_RE.test(line) ? "\\" : ""}${line}`);
+  }
+  lines.push(...gherkinLines(c.preConditions, "Given", "    "));
+  for (const step of c.steps) {
+    lines.push(...gherkinLines(step.action, "When", "    "));
+    lines.push(...gherkinLines(step.expectedResult, "Then", "    "));
+  }
+  return lines;
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "suite";
+}
+
+/** File name (without extension) for an export of one suite, e.g. `MCP_checkout`. */
+export function exportFileBase(projectKey: string, suiteName: string): string {
+  return `${projectKey.toUpperCase()}_${slug(suiteName)}`;
+}
+
+/**
+ * One feature file per suite that has cases, scenarios tagged with their case
+ * key. Meant for BDD tooling and review, not as a lossless copy: pre-conditions
+ * become Given steps and steps without an expected result run together, so
+ * import_gherkin would not restore the same case.
+ */
+export function formatCasesGherkin(cases: ExportCase[]): ExportFile[] {
+  const bySuite = new Map<string, ExportCase[]>();
+  for (const c of cases) {
+    const list = bySuite.get(c.suitePath) ?? [];
+    list.push(c);
+    bySuite.set(c.suitePath, list);
+  }
+
+  const files: ExportFile[] = [];
+  const used = new Set<string>();
+  for (const [suitePath, list] of bySuite) {
+    let name = `${slug(suitePath)}.feature`;
+    for (let n = 2; used.has(name); n++) name = `${slug(suitePath)}_${n}.feature`;
+    used.add(name);
+    const featureName = suitePath.split(" > ").pop() || suitePath;
+    const lines = [`Feature: ${featureName}`, `  Exported from Zebrunner suite: ${suitePath}`];
+    for (const c of list) lines.push("", ...scenarioLines(c));
+    files.push({ name, content: lines.join("\n") + "\n" });
+  }
+  return files;
+}
+
+// ---------- TestRail XML ----------
+
+function xml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function element(name: string, value: string, indent: string): string {
+  return value ? `${indent}<${name}>${xml(value)}</${name}>` : `${indent}<${name}/>`;
+}
+
+/** TestRail custom field system names are lower snake case. */
+function systemName(displayName: string): string {
+  const name = displayName.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  return /^[a-z]/.test(name) ? name : `field_${name}`;
+}
+
+function caseXml(c: ExportCase, indent: string): string[] {
+  const i2 = `${indent}  `;
+  const i3 = `${i2}  `;
+  const lines = [
+    `${indent}<case>`,
+    element("title", c.title, i2),
+    `${i2}<template>Test Case (Steps)</template>`,
+    element("priority", c.priority, i2),
+    element("references", c.key, i2),
+    `${i2}<custom>`,
+    element("preconds", [c.description, c.preConditions].filter(Boolean).join("\n\n"), i3),
+  ];
+  if (c.steps.length > 0) {
+    lines.push(`${i3}<steps_separated>`);
+    c.steps.forEach((s, n) => {
+      lines.push(
+        `${i3}  <step>`,
+        `${i3}    <index>${n + 1}</index>`,
+        element("content", s.action, `${i3}    `),
+        element("expected", s.expectedResult, `${i3}    `),
+        `${i3}  </step>`,
+      );
+    });
+    lines.push(`${i3}</steps_separated>`);
+  }
+  if (c.automationState) lines.push(element("automation_state", c.automationState, i3));
+  if (c.postConditions) lines.push(element("postconditions", c.postConditions, i3));
+  for (const f of c.customFields) lines.push(element(systemName(f.name), f.value, i3));
+  lines.push(`${i2}</custom>`, `${indent}</case>`);
+  return lines;
+}
+
+function sectionXml(section: ExportSection, indent: string): string[] {
+  const i2 = `${indent}  `;
+  const lines = [`${indent}<section>`, element("name", section.name, i2)];
+  if (section.cases.length > 0) {
+    lines.push(`${i2}<cases>`);
+    for (const c of section.cases) lines.push(...caseXml(c, `${i2}  `));
+    lines.push(`${i2}</cases>`);
+  }
+  if (section.children.length > 0) {
+    lines.push(`${i2}<sections>`);
+    for (const child of section.children) lines.push(...sectionXml(child, `${i2}  `));
+    lines.push(`${i2}</sections>`);
+  }
+  lines.push(`${indent}</section>`);
+  return lines;
+}
+
+/**
+ * TestRail suite import XML: the exported suite and its descendants become
+ * nested sections; steps use the "Test Case (Steps)" template.
+ */
+export function formatCasesTestRailXml(root: ExportSection, suiteName: string): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    "<suite>",
+    element("name", suiteName, "  "),
+    "  <sections>",
+    ...sectionXml(root, "    "),
+    "  </sections>",
+    "</suite>",
+  ].join("\n") + "\n";
+}
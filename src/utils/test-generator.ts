@@ -7,7 +7,10 @@ import { RulesParser, FrameworkConfig, RulesConfig } from './rules-parser.js';
 export interface TemplateVariables {
   TEST_DESCRIPTION: string;
   TEST_METHOD_NAME: string;
+  TEST_FUNCTION_NAME: string;
   TEST_SUITE_NAME: string;
+  TEST_CLASS_NAME: string;
+  TEST_CASE_KEY: string;
   SETUP_CODE: string;
   TEARDOWN_CODE: string;
   STEPS: Array<{
@@ -30,6 +33,10 @@ export interface TestGenerationOptions {
   includeAssertionTemplates: boolean;
   generatePageObjects: boolean;
   includeDataProviders: boolean;
+  /** Tag the test with the Zebrunner case key (Carina @TestCaseKey, Playwright annotation, pytest marker) */
+  annotateCaseKey?: boolean;
+  /** Module specifier (or Java class name) the test imports the page object from */
+  pageObjectImport?: string;
   customVariables?: { [key: string]: any };
 }
 
@@ -38,6 +45,8 @@ export interface TestGenerationOptions {
  */
 export interface GeneratedTest {
   framework: string;
+  /** Language of the generated code (java, javascript, typescript, python) */
+  language: string;
   testCode: string;
   setupCode?: string;
   teardownCode?: string;
@@ -48,6 +57,51 @@ export interface GeneratedTest {
   qualityScore: number;
 }
 
+/**
+ * Code generator family a framework config belongs to
+ */
+export type FrameworkFamily = 'java' | 'jest' | 'playwright' | 'cypress' | 'pytest' | 'webdriverio' | 'generic';
+
+/**
+ * Maps a framework name to the generator family that produces its code
+ */
+export function getFrameworkFamily(frameworkName: string): FrameworkFamily {
+  const name = frameworkName.toLowerCase();
+  if (name.includes('playwright')) return 'playwright';
+  if (name.includes('cypress')) return 'cypress';
+  if (name.includes('pytest') || name.includes('python')) return 'pytest';
+  if (name.includes('webdriverio') || name.includes('wdio')) return 'webdriverio';
+  // 'javascript' contains 'java', so it has to be checked first
+  if (name.includes('javascript') || name.includes('jest')) return 'jest';
+  if (name.includes('java')) return 'java';
+  return 'generic';
+}
+
+/**
+ * UI element or field referenced by a quoted name in the test case steps
+ */
+interface StepElement {
+  name: string;
+  label: string;
+  kind: 'action' | 'field' | 'text';
+}
+
+/**
+ * What generated steps reference besides the framework globals
+ */
+interface StepRefs {
+  /** Variable holding the page object, when one is generated */
+  pageObject?: string;
+  /** Whether a data provider supplies `testData` */
+  testData: boolean;
+}
+
+const FILL_KEYWORDS = ['fill', 'enter', 'input', 'type'];
+const CLICK_KEYWORDS = ['click', 'tap', 'press', 'select'];
+const NAVIGATION_KEYWORDS = ['navigate', 'go to', 'open'];
+const VISIBILITY_KEYWORDS = ['visible', 'displayed', 'shown', 'appears'];
+const HTTP_REQUEST = /\b(GET|POST|PUT|PATCH|DELETE)\s+(\/[^\s"'`,]*)/i;
+
 /**
  * Test generator utility for creating draft tests from Zebrunner test cases
  */
@@ -91,10 +145,14 @@ export class TestGenerator {
     );
 
     // Generate test code
-    const testCode = this.renderTemplate(
+    let testCode = this.renderTemplate(
       framework.templates.testMethod || framework.templates.testSuite || '',
       templateVars
     );
+    testCode = this.prepareTestBody(testCode, testCase, framework, implementationContext, options);
+    if (options.annotateCaseKey && testCase.key) {
+      testCode = this.annotateCaseKey(testCode, framework, testCase.key);
+    }
 
     // Generate additional components
     const setupCode = options.includeSetupTeardown ? 
@@ -110,7 +168,7 @@ export class TestGenerator {
       this.generateDataProviderCode(testCase, framework) : undefined;
 
     // Generate imports
-    const imports = this.generateImports(framework, implementationContext, options);
+    const imports = this.generateImports(testCase, framework, implementationContext, options);
 
     // Generate recommendations
     const recommendations = this.generateRecommendations(testCase, framework, rules, implementationContext);
@@ -120,6 +178,7 @@ export class TestGenerator {
 
     return {
       framework: framework.name,
+      language: this.getLanguage(framework),
       testCode,
       setupCode,
       teardownCode,
@@ -131,6 +190,28 @@ export class TestGenerator {
     };
   }
 
+  private getFamily(framework: FrameworkConfig): FrameworkFamily {
+    return getFrameworkFamily(framework.name);
+  }
+
+  /**
+   * Language of the generated code, used for code fences
+   */
+  private getLanguage(framework: FrameworkConfig): string {
+    if (framework.language) return framework.language;
+    const family = this.getFamily(framework);
+    if (family === 'java') return 'java';
+    if (family === 'pytest') return 'python';
+    return 'javascript';
+  }
+
+  /**
+   * WebdriverIO targets Appium (accessibility id locators) when the context mentions mobile
+   */
+  private isMobileContext(implementationContext: string): boolean {
+    return /appium|android|\bios\b|mobile|driver\./i.test(implementationContext);
+  }
+
   /**
    * Generates template variables from test case and context
    */
@@ -142,14 +223,20 @@ export class TestGenerator {
     options: TestGenerationOptions
   ): Promise<TemplateVariables> {
     const testMethodName = this.generateTestMethodName(testCase.title || testCase.key || 'UnknownTest');
-    const testSuiteName = this.generateTestSuiteName(testCase.testSuite?.name || 'TestSuite');
+    const testSuiteName = this.generateTestSuiteName(this.getSuiteName(testCase));
+    const refs: StepRefs = {
+      pageObject: options.generatePageObjects
+        ? this.lowerFirst(this.getPageObjectClassName(testCase, framework, implementationContext))
+        : undefined,
+      testData: options.includeDataProviders,
+    };
 
     const steps = testCase.steps?.map((step, index) => ({
       index: index + 1,
       action: step.action || '',
       expectedResult: step.expectedResult || '',
-      stepCode: this.generateStepCode(step.action || '', framework, implementationContext, rules),
-      validationCode: this.generateValidationCode(step.expectedResult || '', framework, implementationContext, rules),
+      stepCode: this.generateStepCode(step.action || '', framework, implementationContext, rules, refs),
+      validationCode: this.generateValidationCode(step.expectedResult || '', framework, implementationContext, rules, refs),
     })) || [];
 
     const setupCode = this.generateSetupCode(framework, implementationContext, rules);
@@ -158,7 +245,10 @@ export class TestGenerator {
     return {
       TEST_DESCRIPTION: testCase.title || testCase.key || 'Unknown Test',
       TEST_METHOD_NAME: testMethodName,
+      TEST_FUNCTION_NAME: `test_${this.toSnakeCase(testCase.title || testCase.key || 'unknown')}`,
       TEST_SUITE_NAME: testSuiteName,
+      TEST_CLASS_NAME: this.toPascalCase(testSuiteName) || 'Suite',
+      TEST_CASE_KEY: testCase.key || '',
       SETUP_CODE: setupCode,
       TEARDOWN_CODE: teardownCode,
       STEPS: steps,
@@ -187,29 +277,134 @@ export class TestGenerator {
     return suiteName.replace(/[^a-zA-Z0-9\s]/g, '').replace(/\s+/g, ' ').trim();
   }
 
+  private getSuiteName(testCase: ZebrunnerTestCase): string {
+    return testCase.testSuite?.name || testCase.testSuite?.title || 'TestSuite';
+  }
+
+  private words(text: string): string[] {
+    return text.replace(/[^a-zA-Z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+  }
+
+  private toCamelCase(text: string): string {
+    const name = this.words(text)
+      .map((w, i) => i === 0 ? w.toLowerCase() : w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
+      .join('');
+    return /^[0-9]/.test(name) ? `_${name}` : name || 'element';
+  }
+
+  private toPascalCase(text: string): string {
+    return this.words(text).map(w => w.charAt(0).toUpperCase() + w.slice(1)).join('');
+  }
+
+  private toSnakeCase(text: string): string {
+    return this.words(text).map(w => w.toLowerCase()).join('_') || 'unknown';
+  }
+
+  private toSlug(text: string): string {
+    return this.words(text).map(w => w.toLowerCase()).join('-');
+  }
+
+  /**
+   * Returns the first quoted name in the text, as written
+   */
+  private extractQuotedText(text: string): string | null {
+    const matches = text.match(/"([^"]+)"/);
+    return matches ? matches[1].trim() : null;
+  }
+
+  /**
+   * Escapes a value for a single-quoted JavaScript/TypeScript string
+   */
+  private jsString(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+  }
+
+  /**
+   * Escapes a value for a double-quoted Python string
+   */
+  private pyString(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+  }
+
+  /**
+   * Checks the step wording for keywords, ignoring quoted element names such as "Login"
+   */
+  private hasKeyword(text: string, keywords: string[]): boolean {
+    const lower = text.replace(/"[^"]*"/g, ' ').toLowerCase();
+    return keywords.some(keyword => lower.includes(keyword));
+  }
+
   /**
+   * Collects quoted element and field names from the steps, used for page objects and test data
+   */
+  private collectElements(testCase: ZebrunnerTestCase): StepElement[] {
+    const elements = new Map<string, StepElement>();
+    const add = (label: string | null, kind: StepElement['kind']) => {
+      if (!label) return;
+      const name = this.toCamelCase(label);
+      if (!elements.has(name)) elements.set(name, { name, label, kind });
+    };
+
+    for (const step of testCase.steps || []) {
+      const action = step.action || '';
+      const label = this.extractQuotedText(action);
+      if (this.hasKeyword(action, FILL_KEYWORDS)) add(label, 'field');
+      else if (this.hasKeyword(action, CLICK_KEYWORDS)) add(label, 'action');
+      add(this.extractQuotedText(step.expectedResult || ''), 'text');
+    }
+    return [...elements.values()];
+  }
+
+  /**
+   * Page object member for a quoted element when page objects are generated, otherwise the inline locator
+   */
+  private elementRef(label: string, refs: StepRefs, locator: string): string {
+    return refs.pageObject ? `${refs.pageObject}.${this.toCamelCase(label)}` : locator;
+  }
+
+  /**
+   * Value typed into a field: the data provider entry, or a placeholder to replace when there is none
+   */
+  private fieldValue(label: string, refs: StepRefs): string {
+    return refs.testData ? `testData.${this.toCamelCase(label)}` : `'${this.jsString(`TODO: ${label}`)}'`;
+  }
+
+/**
    * Generates step implementation code
    */
   private generateStepCode(
     action: string,
     framework: FrameworkConfig,
     implementationContext: string,
-    rules: RulesConfig
+    rules: RulesConfig,
+    refs: StepRefs
   ): string {
     const actionLower = action.toLowerCase();
-
-    // Check for common patterns
-    for (const [patternName, pattern] of Object.entries(rules.quality.patterns)) {
-      if (this.matchesPattern(actionLower, patternName)) {
-        return this.applyPattern(action, pattern.pattern, framework);
+    const family = this.getFamily(framework);
+
+    // Quality patterns are written in Java/Jest idiom, so they only apply there
+    if (family === 'java' || family === 'jest') {
+      for (const [patternName, pattern] of Object.entries(rules.quality.patterns)) {
+        if (this.matchesPattern(actionLower, patternName)) {
+          return this.applyPattern(action, pattern.pattern, framework);
+        }
       }
     }
 
     // Framework-specific generation
-    if (framework.name.includes('java')) {
-      return this.generateJavaStepCode(action, implementationContext);
-    } else if (framework.name.includes('javascript')) {
-      return this.generateJavaScriptStepCode(action, implementationContext);
+    switch (family) {
+      case 'java':
+        return this.generateJavaStepCode(action, implementationContext);
+      case 'jest':
+        return this.generateJavaScriptStepCode(action, implementationContext);
+      case 'playwright':
+        return this.generatePlaywrightStepCode(action, refs);
+      case 'cypress':
+        return this.generateCypressStepCode(action, refs);
+      case 'pytest':
+        return this.generatePytestStepCode(action);
+      case 'webdriverio':
+        return this.generateWebdriverIOStepCode(action, implementationContext, refs);
     }
 
     return `// TODO: Implement step: ${action}`;
@@ -222,22 +417,39 @@ export class TestGenerator {
     expectedResult: string,
     framework: FrameworkConfig,
     implementationContext: string,
-    rules: RulesConfig
+    rules: RulesConfig,
+    refs: StepRefs
   ): string {
     const expectedLower = expectedResult.toLowerCase();
+    const family = this.getFamily(framework);
+
+    if (!expectedResult.trim()) {
+      return `${family === 'pytest' ? '#' : '//'} TODO: Add validation for this step`;
+    }
 
     // Check for common validation patterns
-    for (const [patternName, pattern] of Object.entries(rules.quality.patterns)) {
-      if (this.matchesValidationPattern(expectedLower, patternName)) {
-        return this.applyPattern(expectedResult, pattern.validation, framework);
+    if (family === 'java' || family === 'jest') {
+      for (const [patternName, pattern] of Object.entries(rules.quality.patterns)) {
+        if (this.matchesValidationPattern(expectedLower, patternName)) {
+          return this.applyPattern(expectedResult, pattern.validation, framework);
+        }
       }
     }
 
     // Framework-specific validation
-    if (framework.name.includes('java')) {
-      return this.generateJavaValidationCode(expectedResult, implementationContext);
-    } else if (framework.name.includes('javascript')) {
-      return this.generateJavaScriptValidationCode(expectedResult, implementationContext);
+    switch (family) {
+      case 'java':
+        return this.generateJavaValidationCode(expectedResult, implementationContext);
+      case 'jest':
+        return this.generateJavaScriptValidationCode(expectedResult, implementationContext);
+      case 'playwright':
+        return this.generatePlaywrightValidationCode(expectedResult, refs);
+      case 'cypress':
+        return this.generateCypressValidationCode(expectedResult, refs);
+      case 'pytest':
+        return this.generatePytestValidationCode(expectedResult);
+      case 'webdriverio':
+        return this.generateWebdriverIOValidationCode(expectedResult, implementationContext, refs);
     }
 
     return `// TODO: Validate: ${expectedResult}`;
@@ -251,14 +463,31 @@ export class TestGenerator {
     implementationContext: string,
     rules: RulesConfig
   ): string {
-    if (framework.name.includes('java')) {
-      return `// Test setup
+    switch (this.getFamily(framework)) {
+      case 'java':
+        return `// Test setup
 WebDriver driver = getDriver();
 HomePage homePage = new HomePage(driver);`;
-    } else if (framework.name.includes('javascript')) {
-      return `// Test setup
+      case 'jest':
+        return `// Test setup
 const page = await browser.newPage();
 await page.goto(process.env.BASE_URL);`;
+      case 'playwright':
+        // baseURL comes from playwright.config
+        return `await page.goto('/');`;
+      case 'cypress':
+        // baseUrl comes from cypress.config
+        return `cy.visit('/');`;
+      case 'pytest':
+        return `# conftest.py
+@pytest.fixture
+def api_client():
+    with httpx.Client(base_url=os.environ["BASE_URL"], timeout=30) as client:
+        yield client`;
+      case 'webdriverio':
+        return this.isMobileContext(implementationContext)
+          ? `await driver.activateApp(process.env.APP_ID);`
+          : `await browser.url('/');`;
     }
     return '// TODO: Add test setup';
   }
@@ -271,12 +500,23 @@ await page.goto(process.env.BASE_URL);`;
     implementationContext: string,
     rules: RulesConfig
   ): string {
-    if (framework.name.includes('java')) {
-      return `// Test cleanup
+    switch (this.getFamily(framework)) {
+      case 'java':
+        return `// Test cleanup
 // Driver cleanup handled by framework`;
-    } else if (framework.name.includes('javascript')) {
-      return `// Test cleanup
+      case 'jest':
+        return `// Test cleanup
 await page.close();`;
+      case 'playwright':
+        return `// Page and browser context are closed by the Playwright test fixture`;
+      case 'cypress':
+        return `// Cypress clears cookies and local storage between tests`;
+      case 'pytest':
+        return `# The api_client fixture closes the client after the yield`;
+      case 'webdriverio':
+        return this.isMobileContext(implementationContext)
+          ? `await driver.terminateApp(process.env.APP_ID);`
+          : `await browser.deleteCookies();`;
     }
     return '// TODO: Add test cleanup';
   }
@@ -367,6 +607,197 @@ ${screenName.toLowerCase()}Page.open();`;
     return `// TODO: Implement JavaScript validation: ${expectedResult}`;
   }
 
+  /**
+   * Generates Playwright step code using role, label and test id locators
+   */
+  private generatePlaywrightStepCode(action: string, refs: StepRefs): string {
+    const label = this.extractQuotedText(action);
+
+    if (this.hasKeyword(action, ['login', 'log in', 'sign in'])) {
+      return `await page.getByLabel('Username').fill(process.env.TEST_USERNAME ?? '');
+await page.getByLabel('Password').fill(process.env.TEST_PASSWORD ?? '');
+await page.getByRole('button', { name: 'Log in' }).click();`;
+    }
+
+    if (label && this.hasKeyword(action, FILL_KEYWORDS)) {
+      return `await ${this.elementRef(label, refs, `page.getByLabel('${this.jsString(label)}')`)}.fill(${this.fieldValue(label, refs)});`;
+    }
+
+    if (this.hasKeyword(action, CLICK_KEYWORDS)) {
+      return label
+        ? `await ${this.elementRef(label, refs, `page.getByRole('button', { name: '${this.jsString(label)}' })`)}.click();`
+        : `await page.getByTestId('element').click(); // TODO: ${action}`;
+    }
+
+    if (this.hasKeyword(action, NAVIGATION_KEYWORDS)) {
+      return `await page.goto('/${label ? this.toSlug(label) : ''}');`;
+    }
+
+    return `// TODO: Implement Playwright action: ${action}`;
+  }
+
+  /**
+   * Generates Playwright web-first assertions
+   */
+  private generatePlaywrightValidationCode(expectedResult: string, refs: StepRefs): string {
+    const label = this.extractQuotedText(expectedResult);
+    const expectedLower = expectedResult.toLowerCase();
+
+    if (label && (expectedLower.includes('screen') || expectedLower.includes('page'))) {
+      return `await expect(page).toHaveURL(/${this.toSlug(label)}/);`;
+    }
+
+    if (label && (this.hasKeyword(expectedResult, VISIBILITY_KEYWORDS) || expectedLower.includes('contain'))) {
+      return `await expect(${this.elementRef(label, refs, `page.getByText('${this.jsString(label)}')`)}).toBeVisible();`;
+    }
+
+    return `// TODO: Implement Playwright validation: ${expectedResult}`;
+  }
+
+  /**
+   * Generates Cypress step code using data-cy selectors
+   */
+  private generateCypressStepCode(action: string, refs: StepRefs): string {
+    const label = this.extractQuotedText(action);
+
+    if (this.hasKeyword(action, ['login', 'log in', 'sign in'])) {
+      return `cy.get('[data-cy="username"]').type(Cypress.env('username'));
+cy.get('[data-cy="password"]').type(Cypress.env('password'), { log: false });
+cy.get('[data-cy="login"]').click();`;
+    }
+
+    if (label && this.hasKeyword(action, FILL_KEYWORDS)) {
+      return `${this.elementRef(label, refs, `cy.get('[data-cy="${this.toSlug(label)}"]')`)}.clear().type(${this.fieldValue(label, refs)});`;
+    }
+
+    if (this.hasKeyword(action, CLICK_KEYWORDS)) {
+      return label
+        ? `${this.elementRef(label, refs, `cy.contains('button', '${this.jsString(label)}')`)}.click();`
+        : `cy.get('[data-cy="element"]').click(); // TODO: ${action}`;
+    }
+
+    if (this.hasKeyword(action, NAVIGATION_KEYWORDS)) {
+      return `cy.visit('/${label ? this.toSlug(label) : ''}');`;
+    }
+
+    return `// TODO: Implement Cypress action: ${action}`;
+  }
+
+  /**
+   * Generates Cypress assertions
+   */
+  private generateCypressValidationCode(expectedResult: string, refs: StepRefs): string {
+    const label = this.extractQuotedText(expectedResult);
+    const expectedLower = expectedResult.toLowerCase();
+
+    if (label && (expectedLower.includes('screen') || expectedLower.includes('page'))) {
+      return `cy.location('pathname').should('include', '/${this.toSlug(label)}');`;
+    }
+
+    if (label && (this.hasKeyword(expectedResult, VISIBILITY_KEYWORDS) || expectedLower.includes('contain'))) {
+      return `${this.elementRef(label, refs, `cy.contains('${this.jsString(label)}')`)}.should('be.visible');`;
+    }
+
+    return `// TODO: Implement Cypress validation: ${expectedResult}`;
+  }
+
+  /**
+   * Generates pytest step code for API tests (httpx client fixture)
+   */
+  private generatePytestStepCode(action: string): string {
+    const request = action.match(HTTP_REQUEST);
+    if (request) {
+      const method = request[1].toLowerCase();
+      const body = ['post', 'put', 'patch'].includes(method) ? ', json=payload' : '';
+      const payload = body ? 'payload = {}  # TODO: request body\n' : '';
+      return `${payload}response = api_client.${method}("${this.pyString(request[2])}"${body})`;
+    }
+
+    if (this.hasKeyword(action, ['login', 'log in', 'sign in', 'authenticate', 'token'])) {
+      return `api_client.headers["Authorization"] = f"Bearer {os.environ['API_TOKEN']}"`;
+    }
+
+    return `# TODO: Implement step: ${action}`;
+  }
+
+  /**
+   * Generates pytest assertions on the last response
+   */
+  private generatePytestValidationCode(expectedResult: string): string {
+    const status = expectedResult.match(/\b([1-5]\d{2})\b/);
+    if (status && /status|code|respon|return/i.test(expectedResult)) {
+      return `assert response.status_code == ${status[1]}, response.text`;
+    }
+
+    const label = this.extractQuotedText(expectedResult);
+    if (label) {
+      return `assert "${this.pyString(label)}" in response.text`;
+    }
+
+    return `# TODO: Validate: ${expectedResult}`;
+  }
+
+  /**
+   * Selector for WebdriverIO: accessibility id on mobile, data-testid on web
+   */
+  private wdioSelector(label: string, mobile: boolean): string {
+    return mobile ? `~${this.jsString(label)}` : `[data-testid="${this.toSlug(label)}"]`;
+  }
+
+  /**
+   * Generates WebdriverIO step code (Appium when the context is mobile)
+   */
+  private generateWebdriverIOStepCode(action: string, implementationContext: string, refs: StepRefs): string {
+    const mobile = this.isMobileContext(implementationContext);
+    const label = this.extractQuotedText(action);
+
+    if (this.hasKeyword(action, ['login', 'log in', 'sign in'])) {
+      return `await $('${this.wdioSelector('username', mobile)}').setValue(process.env.TEST_USERNAME);
+await $('${this.wdioSelector('password', mobile)}').setValue(process.env.TEST_PASSWORD);
+await $('${this.wdioSelector('login', mobile)}').click();`;
+    }
+
+    if (label && this.hasKeyword(action, FILL_KEYWORDS)) {
+      return `await ${this.elementRef(label, refs, `$('${this.wdioSelector(label, mobile)}')`)}.setValue(${this.fieldValue(label, refs)});`;
+    }
+
+    if (this.hasKeyword(action, CLICK_KEYWORDS)) {
+      return label
+        ? `await ${this.elementRef(label, refs, `$('${this.wdioSelector(label, mobile)}')`)}.click();`
+        : `// TODO: Implement WebdriverIO action: ${action}`;
+    }
+
+    if (this.hasKeyword(action, NAVIGATION_KEYWORDS)) {
+      if (mobile) {
+        return label
+          ? `await ${this.elementRef(label, refs, `$('${this.wdioSelector(label, mobile)}')`)}.click();`
+          : `// TODO: Implement WebdriverIO navigation: ${action}`;
+      }
+      return `await browser.url('/${label ? this.toSlug(label) : ''}');`;
+    }
+
+    return `// TODO: Implement WebdriverIO action: ${action}`;
+  }
+
+  /**
+   * Generates WebdriverIO expect-webdriverio assertions
+   */
+  private generateWebdriverIOValidationCode(expectedResult: string, implementationContext: string, refs: StepRefs): string {
+    const mobile = this.isMobileContext(implementationContext);
+    const label = this.extractQuotedText(expectedResult);
+    const expectedLower = expectedResult.toLowerCase();
+
+    if (label && !mobile && (expectedLower.includes('screen') || expectedLower.includes('page'))) {
+      return `await expect(browser).toHaveUrl(expect.stringContaining('/${this.toSlug(label)}'));`;
+    }
+
+    if (label && (this.hasKeyword(expectedResult, VISIBILITY_KEYWORDS) || expectedLower.includes('screen') || expectedLower.includes('page'))) {
+      return `await expect(${this.elementRef(label, refs, `$('${this.wdioSelector(label, mobile)}')`)}).toBeDisplayed();`;
+    }
+
+    return `// TODO: Implement WebdriverIO validation: ${expectedResult}`;
+  }
+
   /**
    * Extracts element name from text
    */
@@ -398,57 +829,204 @@ ${screenName.toLowerCase()}Page.open();`;
     // Replace simple variables
     for (const [key, value] of Object.entries(variables)) {
       if (typeof value === 'string') {
-        result = result.replace(new RegExp(`{{${key}}}`, 'g'), value);
+        result = this.replacePlaceholder(result, `{{${key}}}`, value);
       }
     }
 
-    // Handle each loops
+    const renderItem = (loopTemplate: string, item: Record<string, unknown>, index: number): string => {
+      let itemTemplate = loopTemplate.replace(/{{@index}}/g, index.toString());
+      const values: Record<string, unknown> = { ...item, STEP_CODE: item.stepCode, VALIDATION_CODE: item.validationCode };
+      for (const [key, value] of Object.entries(values)) {
+        const placeholder = key in item ? `{{this.${key}}}` : `{{${key}}}`;
+        itemTemplate = this.replacePlaceholder(itemTemplate, placeholder, String(value ?? ''));
+      }
+      return itemTemplate;
+    };
+
+    // Handle each loops; block tags on their own lines keep the body's indentation
+    const blockEachRegex = /^[ \t]*{{#each\s+(\w+)}}[ \t]*\n([\s\S]*?)^[ \t]*{{\/each}}[ \t]*(\n|$)/gm;
+    result = result.replace(blockEachRegex, (match, arrayName, loopTemplate) => {
+      const array = variables[arrayName];
+      if (Array.isArray(array)) {
+        return array.map((item, index) => renderItem(loopTemplate, item, index)).join('\n');
+      }
+      return '';
+    });
+
     const eachRegex = /{{#each\s+(\w+)}}([\s\S]*?){{\/each}}/g;
     result = result.replace(eachRegex, (match, arrayName, loopTemplate) => {
       const array = variables[arrayName];
       if (Array.isArray(array)) {
-        return array.map((item, index) => {
-          let itemTemplate = loopTemplate;
-          itemTemplate = itemTemplate.replace(/{{@index}}/g, index.toString());
-          for (const [key, value] of Object.entries(item)) {
-            itemTemplate = itemTemplate.replace(new RegExp(`{{this\\.${key}}}`, 'g'), String(value));
-          }
-          return itemTemplate;
-        }).join('\n');
+        return array.map((item, index) => renderItem(loopTemplate, item, index)).join('\n');
       }
       return '';
     });
 
-    return result;
+    return result.replace(/[ \t]+$/gm, '');
+  }
+
+  /**
+   * Replaces a placeholder; multi-line values placed on their own line are indented like the placeholder
+   */
+  private replacePlaceholder(text: string, placeholder: string, value: string): string {
+    const escaped = placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return text
+      .replace(new RegExp(`^([ \\t]*)${escaped}`, 'gm'), (match, indent: string) => indent + value.split('\n').join(`\n${indent}`))
+      .split(placeholder)
+      .join(value);
   }
 
   /**
    * Generates imports based on framework and context
    */
   private generateImports(
+    testCase: ZebrunnerTestCase,
     framework: FrameworkConfig,
     implementationContext: string,
     options: TestGenerationOptions
   ): string[] {
     const imports: string[] = [];
-
-    if (framework.name.includes('java')) {
-      imports.push(
-        'import org.testng.Assert;',
-        'import org.testng.annotations.Test;',
-        'import com.qaprosoft.carina.core.foundation.AbstractTest;',
-        'import org.openqa.selenium.WebDriver;'
-      );
-    } else if (framework.name.includes('javascript')) {
-      imports.push(
-        "import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';",
-        "import { Page } from 'playwright';"
-      );
+    const pageClass = this.getPageObjectClassName(testCase, framework, implementationContext);
+    const pageImport = options.generatePageObjects ? options.pageObjectImport : undefined;
+    const annotate = options.annotateCaseKey && !!testCase.key;
+
+    switch (this.getFamily(framework)) {
+      case 'java':
+        imports.push(
+          'import org.testng.Assert;',
+          'import org.testng.annotations.Test;',
+          'import com.qaprosoft.carina.core.foundation.AbstractTest;',
+          'import org.openqa.selenium.WebDriver;'
+        );
+        if (annotate) imports.push('import com.zebrunner.agent.core.annotation.TestCaseKey;');
+        if (pageImport) imports.push(`import ${pageImport};`);
+        break;
+      case 'jest':
+        imports.push(
+          "import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';",
+          "import { Page } from 'playwright';"
+        );
+        if (pageImport) imports.push(`import ${pageClass} from '${pageImport}';`);
+        break;
+      case 'playwright':
+        imports.push("import { test, expect } from '@playwright/test';");
+        if (options.generatePageObjects) imports.push(`import { ${pageClass} } from '${pageImport ?? `./pages/${pageClass}`}';`);
+        if (options.includeDataProviders) imports.push("import { testData } from './data/testData';");
+        break;
+      case 'cypress':
+        imports.push('/// <reference types="cypress" />');
+        if (options.generatePageObjects) imports.push(`import ${this.lowerFirst(pageClass)} from '${pageImport ?? `../support/pages/${pageClass}`}';`);
+        break;
+      case 'pytest':
+        imports.push('import os', '', 'import httpx', 'import pytest');
+        if (pageImport) imports.push('', `from ${pageImport} import ${pageClass}`);
+        break;
+      case 'webdriverio':
+        imports.push(this.isMobileContext(implementationContext)
+          ? "import { $, driver, expect } from '@wdio/globals';"
+          : "import { $, browser, expect } from '@wdio/globals';");
+        if (options.generatePageObjects) imports.push(`import ${this.lowerFirst(pageClass)} from '${pageImport ?? `../pageobjects/${pageClass}.js`}';`);
+        if (options.includeDataProviders) imports.push("import { testData } from '../data/testData.js';");
+        break;
     }
 
     return imports;
   }
 
+  /**
+   * Tags the rendered test with its Zebrunner case key in the framework's idiom
+   */
+  private annotateCaseKey(testCode: string, framework: FrameworkConfig, caseKey: string): string {
+    const insertBefore = (pattern: RegExp, line: string) => testCode.replace(pattern, (match, indent: string) => `${indent}${line}\n${match}`);
+
+    switch (this.getFamily(framework)) {
+      case 'java':
+        return insertBefore(/^([ \t]*)@Test\b/m, `@TestCaseKey("${caseKey}")`);
+      case 'playwright':
+        return testCode.replace(
+          /^([ \t]*test\((['"`])(?:\\.|(?!\2).)*\2),\s*async/m,
+          (match, head: string) => `${head}, { annotation: { type: 'testCaseKey', description: '${this.jsString(caseKey)}' } }, async`,
+        );
+      case 'pytest':
+        return insertBefore(/^([ \t]*)def test_/m, `@pytest.mark.test_case_key("${this.pyString(caseKey)}")`);
+      case 'jest':
+      case 'cypress':
+      case 'webdriverio':
+        return insertBefore(/^([ \t]*)it\(/m, `// Zebrunner test case: ${caseKey}`);
+    }
+    return `// Zebrunner test case: ${caseKey}\n${testCode}`;
+  }
+
+  /**
+   * Declares what the rendered steps reference: the Playwright page object and the Cypress fixture
+   */
+  private prepareTestBody(
+    testCode: string,
+    testCase: ZebrunnerTestCase,
+    framework: FrameworkConfig,
+    implementationContext: string,
+    options: TestGenerationOptions
+  ): string {
+    switch (this.getFamily(framework)) {
+      case 'playwright': {
+        if (!options.generatePageObjects) return testCode;
+        const pageClass = this.getPageObjectClassName(testCase, framework, implementationContext);
+        return this.wrapTestBody(testCode, /^[ \t]*test\(.*async \(\{ page \}\) => \{$/, `const ${this.lowerFirst(pageClass)} = new ${pageClass}(page);`);
+      }
+      case 'cypress':
+        if (!options.includeDataProviders || !testCode.includes('testData.')) return testCode;
+        return this.wrapTestBody(testCode, /^[ \t]*it\(.*\(\) => \{$/, `cy.fixture('${this.cypressFixtureName(testCase)}').then((testData) => {`, '});');
+    }
+    return testCode;
+  }
+
+  /**
+   * Adds a line at the top of the test body; with a closing line the body is indented into the new block.
+   * Custom templates without a recognisable test body are returned unchanged.
+   */
+  private wrapTestBody(testCode: string, opening: RegExp, head: string, tail?: string): string {
+    const lines = testCode.split('\n');
+    const start = lines.findIndex(line => opening.test(line));
+    if (start === -1) return testCode;
+    const indent = lines[start].match(/^[ \t]*/)![0];
+    const end = lines.findIndex((line, i) => i > start && line === `${indent}});`);
+    if (end === -1) return testCode;
+
+    const body = lines.slice(start + 1, end);
+    const bodyIndent = body.find(line => line.trim())?.match(/^[ \t]*/)![0] ?? `${indent}  `;
+    const unit = bodyIndent.slice(indent.length) || '  ';
+    return [
+      ...lines.slice(0, start + 1),
+      bodyIndent + head,
+      ...(tail === undefined ? body : body.map(line => line && unit + line)),
+      ...(tail === undefined ? [] : [bodyIndent + tail]),
+      ...lines.slice(end),
+    ].join('\n');
+  }
+
+  /**
+   * Fixture name (without extension) of the Cypress data provider
+   */
+  private cypressFixtureName(testCase: ZebrunnerTestCase): string {
+    return this.toSlug(this.getSuiteName(testCase)) || 'test-data';
+  }
+
+  private lowerFirst(text: string): string {
+    return text.charAt(0).toLowerCase() + text.slice(1);
+  }
+
+  /**
+   * Page object class name: <Suite>Page, <Suite>Screen for mobile WebdriverIO, <Suite>Api for pytest
+   */
+  public getPageObjectClassName(testCase: ZebrunnerTestCase, framework: FrameworkConfig, implementationContext: string): string {
+    const family = this.getFamily(framework);
+    const base = this.toPascalCase(this.getSuiteName(testCase)) || 'Test';
+    if (family === 'java' || family === 'jest' || family === 'generic') return `${base}Page`;
+    if (family === 'pytest') return /api$/i.test(base) ? base : `${base}Api`;
+    if (family === 'webdriverio' && this.isMobileContext(implementationContext)) return `${base}Screen`;
+    return `${base}Page`;
+  }
+
   /**
    * Generates page object code
    */
@@ -457,18 +1035,21 @@ ${screenName.toLowerCase()}Page.open();`;
     framework: FrameworkConfig,
     implementationContext: string
   ): string {
-    const className = `${testCase.testSuite?.name || 'Test'}Page`;
+    const className = this.getPageObjectClassName(testCase, framework, implementationContext);
+    const elements = this.collectElements(testCase);
+    const path = `/${this.toSlug(this.getSuiteName(testCase))}`;
 
-    if (framework.name.includes('java')) {
-      return `public class ${className} extends AbstractPage {
+    switch (this.getFamily(framework)) {
+      case 'java':
+        return `public class ${className} extends AbstractPage {
     public ${className}(WebDriver driver) {
         super(driver);
     }
     
     // TODO: Add page elements and methods
 }`;
-    } else if (framework.name.includes('javascript')) {
-      return `class ${className} {
+      case 'jest':
+        return `class ${className} {
     constructor(page) {
         this.page = page;
     }
@@ -477,28 +1058,149 @@ ${screenName.toLowerCase()}Page.open();`;
 }
 
 export default ${className};`;
+      case 'playwright': {
+        const locator = (e: StepElement) => {
+          if (e.kind === 'field') return `page.getByLabel('${this.jsString(e.label)}')`;
+          if (e.kind === 'action') return `page.getByRole('button', { name: '${this.jsString(e.label)}' })`;
+          return `page.getByText('${this.jsString(e.label)}')`;
+        };
+        return [
+          `import { type Locator, type Page } from '@playwright/test';`,
+          '',
+          `export class ${className} {`,
+          `  readonly page: Page;`,
+          ...elements.map(e => `  readonly ${e.name}: Locator;`),
+          '',
+          `  constructor(page: Page) {`,
+          `    this.page = page;`,
+          ...elements.map(e => `    this.${e.name} = ${locator(e)};`),
+          `  }`,
+          '',
+          `  async goto() {`,
+          `    await this.page.goto('${path}');`,
+          `  }`,
+          `}`,
+        ].join('\n');
+      }
+      case 'cypress': {
+        const getters = elements.map(e => e.kind === 'text'
+          ? `  get ${e.name}() {\n    return cy.contains('${this.jsString(e.label)}');\n  }`
+          : `  get ${e.name}() {\n    return cy.get('[data-cy="${this.toSlug(e.label)}"]');\n  }`);
+        return [
+          `class ${className} {`,
+          `  visit() {`,
+          `    cy.visit('${path}');`,
+          `  }`,
+          ...getters.map(g => `\n${g}`),
+          `}`,
+          '',
+          `export default new ${className}();`,
+        ].join('\n');
+      }
+      case 'pytest': {
+        const endpoints = new Map<string, string>();
+        for (const step of testCase.steps || []) {
+          const request = (step.action || '').match(HTTP_REQUEST);
+          if (!request) continue;
+          const method = request[1].toLowerCase();
+          const name = `${method}_${this.toSnakeCase(request[2]) || 'root'}`;
+          const body = ['post', 'put', 'patch'].includes(method);
+          endpoints.set(name, `    def ${name}(self${body ? ', payload: dict' : ''}) -> httpx.Response:\n        return self.client.${method}("${this.pyString(request[2])}"${body ? ', json=payload' : ''})`);
+        }
+        return [
+          `import httpx`,
+          '',
+          '',
+          `class ${className}:`,
+          `    def __init__(self, client: httpx.Client):`,
+          `        self.client = client`,
+          ...(endpoints.size > 0
+            ? [...endpoints.values()].map(e => `\n${e}`)
+            : ['', '    # TODO: Add endpoint methods']),
+        ].join('\n');
+      }
+      case 'webdriverio': {
+        const mobile = this.isMobileContext(implementationContext);
+        const getters = elements.map(e => `    get ${e.name}() {\n        return $('${this.wdioSelector(e.label, mobile)}');\n    }`);
+        const entry = mobile
+          ? `    async waitForIsShown() {\n        await $('${this.wdioSelector(className, mobile)}').waitForDisplayed();\n    }`
+          : `    open() {\n        return browser.url('${path}');\n    }`;
+        return [
+          `import { $${mobile ? '' : ', browser'} } from '@wdio/globals';`,
+          '',
+          `class ${className} {`,
+          ...getters.map(g => `${g}\n`),
+          entry,
+          `}`,
+          '',
+          `export default new ${className}();`,
+        ].join('\n');
+      }
     }
 
     return `// TODO: Generate page object for ${className}`;
   }
 
+  /**
+   * Field names for generated test data: quoted fields from fill steps, plus credentials for login steps
+   */
+  private collectDataFields(testCase: ZebrunnerTestCase): string[] {
+    const fields = this.collectElements(testCase).filter(e => e.kind === 'field').map(e => e.name);
+    const hasLogin = (testCase.steps || []).some(s => this.hasKeyword(s.action || '', ['login', 'log in', 'sign in']));
+    if (hasLogin) fields.unshift('username', 'password');
+    return [...new Set(fields)];
+  }
+
   /**
    * Generates data provider code
    */
   private generateDataProviderCode(testCase: ZebrunnerTestCase, framework: FrameworkConfig): string {
-    if (framework.name.includes('java')) {
-      return `@DataProvider(name = "testData")
+    const fields = this.collectDataFields(testCase);
+
+    switch (this.getFamily(framework)) {
+      case 'java':
+        return `@DataProvider(name = "testData")
 public Object[][] testDataProvider() {
     return new Object[][] {
         // TODO: Add test data
     };
 }`;
-    } else if (framework.name.includes('javascript')) {
-      return `const testData = [
+      case 'jest':
+        return `const testData = [
     // TODO: Add test data
 ];
 
 export default testData;`;
+      case 'playwright':
+        // A single object: the steps read testData.<field>
+        return [
+          `export const testData = {`,
+          ...fields.map(f => `  ${f}: '',`),
+          `  // TODO: Add test data`,
+          `};`,
+        ].join('\n');
+      case 'cypress': {
+        // Cypress fixture file, loaded by the test with cy.fixture()
+        const fixture: Record<string, string> = {};
+        for (const f of fields) fixture[f] = '';
+        return JSON.stringify(fixture, null, 2);
+      }
+      case 'pytest':
+        return [
+          `@pytest.fixture(params=[`,
+          `    pytest.param({${fields.map(f => `"${this.toSnakeCase(f)}": ""`).join(', ')}}, id="default"),`,
+          `    # TODO: Add test data`,
+          `])`,
+          `def case_data(request):`,
+          `    return request.param`,
+        ].join('\n');
+      case 'webdriverio':
+        return [
+          `export const testData = {`,
+          ...fields.map(f => `    ${f}: '',`),
+          `    // TODO: Add test data`,
+          `};`,
+        ].join('\n');
     }
 
     return '// TODO: Generate data provider';
@@ -531,6 +1233,25 @@ export default testData;`;
       recommendations.push('🔗 Add API response validations where applicable');
     }
 
+    switch (this.getFamily(framework)) {
+      case 'playwright':
+        recommendations.push('🎭 Prefer getByRole/getByLabel locators; fall back to getByTestId for elements without accessible names');
+        break;
+      case 'cypress':
+        recommendations.push(`🌲 Save the data provider as cypress/fixtures/${this.cypressFixtureName(testCase)}.json; the test loads it with cy.fixture()`);
+        recommendations.push('🏷️ Add data-cy attributes to the elements the test interacts with');
+        break;
+      case 'pytest':
+        recommendations.push('🐍 Move the api_client fixture (setup code) into conftest.py so other tests can share it');
+        recommendations.push('🏷️ Register the test_case_key marker in pytest.ini (markers = test_case_key: Zebrunner test case key)');
+        break;
+      case 'webdriverio':
+        recommendations.push(this.isMobileContext(implementationContext)
+          ? '📱 Make sure the app exposes accessibility ids for the elements used by ~selectors'
+          : '🏷️ Add data-testid attributes to the elements the test interacts with');
+        break;
+    }
+
     recommendations.push('🧪 Review generated code and customize for your specific implementation');
     recommendations.push('📝 Add meaningful assertions and error messages');
     recommendations.push('🔧 Consider adding test data management and cleanup');
@@ -545,7 +1266,7 @@ export default testData;`;
     let score = 50; // Base score
 
     // Check for assertions
-    const assertionCount = (testCode.match(/Assert\.|expect\(/g) || []).length;
+    const assertionCount = (testCode.match(/Assert\.|expect\(|\.should\(|^\s*assert\s/gm) || []).length;
     score += Math.min(assertionCount * 10, 30);
 
     // Check for proper setup/teardown
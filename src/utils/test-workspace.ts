@@ -0,0 +1,500 @@
+/**
+ * Writes generated tests into a local automation repository.
+ *
+ * The target folder, Java package and file extension are taken from the
+ * existing test files of the detected framework, so a generated test lands
+ * next to the ones the team already has. Callers show the planned files as a
+ * unified diff before anything is written: an existing test is only replaced
+ * when overwrite is requested, and existing page objects are never replaced.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import { dirname, posix, relative, resolve, sep } from "node:path";
+import { validateFilePath } from "./security.js";
+import type { WorkspaceConfig } from "./config-loader.js";
+import type { FrameworkFamily, GeneratedTest } from "./test-generator.js";
+
+/** Directories never scanned for test files. */
+const SKIP_DIRS = new Set([
+  "node_modules", "dist", "build", "target", "out", "coverage", "venv", ".venv",
+  "__pycache__", ".gradle", ".idea", ".vscode", ".git", ".next", "allure-results", "test-results",
+]);
+
+const TEST_FILE_PATTERNS: Record<FrameworkFamily, RegExp> = {
+  java: /Tests?\.java$/,
+  jest: /\.test\.[cm]?[jt]sx?$/,
+  playwright: /\.spec\.[cm]?[jt]s$/,
+  cypress: /\.cy\.[jt]sx?$/,
+  pytest: /(^|\/)(test_[^/]*|[^/]*_test)\.py$/,
+  webdriverio: /\.e2e\.[jt]s$|(^|\/)specs\/[^/]+\.[jt]s$/,
+  generic: /\.test\.[^/]+$/,
+};
+
+const PAGE_OBJECT_PATTERNS: Record<FrameworkFamily, RegExp> = {
+  java: /(Page|Screen)\.java$/,
+  jest: /(^|\/)(pages|pageobjects|page-objects|page_objects|screens)\/[^/]+\.[jt]sx?$|(Page|Screen)\.[jt]sx?$/,
+  playwright: /(^|\/)(pages|pageobjects|page-objects|page_objects)\/[^/]+\.[jt]s$|Page\.[jt]s$/,
+  cypress: /(^|\/)(pages|pageobjects|page-objects|page_objects)\/[^/]+\.[jt]sx?$|Page\.[jt]sx?$/,
+  pytest: /(^|\/)(clients|api_clients|services)\/(?!__init__)[^/]+\.py$|_(api|client)\.py$/,
+  webdriverio: /(^|\/)(pageobjects|page-objects|pages|screens)\/[^/]+\.[jt]s$|(Page|Screen)\.[jt]s$/,
+  generic: /(^|\/)pages\/[^/]+$/,
+};
+
+const DEFAULT_TEST_DIRS: Record<FrameworkFamily, string> = {
+  java: "src/test/java",
+  jest: "tests",
+  playwright: "tests",
+  cypress: "cypress/e2e",
+  pytest: "tests",
+  webdriverio: "test/specs",
+  generic: "tests",
+};
+
+const DEFAULT_EXTENSIONS: Record<FrameworkFamily, string> = {
+  java: "java",
+  jest: "js",
+  playwright: "ts",
+  cypress: "js",
+  pytest: "py",
+  webdriverio: "js",
+  generic: "txt",
+};
+
+export interface WorkspaceLayout {
+  root: string;
+  family: FrameworkFamily;
+  /** Folder for the generated test, relative to the root (POSIX separators). */
+  testDir: string;
+  /** Folder for new page objects, relative to the root. */
+  pageObjectDir: string;
+  /** Extension of test and page object files, without the dot. */
+  extension: string;
+  /** Java package of `testDir` when it sits under `src/test/java` or `src/main/java`. */
+  javaPackage?: string;
+  /** Where `testDir` came from. */
+  source: "existing_tests" | "target_dir" | "defaults";
+  /** Existing test files of the framework found in the workspace. */
+  existingTests: number;
+}
+
+export type PlannedFileAction = "create" | "overwrite" | "unchanged" | "keep";
+
+export interface PlannedFile {
+  /** Path relative to the workspace root (POSIX separators). */
+  path: string;
+  kind: "test" | "page_object" | "fixture";
+  content: string;
+  /** Current file content, or null when the file does not exist. */
+  previous: string | null;
+  /** `keep` means an existing page object or fixture file that is left untouched. */
+  action: PlannedFileAction;
+}
+
+export interface WorkspacePlan {
+  files: PlannedFile[];
+  notes: string[];
+}
+
+/**
+ * Workspace root from `ZEBRUNNER_WORKSPACE_ROOT` or `workspace.root`; throws when
+ * neither is set or the folder does not exist.
+ */
+export function resolveWorkspaceRoot(config: WorkspaceConfig): string {
+  const configured = process.env.ZEBRUNNER_WORKSPACE_ROOT?.trim() || config.root;
+  if (!configured) {
+    throw new Error("No workspace root configured. Set workspace.root in zebrunner-config.json or the ZEBRUNNER_WORKSPACE_ROOT env var");
+  }
+  const root = resolve(configured);
+  if (!existsSync(root) || !statSync(root).isDirectory()) {
+    throw new Error(`Workspace root ${root} is not a directory`);
+  }
+  return root;
+}
+
+/**
+ * Lists files under the root (relative POSIX paths), breadth first, skipping
+ * dependency/build folders, hidden folders and symlinks.
+ */
+export function scanWorkspace(root: string, maxFiles: number): { files: string[]; truncated: boolean } {
+  const files: string[] = [];
+  const queue: string[] = [""];
+
+  while (queue.length > 0) {
+    const dir = queue.shift()!;
+    let entries;
+    try {
+      entries = readdirSync(resolve(root, dir), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const rel = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!SKIP_DIRS.has(entry.name) && !entry.name.startsWith(".")) queue.push(rel);
+      } else if (entry.isFile()) {
+        if (files.length >= maxFiles) return { files, truncated: true };
+        files.push(rel);
+      }
+    }
+  }
+  return { files, truncated: false };
+}
+
+/** Directory holding most of the paths; ties go to the shallower, then alphabetical. */
+function mostCommonDir(paths: string[]): string | null {
+  const counts = new Map<string, number>();
+  for (const p of paths) {
+    const dir = posix.dirname(p);
+    counts.set(dir, (counts.get(dir) ?? 0) + 1);
+  }
+  const ranked = [...counts.entries()].sort((a, b) =>
+    b[1] - a[1] || a[0].split("/").length - b[0].split("/").length || a[0].localeCompare(b[0]));
+  return ranked.length > 0 ? (ranked[0][0] === "." ? "" : ranked[0][0]) : null;
+}
+
+function javaPackageOf(dir: string): string | undefined {
+  const match = dir.match(/(?:^|\/)src\/(?:test|main)\/java\/(.+)$/);
+  return match ? match[1].replace(/\//g, ".") : undefined;
+}
+
+function defaultPageObjectDir(family: FrameworkFamily, testDir: string): string {
+  switch (family) {
+    case "cypress":
+      return "cypress/support/pages";
+    case "webdriverio":
+      return posix.join(posix.dirname(testDir), "pageobjects");
+    case "pytest":
+      return posix.join(testDir, "clients");
+    default:
+      return posix.join(testDir, "pages");
+  }
+}
+
+/**
+ * Picks the test folder (the one holding most existing tests of the framework,
+ * or `targetDir`), the page object folder and the file extension.
+ */
+export function detectWorkspaceLayout(
+  root: string,
+  family: FrameworkFamily,
+  files: string[],
+  targetDir?: string,
+): WorkspaceLayout {
+  const tests = files.filter(f => TEST_FILE_PATTERNS[family].test(f));
+  const testSet = new Set(tests);
+  const pageObjects = files.filter(f => PAGE_OBJECT_PATTERNS[family].test(f) && !testSet.has(f));
+
+  let testDir: string;
+  let source: WorkspaceLayout["source"];
+  if (targetDir) {
+    testDir = relative(root, validateFilePath(targetDir, root)).split(sep).join("/");
+    source = "target_dir";
+  } else if (tests.length > 0) {
+    testDir = mostCommonDir(tests) ?? DEFAULT_TEST_DIRS[family];
+    source = "existing_tests";
+  } else {
+    testDir = DEFAULT_TEST_DIRS[family];
+    source = "defaults";
+  }
+
+  let extension = DEFAULT_EXTENSIONS[family];
+  if (family !== "java" && family !== "pytest" && tests.length > 0) {
+    const counts = new Map<string, number>();
+    for (const t of tests) {
+      const ext = posix.extname(t).slice(1);
+      counts.set(ext, (counts.get(ext) ?? 0) + 1);
+    }
+    extension = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0];
+  }
+
+  return {
+    root,
+    family,
+    testDir,
+    pageObjectDir: mostCommonDir(pageObjects) ?? defaultPageObjectDir(family, testDir),
+    extension,
+    javaPackage: family === "java" ? javaPackageOf(testDir) : undefined,
+    source,
+    existingTests: tests.length,
+  };
+}
+
+function words(text: string): string[] {
+  return text.replace(/[^a-zA-Z0-9]+/g, " ").trim().split(" ").filter(Boolean);
+}
+
+function toSlug(text: string): string {
+  return words(text).map(w => w.toLowerCase()).join("-");
+}
+
+function toPascalCase(text: string): string {
+  const name = words(text).map(w => w.charAt(0).toUpperCase() + w.slice(1)).join("");
+  return /^[0-9]/.test(name) ? `Case${name}` : name;
+}
+
+/** `UsersAPI` → `users_api`, `LoginPage` → `login_page`. */
+function toSnakeCase(text: string): string {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+    .replace(/[^a-zA-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toLowerCase();
+}
+
+/** File name (without folder) for the generated test. */
+export function testFileName(layout: WorkspaceLayout, title: string): string {
+  const base = title.trim() || "generated test";
+  switch (layout.family) {
+    case "java":
+      return `${testClassName(base)}.java`;
+    case "pytest":
+      return `test_${toSnakeCase(words(base).join(" ")) || "generated"}.py`;
+    case "playwright":
+      return `${toSlug(base)}.spec.${layout.extension}`;
+    case "cypress":
+      return `${toSlug(base)}.cy.${layout.extension}`;
+    case "webdriverio":
+      return `${toSlug(base)}.e2e.${layout.extension}`;
+    default:
+      return `${toSlug(base)}.test.${layout.extension}`;
+  }
+}
+
+function testClassName(title: string): string {
+  const name = toPascalCase(title) || "Generated";
+  return name.endsWith("Test") ? name : `${name}Test`;
+}
+
+function pageObjectFileName(layout: WorkspaceLayout, className: string): string {
+  if (layout.family === "pytest") return `${toSnakeCase(className)}.py`;
+  return `${className}.${layout.extension}`;
+}
+
+/**
+ * How the generated test imports the page object: a relative module specifier,
+ * a dotted Python module, or a fully-qualified Java class. Undefined when Java
+ * page objects are outside a source root.
+ */
+export function pageObjectImportFor(layout: WorkspaceLayout, className: string): string | undefined {
+  switch (layout.family) {
+    case "java": {
+      const pkg = javaPackageOf(layout.pageObjectDir);
+      return pkg ? `${pkg}.${className}` : undefined;
+    }
+    case "pytest":
+      return posix.join(layout.pageObjectDir, toSnakeCase(className)).replace(/\//g, ".");
+    default: {
+      let spec = posix.relative(layout.testDir, posix.join(layout.pageObjectDir, className));
+      if (!spec.startsWith(".")) spec = `./${spec}`;
+      // WebdriverIO projects run as native ESM, which needs the extension
+      return layout.family === "webdriverio" && layout.extension === "js" ? `${spec}.js` : spec;
+    }
+  }
+}
+
+function readIfExists(root: string, path: string): string | null {
+  const abs = validateFilePath(path, root);
+  return existsSync(abs) ? readFileSync(abs, "utf-8") : null;
+}
+
+function indent(code: string, prefix: string): string {
+  return code.split("\n").map(line => (line ? prefix + line : line)).join("\n");
+}
+
+/**
+ * Builds the files to write for a generated test: the test itself, a new page
+ * object (unless one with that name exists) and, for pytest, a conftest.py with
+ * the `api_client` fixture when the test folder has no conftest.py yet.
+ */
+export function planWorkspaceFiles(
+  layout: WorkspaceLayout,
+  generated: GeneratedTest,
+  title: string,
+  pageObjectClass?: string,
+): WorkspacePlan {
+  const notes: string[] = [];
+  const testPath = posix.join(layout.testDir, testFileName(layout, title));
+  let testContent: string;
+
+  if (layout.family === "java") {
+    const className = posix.basename(testPath, ".java");
+    testContent = [
+      ...(layout.javaPackage ? [`package ${layout.javaPackage};`, ""] : []),
+      ...generated.imports,
+      "",
+      `public class ${className} extends AbstractTest {`,
+      "",
+      indent(generated.testCode, "    "),
+      "}",
+      "",
+    ].join("\n");
+  } else {
+    const separator = layout.family === "pytest" ? "\n\n\n" : "\n\n";
+    testContent = `${generated.imports.join("\n")}${generated.imports.length ? separator : ""}${generated.testCode}\n`;
+  }
+
+  const files: PlannedFile[] = [];
+  const addFile = (path: string, kind: PlannedFile["kind"], content: string) => {
+    const previous = readIfExists(layout.root, path);
+    let action: PlannedFileAction;
+    if (previous === null) action = "create";
+    else if (previous === content) action = "unchanged";
+    else action = kind === "test" ? "overwrite" : "keep";
+    files.push({ path, kind, content, previous, action });
+  };
+
+  addFile(testPath, "test", testContent);
+
+  if (generated.pageObjectCode && pageObjectClass) {
+    let content = `${generated.pageObjectCode}\n`;
+    if (layout.family === "java") {
+      const pkg = javaPackageOf(layout.pageObjectDir);
+      content = [
+        ...(pkg ? [`package ${pkg};`, ""] : []),
+        "import org.openqa.selenium.WebDriver;",
+        "import com.qaprosoft.carina.core.gui.AbstractPage;",
+        "",
+        content,
+      ].join("\n");
+      if (!pkg) notes.push(`Page object folder ${layout.pageObjectDir} is outside a Java source root; add the import to the test manually`);
+    }
+    addFile(posix.join(layout.pageObjectDir, pageObjectFileName(layout, pageObjectClass)), "page_object", content);
+  }
+
+  if (layout.family === "pytest" && generated.setupCode) {
+    const fixture = generated.setupCode.replace(/^# conftest\.py\n/, "");
+    const conftests: string[] = [];
+    for (let dir = layout.testDir; ; dir = posix.dirname(dir)) {
+      const candidate = posix.join(dir === "." ? "" : dir, "conftest.py");
+      const content = readIfExists(layout.root, candidate);
+      if (content !== null) conftests.push(content);
+      if (dir === "" || dir === "." || dir === "/") break;
+    }
+    if (conftests.length === 0) {
+      addFile(posix.join(layout.testDir, "conftest.py"), "fixture", `import os\n\nimport httpx\nimport pytest\n\n\n${fixture}\n`);
+    } else if (!conftests.some(c => /def api_client\b/.test(c))) {
+      notes.push("No api_client fixture found in the existing conftest.py files; add the fixture from the setup code");
+    }
+  }
+
+  return { files, notes };
+}
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  return text.replace(/\n$/, "").split("\n");
+}
+
+type DiffOp = { type: " " | "-" | "+"; line: string };
+
+/** Line diff via LCS; very large inputs fall back to a whole-file replacement. */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  if (n * m > 4_000_000) {
+    return [...a.map(line => ({ type: "-" as const, line })), ...b.map(line => ({ type: "+" as const, line }))];
+  }
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = a[i] === b[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: " ", line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      ops.push({ type: "-", line: a[i++] });
+    } else {
+      ops.push({ type: "+", line: b[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: "-", line: a[i++] });
+  while (j < m) ops.push({ type: "+", line: b[j++] });
+  return ops;
+}
+
+/** Unified diff of one file; empty string when nothing changed. */
+export function unifiedDiff(path: string, before: string | null, after: string, context = 3): string {
+  const ops = diffLines(before === null ? [] : splitLines(before), splitLines(after));
+  if (!ops.some(op => op.type !== " ")) return "";
+
+  // Lines of each side consumed before op k
+  const aBefore: number[] = [];
+  const bBefore: number[] = [];
+  let a = 0;
+  let b = 0;
+  for (const op of ops) {
+    aBefore.push(a);
+    bBefore.push(b);
+    if (op.type !== "+") a++;
+    if (op.type !== "-") b++;
+  }
+
+  const out = [before === null ? "--- /dev/null" : `--- a/${path}`, `+++ b/${path}`];
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].type === " ") {
+      k++;
+      continue;
+    }
+    const start = Math.max(0, k - context);
+    let end = k;
+    let scan = k;
+    while (scan < ops.length) {
+      if (ops[scan].type !== " ") {
+        end = scan++;
+        continue;
+      }
+      let next = scan;
+      while (next < ops.length && ops[next].type === " ") next++;
+      if (next < ops.length && next - scan <= 2 * context) {
+        scan = next;
+        continue;
+      }
+      break;
+    }
+    const stop = Math.min(ops.length, end + 1 + context);
+    const hunk = ops.slice(start, stop);
+    const aCount = hunk.filter(op => op.type !== "+").length;
+    const bCount = hunk.filter(op => op.type !== "-").length;
+    const aStart = aCount === 0 ? aBefore[start] : aBefore[start] + 1;
+    const bStart = bCount === 0 ? bBefore[start] : bBefore[start] + 1;
+    out.push(`@@ -${aStart},${aCount} +${bStart},${bCount} @@`);
+    for (const op of hunk) out.push(`${op.type}${op.line}`);
+    k = stop;
+  }
+  return out.join("\n");
+}
+
+/** Fingerprint of the planned writes and the files they replace; pins a preview to its confirmation. */
+export function planFingerprint(files: PlannedFile[]): string {
+  const hash = createHash("sha256");
+  for (const file of files) {
+    hash.update(`${file.path}\0${file.action}\0${file.previous ?? ""}\0${file.content}\0`);
+  }
+  return hash.digest("hex");
+}
+
+/** Writes the planned files that are new or replace a test; returns their paths. */
+export function writePlannedFiles(root: string, files: PlannedFile[]): string[] {
+  const written: string[] = [];
+  for (const file of files) {
+    if (file.action !== "create" && file.action !== "overwrite") continue;
+    const abs = validateFilePath(file.path, root);
+    mkdirSync(dirname(abs), { recursive: true });
+    writeFileSync(abs, file.content, "utf-8");
+    written.push(file.path);
+  }
+  return written;
+}
@@ -491,3 +491,198 @@ export function getHistoryBulkWarning(caseCount: number): string | undefined {
   }
   return undefined;
 }
+
+// ---------------------------------------------------------------------------
+// Public API: change report across many test cases
+// ---------------------------------------------------------------------------
+
+export type ChangeReportGranularity = 'day' | 'week' | 'month';
+
+export interface ChangeReportOptions {
+  from: Date;
+  to: Date;
+  granularity: ChangeReportGranularity;
+  /** Max step-edit rows listed in the report (counts are never truncated). */
+  stepEditLimit: number;
+}
+
+export interface ChangeReport {
+  period: { from: string; to: string; granularity: ChangeReportGranularity };
+  totals: {
+    casesScanned: number;
+    casesChanged: number;
+    changeEntries: number;
+    becameAutomated: number;
+    becameDeprecated: number;
+    stepEdits: number;
+  };
+  perAuthor: Array<{ author: string; changeEntries: number; cases: number; events: Record<string, number> }>;
+  perEvent: Array<{ event: NamedEvent; occurrences: number; cases: number }>;
+  timeline: Array<{ bucket: string; changeEntries: number; becameAutomated: number; becameDeprecated: number; stepEdits: number }>;
+  stepEdits: Array<{ caseKey: string; title: string; timestamp: string; author: string; steps: number[]; fields: string[] }>;
+}
+
+/** Pick a timeline granularity that keeps the chart readable. */
+export function autoGranularity(from: Date, to: Date): ChangeReportGranularity {
+  const days = (to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000);
+  if (days <= 31) return 'day';
+  if (days <= 180) return 'week';
+  return 'month';
+}
+
+/** UTC bucket label: `YYYY-MM-DD` (day, or the Monday of the week) or `YYYY-MM`. */
+export function bucketOf(date: Date, granularity: ChangeReportGranularity): string {
+  if (granularity === 'month') return date.toISOString().slice(0, 7);
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (granularity === 'week') d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+function allBuckets(from: Date, to: Date, granularity: ChangeReportGranularity): string[] {
+  const buckets: string[] = [];
+  const cursor = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+  while (cursor.getTime() <= to.getTime()) {
+    const label = bucketOf(cursor, granularity);
+    if (buckets[buckets.length - 1] !== label) buckets.push(label);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return buckets;
+}
+
+const STEP_EVENTS = new Set<NamedEvent>(['steps_changed', 'preconditions_changed', 'postconditions_changed']);
+
+/**
+ * Aggregate per-case histories (as returned by `enrichTestCasesWithHistory`)
+ * into who-changed-what totals, per-author and per-event summaries, and a
+ * timeline for entries inside the report period.
+ */
+export function buildChangeReport(
+  cases: Array<{ id: number; key?: string; title?: string }>,
+  histories: HistoryEntry[][],
+  opts: ChangeReportOptions
+): ChangeReport {
+  const fromMs = opts.from.getTime();
+  const toMs = opts.to.getTime();
+
+  const timeline = new Map(allBuckets(opts.from, opts.to, opts.granularity).map(bucket => [bucket, {
+    bucket, changeEntries: 0, becameAutomated: 0, becameDeprecated: 0, stepEdits: 0,
+  }]));
+  const authors = new Map<string, { changeEntries: number; cases: Set<number>; events: Record<string, number> }>();
+  const events = new Map<NamedEvent, { occurrences: number; cases: Set<number> }>();
+  const changedCases = new Set<number>();
+  const automatedCases = new Set<number>();
+  const deprecatedCases = new Set<number>();
+  const stepEdits: ChangeReport['stepEdits'] = [];
+  let changeEntries = 0;
+
+  cases.forEach((tc, i) => {
+    for (const entry of histories[i] ?? []) {
+      const at = new Date(entry.timestamp);
+      if (Number.isNaN(at.getTime()) || at.getTime() < fromMs || at.getTime() > toMs) continue;
+
+      changeEntries++;
+      changedCases.add(tc.id);
+
+      const author = authors.get(entry.author) ?? { changeEntries: 0, cases: new Set<number>(), events: {} };
+      author.changeEntries++;
+      author.cases.add(tc.id);
+      authors.set(entry.author, author);
+
+      const bucket = timeline.get(bucketOf(at, opts.granularity));
+      if (bucket) bucket.changeEntries++;
+
+      for (const event of entry.events) {
+        const stats = events.get(event) ?? { occurrences: 0, cases: new Set<number>() };
+        stats.occurrences++;
+        stats.cases.add(tc.id);
+        events.set(event, stats);
+        author.events[event] = (author.events[event] ?? 0) + 1;
+        if (event === 'became_automated') {
+          automatedCases.add(tc.id);
+          if (bucket) bucket.becameAutomated++;
+        }
+        if (event === 'became_deprecated') {
+          deprecatedCases.add(tc.id);
+          if (bucket) bucket.becameDeprecated++;
+        }
+      }
+
+      if (entry.events.some(e => STEP_EVENTS.has(e))) {
+        if (bucket) bucket.stepEdits++;
+        const stepChanges = entry.changes.filter(c => ARRAY_FIELDS.has(c.field));
+        stepEdits.push({
+          caseKey: tc.key ?? `id:${tc.id}`,
+          title: tc.title ?? '',
+          timestamp: entry.timestamp,
+          author: entry.author,
+          steps: [...new Set(stepChanges.filter(c => c.stepIndex !== undefined).map(c => c.stepIndex!))].sort((a, b) => a - b),
+          fields: [...new Set(stepChanges.map(c => c.field))],
+        });
+      }
+    }
+  });
+
+  // Newest first across all cases, then capped
+  const stepEditCount = stepEdits.length;
+  stepEdits.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  stepEdits.splice(opts.stepEditLimit);
+
+  return {
+    period: { from: opts.from.toISOString(), to: opts.to.toISOString(), granularity: opts.granularity },
+    totals: {
+      casesScanned: cases.length,
+      casesChanged: changedCases.size,
+      changeEntries,
+      becameAutomated: automatedCases.size,
+      becameDeprecated: deprecatedCases.size,
+      stepEdits: stepEditCount,
+    },
+    perAuthor: [...authors].map(([author, s]) => ({
+      author, changeEntries: s.changeEntries, cases: s.cases.size, events: s.events,
+    })).sort((a, b) => b.changeEntries - a.changeEntries || a.author.localeCompare(b.author)),
+    perEvent: [...events].map(([event, s]) => ({
+      event, occurrences: s.occurrences, cases: s.cases.size,
+    })).sort((a, b) => b.occurrences - a.occurrences || a.event.localeCompare(b.event)),
+    timeline: [...timeline.values()],
+    stepEdits,
+  };
+}
+
+/** Escapes table cell separators and line breaks in markdown table cells. */
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+export function formatChangeReportMarkdown(report: ChangeReport, scope: string): string {
+  const t = report.totals;
+  const lines: string[] = [
+    `# Test Case Change Report — ${scope}`,
+    '',
+    `**Period:** ${report.period.from.slice(0, 10)} → ${report.period.to.slice(0, 10)}`,
+    `**Cases scanned:** ${t.casesScanned} | **Changed:** ${t.casesChanged} | **Change entries:** ${t.changeEntries}`,
+    `**Became automated:** ${t.becameAutomated} | **Became deprecated:** ${t.becameDeprecated} | **Step edits:** ${t.stepEdits}`,
+    '',
+    '## Per Author',
+    '',
+    '| Author | Changes | Cases | Events |',
+    '|--------|---------|-------|--------|',
+    ...report.perAuthor.map(a =>
+      `| ${cell(a.author)} | ${a.changeEntries} | ${a.cases} | ${Object.entries(a.events).map(([e, n]) => `${e}: ${n}`).join(', ') || '—'} |`),
+    '',
+    '## Per Event',
+    '',
+    '| Event | Occurrences | Cases |',
+    '|-------|-------------|-------|',
+    ...report.perEvent.map(e => `| ${e.event} | ${e.occurrences} | ${e.cases} |`),
+  ];
+
+  if (report.stepEdits.length > 0) {
+    lines.push('', '## Step Edits', '', '| Case | Title | When | Author | Steps |', '|------|-------|------|--------|-------|');
+    for (const s of report.stepEdits) {
+      const where = s.steps.length > 0 ? s.steps.join(', ') : s.fields.join(', ');
+      lines.push(`| ${s.caseKey} | ${cell(s.title)} | ${s.timestamp.slice(0, 10)} | ${cell(s.author)} | ${where} |`);
+    }
+  }
+
+  return lines.join('\n');
+}
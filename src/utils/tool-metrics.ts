@@ -1,3 +1,6 @@
+import { observeToolCall } from "./prometheus.js";
+import { markSpanError, recordingTraceId, withSpan } from "./tracing.js";
+
 export interface ToolStats {
   callCount: number;
   totalDurationMs: number;
@@ -6,6 +9,8 @@ export interface ToolStats {
   maxDurationMs: number;
   totalResponseChars: number;
   errorCount: number;
+  /** Calls rejected by the HTTP rate limiter; not counted in calls, durations or errors. */
+  rateLimitedCount: number;
   lastCalledAt: string | null;
 }
 
@@ -13,28 +18,43 @@ export class ToolMetrics {
   private stats = new Map<string, ToolStats>();
 
   record(name: string, durationMs: number, responseChars: number, isError: boolean): void {
-    const existing = this.stats.get(name);
-    if (existing) {
-      existing.callCount++;
-      existing.totalDurationMs += durationMs;
-      existing.avgDurationMs = existing.totalDurationMs / existing.callCount;
-      existing.minDurationMs = Math.min(existing.minDurationMs, durationMs);
-      existing.maxDurationMs = Math.max(existing.maxDurationMs, durationMs);
-      existing.totalResponseChars += responseChars;
-      if (isError) existing.errorCount++;
-      existing.lastCalledAt = new Date().toISOString();
-    } else {
-      this.stats.set(name, {
-        callCount: 1,
-        totalDurationMs: durationMs,
-        avgDurationMs: durationMs,
-        minDurationMs: durationMs,
-        maxDurationMs: durationMs,
-        totalResponseChars: responseChars,
-        errorCount: isError ? 1 : 0,
-        lastCalledAt: new Date().toISOString(),
-      });
+    const stats = this.entry(name);
+    const first = stats.callCount === 0;
+    stats.callCount++;
+    stats.totalDurationMs += durationMs;
+    stats.avgDurationMs = stats.totalDurationMs / stats.callCount;
+    stats.minDurationMs = first ? durationMs : Math.min(stats.minDurationMs, durationMs);
+    stats.maxDurationMs = first ? durationMs : Math.max(stats.maxDurationMs, durationMs);
+    stats.totalResponseChars += responseChars;
+    if (isError) stats.errorCount++;
+    stats.lastCalledAt = new Date().toISOString();
+  }
+
+  /** Record a call rejected by the rate limiter before reaching its handler. */
+  recordRateLimited(name: string): void {
+    const stats = this.entry(name);
+    stats.rateLimitedCount++;
+    stats.lastCalledAt = new Date().toISOString();
+    observeToolCall(name, 0, 0, "rate_limited");
+  }
+
+  private entry(name: string): ToolStats {
+    let stats = this.stats.get(name);
+    if (!stats) {
+      stats = {
+        callCount: 0,
+        totalDurationMs: 0,
+        avgDurationMs: 0,
+        minDurationMs: 0,
+        maxDurationMs: 0,
+        totalResponseChars: 0,
+        errorCount: 0,
+        rateLimitedCount: 0,
+        lastCalledAt: null,
+      };
+      this.stats.set(name, stats);
     }
+    return stats;
   }
 
   getStats(): Map<string, ToolStats> {
@@ -53,19 +73,20 @@ export class ToolMetrics {
     const totalCalls = entries.reduce((s, [, v]) => s + v.callCount, 0);
     const totalDuration = entries.reduce((s, [, v]) => s + v.totalDurationMs, 0);
     const totalErrors = entries.reduce((s, [, v]) => s + v.errorCount, 0);
+    const totalLimited = entries.reduce((s, [, v]) => s + v.rateLimitedCount, 0);
 
     const lines: string[] = [
       `## MCP Tool Metrics (session)`,
       "",
-      `**Total calls:** ${totalCalls} | **Total time:** ${(totalDuration / 1000).toFixed(1)}s | **Errors:** ${totalErrors}`,
+      `**Total calls:** ${totalCalls} | **Total time:** ${(totalDuration / 1000).toFixed(1)}s | **Errors:** ${totalErrors} | **Rate limited:** ${totalLimited}`,
       "",
-      `| Tool | Calls | Avg (ms) | Min (ms) | Max (ms) | Resp (chars) | Errors |`,
-      `|------|-------|----------|----------|----------|--------------|--------|`,
+      `| Tool | Calls | Avg (ms) | Min (ms) | Max (ms) | Resp (chars) | Errors | Limited |`,
+      `|------|-------|----------|----------|----------|--------------|--------|---------|`,
     ];
 
     for (const [name, s] of entries) {
       lines.push(
-        `| ${name} | ${s.callCount} | ${Math.round(s.avgDurationMs)} | ${Math.round(s.minDurationMs)} | ${Math.round(s.maxDurationMs)} | ${s.totalResponseChars.toLocaleString()} | ${s.errorCount} |`
+        `| ${name} | ${s.callCount} | ${Math.round(s.avgDurationMs)} | ${Math.round(s.minDurationMs)} | ${Math.round(s.maxDurationMs)} | ${s.totalResponseChars.toLocaleString()} | ${s.errorCount} | ${s.rateLimitedCount} |`
       );
     }
 
@@ -82,7 +103,7 @@ export function wrapToolHandler<T extends (...args: any[]) => any>(
   handler: T,
   metrics: ToolMetrics
 ): T {
-  const wrapped = async (...args: any[]) => {
+  const wrapped = (...args: any[]) => withSpan(`tool ${name}`, { "mcp.tool.name": name }, async (span) => {
     const start = Date.now();
     let result: any;
     let isError = false;
@@ -91,8 +112,9 @@ export function wrapToolHandler<T extends (...args: any[]) => any>(
       result = await handler(...args);
       isError = result?.isError === true;
     } catch (err: any) {
-      isError = true;
-      metrics.record(name, Date.now() - start, 0, true);
+      const durationMs = Date.now() - start;
+      metrics.record(name, durationMs, 0, true);
+      observeToolCall(name, durationMs, 0, "error");
       const wrapped = err instanceof Error ? err : new Error(String(err));
       wrapped.message = `[${name}] ${wrapped.message}`;
       throw wrapped;
@@ -103,8 +125,18 @@ export function wrapToolHandler<T extends (...args: any[]) => any>(
       ? content.reduce((sum: number, block: any) => sum + (typeof block?.text === "string" ? block.text.length : 0), 0)
       : 0;
 
-    metrics.record(name, Date.now() - start, responseChars, isError);
+    const durationMs = Date.now() - start;
+    metrics.record(name, durationMs, responseChars, isError);
+    observeToolCall(name, durationMs, responseChars, isError ? "error" : "ok");
+    span.setAttribute("mcp.tool.response_chars", responseChars);
+    if (isError) markSpanError(span);
+
+    // Surface the trace ID so a slow or failed call can be looked up in the collector
+    const traceId = recordingTraceId(span);
+    if (traceId && result && typeof result === "object") {
+      return { ...result, _meta: { ...result._meta, traceId } };
+    }
     return result;
-  };
+  });
   return wrapped as T;
 }
@@ -0,0 +1,145 @@
+/**
+ * Optional OpenTelemetry tracing. Spans are always created through
+ * `@opentelemetry/api`, which is a no-op until `initTracing()` registers the
+ * SDK; that only happens when an OTLP endpoint is configured via the standard
+ * `OTEL_*` environment variables.
+ */
+
+import {
+  context,
+  isSpanContextValid,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  type Attributes,
+  type Span,
+} from "@opentelemetry/api";
+import type { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { normalizeUpstreamRoute } from "./prometheus.js";
+
+const TRACER_NAME = "mcp-zebrunner";
+const DEFAULT_SERVICE_NAME = "mcp-zebrunner";
+
+let shutdownHook: (() => Promise<void>) | undefined;
+
+function tracer() {
+  return trace.getTracer(TRACER_NAME);
+}
+
+/**
+ * Tracing is on when an OTLP endpoint (or `OTEL_TRACES_EXPORTER=otlp`) is
+ * set, unless `OTEL_SDK_DISABLED=true` or `OTEL_TRACES_EXPORTER=none`.
+ */
+export function isTracingConfigured(env: NodeJS.ProcessEnv = process.env): boolean {
+  if (env.OTEL_SDK_DISABLED?.toLowerCase() === "true") return false;
+  const exporter = env.OTEL_TRACES_EXPORTER?.toLowerCase();
+  if (exporter === "none") return false;
+  return !!(env.OTEL_EXPORTER_OTLP_ENDPOINT || env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || exporter === "otlp");
+}
+
+/**
+ * Register the Node tracer provider with an OTLP/HTTP exporter. The SDK is
+ * imported lazily so servers without tracing never load it.
+ */
+export async function initTracing(serviceVersion: string): Promise<boolean> {
+  if (shutdownHook || !isTracingConfigured()) return false;
+
+  const [{ NodeTracerProvider, BatchSpanProcessor }, { OTLPTraceExporter }, { resourceFromAttributes }] = await Promise.all([
+    import("@opentelemetry/sdk-trace-node"),
+    import("@opentelemetry/exporter-trace-otlp-http"),
+    import("@opentelemetry/resources"),
+  ]);
+
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      "service.name": process.env.OTEL_SERVICE_NAME || DEFAULT_SERVICE_NAME,
+      "service.version": serviceVersion,
+    }),
+    spanProcessors: [new BatchSpanProcessor(new OTLPTraceExporter())],
+  });
+  provider.register();
+  shutdownHook = () => provider.shutdown();
+  return true;
+}
+
+/** Flush pending spans; safe to call when tracing was never started. */
+export async function shutdownTracing(): Promise<void> {
+  const hook = shutdownHook;
+  shutdownHook = undefined;
+  await hook?.().catch(() => undefined);
+}
+
+/**
+ * Run `fn` inside an active span. Thrown errors are recorded on the span
+ * and re-thrown.
+ */
+export function withSpan<T>(name: string, attributes: Attributes, fn: (span: Span) => Promise<T>): Promise<T> {
+  return tracer().startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      markSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+export function markSpanError(span: Span, error?: unknown): void {
+  if (error instanceof Error) span.recordException(error);
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    ...(error !== undefined ? { message: error instanceof Error ? error.message : String(error) } : {}),
+  });
+}
+
+/** Trace ID of a recording span, for correlating tool responses with traces. */
+export function recordingTraceId(span: Span | undefined = trace.getActiveSpan()): string | undefined {
+  if (!span?.isRecording()) return undefined;
+  const ctx = span.spanContext();
+  return isSpanContextValid(ctx) ? ctx.traceId : undefined;
+}
+
+const REQUEST_SPAN = Symbol("tracingRequestSpan");
+
+/**
+ * Open a client span per request made through `http`, parented to the span
+ * active when the request was issued (normally the tool call). Register
+ * before other response interceptors so failures still carry `response`.
+ */
+export function traceAxios(http: AxiosInstance, client: string): void {
+  http.interceptors.request.use((config: InternalAxiosRequestConfig) => {
+    const method = (config.method ?? "get").toUpperCase();
+    const route = normalizeUpstreamRoute(config.url);
+    const span = tracer().startSpan(`${method} ${route}`, {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        "http.request.method": method,
+        "url.path": (config.url ?? "").replace(/^[a-z]+:\/\/[^/]+/i, "").split("?")[0],
+        "http.route": route,
+        "zebrunner.client": client,
+      },
+    }, context.active());
+    (config as any)[REQUEST_SPAN] = span;
+    return config;
+  });
+
+  http.interceptors.response.use(
+    (response) => {
+      const span: Span | undefined = (response.config as any)?.[REQUEST_SPAN];
+      span?.setAttribute("http.response.status_code", response.status);
+      span?.end();
+      return response;
+    },
+    (error) => {
+      const span: Span | undefined = error?.config?.[REQUEST_SPAN];
+      if (span) {
+        if (error?.response?.status) span.setAttribute("http.response.status_code", error.response.status);
+        markSpanError(span, error);
+        span.end();
+      }
+      return Promise.reject(error);
+    },
+  );
+}
@@ -12,6 +12,7 @@ import {
   VideoMetadata,
   AnalysisLinks
 } from './types.js';
+import { withSpan } from '../tracing.js';
 
 /**
  * VideoAnalyzer - Main orchestrator for video analysis
@@ -72,10 +73,12 @@ export class VideoAnalyzer {
         throw new Error('No video found for this test execution');
       }
 
-      const downloadResult = await this.downloader.downloadVideo(
-        videoInfo.videoUrl,
-        params.testId,
-        videoInfo.sessionId
+      const downloadResult = await withSpan('video.download', { 'zebrunner.test_id': params.testId }, () =>
+        this.downloader.downloadVideo(
+          videoInfo.videoUrl,
+          params.testId,
+          videoInfo.sessionId
+        )
       );
 
       if (!downloadResult.success || !downloadResult.localPath) {
@@ -111,14 +114,16 @@ export class VideoAnalyzer {
           // Use test timing as hints only (not for exact frame timestamps)
           const testDurationHint = this.calculateTestDurationHint(test);
           
-          frames = await this.extractor.extractFrames(
-            videoPath,
-            videoDuration,
-            'smart', // Always use smart mode (distributed + end-focused)
-            undefined, // Don't pass calculated failure timestamp - let it use end of video
-            30, // Always extract extra frames in last 30 seconds
-            params.frameInterval,
-            includeOCR || params.includeOCR  // Allow manual override
+          frames = await withSpan('video.extract_frames', { 'video.duration_seconds': videoDuration, 'video.ocr': includeOCR || !!params.includeOCR }, () =>
+            this.extractor.extractFrames(
+              videoPath!,
+              videoDuration,
+              'smart', // Always use smart mode (distributed + end-focused)
+              undefined, // Don't pass calculated failure timestamp - let it use end of video
+              30, // Always extract extra frames in last 30 seconds
+              params.frameInterval,
+              includeOCR || params.includeOCR  // Allow manual override
+            )
           );
 
           // Limit frames based on analysis depth (max)
@@ -237,7 +242,8 @@ export class VideoAnalyzer {
         failureAnalysis,
         testCaseComparison,
         frames,
-        JSON.stringify(logItems)
+        JSON.stringify(logItems),
+        projectKey
       );
 
       // Step 8: Build video metadata
@@ -6,6 +6,7 @@ import ffmpegPath from '@ffmpeg-installer/ffmpeg';
 import ffprobePath from '@ffprobe-installer/ffprobe';
 import sharp from 'sharp';
 import { ExtractedFrame, FrameAnalysis } from './types.js';
+import { withSpan } from '../tracing.js';
 
 // Set FFmpeg and FFprobe paths
 ffmpeg.setFfmpegPath(ffmpegPath.path);
@@ -58,24 +59,23 @@ export class FrameExtractor {
 
       // Extract frames at each timestamp
       // Extract frames in parallel (3-5x faster than sequential)
-      const extractionPromises = timestamps.map(async (timestamp, index) => {
-        try {
-          const framePath = await this.extractFrameAt(videoPath, timestamp, index + 1);
-          return {
-            timestamp,
-            frameNumber: index + 1,
-            localPath: framePath
-          };
-        } catch (error) {
-          if (this.debug) {
-            console.warn(`[FrameExtractor] Failed to extract frame at ${timestamp}s:`, error);
+      const extractionResults = await withSpan('video.ffmpeg_extract', { 'video.frames.requested': timestamps.length }, () =>
+        Promise.all(timestamps.map(async (timestamp, index) => {
+          try {
+            const framePath = await this.extractFrameAt(videoPath, timestamp, index + 1);
+            return {
+              timestamp,
+              frameNumber: index + 1,
+              localPath: framePath
+            };
+          } catch (error) {
+            if (this.debug) {
+              console.warn(`[FrameExtractor] Failed to extract frame at ${timestamp}s:`, error);
+            }
+            return null;
           }
-          return null;
-        }
-      });
-
-      // Wait for all extractions to complete
-      const extractionResults = await Promise.all(extractionPromises);
+        }))
+      );
       const extractedFrames: ExtractedFrame[] = extractionResults.filter((f): f is ExtractedFrame => f !== null);
 
       if (this.debug) {
@@ -295,7 +295,9 @@ export class FrameExtractor {
       let ocrText: string | undefined;
       if (includeOCR) {
         try {
-          ocrText = await this.extractTextFromImage(frame.localPath);
+          ocrText = await withSpan('video.ocr', { 'video.frame.number': frame.frameNumber }, () =>
+            this.extractTextFromImage(frame.localPath)
+          );
         } catch (ocrError) {
           if (this.debug) {
             console.warn(`[FrameExtractor] OCR failed for frame ${frame.frameNumber}:`, ocrError);
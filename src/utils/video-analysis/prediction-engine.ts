@@ -1,4 +1,5 @@
 import { Prediction, FailureAnalysis, TestCaseComparison, FrameAnalysis } from './types.js';
+import { matchFailureRules, resolveFailureRules, scoreVerdicts, type FailureRuleMatch } from '../failure-classifier.js';
 
 /**
  * PredictionEngine class
@@ -14,7 +15,8 @@ export class PredictionEngine {
     failureAnalysis: FailureAnalysis,
     testCaseComparison: TestCaseComparison | null,
     frames: FrameAnalysis[],
-    logs: string
+    logs: string,
+    projectKey?: string
   ): Prediction {
     if (this.debug) {
       console.error('[PredictionEngine] Analyzing evidence to predict issue type');
@@ -25,55 +27,20 @@ export class PredictionEngine {
     let bugScore = 0;
     let testScore = 0;
 
-    // Analyze failure type
-    const failureType = failureAnalysis.failureType.toLowerCase();
-    const errorMessage = failureAnalysis.errorMessage.toLowerCase();
-
-    // Bug indicators
-    if (failureType.includes('crash') || failureType.includes('anr') || failureType.includes('freeze')) {
-      evidenceForBug.push('Application crashed or became unresponsive');
-      bugScore += 30;
-    }
-
-    if (errorMessage.includes('nullpointer') || errorMessage.includes('null reference')) {
-      evidenceForBug.push('NullPointerException indicates code defect');
-      bugScore += 25;
-    }
-
-    if (errorMessage.includes('index out of bounds') || errorMessage.includes('array')) {
-      evidenceForBug.push('Array/Index error suggests code issue');
-      bugScore += 20;
-    }
-
-    if (errorMessage.includes('network') || errorMessage.includes('connection') || errorMessage.includes('timeout')) {
-      evidenceForBug.push('Network/connection issue detected');
-      bugScore += 15;
-    }
-
-    if (errorMessage.includes('database') || errorMessage.includes('sql')) {
-      evidenceForBug.push('Database error detected');
-      bugScore += 15;
-    }
-
-    // Test issue indicators
-    if (failureType.includes('elementnotfound') || failureType.includes('nosuchelement')) {
-      evidenceForTestUpdate.push('Element not found - UI may have changed');
-      testScore += 25;
-    }
-
-    if (failureType.includes('timeout') || failureType.includes('wait')) {
-      evidenceForTestUpdate.push('Wait timeout - may need increased wait time');
-      testScore += 20;
-    }
-
-    if (failureType.includes('assertion') || failureType.includes('expected')) {
-      evidenceForTestUpdate.push('Assertion failure - expected vs actual mismatch');
-      testScore += 15;
-    }
+    // Rule-based signals from the configured failure-classification packs
+    const ruleMatches = matchFailureRules(
+      { message: failureAnalysis.errorMessage, failureType: failureAnalysis.failureType, logs },
+      resolveFailureRules(projectKey)
+    );
 
-    if (errorMessage.includes('stale element') || errorMessage.includes('detached')) {
-      evidenceForTestUpdate.push('Stale element reference - test needs to re-locate element');
-      testScore += 20;
+    for (const match of ruleMatches) {
+      if (match.verdict === 'bug') {
+        evidenceForBug.push(match.reason);
+        bugScore += match.weight;
+      } else if (match.verdict === 'test_issue') {
+        evidenceForTestUpdate.push(match.reason);
+        testScore += match.weight;
+      }
     }
 
     // Analyze test case comparison
@@ -137,7 +104,7 @@ export class PredictionEngine {
 
     // Make prediction
     const totalScore = bugScore + testScore;
-    const verdict = this.determineVerdict(bugScore, testScore, failureAnalysis);
+    const verdict = this.determineVerdict(bugScore, testScore, ruleMatches);
     const confidence = totalScore > 0 
       ? Math.min(100, Math.round((Math.max(bugScore, testScore) / totalScore) * 100))
       : 50;
@@ -175,22 +142,17 @@ export class PredictionEngine {
   private determineVerdict(
     bugScore: number,
     testScore: number,
-    failureAnalysis: FailureAnalysis
+    ruleMatches: FailureRuleMatch[]
   ): 'bug' | 'test_needs_update' | 'infrastructure_issue' | 'data_issue' | 'unclear' {
-    const errorMessage = failureAnalysis.errorMessage.toLowerCase();
-    const failureType = failureAnalysis.failureType.toLowerCase();
+    const verdictScores = scoreVerdicts(ruleMatches);
 
     // Infrastructure indicators
-    if (errorMessage.includes('connection refused') || 
-        errorMessage.includes('server error') ||
-        failureType.includes('infrastructure')) {
+    if (verdictScores.infrastructure_issue > 0) {
       return 'infrastructure_issue';
     }
 
     // Data issue indicators
-    if (errorMessage.includes('invalid data') || 
-        errorMessage.includes('data not found') ||
-        errorMessage.includes('constraint violation')) {
+    if (verdictScores.data_issue > 0) {
       return 'data_issue';
     }
 
@@ -6,6 +6,7 @@
  */
 
 import { getConfig } from "./config-loader.js";
+import { withSpan } from "./tracing.js";
 
 export const ALL_PERIODS = [
   "Today",
@@ -221,35 +222,40 @@ export function createWidgetSqlCaller(
   baseUrl: string,
   authenticate: () => Promise<string>
 ): WidgetSqlCaller {
-  return async (projectId: number, templateId: number, paramsConfig: any): Promise<any> => {
-    const bearerToken = await authenticate();
-    const url = `${baseUrl}/api/reporting/v1/widget-templates/sql?projectId=${projectId}`;
-
-    const res = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${bearerToken}`,
-        "Content-Type": "application/json",
-        "Accept": "application/json"
-      },
-      body: JSON.stringify({ templateId, paramsConfig })
-    });
-
-    if (!res.ok) {
-      const text = await res.text().catch(() => "");
-      throw new Error(`Widget SQL failed: ${res.status} ${res.statusText} — ${text.slice(0, 500)}`);
-    }
-
-    const json = await res.json();
-    const unwrapped = unwrapResponseEnvelope(json);
-
-    if (!Array.isArray(unwrapped)) {
-      console.error(
-        `⚠️ [WidgetSQL] Unexpected response shape from templateId=${templateId}, projectId=${projectId}:`,
-        `type=${typeof json}, keys=${json && typeof json === 'object' ? Object.keys(json).join(',') : 'N/A'}`
-      );
-    }
-
-    return unwrapped;
-  };
+  return (projectId: number, templateId: number, paramsConfig: any): Promise<any> => withSpan(
+    "widget_sql",
+    { "zebrunner.project_id": projectId, "zebrunner.widget_template_id": templateId },
+    async (span) => {
+      const bearerToken = await authenticate();
+      const url = `${baseUrl}/api/reporting/v1/widget-templates/sql?projectId=${projectId}`;
+
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${bearerToken}`,
+          "Content-Type": "application/json",
+          "Accept": "application/json"
+        },
+        body: JSON.stringify({ templateId, paramsConfig })
+      });
+      span.setAttribute("http.response.status_code", res.status);
+
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        throw new Error(`Widget SQL failed: ${res.status} ${res.statusText} — ${text.slice(0, 500)}`);
+      }
+
+      const json = await res.json();
+      const unwrapped = unwrapResponseEnvelope(json);
+
+      if (!Array.isArray(unwrapped)) {
+        console.error(
+          `⚠️ [WidgetSQL] Unexpected response shape from templateId=${templateId}, projectId=${projectId}:`,
+          `type=${typeof json}, keys=${json && typeof json === 'object' ? Object.keys(json).join(',') : 'N/A'}`
+        );
+      }
+
+      return unwrapped;
+    },
+  );
 }
@@ -35,6 +35,7 @@ export const TOOL_SMOKE_INPUTS: Record<string, Record<string, unknown>> = {
   get_all_launches_with_filter: { project_key: "MCP" },
   test_reporting_connection: {},
   about_mcp_tools: { mode: "summary" },
+  cache_admin: { action: "stats" },
   get_platform_results_by_period: { project: "android", period: "Today" },
   get_top_bugs: { project: "android", period: "Month" },
   get_bug_review: { project: "android", period: "Last 30 Days" },
@@ -47,12 +48,18 @@ export const TOOL_SMOKE_INPUTS: Record<string, Record<string, unknown>> = {
   get_test_run_by_id: { project: "android", id: 1 },
   list_test_run_test_cases: { project: "android", testRunId: 1 },
   get_test_run_result_statuses: { project: "android" },
+  requirements_traceability: { project: "android", test_run_ids: [1] },
   get_test_run_configuration_groups: { project: "android" },
   analyze_test_cases_duplicates: { project_key: "MCP", suite_id: 1 },
   analyze_test_cases_duplicates_semantic: { project_key: "MCP", suite_id: 1 },
   aggregate_test_cases_by_feature: { project_key: "MCP", feature_keyword: "login" },
+  test_case_change_report: { project_key: "MCP", suite_id: 1, period_days: 30 },
   analyze_regression_runtime: { project: "android", milestone: "develop-49771" },
   find_flaky_tests: { project: "android", period_days: 14 },
+  sync_history: { project: "android", status_only: true },
+  cluster_failures: { projects: ["android", "ios"], launch_count: 5 },
+  compare_launches: { project: "android", base_launch_id: 1, target_launch_id: 2 },
+  suggest_issue_links: { project: "android", launch_id: 1, dry_run: true },
   generate_report: { report_types: ["quality_dashboard"], projects: ["android", "ios"], period: "Last 30 Days" },
   create_test_suite: { project_key: "MCP", title: "Smoke Suite", dry_run: true },
   update_test_suite: { project_key: "MCP", suite_id: 1, title: "Smoke Suite", dry_run: true },
@@ -61,7 +68,16 @@ export const TOOL_SMOKE_INPUTS: Record<string, Record<string, unknown>> = {
   manage_test_run: { project_key: "MCP", action: "create", title: "Smoke Run", dry_run: true },
   import_launch_results_to_test_run: { project_key: "MCP", test_run_id: 1, launch_id: 1, dry_run: true },
   rerun_launch_failures: { project: "android", launch_id: 1 },
-  start_launch: { project: "android", launch_id: 1 }
+  start_launch: { project: "android", launch_id: 1 },
+  revert_change: { audit_entry_id: "00000000-0000-0000-0000-000000000000", dry_run: true },
+  get_audit_log: { project_key: "MCP", format: "json" },
+  bulk_update_test_cases: { project_key: "MCP", keys: ["MCP-1"], patch: { draft: false }, dry_run: true },
+  copy_test_cases: { project_key: "MCP", keys: ["MCP-1"], target_suite_id: 1, dry_run: true },
+  clone_suite_tree: { project_key: "MCP", suite_id: 1, dry_run: true },
+  write_draft_test_to_workspace: { project_key: "MCP", case_key: "MCP-1" },
+  scan_automation_repo: { project_key: "MCP" },
+  import_gherkin: { project_key: "MCP", target_suite_id: 1, feature_text: "Feature: Login\n  Scenario: Valid user\n    When I log in\n    Then I see the dashboard" },
+  export_test_cases: { project_key: "MCP", suite_id: 1, format: "csv" }
 };
 
 export const TOOL_SCHEMA_REQUIRED_KEYS: Record<string, string[]> = Object.fromEntries(
@@ -81,6 +97,7 @@ export const RESOURCE_MANIFEST: Record<string, { uri: string; type: "static" | "
   time_periods:                    { uri: "zebrunner://periods",                                       type: "static" },
   chart_options:                   { uri: "zebrunner://charts",                                        type: "static" },
   output_formats:                  { uri: "zebrunner://formats",                                       type: "static" },
+  audit_log:                       { uri: "zebrunner://audit",                                         type: "static" },
   project_milestones:              { uri: "zebrunner://projects/{project_key}/milestones",              type: "template" },
   project_result_statuses:         { uri: "zebrunner://projects/{project_key}/result-statuses",        type: "template" },
   project_configuration_groups:    { uri: "zebrunner://projects/{project_key}/configuration-groups",   type: "template" },
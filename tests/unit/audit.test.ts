@@ -1,9 +1,22 @@
-import { describe, it, afterEach } from 'node:test';
+import { describe, it, afterEach, mock } from 'node:test';
 import { strict as assert } from 'node:assert';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
-import { writeAuditLog, AUDIT_LOG_PATH, AuditEntry } from '../../src/helpers/audit.js';
+import {
+  writeAuditLog,
+  readAuditLog,
+  findAuditEntry,
+  filterAuditEntries,
+  visibleAuditEntries,
+  auditEntriesToCsv,
+  rotateAuditLogIfNeeded,
+  listAuditLogFiles,
+  pruneRotatedAuditLogs,
+  AUDIT_LOG_PATH,
+  AuditEntry,
+} from '../../src/helpers/audit.js';
+import { requestContext } from '../../src/http/request-context.js';
 
 describe('audit helper', () => {
   const testLogPath = AUDIT_LOG_PATH;
@@ -60,4 +73,174 @@ describe('audit helper', () => {
       });
     });
   });
+
+  it('writeAuditLog assigns an ID that findAuditEntry can resolve', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-test-'));
+    const logPath = path.join(dir, 'audit.jsonl');
+    try {
+      const id = writeAuditLog({
+        timestamp: '2026-10-01T10:00:00.000Z',
+        tool: 'update_test_case',
+        method: 'PATCH',
+        url: '/test-cases/key:MCP-1',
+        projectKey: 'MCP',
+        payload: { title: 'New' },
+        target: { type: 'test_case', identifier: 'MCP-1' },
+        before: { title: 'Old' },
+      }, logPath);
+      fs.appendFileSync(logPath, 'not json\n');
+
+      assert.match(id, /^[0-9a-f-]{36}$/);
+      assert.equal(readAuditLog(logPath).length, 1);
+      const found = findAuditEntry(id, logPath);
+      assert.deepEqual(found?.before, { title: 'Old' });
+      assert.equal(findAuditEntry('missing', logPath), undefined);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('readAuditLog returns an empty list for a missing file', () => {
+    assert.deepEqual(readAuditLog(path.join(os.tmpdir(), 'does-not-exist-audit.jsonl')), []);
+  });
+
+  it('writeAuditLog records the requestContext username', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-test-'));
+    const logPath = path.join(dir, 'audit.jsonl');
+    try {
+      const base = { timestamp: '2026-10-01T10:00:00.000Z', tool: 'create_test_case', method: 'POST' as const, url: '/test-cases', payload: {} };
+      requestContext.run({ username: 'alice', token: 't' }, () => writeAuditLog(base, logPath));
+      writeAuditLog(base, logPath);
+      const [first, second] = readAuditLog(logPath);
+      assert.equal(first.user, 'alice');
+      assert.equal(second.user, undefined);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rotates by size and by day, and readAuditLog still sees rotated entries', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-test-'));
+    const logPath = path.join(dir, 'audit.jsonl');
+    const entry = (n: number): AuditEntry => ({
+      timestamp: `2026-10-0${n}T10:00:00.000Z`, tool: 'update_test_suite', method: 'PUT', url: `/test-suites/${n}`, payload: { n },
+    });
+    try {
+      writeAuditLog(entry(1), logPath, { maxBytes: 0, daily: false });
+      assert.equal(rotateAuditLogIfNeeded(logPath, 1, { maxBytes: 10_000, daily: false }), null);
+      const bySize = rotateAuditLogIfNeeded(logPath, 1, { maxBytes: 10, daily: false }, new Date('2026-10-01T12:00:00Z'));
+      assert.equal(path.basename(bySize ?? ''), 'audit.2026-10-01T12-00-00-000Z.jsonl');
+      writeAuditLog(entry(2), logPath, { maxBytes: 0, daily: false });
+      assert.equal(listAuditLogFiles(logPath).length, 2);
+
+      fs.utimesSync(logPath, new Date('2026-10-02T10:00:00Z'), new Date('2026-10-02T10:00:00Z'));
+      const rotated = rotateAuditLogIfNeeded(logPath, 1, { maxBytes: 0, daily: true }, new Date('2026-10-03T01:00:00Z'));
+      assert.equal(path.basename(rotated ?? ''), 'audit.2026-10-02.jsonl');
+      writeAuditLog(entry(3), logPath, { maxBytes: 0, daily: true });
+
+      assert.equal(listAuditLogFiles(logPath).length, 3);
+      assert.deepEqual(readAuditLog(logPath).map((e) => (e.payload as { n: number }).n), [1, 2, 3]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('lists the active log and then rotated files newest first, and prunes the oldest', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-test-'));
+    const logPath = path.join(dir, 'audit.jsonl');
+    const names = [
+      'audit.2026-10-01.jsonl',
+      'audit.2026-10-01-1.jsonl',
+      'audit.2026-10-01T08-00-00-000Z.jsonl',
+      'audit.2026-10-02T09-00-00-000Z.jsonl',
+      'audit.2026-10-02T09-00-00-000Z-1.jsonl',
+      'audit.notes.jsonl',
+    ];
+    try {
+      for (const name of names) fs.writeFileSync(path.join(dir, name), '');
+      assert.deepEqual(listAuditLogFiles(logPath).map((f) => path.basename(f)), [
+        'audit.jsonl',
+        'audit.2026-10-02T09-00-00-000Z-1.jsonl',
+        'audit.2026-10-02T09-00-00-000Z.jsonl',
+        'audit.2026-10-01-1.jsonl',
+        'audit.2026-10-01.jsonl',
+        'audit.2026-10-01T08-00-00-000Z.jsonl',
+      ]);
+
+      const removed = pruneRotatedAuditLogs(logPath, 2).map((f) => path.basename(f));
+      assert.deepEqual(removed, ['audit.2026-10-01-1.jsonl', 'audit.2026-10-01.jsonl', 'audit.2026-10-01T08-00-00-000Z.jsonl']);
+      assert.ok(fs.existsSync(path.join(dir, 'audit.notes.jsonl')));
+
+      fs.writeFileSync(logPath, 'x'.repeat(20));
+      rotateAuditLogIfNeeded(logPath, 1, { maxBytes: 10, daily: false, maxFiles: 2 }, new Date('2026-10-03T00:00:00Z'));
+      assert.deepEqual(listAuditLogFiles(logPath).slice(1).map((f) => path.basename(f)), [
+        'audit.2026-10-03T00-00-00-000Z.jsonl',
+        'audit.2026-10-02T09-00-00-000Z-1.jsonl',
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('stops reading older files once the limit is reached', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-test-'));
+    const logPath = path.join(dir, 'audit.jsonl');
+    const line = (id: string) => JSON.stringify({ id, timestamp: '2026-10-01T10:00:00Z', tool: 't', method: 'PUT', url: '/', payload: {} }) + '\n';
+    try {
+      fs.writeFileSync(path.join(dir, 'audit.2026-10-02.jsonl'), line('old'));
+      fs.writeFileSync(logPath, line('new-1') + line('new-2'));
+
+      const read = mock.method(fs, 'readFileSync');
+      try {
+        assert.deepEqual(readAuditLog(logPath, { limit: 2 }).map((e) => e.id), ['new-1', 'new-2']);
+        assert.deepEqual(read.mock.calls.map((c) => path.basename(String(c.arguments[0]))), ['audit.jsonl']);
+      } finally {
+        read.mock.restore();
+      }
+      assert.deepEqual(readAuditLog(logPath, { limit: 3 }).map((e) => e.id), ['old', 'new-1', 'new-2']);
+      assert.deepEqual(readAuditLog(logPath, { filter: (e) => e.id !== 'new-2', limit: 2 }).map((e) => e.id), ['old', 'new-1']);
+      assert.equal(findAuditEntry('old', logPath)?.id, 'old');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('filterAuditEntries matches tool/project/user/method/time and sorts newest first', () => {
+    const entries: AuditEntry[] = [
+      { timestamp: '2026-10-01T10:00:00Z', tool: 'update_test_case', method: 'PATCH', url: '/a', projectKey: 'MCP', user: 'Alice', payload: {} },
+      { timestamp: '2026-10-03T10:00:00Z', tool: 'update_test_case', method: 'PATCH', url: '/b', projectKey: 'mcp', user: 'alice', payload: {} },
+      { timestamp: '2026-10-02T10:00:00Z', tool: 'create_test_case', method: 'POST', url: '/c', projectKey: 'MCP', user: 'bob', payload: {} },
+    ];
+    const byTool = filterAuditEntries(entries, { tool: 'adv_update_test_case', projectKey: 'MCP', user: 'ALICE' });
+    assert.deepEqual(byTool.map((e) => e.url), ['/b', '/a']);
+    assert.deepEqual(filterAuditEntries(entries, { method: 'POST' }).map((e) => e.url), ['/c']);
+    assert.deepEqual(
+      filterAuditEntries(entries, { from: '2026-10-02T00:00:00Z', to: '2026-10-02T23:59:59Z' }).map((e) => e.url),
+      ['/c'],
+    );
+  });
+
+  it('visibleAuditEntries limits HTTP callers to their own entries', () => {
+    const entries: AuditEntry[] = [
+      { timestamp: '2026-10-01T10:00:00Z', tool: 'update_test_case', method: 'PATCH', url: '/a', user: 'Alice', payload: {}, before: { title: 'secret' } },
+      { timestamp: '2026-10-02T10:00:00Z', tool: 'update_test_case', method: 'PATCH', url: '/b', user: 'bob', payload: {} },
+      { timestamp: '2026-10-03T10:00:00Z', tool: 'create_test_case', method: 'POST', url: '/c', payload: {} },
+    ];
+    const asAlice = requestContext.run({ username: 'alice', token: 't1' }, () => visibleAuditEntries(entries));
+    const asBob = requestContext.run({ username: 'bob', token: 't2' }, () => visibleAuditEntries(entries));
+    assert.deepEqual(asAlice.map((e) => e.url), ['/a']);
+    assert.deepEqual(asBob.map((e) => e.url), ['/b']);
+    // stdio: no request context, the whole log is visible
+    assert.deepEqual(visibleAuditEntries(entries).map((e) => e.url), ['/a', '/b', '/c']);
+  });
+
+  it('auditEntriesToCsv quotes JSON payloads and formats targets', () => {
+    const csv = auditEntriesToCsv([{
+      id: 'x1', timestamp: '2026-10-01T10:00:00Z', tool: 'update_test_case', method: 'PATCH', url: '/t',
+      payload: { title: 'a,b' }, target: { type: 'test_case', identifier: 'MCP-1' },
+    }]);
+    const [header, row] = csv.trim().split('\r\n');
+    assert.equal(header, 'id,timestamp,user,tool,method,projectKey,url,target,payload');
+    assert.equal(row, 'x1,2026-10-01T10:00:00Z,,update_test_case,PATCH,,/t,test_case:MCP-1,"{""title"":""a,b""}"');
+  });
 });
@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import {
+  buildAutomationScanReport,
+  extractCaseKeyRefs,
+  formatAutomationScanMarkdown,
+  scanCaseKeyRefs,
+} from '../../src/utils/automation-scan.js';
+
+describe('automation repository scan', () => {
+  it('reads keys from annotations, markers and titles of each framework', () => {
+    const java = [
+      'public class LoginTest extends AbstractTest {',
+      '    @TestCaseKey({"MCP-1", "MCP-2"})',
+      '    @Test',
+      '    public void testLogin() {}',
+      '',
+      '    @Tag("MCP-3")',
+      '    @Tag("JIRA-9")',
+      '    void testLogout() {}',
+      '}',
+    ].join('\n');
+    assert.deepEqual(extractCaseKeyRefs('LoginTest.java', java, 'mcp').map(r => [r.key, r.line, r.source, r.test]), [
+      ['MCP-1', 2, 'carina', 'testLogin'],
+      ['MCP-2', 2, 'carina', 'testLogin'],
+      ['MCP-3', 6, 'junit_tag', 'testLogout'],
+    ]);
+
+    const playwright = [
+      "test('Checkout', { annotation: { type: 'testCaseKey', description: 'MCP-4' } }, async ({ page }) => {});",
+      "test('MCP-5 @MCP-6 guest checkout', async () => {});",
+    ].join('\n');
+    assert.deepEqual(extractCaseKeyRefs('checkout.spec.ts', playwright, 'MCP').map(r => [r.key, r.source, r.test]), [
+      ['MCP-4', 'playwright_annotation', 'Checkout'],
+      ['MCP-5', 'test_title', 'MCP-5 @MCP-6 guest checkout'],
+      ['MCP-6', 'test_title', 'MCP-5 @MCP-6 guest checkout'],
+    ]);
+
+    const pytest = '@pytest.mark.test_case_key("MCP-7")\ndef test_create_user(api_client):\n    pass\n';
+    assert.deepEqual(extractCaseKeyRefs('tests/test_users.py', pytest, 'MCP').map(r => [r.key, r.source, r.test]), [
+      ['MCP-7', 'pytest_marker', 'test_create_user'],
+    ]);
+  });
+
+  it('cross-references code with test cases and formats the findings', () => {
+    const root = mkdtempSync(join(tmpdir(), 'zeb-scan-'));
+    const write = (path: string, content: string) => {
+      mkdirSync(dirname(join(root, path)), { recursive: true });
+      writeFileSync(join(root, path), content);
+    };
+    try {
+      write('tests/a.spec.ts', "test('MCP-1 login', async () => {});\ntest('MCP-2 logout', async () => {});\n");
+      write('tests/b.spec.ts', "// Zebrunner test case: MCP-9\nit('old', () => {});\ntest('MCP-4 gone', async () => {});\n");
+      write('README.md', 'MCP-3 is documented here');
+
+      const { refs, filesScanned } = scanCaseKeyRefs(root, ['tests/a.spec.ts', 'tests/b.spec.ts', 'README.md', 'missing.ts'], 'MCP');
+      assert.equal(filesScanned, 2);
+      assert.equal(refs.length, 4);
+
+      const report = buildAutomationScanReport(refs, [
+        { key: 'MCP-1', title: 'Login', automationState: { name: 'Automated' } },
+        { key: 'MCP-2', title: 'Logout', automationState: { name: 'Not Automated' } },
+        { key: 'MCP-3', title: 'Docs', automationState: { name: 'automated' } },
+        { key: 'MCP-4', title: 'Gone', deprecated: true, automationState: { name: 'Automated' } },
+        { key: 'MCP-5', title: 'Manual', automationState: { name: 'Not Automated' } },
+      ], filesScanned, 'Automated');
+
+      assert.deepEqual(report.totals, {
+        cases: 5, casesWithCode: 2, references: 4,
+        automatedWithoutCode: 1, codeButNotAutomated: 1, unknownKeys: 1, deprecatedKeys: 1,
+      });
+      assert.deepEqual(report.automatedWithoutCode.map(c => c.key), ['MCP-3']);
+      assert.deepEqual(report.codeButNotAutomated.map(c => [c.key, c.automationState, c.refs[0].file]), [['MCP-2', 'Not Automated', 'tests/a.spec.ts']]);
+      assert.deepEqual(report.unknownKeys.map(u => [u.key, u.refs[0].source, u.refs[0].test]), [['MCP-9', 'comment', 'old']]);
+      assert.deepEqual(report.deprecatedKeys.map(c => c.key), ['MCP-4']);
+
+      const md = formatAutomationScanMarkdown(report, 'MCP', 50);
+      assert.ok(md.includes('| MCP-2 | Logout | Not Automated | tests/a.spec.ts:2 (MCP-2 logout) |'));
+      assert.ok(md.includes('## Automated Cases Without Code'));
+      assert.ok(!md.includes('Automation states match the code'));
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
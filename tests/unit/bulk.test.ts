@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { runWithConcurrency, diffPatchAgainst } from '../../src/helpers/bulk.js';
+
+describe('bulk helpers', () => {
+  describe('runWithConcurrency', () => {
+    it('never exceeds the concurrency limit and keeps input order', async () => {
+      let active = 0;
+      let peak = 0;
+      const results = await runWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, (n) => `T-${n}`, async (n) => {
+        active++;
+        peak = Math.max(peak, active);
+        await new Promise((r) => setTimeout(r, 5 * (8 - n)));
+        active--;
+        return n * 10;
+      });
+      assert.equal(peak, 3);
+      assert.deepEqual(results.map((r) => (r.ok ? r.value : null)), [10, 20, 30, 40, 50, 60, 70]);
+    });
+
+    it('reports failures per item without rejecting', async () => {
+      const results = await runWithConcurrency(['A-1', 'A-2'], 5, (k) => k, async (k) => {
+        if (k === 'A-2') throw new Error('boom');
+        return k;
+      });
+      assert.deepEqual(results, [
+        { item: 'A-1', ok: true, value: 'A-1' },
+        { item: 'A-2', ok: false, error: 'boom' },
+      ]);
+    });
+
+    it('handles an empty list', async () => {
+      assert.deepEqual(await runWithConcurrency([], 5, String, async () => 1), []);
+    });
+  });
+
+  describe('diffPatchAgainst', () => {
+    const current = {
+      key: 'MCP-1',
+      priority: { id: 3, name: 'Medium' },
+      automationState: { id: 10, name: 'Not Automated' },
+      draft: false,
+      customField: { platform: 'ios', owner: 'alice' },
+    };
+
+    it('returns no diffs when the record already matches (id, case-insensitive name, scalar)', () => {
+      assert.deepEqual(diffPatchAgainst(current, {
+        priority: { id: 3 },
+        automationState: { name: 'not automated' },
+        draft: false,
+      }), []);
+    });
+
+    it('reports reference, scalar, and patched custom field changes only', () => {
+      const diffs = diffPatchAgainst(current, {
+        priority: { name: 'High' },
+        deprecated: true,
+        customField: { platform: 'android', newField: 'x' },
+      });
+      assert.deepEqual(diffs, [
+        { field: 'priority', before: { name: 'Medium' }, after: { name: 'High' } },
+        { field: 'deprecated', before: null, after: true },
+        {
+          field: 'customField',
+          before: { platform: 'ios', newField: null },
+          after: { platform: 'android', newField: 'x' },
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { buildCaseCopyPayload, remapCaseSettings } from '../../src/helpers/case-copy.js';
+import type { CustomFieldDef } from '../../src/helpers/settings.js';
+
+const field = (id: number, systemName: string, name: string, enabled = true): CustomFieldDef =>
+  ({ id, systemName, name, enabled, dataType: 'STRING', valueDefinition: null });
+
+describe('case copy helpers', () => {
+  const source = {
+    id: 7,
+    key: 'MCP-7',
+    title: 'Login works',
+    description: 'See /files/11111111-1111-1111-1111-111111111111',
+    preConditions: '',
+    draft: false,
+    deprecated: false,
+    priority: { id: 3, name: 'High' },
+    automationState: { id: 10, name: 'Automated' },
+    testSuite: { id: 99 },
+    steps: [
+      { id: 1, action: 'Open app', expectedResult: 'Shown', attachments: [{ fileUuid: 'u-1', name: 'a.png' }] },
+      { id: 2, sharedStepsId: 5 },
+    ],
+    requirements: [{ id: 1, source: 'JIRA', reference: 'APP-1' }],
+    attachments: [{ fileUuid: 'u-2', name: 'b.txt', size: 3 }],
+    customField: { platform: 'android', owner: null, legacy: '' },
+  };
+
+  it('buildCaseCopyPayload maps the GET shape to a create payload', () => {
+    const payload = buildCaseCopyPayload(source, 42);
+    assert.deepEqual(payload, {
+      testSuite: { id: 42 },
+      title: 'Login works',
+      description: 'See /files/11111111-1111-1111-1111-111111111111',
+      draft: false,
+      deprecated: false,
+      priority: { name: 'High' },
+      automationState: { name: 'Automated' },
+      steps: [
+        { action: 'Open app', expectedResult: 'Shown', attachments: [{ fileUuid: 'u-1' }] },
+        { sharedStepsId: 5 },
+      ],
+      requirements: [{ source: 'JIRA', reference: 'APP-1' }],
+      attachments: [{ fileUuid: 'u-2' }],
+      customField: { platform: 'android' },
+    });
+  });
+
+  it('remapCaseSettings maps by name and reports what it drops', () => {
+    const payload = { ...buildCaseCopyPayload(source, 42), customField: { platform: 'android', team: 'core', secret: 'x' } };
+    const { payload: remapped, unmapped } = remapCaseSettings(
+      payload,
+      {
+        priorities: [{ id: 30, name: 'high', isDefault: false }],
+        automationStates: [{ id: 1, name: 'Manual', isDefault: true }],
+        customFields: [field(1, 'os', 'Platform'), field(2, 'team', 'Team', false)],
+      },
+      [field(9, 'platform', 'Platform'), field(10, 'team', 'Team'), field(11, 'secret', 'Secret')],
+    );
+    assert.deepEqual(remapped.priority, { id: 30 });
+    assert.equal(remapped.automationState, undefined);
+    assert.deepEqual(remapped.customField, { os: 'android' });
+    assert.deepEqual(remapped.steps, [{ action: 'Open app', expectedResult: 'Shown', attachments: [{ fileUuid: 'u-1' }] }]);
+    assert.deepEqual(unmapped, [
+      'automation state "Automated"',
+      'custom field "Team" (disabled in target project)',
+      'custom field "Secret"',
+      '1 shared step reference(s)',
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { mkdtemp, rm, readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  InMemoryConfirmationStore,
+  FileConfirmationStore,
+  RedisConfirmationStore,
+  createConfirmationStore,
+  sanitizeConfirmationToken,
+  CONFIRMATION_TOKEN_TTL_MS,
+  type RedisLikeClient,
+} from '../../src/helpers/confirmation-store.js';
+
+class FakeRedis implements RedisLikeClient {
+  data = new Map<string, { value: string; expiresAt: number }>();
+  async get(key: string): Promise<string | null> {
+    const e = this.data.get(key);
+    if (!e || e.expiresAt < Date.now()) return null;
+    return e.value;
+  }
+  async set(key: string, value: string, _mode: 'PX', ttlMs: number): Promise<unknown> {
+    this.data.set(key, { value, expiresAt: Date.now() + ttlMs });
+    return 'OK';
+  }
+  async del(key: string): Promise<number> {
+    return this.data.delete(key) ? 1 : 0;
+  }
+}
+
+const KEY = 'test-encryption-key-32chars-min!';
+
+describe('ConfirmationStore', () => {
+  describe('sanitizeConfirmationToken', () => {
+    it('rejects path traversal and non-hex tokens', () => {
+      assert.throws(() => sanitizeConfirmationToken('../etc/passwd'), /Invalid confirmation token/);
+      assert.throws(() => sanitizeConfirmationToken('ZZZZZZZZ'), /Invalid confirmation token/);
+      assert.throws(() => sanitizeConfirmationToken(42), /Invalid confirmation token/);
+    });
+
+    it('accepts 16-char hex tokens', () => {
+      assert.doesNotThrow(() => sanitizeConfirmationToken('0123456789abcdef'));
+    });
+  });
+
+  describe('InMemoryConfirmationStore', () => {
+    it('delete is one-time (second delete returns false)', async () => {
+      const store = new InMemoryConfirmationStore();
+      await store.set('aaaaaaaaaaaaaaaa', { argsJson: '{}', createdAt: Date.now(), owner: 'alice' });
+      assert.equal((await store.get('aaaaaaaaaaaaaaaa'))?.owner, 'alice');
+      assert.equal(await store.delete('aaaaaaaaaaaaaaaa'), true);
+      assert.equal(await store.delete('aaaaaaaaaaaaaaaa'), false);
+      assert.equal(await store.get('aaaaaaaaaaaaaaaa'), null);
+    });
+
+    it('sweepExpired removes entries older than the TTL', async () => {
+      const store = new InMemoryConfirmationStore();
+      await store.set('bbbbbbbbbbbbbbbb', { argsJson: '{}', createdAt: Date.now() - CONFIRMATION_TOKEN_TTL_MS - 1 });
+      await store.set('cccccccccccccccc', { argsJson: '{}', createdAt: Date.now() });
+      await store.sweepExpired();
+      assert.equal(await store.get('bbbbbbbbbbbbbbbb'), null);
+      assert.ok(await store.get('cccccccccccccccc'));
+    });
+  });
+
+  describe('FileConfirmationStore multi-instance', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'confirm-store-test-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('preview on instance A can be confirmed on instance B exactly once', async () => {
+      const storeA = new FileConfirmationStore(dir, KEY);
+      const storeB = new FileConfirmationStore(dir, KEY);
+      await storeA.set('0123456789abcdef', { argsJson: '{"title":"x"}', createdAt: Date.now(), owner: 'bob' });
+
+      const pd = await storeB.get('0123456789abcdef');
+      assert.equal(pd?.argsJson, '{"title":"x"}');
+      assert.equal(pd?.owner, 'bob');
+      assert.equal(await storeB.delete('0123456789abcdef'), true);
+      assert.equal(await storeA.delete('0123456789abcdef'), false);
+    });
+
+    it('stores payloads encrypted on disk', async () => {
+      const store = new FileConfirmationStore(dir, KEY);
+      await store.set('0123456789abcdef', { argsJson: '{"secret":"plain"}', createdAt: Date.now() });
+      const other = new FileConfirmationStore(dir, 'a-different-key-entirely-123456');
+      await assert.rejects(() => other.get('0123456789abcdef'));
+    });
+
+    it('sweepExpired deletes expired files', async () => {
+      const store = new FileConfirmationStore(dir, KEY);
+      await store.set('dddddddddddddddd', { argsJson: '{}', createdAt: Date.now() - CONFIRMATION_TOKEN_TTL_MS - 1 });
+      await store.set('eeeeeeeeeeeeeeee', { argsJson: '{}', createdAt: Date.now() });
+      await store.sweepExpired();
+      assert.deepEqual(await readdir(dir), ['eeeeeeeeeeeeeeee.enc']);
+    });
+  });
+
+  describe('RedisConfirmationStore', () => {
+    it('round-trips through a Redis-compatible client with TTL', async () => {
+      const redis = new FakeRedis();
+      const store = new RedisConfirmationStore(redis, KEY);
+      await store.set('ffffffffffffffff', { argsJson: '{"a":1}', createdAt: Date.now(), owner: 'carol', tool: 'update_test_case' });
+      const [rawKey] = [...redis.data.keys()];
+      assert.ok(rawKey.endsWith('ffffffffffffffff'));
+      assert.ok(!redis.data.get(rawKey)!.value.includes('carol'), 'value should be encrypted');
+      assert.equal((await store.get('ffffffffffffffff'))?.owner, 'carol');
+      assert.equal((await store.get('ffffffffffffffff'))?.tool, 'update_test_case');
+      assert.equal(await store.delete('ffffffffffffffff'), true);
+      assert.equal(await store.delete('ffffffffffffffff'), false);
+    });
+  });
+
+  describe('createConfirmationStore', () => {
+    const saved = { ...process.env };
+
+    afterEach(() => {
+      for (const k of ['TOKEN_STORE_KEY', 'TOKEN_STORE_PATH', 'CONFIRMATION_STORE_DIR', 'CONFIRMATION_STORE_REDIS_URL']) {
+        if (saved[k] === undefined) delete process.env[k];
+        else process.env[k] = saved[k];
+      }
+    });
+
+    it('defaults to memory without TOKEN_STORE_KEY', () => {
+      delete process.env.TOKEN_STORE_KEY;
+      delete process.env.TOKEN_STORE_PATH;
+      assert.equal(createConfirmationStore().backend, 'memory');
+    });
+
+    it('uses the file backend next to the token store', () => {
+      process.env.TOKEN_STORE_KEY = KEY;
+      process.env.TOKEN_STORE_PATH = '/tmp/data/tokens.enc';
+      delete process.env.CONFIRMATION_STORE_DIR;
+      assert.equal(createConfirmationStore().backend, 'file');
+    });
+
+    it('prefers a supplied Redis client', () => {
+      process.env.TOKEN_STORE_KEY = KEY;
+      assert.equal(createConfirmationStore({ redisClient: new FakeRedis() }).backend, 'redis');
+    });
+
+    it('requires TOKEN_STORE_KEY for Redis', () => {
+      delete process.env.TOKEN_STORE_KEY;
+      assert.throws(() => createConfirmationStore({ redisClient: new FakeRedis() }), /TOKEN_STORE_KEY/);
+    });
+
+    it('connects to CONFIRMATION_STORE_REDIS_URL ahead of the file backend', () => {
+      process.env.TOKEN_STORE_KEY = KEY;
+      process.env.TOKEN_STORE_PATH = '/tmp/data/tokens.enc';
+      process.env.CONFIRMATION_STORE_REDIS_URL = 'redis://127.0.0.1:6399/2';
+      assert.equal(createConfirmationStore().backend, 'redis');
+      assert.equal(createConfirmationStore({ redisUrl: 'redis://cache:6379' }).backend, 'redis');
+    });
+
+    it('shares a configured Redis URL only when payloads can be encrypted', () => {
+      delete process.env.CONFIRMATION_STORE_REDIS_URL;
+      delete process.env.TOKEN_STORE_PATH;
+      process.env.TOKEN_STORE_KEY = KEY;
+      assert.equal(createConfirmationStore({ redisUrl: 'redis://cache:6379' }).backend, 'redis');
+      delete process.env.TOKEN_STORE_KEY;
+      assert.equal(createConfirmationStore({ redisUrl: 'redis://cache:6379' }).backend, 'memory');
+      process.env.CONFIRMATION_STORE_REDIS_URL = 'redis://cache:6379';
+      assert.throws(() => createConfirmationStore(), /TOKEN_STORE_KEY/);
+    });
+  });
+});
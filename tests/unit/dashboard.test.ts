@@ -226,6 +226,7 @@ describe("widget-sql: createWidgetSqlCaller", () => {
 // ── ReportHandler tests ──────────────────────────────────────────────────
 
 import { ReportHandler } from "../../src/handlers/report-handler.js";
+import { reloadConfig } from "../../src/utils/config-loader.js";
 
 function createMockReportingHandlers() {
   return {
@@ -295,6 +296,11 @@ function createMockHandler() {
       { id: 2, name: "Manual" },
       { id: 3, name: "Not Automated" },
     ],
+    getTestCaseChanges: async (caseId: number) => ({
+      items: caseId === 11
+        ? [{ id: 1, instant: recentDate + "T10:00:00Z", userId: 7, type: "UPDATE", items: [{ field: "automationState", action: "UPDATE", oldValue: 2, newValue: 1 }] }]
+        : [],
+    }),
   } as any;
 
   const mockPublicClient = {
@@ -312,6 +318,16 @@ function createMockHandler() {
       ],
       _meta: { nextPageToken: undefined },
     }),
+    getAllTestSuites: async (_key: string) => [
+      { id: 101, name: "Regression" },
+      { id: 102, name: "Critical" },
+    ],
+    getAllTCMTestCasesByProject: async (_key: string) => [
+      { id: 10, key: "MCP-10", automationState: { id: 1, name: "Automated" }, testSuite: { id: 101 }, createdAt: oldDate, lastModifiedAt: oldDate },
+      { id: 11, key: "MCP-11", automationState: { id: 1, name: "Automated" }, testSuite: { id: 101 }, createdAt: oldDate, lastModifiedAt: recentDate },
+      { id: 12, key: "MCP-12", automationState: { id: 2, name: "Manual" }, testSuite: { id: 101 }, createdAt: oldDate, lastModifiedAt: oldDate },
+      { id: 13, key: "MCP-13", automationState: { id: 2, name: "Manual" }, testSuite: { id: 102 }, createdAt: oldDate, lastModifiedAt: oldDate },
+    ],
   } as any;
 
   const mockWidgetSql = async (_pid: number, templateId: number, _params: any) => {
@@ -730,4 +746,135 @@ describe("ReportHandler: release_readiness report", () => {
     assert.ok(md.includes("android"));
     assert.ok(md.includes("ios"));
   });
+
+  it("emits a machine-readable verdict", async () => {
+    const handler = createMockHandler();
+    const result = await handler.generateReport({
+      report_types: ["release_readiness"],
+      projects: ["android"],
+      period: "Last 30 Days",
+      milestone: "25.40.0",
+    });
+
+    const block = result.content.find((c: any) => c.type === "text" && c.text.includes("[RELEASE_VERDICT]"));
+    assert.ok(block, "should include verdict block");
+    const verdict = JSON.parse(block.text.split("```json\n")[1].split("\n```")[0]);
+    assert.ok(["GO", "NO-GO", "CONDITIONAL"].includes(verdict.verdict));
+    assert.equal(verdict.milestone, "25.40.0");
+    assert.equal(verdict.projects[0].projectKey, "MCP");
+    assert.ok(verdict.projects[0].checks.some((c: any) => c.id === "passRate" && typeof c.blocking === "boolean"));
+  });
+
+  it("applies the releaseGates policy with per-project overrides and extra checks", async () => {
+    const prev = process.env.ZEBRUNNER_CONFIG_JSON;
+    process.env.ZEBRUNNER_CONFIG_JSON = JSON.stringify({
+      releaseGates: {
+        automationCoverage: { blocking: false, min: 99, warnBelow: 99 },
+        flakyTests: { enabled: true, max: 5 },
+        mandatorySuites: { enabled: true, suites: ["Launch 1", "Smoke"] },
+        projects: { ios: { mandatorySuites: { enabled: false } } },
+      },
+    });
+    try {
+      reloadConfig();
+      const handler = createMockHandler();
+      const result = await handler.generateReport({
+        report_types: ["release_readiness"],
+        projects: ["android", "ios"],
+        period: "Last 30 Days",
+      });
+
+      const block = result.content.find((c: any) => c.type === "text" && c.text.includes("[RELEASE_VERDICT]"));
+      const verdict = JSON.parse(block.text.split("```json\n")[1].split("\n```")[0]);
+      const [android, ios] = verdict.projects;
+
+      const coverage = android.checks.find((c: any) => c.id === "automationCoverage");
+      assert.equal(coverage.status, "FAIL");
+      assert.equal(coverage.blocking, false);
+      assert.equal(android.checks.find((c: any) => c.id === "flakyTests").status, "PASS");
+      const suites = android.checks.find((c: any) => c.id === "mandatorySuites");
+      assert.equal(suites.status, "FAIL");
+      assert.ok(suites.detail.includes("Smoke"));
+      assert.ok(android.blockingFailures.includes("mandatorySuites"));
+      assert.equal(android.verdict, "NO-GO");
+
+      assert.ok(!ios.checks.some((c: any) => c.id === "mandatorySuites"));
+      assert.ok(!ios.blockingFailures.includes("automationCoverage"));
+      assert.equal(verdict.verdict, "NO-GO");
+    } finally {
+      if (prev === undefined) delete process.env.ZEBRUNNER_CONFIG_JSON;
+      else process.env.ZEBRUNNER_CONFIG_JSON = prev;
+      reloadConfig();
+    }
+  });
+
+  it("fails closed when a blocking gate cannot be evaluated", async () => {
+    const prev = process.env.ZEBRUNNER_CONFIG_JSON;
+    process.env.ZEBRUNNER_CONFIG_JSON = JSON.stringify({
+      releaseGates: { criticalBugs: { enabled: true } },
+    });
+    try {
+      reloadConfig();
+      const handler = createMockHandler();
+      const fetchBugs = handler.fetchBugs.bind(handler);
+      handler.fetchBugs = async (pCtx, period, limit, milestone, priorities) =>
+        priorities ? Promise.reject(new Error("widget timeout")) : fetchBugs(pCtx, period, limit, milestone);
+
+      const result = await handler.generateReport({
+        report_types: ["release_readiness"],
+        projects: ["android"],
+        period: "Last 30 Days",
+      });
+
+      const block = result.content.find((c: any) => c.type === "text" && c.text.includes("[RELEASE_VERDICT]"));
+      const verdict = JSON.parse(block.text.split("```json\n")[1].split("\n```")[0]);
+      const [android] = verdict.projects;
+      const critical = android.checks.find((c: any) => c.id === "criticalBugs");
+      assert.equal(critical.status, "UNKNOWN");
+      assert.equal(critical.blocking, true);
+      assert.ok(android.blockingFailures.includes("criticalBugs"));
+      assert.equal(android.verdict, "NO-GO");
+      assert.ok(android.summary.includes("could not be evaluated"));
+      assert.equal(verdict.verdict, "NO-GO");
+    } finally {
+      if (prev === undefined) delete process.env.ZEBRUNNER_CONFIG_JSON;
+      else process.env.ZEBRUNNER_CONFIG_JSON = prev;
+      reloadConfig();
+    }
+  });
+});
+
+// ── Automation Velocity report ────────────────────────────────────────────
+
+describe("ReportHandler: automation_velocity report", () => {
+  it("reports weekly intake, backlog trend and projection", async () => {
+    const handler = createMockHandler();
+    const result = await handler.generateReport({
+      report_types: ["automation_velocity"],
+      projects: ["android"],
+      period: "Last 30 Days",
+      coverage_target: 75,
+    });
+
+    const md = result.content[0].text;
+    assert.ok(md.includes("Automation Velocity Report"));
+    assert.ok(md.includes("**Coverage:** 50%"));
+    assert.ok(md.includes("**Automated in period:** 1"));
+    assert.ok(md.includes("**Manual backlog:** 3 → 2 (-1)"));
+    assert.ok(md.includes("1 more cases for 75%"));
+    assert.ok(md.includes("| Regression | 1 | 2 | 1 | 66.7% |"));
+    assert.ok(result.content.some((c: any) => c.type === "image"), "should include PNG chart");
+  });
+
+  it("marks the target as reached when coverage already meets it", async () => {
+    const handler = createMockHandler();
+    const result = await handler.generateReport({
+      report_types: ["automation_velocity"],
+      projects: ["android"],
+      period: "Last 30 Days",
+      coverage_target: 50,
+    });
+
+    assert.ok(result.content[0].text.includes("Target of 50% already reached"));
+  });
 });
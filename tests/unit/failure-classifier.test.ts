@@ -0,0 +1,135 @@
+import { describe, it, mock } from 'node:test';
+import { strict as assert } from 'node:assert';
+import {
+  classifyFailure,
+  matchFailureRules,
+  resolveFailureRules,
+  scoreVerdicts,
+  DEFAULT_FAILURE_RULES,
+} from '../../src/utils/failure-classifier.js';
+import type { FailureClassificationConfig } from '../../src/utils/config-loader.js';
+import { PredictionEngine } from '../../src/utils/video-analysis/prediction-engine.js';
+
+function config(overrides: Partial<FailureClassificationConfig> = {}): FailureClassificationConfig {
+  return {
+    activePacks: ['default'],
+    packs: {},
+    rules: [],
+    weights: {},
+    disabledRules: [],
+    confidenceThresholds: { high: 30, medium: 15 },
+    projects: {},
+    ...overrides,
+  };
+}
+
+describe('failure classifier', () => {
+  it('default pack reproduces the built-in categories', () => {
+    const cfg = config();
+    const locator = classifyFailure({ message: 'Element with locator //button was impossible to find' }, undefined, cfg);
+    assert.equal(locator.category, 'Locator Issue');
+    assert.equal(locator.confidence, 'High');
+
+    const timing = classifyFailure({ message: 'Step failed', logs: ['Wait timeout after 30s'] }, undefined, cfg);
+    assert.equal(timing.category, 'Timing Issue');
+
+    const business = classifyFailure({ message: 'Expected [true] but found [false]' }, undefined, cfg);
+    assert.equal(business.category, 'Business Issue');
+    assert.equal(business.confidence, 'Medium');
+
+    const unknown = classifyFailure({ message: 'Something odd happened' }, undefined, cfg);
+    assert.deepEqual(
+      { category: unknown.category, confidence: unknown.confidence, reasons: unknown.reasons },
+      { category: 'Unknown', confidence: 'Low', reasons: ['Unable to determine specific error category'] },
+    );
+  });
+
+  it('sums weights per category and lets the highest score win', () => {
+    const cfg = config({
+      packs: {
+        appium: [
+          { id: 'uia2-crash', category: 'Driver Crash', pattern: 'instrumentation process (is not running|crashed)', weight: 50 },
+        ],
+      },
+      activePacks: ['default', 'appium'],
+    });
+    const result = classifyFailure(
+      { message: 'Timeout: UiAutomator2 instrumentation process is not running (probably crashed)' },
+      undefined,
+      cfg,
+    );
+    assert.equal(result.category, 'Driver Crash');
+    assert.equal(result.score, 50);
+    assert.ok(result.matches.some((m) => m.id === 'timing-timeout'));
+  });
+
+  it('applies per-project packs, rules, weights and disabled rules', () => {
+    const cfg = config({
+      packs: { playwright: [{ id: 'pw-strict', category: 'Locator Issue', keywords: ['strict mode violation'], weight: 45 }] },
+      weights: { 'business-assertion': 5 },
+      projects: {
+        web: {
+          activePacks: ['default', 'playwright'],
+          disabledRules: ['timing-timeout'],
+          rules: [{ id: 'web-flag', category: 'Feature Flag', allKeywords: ['flag', 'disabled'], weight: 60 }],
+          weights: { 'business-assertion': 12 },
+        },
+      },
+    });
+
+    const global = resolveFailureRules(undefined, cfg);
+    assert.ok(global.some((r) => r.id === 'timing-timeout'));
+    assert.ok(!global.some((r) => r.id === 'pw-strict'));
+    assert.equal(global.find((r) => r.id === 'business-assertion')?.weight, 5);
+
+    const web = resolveFailureRules('WEB', cfg);
+    assert.ok(!web.some((r) => r.id === 'timing-timeout'));
+    assert.ok(web.some((r) => r.id === 'pw-strict'));
+    assert.equal(web.find((r) => r.id === 'business-assertion')?.weight, 12);
+    assert.equal(classifyFailure({ message: 'Feature flag checkout is disabled' }, 'web', cfg).category, 'Feature Flag');
+    assert.equal(classifyFailure({ message: 'Feature flag checkout is disabled' }, 'MCP', cfg).category, 'Unknown');
+  });
+
+  it('skips unknown packs and reports each one once', () => {
+    const error = mock.method(console, 'error', () => {});
+    try {
+      const cfg = config({ activePacks: ['default', 'no-such-pack'] });
+      for (let i = 0; i < 3; i++) assert.equal(resolveFailureRules(undefined, cfg).length, DEFAULT_FAILURE_RULES.length);
+      assert.equal(error.mock.calls.filter((c) => String(c.arguments[0]).includes('"no-such-pack"')).length, 1);
+    } finally {
+      error.mock.restore();
+    }
+  });
+
+  it('ignores invalid patterns and rules without matchers', () => {
+    const matches = matchFailureRules({ message: 'anything' }, [
+      { id: 'broken', category: 'X', pattern: '([' },
+      { id: 'empty', category: 'Y' },
+    ]);
+    assert.deepEqual(matches, []);
+  });
+
+  it('scores verdict-tagged rules for video prediction', () => {
+    const matches = matchFailureRules(
+      { message: 'java.lang.NullPointerException', failureType: 'NoSuchElementException' },
+      DEFAULT_FAILURE_RULES,
+    );
+    const scores = scoreVerdicts(matches);
+    assert.equal(scores.bug, 25);
+    assert.equal(scores.test_issue, 25);
+  });
+
+  it('PredictionEngine reports infrastructure issues from rule verdicts', () => {
+    const prediction = new PredictionEngine().predictIssueType(
+      {
+        failureType: 'Exception',
+        errorMessage: 'Connection refused: localhost:4723',
+        rootCause: { category: 'unclear', confidence: 0, reasoning: '' },
+      } as any,
+      null,
+      [],
+      '',
+    );
+    assert.equal(prediction.verdict, 'infrastructure_issue');
+  });
+});
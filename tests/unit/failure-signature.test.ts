@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import {
+  normalizeFailureText,
+  buildFailureSignature,
+  clusterFailures,
+  type FailureOccurrence,
+} from '../../src/utils/failure-signature.js';
+
+function occurrence(overrides: Partial<FailureOccurrence>): FailureOccurrence {
+  return {
+    launchId: 1,
+    launchName: 'Regression',
+    launchStartedAt: Date.parse('2026-10-01T10:00:00Z'),
+    platform: 'android',
+    projectKey: 'AND',
+    testName: 'loginTest',
+    message: 'boom',
+    issues: [],
+    ...overrides,
+  };
+}
+
+describe('failure signatures', () => {
+  it('strips numbers, IDs, timestamps and hex values', () => {
+    assert.equal(
+      normalizeFailureText('Session 3f2a9c1b7d at 2026-10-01T10:15:32.123Z: element #42 (0xDEADBEEF) id 550e8400-e29b-41d4-a716-446655440000'),
+      'session <hex> at <ts>: element #<n> (<hex>) id <id>',
+    );
+    assert.equal(normalizeFailureText('Timed out after 15.5 seconds at 10:15:32'), 'timed out after <n> seconds at <time>');
+    assert.equal(normalizeFailureText('Deadline reached'), 'deadline reached');
+  });
+
+  it('uses the headline and top stack frames', () => {
+    const message = [
+      'org.openqa.selenium.TimeoutException: Expected condition failed after 30 seconds',
+      '  at com.app.pages.LoginPage.open(LoginPage.java:118)',
+      '  at com.app.tests.LoginTest.login(LoginTest.java:42)',
+      '  at java.base/jdk.internal.reflect.Method.invoke(Method.java:566)',
+    ].join('\n');
+    const sig = buildFailureSignature(message, 2);
+    assert.equal(sig.headline, 'org.openqa.selenium.timeoutexception: expected condition failed after <n> seconds');
+    assert.deepEqual(sig.frames, [
+      'at com.app.pages.loginpage.open(loginpage.java:<n>)',
+      'at com.app.tests.logintest.login(logintest.java:<n>)',
+    ]);
+    assert.equal(buildFailureSignature(message.replace('30', '45').replace('118', '120'), 2).id, sig.id);
+    assert.notEqual(buildFailureSignature(message, 0).id, sig.id);
+  });
+
+  it('clusters across launches and platforms with first/last seen', () => {
+    const clusters = clusterFailures([
+      occurrence({ launchId: 2, launchStartedAt: Date.parse('2026-10-02T10:00:00Z'), message: 'Login API returned 500 for user 1001', issues: ['APP-7'] }),
+      occurrence({ launchId: 1, message: 'Login API returned 503 for user 2002', testName: 'logoutTest' }),
+      occurrence({ launchId: 9, platform: 'ios', projectKey: 'IOS', launchStartedAt: Date.parse('2026-10-03T10:00:00Z'), message: 'Login API returned 500 for user 7' }),
+      occurrence({ launchId: 3, message: 'Unrelated failure' }),
+    ], { minOccurrences: 2 });
+
+    assert.equal(clusters.length, 1);
+    const [c] = clusters;
+    assert.equal(c.occurrences, 3);
+    assert.equal(c.launchCount, 3);
+    assert.deepEqual(c.platforms, ['android', 'ios']);
+    assert.deepEqual(c.projects, ['AND', 'IOS']);
+    assert.deepEqual(c.tests, ['loginTest', 'logoutTest']);
+    assert.deepEqual(c.issues, ['APP-7']);
+    assert.equal(c.firstSeen.launchId, 1);
+    assert.equal(c.lastSeen.launchId, 9);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { buildGherkinCases, caseKeyFromTag, parseGherkin } from '../../src/utils/gherkin.js';
+import { buildGherkinCasePayload, mapTagsToCustomFields, planGherkinUpdate } from '../../src/helpers/gherkin-import.js';
+import type { CustomFieldDef } from '../../src/helpers/settings.js';
+
+const FEATURE = `@web @component:checkout
+Feature: Checkout
+  Buying items from the cart.
+
+  Background:
+    Given the user is logged in
+
+  @MCP-12 @smoke
+  Scenario: Pay by card
+    Card payments only.
+    Given the cart has 2 items
+    When the user pays with card
+      | number           | cvv |
+      | 4111111111111111 | 123 |
+    Then the order is confirmed
+    And an email is sent
+    When the user opens the order
+    Then the status is "Paid"
+
+  Scenario Outline: Apply <code> coupon
+    When the user applies "<code>"
+    Then the total is <total>
+
+    @regression
+    Examples: Valid
+      | code | total |
+      | TEN  | 90    |
+      | HALF | 50    |
+
+  Rule: Guests
+    Background:
+      Given a guest session
+
+    Scenario: Guest checkout
+      When the guest pays
+      Then a receipt is shown
+      """
+      Thank you
+      """
+`;
+
+describe('gherkin import', () => {
+  it('parses features, backgrounds, rules, outlines, tables and doc strings', () => {
+    const feature = parseGherkin(FEATURE, 'checkout.feature');
+    assert.equal(feature.name, 'Checkout');
+    assert.equal(feature.description, 'Buying items from the cart.');
+    assert.deepEqual(feature.tags, ['web', 'component:checkout']);
+    assert.deepEqual(feature.scenarios.map(s => [s.name, s.line, s.outline, s.background.length]), [
+      ['Pay by card', 9, false, 1],
+      ['Apply <code> coupon', 20, true, 1],
+      ['Guest checkout', 34, false, 2],
+    ]);
+    assert.deepEqual(feature.scenarios[1].examples[0], {
+      name: 'Valid', tags: ['regression'], line: 25, header: ['code', 'total'], rows: [['TEN', '90'], ['HALF', '50']], rowLines: [27, 28],
+    });
+    assert.equal(feature.scenarios[2].steps[1].docString, 'Thank you');
+
+    assert.throws(() => parseGherkin('Feature: F\n  Scenario: S\n    Given a\n    random text', 'f.feature'), /f\.feature:4: unexpected line/);
+    assert.throws(() => parseGherkin('Feature: F\n  Examples:\n', 'f.feature'), /f\.feature:2: Examples outside a Scenario Outline/);
+  });
+
+  it('maps Given/When to actions and Then to expected results, with keys from tags', () => {
+    const cases = buildGherkinCases(parseGherkin(FEATURE, 'checkout.feature'), 'MCP', 'parameterize');
+    assert.equal(cases.length, 3);
+    const [card, coupon, guest] = cases;
+
+    assert.equal(card.key, 'MCP-12');
+    assert.deepEqual(card.tags, ['web', 'component:checkout', 'smoke']);
+    assert.equal(card.description, 'Card payments only.');
+    assert.equal(card.preConditions, 'Given the user is logged in');
+    assert.deepEqual(card.steps, [
+      {
+        action: 'Given the cart has 2 items\nWhen the user pays with card\n| number | cvv |\n| --- | --- |\n| 4111111111111111 | 123 |',
+        expectedResult: 'Then the order is confirmed\nAnd an email is sent',
+      },
+      { action: 'When the user opens the order', expectedResult: 'Then the status is "Paid"' },
+    ]);
+
+    assert.equal(coupon.title, 'Apply <code> coupon');
+    assert.ok(coupon.description!.includes('**Examples: Valid**\n\n| code | total |\n| --- | --- |\n| TEN | 90 |'));
+    assert.equal(guest.preConditions, 'Given the user is logged in\nGiven a guest session');
+    assert.equal(guest.steps[0].expectedResult, 'Then a receipt is shown\n```\nThank you\n```');
+
+    const expanded = buildGherkinCases(parseGherkin(FEATURE, 'checkout.feature'), 'MCP', 'expand');
+    assert.deepEqual(expanded.slice(1, 3).map(c => [c.title, c.source, c.steps[0].action]), [
+      ['Apply TEN coupon', 'checkout.feature:27', 'When the user applies "TEN"'],
+      ['Apply HALF coupon', 'checkout.feature:28', 'When the user applies "HALF"'],
+    ]);
+
+    // A scenario-level key cannot be shared by the expanded rows; single-row Examples blocks can carry their own
+    const keyedOutline = 'Feature: F\n  @MCP-1\n  Scenario Outline: S\n    Given <x>\n    Examples:\n      | x |\n      | 1 |\n      | 2 |\n';
+    assert.throws(() => buildGherkinCases(parseGherkin(keyedOutline, 'd.feature'), 'MCP', 'expand'), /d\.feature:3: Scenario Outline is tagged with case key MCP-1, but outlines: 'expand'/);
+    const keyedExamples = 'Feature: F\n  Scenario Outline: S\n    Given <x>\n    @MCP-2\n    Examples:\n      | x |\n      | 1 |\n    @MCP-3\n    Examples:\n      | x |\n      | 2 |\n      | 3 |\n';
+    assert.throws(() => buildGherkinCases(parseGherkin(keyedExamples, 'e.feature'), 'MCP', 'expand'), /e\.feature:9: Examples block is tagged with case key MCP-3 but has 2 rows/);
+    const perRow = keyedExamples.replace('      | 3 |\n', '');
+    assert.deepEqual(buildGherkinCases(parseGherkin(perRow, 'e.feature'), 'MCP', 'expand').map(c => c.key), ['MCP-2', 'MCP-3']);
+    assert.equal(buildGherkinCases(parseGherkin(keyedOutline, 'd.feature'), 'MCP', 'parameterize')[0].key, 'MCP-1');
+    assert.equal(caseKeyFromTag('tc:mcp-7', 'MCP'), 'MCP-7');
+    assert.equal(caseKeyFromTag('JIRA-7', 'MCP'), undefined);
+  });
+
+  it('maps tags to custom fields and plans idempotent updates', () => {
+    const defs = [{ systemName: 'component', dataType: 'STRING' }, { systemName: 'labels', dataType: 'MULTI_SELECT' }] as CustomFieldDef[];
+    assert.deepEqual(
+      mapTagsToCustomFields(['component:checkout', 'smoke', 'web'], { tagFields: { component: 'component' }, tagsField: 'labels' }, defs),
+      { customField: { component: 'checkout', labels: ['smoke', 'web'] }, unmapped: [] },
+    );
+
+    const [card] = buildGherkinCases(parseGherkin(FEATURE, 'checkout.feature'), 'MCP', 'parameterize');
+    const payload = buildGherkinCasePayload(card, 7, { tagFields: { component: 'component' } }, defs);
+    assert.deepEqual(payload.testSuite, { id: 7 });
+    assert.equal(payload.draft, true);
+    assert.equal(payload.description, 'Card payments only.\n\n**Tags:** @web @smoke');
+    assert.deepEqual(payload.customField, { component: 'checkout' });
+
+    const existing = {
+      id: 1, key: 'MCP-12', title: card.title, description: payload.description, preConditions: card.preConditions,
+      draft: false, testSuite: { id: 99 },
+      steps: card.steps.map((s, i) => ({ id: i, ...s, attachments: [] })),
+      customField: { component: 'checkout', other: 'x' },
+    };
+    const same = planGherkinUpdate(existing, payload);
+    assert.deepEqual(same.diffs, []);
+    assert.equal('testSuite' in same.patch, false);
+    assert.equal('draft' in same.patch, false);
+
+    const changed = planGherkinUpdate({ ...existing, steps: existing.steps.slice(0, 1) }, payload);
+    assert.deepEqual(changed.diffs.map(d => d.field), ['steps']);
+  });
+});
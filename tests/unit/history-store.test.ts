@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import Database from 'better-sqlite3';
+import { HistoryStore, historyWindowStart, syncProjectHistory } from '../../src/utils/history-store.js';
+import { ZebrunnerReportingClient } from '../../src/api/reporting-client.js';
+
+const NOW = Date.UTC(2026, 5, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+function launch(id: number, daysAgo: number, extra: Record<string, unknown> = {}) {
+  return { id, name: `Regression ${id}`, status: 'FAILED', projectId: 7, startedAt: NOW - daysAgo * DAY, buildNumber: `1.${id}`, ...extra };
+}
+
+function run(id: number, status: string) {
+  return { id, name: `test${id}`, status, startTime: NOW, finishTime: NOW + 5_000, testRunId: id, issueReferences: [{ type: 'JIRA', value: 'APP-1' }] };
+}
+
+/** Fake Reporting client serving launches newest-first, two per page. */
+function fakeClient(launches: any[]) {
+  const runFetches: number[] = [];
+  return {
+    runFetches,
+    async getLaunches(_projectId: number, opts: { page?: number } = {}) {
+      const page = opts.page ?? 1;
+      const sorted = [...launches].sort((a, b) => b.startedAt - a.startedAt);
+      return { items: sorted.slice((page - 1) * 2, page * 2), _meta: { total: sorted.length, totalPages: Math.ceil(sorted.length / 2) } };
+    },
+    async getAllTestRuns(launchId: number) {
+      runFetches.push(launchId);
+      return { items: [run(launchId * 10, 'PASSED'), run(launchId * 10 + 1, 'FAILED')] };
+    },
+  } as any;
+}
+
+describe('history store', () => {
+  it('syncs a window and only re-fetches new or unfinished launches', async () => {
+    const store = new HistoryStore(new Database(':memory:'), 'https://x.zebrunner.com');
+    const launches = [launch(1, 200), launch(2, 30), launch(3, 10), launch(4, 1, { status: 'IN_PROGRESS' })];
+    const client = fakeClient(launches);
+
+    const first = await syncProjectHistory(store, client, 7, { since: historyWindowStart(90, NOW), maxLaunches: 100, now: NOW });
+    assert.equal(first.complete, true);
+    assert.deepEqual(client.runFetches, [4, 3, 2]);
+    assert.equal(first.coverage?.launches, 3);
+    assert.equal(first.coverage?.testRuns, 6);
+    assert.ok(store.covers(7, NOW - 60 * DAY));
+    assert.ok(!store.covers(7, NOW - 120 * DAY));
+
+    launches.push(launch(5, 0));
+    launches[3].status = 'PASSED';
+    client.runFetches.length = 0;
+    const second = await syncProjectHistory(store, client, 7, { since: historyWindowStart(90, NOW), maxLaunches: 100, now: NOW + 1000 });
+    assert.deepEqual(client.runFetches, [5, 4]);
+    assert.equal(second.complete, true);
+
+    assert.deepEqual(store.queryLaunches(7, { since: NOW - 20 * DAY }).map(l => l.id), [5, 4, 3]);
+    assert.deepEqual(store.queryLaunches(7, { build: '1.2' }).map(l => l.id), [2]);
+    const runs = store.getTestRuns(7, 3)!;
+    assert.deepEqual(runs.map(r => r.status), ['PASSED', 'FAILED']);
+    assert.deepEqual(runs[0].issueReferences, [{ type: 'JIRA', value: 'APP-1' }]);
+    assert.equal(store.getTestRuns(8, 3), null);
+  });
+
+  it('backfills in batches and records coverage only for what was synced', async () => {
+    const store = new HistoryStore(new Database(':memory:'), 'https://x.zebrunner.com');
+    const client = fakeClient([launch(1, 300), launch(2, 200), launch(3, 100), launch(4, 5)]);
+    const since = historyWindowStart(365, NOW);
+
+    const partial = await syncProjectHistory(store, client, 7, { since, maxLaunches: 2, now: NOW });
+    assert.equal(partial.complete, false);
+    assert.equal(partial.coverage?.coveredFrom, NOW - 100 * DAY);
+
+    const rest = await syncProjectHistory(store, client, 7, { since, maxLaunches: 2, now: NOW });
+    assert.equal(rest.complete, true);
+    assert.equal(rest.launchesSynced, 2);
+    assert.equal(rest.launchesSkipped, 2);
+    assert.equal(rest.coverage?.coveredFrom, since);
+  });
+
+  it('keeps credential namespaces apart in one file', async () => {
+    const db = new Database(':memory:');
+    const a = new HistoryStore(db, 'https://a.zebrunner.com');
+    const b = new HistoryStore(db, 'https://b.zebrunner.com');
+    await syncProjectHistory(a, fakeClient([launch(1, 1)]), 7, { since: historyWindowStart(30, NOW), maxLaunches: 10, now: NOW });
+    assert.equal(a.queryLaunches(7).length, 1);
+    assert.equal(b.queryLaunches(7).length, 0);
+    assert.equal(b.coverage(7), null);
+  });
+
+  it('namespaces reporting clients by their credentials', () => {
+    const client = (accessToken: string) => new ZebrunnerReportingClient({ baseUrl: 'https://x.zebrunner.com', accessToken });
+    assert.equal(client('alice-token').historyNamespace, client('alice-token').historyNamespace);
+    assert.notEqual(client('alice-token').historyNamespace, client('bob-token').historyNamespace);
+  });
+});
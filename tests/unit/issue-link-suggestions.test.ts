@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { buildKnownIssueIndex, suggestIssueLinks } from '../../src/utils/issue-link-suggestions.js';
+
+const trace = (headline: string, frame: string) => `${headline}\n  at ${frame}(Page.java:10)\n  at com.app.Test.run(Test.java:20)`;
+
+describe('issue link suggestions', () => {
+  const index = buildKnownIssueIndex([
+    { testName: 'loginTest', message: trace('Login failed for user 17', 'com.app.LoginPage.submit'), issues: [{ type: 'JIRA', value: 'APP-1' }] },
+    { testName: 'loginTest', message: trace('Login failed for user 18', 'com.app.LoginPage.submit'), issues: [{ type: 'JIRA', value: 'APP-1' }] },
+    { testName: 'cartTest', message: trace('Cart total is 0', 'com.app.CartPage.total'), issues: [{ type: 'JIRA', value: 'APP-2' }] },
+    { testName: 'cartTest', message: trace('Cart total is 0', 'com.app.CartPage.total'), issues: [{ type: 'JIRA', value: 'APP-3' }] },
+  ]);
+
+  it('scores exact matches above message-only matches and rewards the same test', () => {
+    const suggestions = suggestIssueLinks([
+      { testId: 1, testName: 'loginTest', message: trace('Login failed for user 99', 'com.app.LoginPage.submit') },
+      { testId: 2, testName: 'signupTest', message: trace('Login failed for user 5', 'com.app.SignupPage.submit') },
+    ], index, 0);
+
+    const [sameTest, headlineOnly] = suggestions;
+    assert.equal(sameTest.testId, 1);
+    assert.deepEqual(sameTest.issue, { type: 'JIRA', value: 'APP-1' });
+    assert.equal(sameTest.confidence, 87);
+    assert.ok(sameTest.basis.includes('same test previously linked to this issue'));
+
+    assert.equal(headlineOnly.testId, 2);
+    assert.equal(headlineOnly.confidence, 52);
+    assert.match(headlineOnly.basis[0], /stack trace differs/);
+  });
+
+  it('discounts signatures linked to several issues and applies min_confidence', () => {
+    const failures = [{ testId: 3, testName: 'otherTest', message: trace('Cart total is 0', 'com.app.CartPage.total') }];
+    const [ambiguous] = suggestIssueLinks(failures, index, 0);
+    assert.equal(ambiguous.confidence, 53);
+    assert.ok(ambiguous.basis.includes('signature also linked to 1 other issue(s)'));
+    assert.deepEqual(suggestIssueLinks(failures, index, 60), []);
+    assert.deepEqual(suggestIssueLinks([{ testId: 4, testName: 'x', message: 'Unknown failure' }], index, 0), []);
+  });
+});
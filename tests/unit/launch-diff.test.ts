@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { diffLaunchTests, testOutcome } from '../../src/utils/launch-diff.js';
+import type { TestRunResponse } from '../../src/types/reporting.js';
+
+const T0 = Date.parse('2026-10-01T10:00:00Z');
+let nextId = 1;
+function run(name: string, status: string, overrides: Partial<TestRunResponse> = {}): TestRunResponse {
+  return {
+    id: nextId++,
+    name,
+    status,
+    startTime: T0,
+    finishTime: T0 + 20_000,
+    testClass: 'com.app.LoginTest',
+    ...overrides,
+  } as TestRunResponse;
+}
+
+describe('launch diff', () => {
+  it('treats manually passed and aborted tests correctly', () => {
+    assert.equal(testOutcome({ status: 'FAILED', passedManually: true }), 'passed');
+    assert.equal(testOutcome({ status: 'ABORTED' }), 'failed');
+    assert.equal(testOutcome({ status: 'SKIPPED' }), 'skipped');
+  });
+
+  it('classifies status transitions, added and removed tests', () => {
+    const diff = diffLaunchTests(
+      [
+        run('login ok', 'PASSED'),
+        run('logout', 'FAILED', { issueReferences: [{ type: 'JIRA', value: 'APP-1' }] }),
+        run('cart', 'FAILED'),
+        run('search', 'PASSED'),
+        run('legacy', 'PASSED'),
+      ],
+      [
+        run('Login  OK', 'FAILED', { owner: 'alice' }),
+        run('logout', 'PASSED'),
+        run('cart', 'FAILED', { issueReferences: [{ type: 'JIRA', value: 'APP-2' }] }),
+        run('search', 'PASSED'),
+        run('profile', 'PASSED'),
+      ],
+    );
+    assert.deepEqual(diff.newlyFailing.map(e => [e.name, e.owner, e.baseStatus, e.targetStatus]), [['Login  OK', 'alice', 'PASSED', 'FAILED']]);
+    assert.deepEqual(diff.newlyPassing.map(e => [e.name, e.issues]), [['logout', ['APP-1']]]);
+    assert.deepEqual(diff.stillFailing.map(e => [e.name, e.issues]), [['cart', ['APP-2']]]);
+    assert.deepEqual(diff.added.map(e => e.name), ['profile']);
+    assert.deepEqual(diff.removed.map(e => e.name), ['legacy']);
+    assert.equal(diff.unchanged, 1);
+  });
+
+  it('flags significant slowdowns only above both thresholds', () => {
+    const diff = diffLaunchTests(
+      [run('a', 'PASSED'), run('b', 'PASSED'), run('c', 'PASSED', { finishTime: T0 + 2_000 })],
+      [run('a', 'PASSED', { finishTime: T0 + 60_000 }), run('b', 'PASSED', { finishTime: T0 + 25_000 }), run('c', 'PASSED', { finishTime: T0 + 6_000 })],
+      { slowerThresholdPercent: 50, minSlowdownSeconds: 10 },
+    );
+    assert.deepEqual(diff.slower.map(e => [e.name, e.baseDurationSeconds, e.targetDurationSeconds, e.slowdownPercent]), [['a', 20, 60, 200]]);
+  });
+
+  it('pairs repeated test names in execution order', () => {
+    const diff = diffLaunchTests(
+      [run('data row', 'PASSED'), run('data row', 'PASSED')],
+      [run('data row', 'PASSED'), run('data row', 'FAILED')],
+    );
+    assert.equal(diff.newlyFailing.length, 1);
+    assert.equal(diff.unchanged, 1);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import {
+  SCOPE_READ,
+  SCOPE_WRITE,
+  pickSupportedScopes,
+  resolveGrantedScopes,
+  hasWriteScope,
+  connectionScopes,
+  clientGrant,
+  grantForToken,
+  grantKey,
+  withConnectionGrant,
+} from '../../src/http/scopes.js';
+import { SelfAuthOAuthProvider } from '../../src/http/selfauth-provider.js';
+import { InMemoryOAuthFlowStore } from '../../src/http/oauth-flow-store.js';
+import { createAuthMiddleware } from '../../src/http/auth-middleware.js';
+
+function decodePayload(jwt: string): Record<string, any> {
+  return JSON.parse(Buffer.from(jwt.split('.')[1], 'base64url').toString('utf8'));
+}
+
+describe('OAuth scopes', () => {
+  it('picks zebrunner scopes from claim strings and arrays', () => {
+    assert.deepEqual(pickSupportedScopes('openid zebrunner:read email'), [SCOPE_READ]);
+    assert.deepEqual(pickSupportedScopes([SCOPE_WRITE, SCOPE_READ, 42]), [SCOPE_READ, SCOPE_WRITE]);
+    assert.equal(pickSupportedScopes(['openid', 'email']), undefined);
+    assert.equal(pickSupportedScopes(undefined), undefined);
+  });
+
+  it('grants read-only when the user opts in or the client only asked for read', () => {
+    assert.deepEqual(resolveGrantedScopes(undefined, false), [SCOPE_READ, SCOPE_WRITE]);
+    assert.deepEqual(resolveGrantedScopes(undefined, true), [SCOPE_READ]);
+    assert.deepEqual(resolveGrantedScopes([SCOPE_READ], false), [SCOPE_READ]);
+    assert.deepEqual(resolveGrantedScopes([SCOPE_WRITE], false), [SCOPE_READ, SCOPE_WRITE]);
+  });
+
+  it('token scopes narrow the connection grant but never widen it', () => {
+    assert.deepEqual(connectionScopes('zebrunner:read zebrunner:write', [SCOPE_READ]), [SCOPE_READ]);
+    assert.deepEqual(connectionScopes(['zebrunner:read'], [SCOPE_READ, SCOPE_WRITE]), [SCOPE_READ]);
+    assert.deepEqual(connectionScopes('openid email', [SCOPE_READ]), [SCOPE_READ]);
+    assert.deepEqual(connectionScopes(undefined, undefined), [SCOPE_READ]);
+  });
+
+  it('stores grants per client and drops expired ones', () => {
+    const jwt = (exp: number) => `h.${Buffer.from(JSON.stringify({ exp })).toString('base64url')}.s`;
+    const first = withConnectionGrant(undefined, 'client-a', jwt(2000), [SCOPE_READ], 1000);
+    assert.deepEqual(first[grantKey('client-a')], { scopes: [SCOPE_READ], expiresAt: 2000, tokens: [grantKey(jwt(2000))] });
+
+    const second = withConnectionGrant(first, 'client-b', 'opaque-token', [SCOPE_READ, SCOPE_WRITE], 1500);
+    assert.equal(Object.keys(second).length, 2);
+    assert.equal(second[grantKey('client-b')].expiresAt, 1500 + 24 * 60 * 60);
+
+    const later = withConnectionGrant(second, 'client-c', jwt(9000), [SCOPE_READ], 2500);
+    assert.equal(later[grantKey('client-a')], undefined);
+    assert.deepEqual(later[grantKey('client-b')].scopes, [SCOPE_READ, SCOPE_WRITE]);
+  });
+
+  it('carries a connection grant over to the tokens re-issued to the same client', () => {
+    const jwt = (exp: number) => `h.${Buffer.from(JSON.stringify({ exp })).toString('base64url')}.s`;
+    const grants = withConnectionGrant(undefined, 'client-a', jwt(2000), [SCOPE_READ], 1000);
+    assert.equal(clientGrant(grants, 'client-a', 1500)?.scopes[0], SCOPE_READ);
+    assert.equal(clientGrant(grants, 'client-a', 2500), undefined);
+
+    const rotated = withConnectionGrant(grants, 'client-a', jwt(5000), clientGrant(grants, 'client-a', 1900)!.scopes, 1900);
+    assert.equal(Object.keys(rotated).length, 1);
+    assert.equal(rotated[grantKey('client-a')].expiresAt, 5000);
+    assert.deepEqual(grantForToken(rotated, jwt(5000))?.scopes, [SCOPE_READ]);
+    assert.deepEqual(grantForToken(rotated, jwt(2000))?.scopes, [SCOPE_READ]);
+    // A token issued outside a recorded connection falls back to read-only
+    assert.equal(grantForToken(rotated, jwt(7000)), undefined);
+    assert.deepEqual(connectionScopes(undefined, grantForToken(rotated, jwt(7000))?.scopes), [SCOPE_READ]);
+  });
+
+  it('only denies write when scopes are known and lack zebrunner:write', () => {
+    assert.equal(hasWriteScope(undefined), true);
+    assert.equal(hasWriteScope([SCOPE_READ, SCOPE_WRITE]), true);
+    assert.equal(hasWriteScope([SCOPE_READ]), false);
+  });
+
+  it('self-auth embeds the granted scopes in the issued JWT', async () => {
+    const flowStore = new InMemoryOAuthFlowStore();
+    const provider = new SelfAuthOAuthProvider({
+      tokenStore: {} as any,
+      serverUrl: 'http://localhost:3000',
+      zebrunnerBaseUrl: 'https://example.zebrunner.com/api/public/v1',
+      jwtSecret: 'test-secret',
+      oauthFlowStore: flowStore,
+    });
+    const common = { mcpClientId: 'mcp_a', redirectUri: 'http://localhost/cb', codeChallenge: 'c', createdAt: Date.now() };
+
+    await provider.storeIssuedCode('ro', { ...common, email: 'mgr@example.com', scopes: [SCOPE_READ] });
+    const readOnly = await provider.exchangeAuthorizationCode({ client_id: 'mcp_a' }, 'ro');
+    assert.equal(readOnly.scope, SCOPE_READ);
+    assert.equal(decodePayload(readOnly.access_token).scope, SCOPE_READ);
+
+    await provider.storeIssuedCode('legacy', { ...common, email: 'dev@example.com' });
+    const full = await provider.exchangeAuthorizationCode({ client_id: 'mcp_a' }, 'legacy');
+    assert.equal(full.scope, `${SCOPE_READ} ${SCOPE_WRITE}`);
+  });
+
+  it('auth middleware carries verified scopes onto req.auth', async () => {
+    const mw = createAuthMiddleware({
+      authMode: 'selfauth',
+      verifyBearer: async () => ({ username: 'mgr', zebrunnerToken: 'zeb', scopes: [SCOPE_READ] }),
+    });
+    const req = { headers: { authorization: 'Bearer jwt' } } as any;
+    let nextCalled = false;
+    await mw(req, {} as any, () => { nextCalled = true; });
+    assert.ok(nextCalled);
+    assert.deepEqual(req.auth.scopes, [SCOPE_READ]);
+  });
+});
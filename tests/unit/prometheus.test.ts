@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import axios from 'axios';
+import {
+  Counter,
+  Histogram,
+  MetricsRegistry,
+  instrumentAxios,
+  metricsRegistry,
+  normalizeUpstreamRoute,
+  recordCacheLookup,
+} from '../../src/utils/prometheus.js';
+
+describe('prometheus metrics', () => {
+  it('renders counters and histograms in text exposition format', () => {
+    const registry = new MetricsRegistry();
+    const calls = registry.register(new Counter('test_calls_total', 'Calls.'));
+    const latency = registry.register(new Histogram('test_latency_seconds', 'Latency.', [0.1, 1]));
+    calls.inc({ tool: 'a"b' });
+    calls.inc({ tool: 'a"b' }, 2);
+    latency.observe({ tool: 'x' }, 0.5);
+
+    const text = registry.render();
+    assert.ok(text.includes('# TYPE test_calls_total counter'));
+    assert.ok(text.includes('test_calls_total{tool="a\\"b"} 3'));
+    assert.ok(text.includes('test_latency_seconds_bucket{tool="x",le="0.1"} 0'));
+    assert.ok(text.includes('test_latency_seconds_bucket{tool="x",le="1"} 1'));
+    assert.ok(text.includes('test_latency_seconds_bucket{tool="x",le="+Inf"} 1'));
+    assert.ok(text.includes('test_latency_seconds_count{tool="x"} 1'));
+  });
+
+  it('normalises upstream routes to low-cardinality labels', () => {
+    assert.equal(normalizeUpstreamRoute('/api/reporting/v1/launches/123/tests?page=2'), '/api/reporting/v1/launches/:id/tests');
+    assert.equal(normalizeUpstreamRoute('https://x.zebrunner.com/api/public/v1/test-cases/key:MCP-42'), '/api/public/v1/test-cases/key::key');
+    assert.equal(normalizeUpstreamRoute('/api/public/v1/test-cases/key:mcp-7?projectKey=MCP'), '/api/public/v1/test-cases/key::key');
+    assert.equal(normalizeUpstreamRoute('/api/public/v1/test-cases/MCP-42'), '/api/public/v1/test-cases/:key');
+    assert.equal(normalizeUpstreamRoute(undefined), 'unknown');
+  });
+
+  it('records upstream status for successful and failed axios requests', async () => {
+    const http = axios.create();
+    let status = 200;
+    http.defaults.adapter = async (config) => {
+      const response = { data: {}, status, statusText: '', headers: {}, config };
+      if (status >= 400) {
+        throw new axios.AxiosError('failed', 'ERR_BAD_RESPONSE', config, undefined, response);
+      }
+      return response;
+    };
+    instrumentAxios(http, 'unit');
+
+    await http.get('/api/things/7');
+    status = 503;
+    await assert.rejects(http.get('/api/things/8'));
+
+    const text = metricsRegistry.render();
+    assert.ok(text.includes('zebrunner_upstream_requests_total{client="unit",method="GET",route="/api/things/:id",status="200"} 1'));
+    assert.ok(text.includes('zebrunner_upstream_requests_total{client="unit",method="GET",route="/api/things/:id",status="503"} 1'));
+    assert.ok(text.includes('zebrunner_upstream_request_duration_seconds_count{client="unit",method="GET",route="/api/things/:id"} 2'));
+  });
+
+  it('derives cache hit ratios from lookups', () => {
+    recordCacheLookup('fields_layout', true);
+    recordCacheLookup('fields_layout', true);
+    recordCacheLookup('fields_layout', true);
+    recordCacheLookup('fields_layout', false);
+    const text = metricsRegistry.render();
+    assert.ok(text.includes('zebrunner_cache_lookups_total{cache="fields_layout",result="hit"} 3'));
+    assert.ok(text.includes('zebrunner_cache_hit_ratio{cache="fields_layout"} 0.75'));
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { RateLimiter, formatUserRateLimitUsage } from '../../src/utils/rate-limiter.js';
+import type { RateLimitConfig } from '../../src/utils/config-loader.js';
+
+const config: RateLimitConfig = {
+  enabled: true,
+  perUser: { capacity: 5, refillPerMinute: 60 },
+  classes: {
+    heavy_analytics: { capacity: 2, refillPerMinute: 6 },
+    video: { capacity: 1, refillPerMinute: 1 },
+    mutation: { capacity: 3, refillPerMinute: 30 },
+  },
+  toolClasses: { get_all_tcm_test_cases_by_project: 'heavy_analytics', find_flaky_tests: 'default' },
+};
+
+describe('RateLimiter', () => {
+  it('classifies tools by config, then by readOnlyHint', () => {
+    const limiter = new RateLimiter(config);
+    assert.equal(limiter.classify('adv_get_all_tcm_test_cases_by_project', true), 'heavy_analytics');
+    assert.equal(limiter.classify('adv_update_test_case', false), 'mutation');
+    assert.equal(limiter.classify('adv_find_flaky_tests', true), 'default');
+    assert.equal(limiter.classify('adv_get_test_case_by_key', true), 'default');
+  });
+
+  it('limits a tool class per user and reports when to retry', () => {
+    const limiter = new RateLimiter(config);
+    const t0 = 1_000_000;
+    assert.ok(limiter.consume('alice', 'adv_get_all_tcm_test_cases_by_project', true, t0).allowed);
+    assert.ok(limiter.consume('alice', 'adv_get_all_tcm_test_cases_by_project', true, t0).allowed);
+
+    const denied = limiter.consume('alice', 'adv_get_all_tcm_test_cases_by_project', true, t0);
+    assert.equal(denied.allowed, false);
+    assert.equal(denied.limitedBy, 'heavy_analytics');
+    assert.equal(denied.retryAfterSeconds, 10);
+
+    assert.ok(limiter.consume('Bob', 'adv_get_all_tcm_test_cases_by_project', true, t0).allowed, 'other users are unaffected');
+    assert.ok(limiter.consume('alice', 'adv_get_test_case_by_key', true, t0).allowed, 'other classes are unaffected');
+    assert.ok(limiter.consume('alice', 'adv_get_all_tcm_test_cases_by_project', true, t0 + 10_000).allowed, 'refilled after retry-after');
+  });
+
+  it('rejects without consuming when the per-user bucket is empty', () => {
+    const limiter = new RateLimiter(config);
+    const t0 = 1_000_000;
+    for (let i = 0; i < 5; i++) assert.ok(limiter.consume('carol', 'adv_get_test_case_by_key', true, t0).allowed);
+
+    const denied = limiter.consume('carol', 'adv_update_test_case', false, t0);
+    assert.equal(denied.limitedBy, 'user');
+    assert.equal(denied.retryAfterSeconds, 1);
+    assert.equal(limiter.getUserUsage('carol', t0).classes.mutation.remaining, 3);
+
+    const usage = limiter.getUsage(t0);
+    assert.equal(usage.perUser.exhaustedUsers, 1);
+    assert.equal(usage.perUser.limitedCalls, 1);
+    assert.equal(usage.classes.mutation.activeUsers, 0);
+    assert.match(formatUserRateLimitUsage(limiter.getUserUsage('carol', t0)), /\| all tools \| 0 \| 5 \|/);
+  });
+
+  it('allows everything when disabled', () => {
+    const limiter = new RateLimiter({ ...config, enabled: false });
+    for (let i = 0; i < 10; i++) assert.ok(limiter.consume('dave', 'adv_analyze_test_execution_video', true, 0).allowed);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import {
+  buildTraceabilityMatrix,
+  formatTraceabilityCsv,
+  formatTraceabilityHtml,
+  formatTraceabilityMarkdown,
+  traceabilityGaps,
+  type TraceabilityExecution,
+} from '../../src/utils/requirements-traceability.js';
+
+const statuses = [
+  { name: 'PASSED', isSuccess: true, isFailure: false },
+  { name: 'FAILED', isSuccess: false, isFailure: true },
+  { name: 'SKIPPED', isSuccess: false, isFailure: false },
+];
+
+function ex(runId: number, caseId: number, status: string | null): TraceabilityExecution {
+  return { runId, caseId, caseKey: `MCP-${caseId}`, title: `Case ${caseId}`, status };
+}
+
+describe('requirements traceability matrix', () => {
+  const runs = [
+    { id: 10, title: 'Regression 1', createdAt: '2026-09-01T00:00:00Z', requirements: [] },
+    { id: 11, title: 'Regression 2', createdAt: '2026-09-08T00:00:00Z', requirements: [{ source: 'jira', reference: 'REQ-9' }] },
+  ];
+  const executions = [
+    ex(10, 1, 'FAILED'), ex(11, 1, 'PASSED'),   // latest run wins
+    ex(10, 2, 'FAILED'), ex(11, 2, null),       // falls back to the older result
+    ex(11, 3, null),
+    ex(10, 4, 'PASSED'), ex(10, 5, 'SKIPPED'),
+    ex(11, 6, 'PASSED'),
+    ex(11, 7, 'PASSED'),                        // requirement lookup failed
+  ];
+  const caseRequirements = new Map([
+    [1, [{ source: 'JIRA', reference: 'REQ-1' }]],
+    [2, [{ source: 'JIRA', reference: 'REQ-2' }]],
+    [3, [{ source: 'JIRA', reference: 'REQ-3' }]],
+    [4, [{ source: 'JIRA', reference: 'req-4' }]],
+    [5, [{ source: 'JIRA', reference: 'REQ-4' }]],
+    [6, []],
+  ]);
+
+  const matrix = buildTraceabilityMatrix({
+    runs, executions, caseRequirements, statuses,
+    requirements: [{ source: 'AZURE_DEVOPS', reference: '77' }],
+  });
+  const byRef = new Map(matrix.requirements.map(r => [r.reference, r]));
+
+  it('takes the latest result per case across runs', () => {
+    assert.equal(byRef.get('REQ-1')!.cases[0].status, 'PASSED');
+    assert.equal(byRef.get('REQ-1')!.cases[0].runId, 11);
+    assert.equal(byRef.get('REQ-2')!.cases[0].status, 'FAILED');
+    assert.equal(byRef.get('REQ-2')!.cases[0].runTitle, 'Regression 1');
+  });
+
+  it('classifies coverage and counts totals', () => {
+    assert.equal(byRef.get('REQ-1')!.coverage, 'passing');
+    assert.equal(byRef.get('REQ-2')!.coverage, 'failing');
+    assert.equal(byRef.get('REQ-3')!.coverage, 'no_executions');
+    assert.equal(byRef.get('req-4')!.coverage, 'partial');
+    assert.equal(byRef.get('req-4')!.cases.length, 2);
+    assert.equal(byRef.get('REQ-9')!.coverage, 'no_tests');
+    assert.deepEqual(byRef.get('REQ-9')!.runIds, [11]);
+    assert.equal(byRef.get('77')!.coverage, 'no_tests');
+
+    assert.deepEqual(matrix.totals, {
+      requirements: 6, casesInRuns: 7, casesWithoutRequirements: 1, casesWithUnknownRequirements: 1,
+      passing: 1, partial: 1, failing: 1, no_executions: 1, no_tests: 2,
+    });
+    assert.deepEqual(matrix.requirements.map(r => r.coverage),
+      ['no_tests', 'no_tests', 'no_executions', 'failing', 'partial', 'passing']);
+    assert.deepEqual(traceabilityGaps(matrix).map(r => r.reference), ['77', 'REQ-9', 'REQ-3', 'REQ-2']);
+  });
+
+  it('exports markdown, csv and html', () => {
+    const md = formatTraceabilityMarkdown(matrix, 'MCP');
+    assert.ok(md.includes('| JIRA: REQ-1 | ✅ Passing | 1 | 0 | 0 | MCP-1 (PASSED) |'));
+    assert.ok(md.includes('**Cases in runs:** 7 (1 without requirement links, 1 not checked)'));
+
+    const csv = formatTraceabilityCsv(matrix.requirements).trim().split(/\r?\n/);
+    assert.equal(csv[0], 'source,requirement,coverage,run_ids,case_key,case_title,latest_status,outcome,result_run_id');
+    assert.equal(csv.length, 1 + 7);
+    assert.ok(csv.includes('JIRA,REQ-9,no_tests,11,,,,,'));
+    assert.ok(csv.includes('JIRA,REQ-3,no_executions,,MCP-3,Case 3,,not_executed,'));
+
+    const html = formatTraceabilityHtml(matrix, 'MCP');
+    assert.ok(html.includes('Traceability Matrix'));
+    assert.ok(html.includes('MCP-2 (FAILED)'));
+  });
+});
@@ -36,7 +36,7 @@ describe("Resource Registry Coverage", () => {
   const registeredResources = extractResourceRegistrations(resourceSource);
 
   it("registers the expected number of resources", () => {
-    assert.equal(registeredResources.length, 14, `Expected 14 resources, got ${registeredResources.length}: ${registeredResources.join(", ")}`);
+    assert.equal(registeredResources.length, 15, `Expected 15 resources, got ${registeredResources.length}: ${registeredResources.join(", ")}`);
   });
 
   it("has unique resource names", () => {
@@ -54,6 +54,7 @@ describe("Resource Registry Coverage", () => {
       "time_periods",
       "chart_options",
       "output_formats",
+      "audit_log",
       "project_milestones",
       "project_result_statuses",
       "project_configuration_groups",
@@ -72,7 +73,7 @@ describe("Resource Registry Coverage", () => {
     while ((match = uriRegex.exec(resourceSource)) !== null) {
       uris.push(match[0]);
     }
-    assert.ok(uris.length >= 14, `should have at least 14 zebrunner:// URIs, got ${uris.length}`);
+    assert.ok(uris.length >= 15, `should have at least 15 zebrunner:// URIs, got ${uris.length}`);
     for (const uri of uris) {
       assert.ok(uri.startsWith("zebrunner://"), `URI should use zebrunner:// scheme: ${uri}`);
     }
@@ -84,13 +85,13 @@ describe("Resource Registry Coverage", () => {
 describe("Report Types Resource Content", () => {
   const content = buildReportTypesContent() as any;
 
-  it("contains exactly 6 report types", () => {
-    assert.equal(content.report_types.length, 6);
+  it("contains exactly 7 report types", () => {
+    assert.equal(content.report_types.length, 7);
   });
 
   it("includes all expected report type names", () => {
     const names = content.report_types.map((r: any) => r.name);
-    const expected = ["quality_dashboard", "coverage", "pass_rate", "runtime_efficiency", "executive_dashboard", "release_readiness"];
+    const expected = ["quality_dashboard", "coverage", "pass_rate", "runtime_efficiency", "executive_dashboard", "release_readiness", "automation_velocity"];
     assert.deepEqual(names, expected);
   });
 
@@ -182,8 +183,8 @@ describe("Format Reference Resource Content", () => {
 describe("getResourcesCatalog()", () => {
   const catalog = getResourcesCatalog();
 
-  it("returns exactly 14 resources matching registered count", () => {
-    assert.equal(catalog.length, 14);
+  it("returns exactly 15 resources matching registered count", () => {
+    assert.equal(catalog.length, 15);
   });
 
   it("every entry has required fields", () => {
@@ -208,10 +209,10 @@ describe("getResourcesCatalog()", () => {
     assert.equal(new Set(names).size, names.length, "catalog names should be unique");
   });
 
-  it("includes 6 static and 8 template resources", () => {
+  it("includes 7 static and 8 template resources", () => {
     const statics = catalog.filter(r => r.type === "static");
     const templates = catalog.filter(r => r.type === "template");
-    assert.equal(statics.length, 6, `expected 6 static, got ${statics.length}`);
+    assert.equal(statics.length, 7, `expected 7 static, got ${statics.length}`);
     assert.equal(templates.length, 8, `expected 8 template, got ${templates.length}`);
   });
 
@@ -0,0 +1,148 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'node:fs';
+import { createServer, type AddressInfo, type Server } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  DiskCacheBackend,
+  MemoryCacheBackend,
+  RedisCacheBackend,
+  ResponseCache,
+  cacheNamespace,
+  type RedisCacheClient,
+} from '../../src/utils/response-cache.js';
+import { RespClient, parseReply } from '../../src/utils/resp-client.js';
+
+const TTL = { project: 300, suites: 300, fields_layout: 600, reference_data: 0 };
+
+describe('response cache', () => {
+  it('serves hits from the backend and isolates namespaces', async () => {
+    const cache = new ResponseCache(new MemoryCacheBackend(), TTL);
+    const alice = cache.scoped(cacheNamespace('https://x.zebrunner.com/api/public/v1', 'alice-token'));
+    const bob = cache.scoped(cacheNamespace('https://x.zebrunner.com', 'bob-token'));
+    let loads = 0;
+    const load = async () => ({ id: ++loads });
+
+    assert.deepEqual(await alice.getOrLoad('project', 'MCP', load), { id: 1 });
+    assert.deepEqual(await alice.getOrLoad('project', 'MCP', load), { id: 1 });
+    assert.deepEqual(await bob.getOrLoad('project', 'MCP', load), { id: 2 });
+
+    const [project] = await alice.describe();
+    assert.deepEqual(project, { cacheClass: 'project', ttlSeconds: 300, entries: 1, hits: 1, misses: 2 });
+  });
+
+  it('shares one namespace across clients of the same instance and token', () => {
+    assert.equal(
+      cacheNamespace('https://x.zebrunner.com/api/public/v1', 't'),
+      cacheNamespace('https://x.zebrunner.com', 't'),
+    );
+    assert.notEqual(cacheNamespace('https://x.zebrunner.com', 't'), cacheNamespace('https://y.zebrunner.com', 't'));
+  });
+
+  it('skips classes with a zero TTL and invalidates by class or key', async () => {
+    const cache = new ResponseCache(new MemoryCacheBackend(), TTL);
+    const scoped = cache.scoped('ns');
+    let loads = 0;
+    await scoped.getOrLoad('reference_data', 'priorities:MCP', async () => ++loads);
+    await scoped.getOrLoad('reference_data', 'priorities:MCP', async () => ++loads);
+    assert.equal(loads, 2);
+
+    await scoped.getOrLoad('suites', 'MCP', async () => []);
+    await scoped.getOrLoad('suites', 'MCP2', async () => []);
+    await scoped.getOrLoad('project', 'MCP', async () => ({}));
+    assert.equal(await scoped.invalidate('suites', 'MCP'), 1);
+    assert.equal(await scoped.invalidate('suites', 'MCP'), 0);
+    assert.equal(await scoped.invalidate('suites'), 1);
+    assert.equal(await scoped.invalidate(), 1);
+  });
+
+  it('evicts the oldest memory entries beyond maxEntries', async () => {
+    const backend = new MemoryCacheBackend(2);
+    await backend.set('a', '1', 60_000);
+    await backend.set('b', '2', 60_000);
+    await backend.set('c', '3', 60_000);
+    assert.equal(await backend.get('a'), null);
+    assert.deepEqual(await backend.keys(''), ['b', 'c']);
+  });
+
+  it('persists encrypted entries on disk', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'resp-cache-'));
+    try {
+      const cache = new ResponseCache(new DiskCacheBackend(dir), TTL, 'secret-key');
+      const scoped = cache.scoped('ns');
+      await scoped.getOrLoad('fields_layout', '7', async () => ({ fields: ['Priority'] }));
+
+      const [file] = readdirSync(dir);
+      assert.ok(!readFileSync(join(dir, file), 'utf8').includes('Priority'), 'value should be encrypted');
+
+      const reopened = new ResponseCache(new DiskCacheBackend(dir), TTL, 'secret-key').scoped('ns');
+      assert.deepEqual(await reopened.getOrLoad('fields_layout', '7', async () => ({ fields: [] })), { fields: ['Priority'] });
+      assert.equal(await reopened.invalidate('fields_layout'), 1);
+      assert.deepEqual(readdirSync(dir), []);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('uses PX TTLs and escaped SCAN patterns with a Redis client', async () => {
+    const store = new Map<string, string>();
+    const calls: string[] = [];
+    const client: RedisCacheClient = {
+      async get(key) { return store.get(key) ?? null; },
+      async set(key, value, mode, ttlMs) { calls.push(`SET ${mode} ${ttlMs}`); store.set(key, value); return 'OK'; },
+      async del(key) { return store.delete(key) ? 1 : 0; },
+      async keys(pattern) {
+        calls.push(`KEYS ${pattern}`);
+        const prefix = pattern.slice(0, -1).replace(/\\(.)/g, '$1');
+        return [...store.keys()].filter(k => k.startsWith(prefix));
+      },
+    };
+    const scoped = new ResponseCache(new RedisCacheBackend(client), TTL).scoped('ns');
+    await scoped.getOrLoad('suites', 'A*B', async () => [1]);
+    assert.equal(await scoped.invalidate('suites', 'A*B'), 1);
+    assert.equal(await scoped.invalidate('suites'), 0);
+    assert.deepEqual(calls, ['SET PX 300000', 'KEYS mcp-zebrunner:cache:ns:suites:*']);
+  });
+
+  it('falls back to the loader when the backend fails', async () => {
+    const failing = new MemoryCacheBackend();
+    failing.get = async () => { throw new Error('down'); };
+    const scoped = new ResponseCache(failing, TTL).scoped('ns');
+    assert.equal(await scoped.getOrLoad('project', 'MCP', async () => 42), 42);
+  });
+});
+
+describe('RESP reply parser', () => {
+  it('parses nested arrays and waits for incomplete replies', () => {
+    const reply = Buffer.from('*2\r\n$1\r\n0\r\n*2\r\n$3\r\nfoo\r\n$-1\r\n');
+    assert.deepEqual(parseReply(reply)?.value, ['0', ['foo', null]]);
+    assert.equal(parseReply(Buffer.from('$5\r\nab')), undefined);
+    assert.equal(parseReply(Buffer.from(':3\r\n'))?.value, 3);
+  });
+
+  it('consumes the whole array when one element is an error', () => {
+    const array = '*3\r\n-ERR first\r\n$3\r\nfoo\r\n-ERR second\r\n';
+    const reply = parseReply(Buffer.from(`${array}:7\r\n`));
+    assert.ok(reply?.value instanceof Error);
+    assert.equal((reply.value as Error).message, 'ERR first');
+    assert.equal(reply.next, Buffer.byteLength(array));
+    assert.equal(parseReply(Buffer.from(`${array}:7\r\n`), reply.next)?.value, 7);
+  });
+
+  it('fails commands that time out or get a malformed reply', async () => {
+    // Answers GET with an invalid reply type and never answers anything else
+    const server: Server = createServer((socket) => {
+      socket.on('data', (data) => { if (data.includes('GET')) socket.write('?oops\r\n'); });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const client = new RespClient(`redis://127.0.0.1:${(server.address() as AddressInfo).port}`, 200);
+    try {
+      await assert.rejects(client.del('k'), /DEL timed out after 200 ms/);
+      await assert.rejects(client.get('k'), /Unexpected RESP reply type '\?'/);
+    } finally {
+      client.close();
+      server.close();
+    }
+  });
+});
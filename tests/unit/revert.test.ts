@@ -0,0 +1,167 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { buildRevertPlan, revertPlanFingerprint } from '../../src/helpers/revert.js';
+import type { AuditEntry } from '../../src/helpers/audit.js';
+
+function entry(overrides: Partial<AuditEntry>): AuditEntry {
+  return {
+    id: 'e1',
+    timestamp: '2026-10-01T10:00:00.000Z',
+    tool: 'update_test_case',
+    method: 'PATCH',
+    url: '/test-cases/key:MCP-1?projectKey=MCP',
+    projectKey: 'MCP',
+    payload: {},
+    target: { type: 'test_case', identifier: 'MCP-1' },
+    before: {},
+    ...overrides,
+  };
+}
+
+describe('revert helper', () => {
+  describe('buildRevertPlan — test cases', () => {
+    it('restores scalar and id/name reference fields from the before-snapshot', () => {
+      const plan = buildRevertPlan(
+        entry({
+          payload: { title: 'New', priority: { name: 'High' }, draft: false },
+          before: { title: 'Old', priority: { id: 3, name: 'Low' }, draft: true },
+        }),
+        { title: 'New', priority: { id: 1, name: 'High' }, draft: false },
+      );
+      assert.equal(plan.method, 'PATCH');
+      assert.deepEqual(plan.payload, { title: 'Old', priority: { id: 3 }, draft: true });
+      assert.deepEqual(plan.conflicts, []);
+      assert.deepEqual(plan.diffs.map(d => d.field).sort(), ['draft', 'priority', 'title']);
+    });
+
+    it('only restores the custom field keys the change touched, clearing new ones', () => {
+      const plan = buildRevertPlan(
+        entry({
+          payload: { customField: { team: 'B', component: 'Cart' } },
+          before: { customField: { team: 'A', other: 'keep' } },
+        }),
+        { customField: { team: 'B', component: 'Cart', other: 'keep' } },
+      );
+      assert.deepEqual(plan.payload, { customField: { team: 'A', component: null } });
+    });
+
+    it('maps steps and attachments back to their write shape', () => {
+      const plan = buildRevertPlan(
+        entry({
+          payload: { steps: [{ action: 'x' }], attachments: [] },
+          before: {
+            steps: [{ id: 11, action: 'a', expectedResult: 'b', attachments: [{ fileUuid: 'u1', name: 'f.png' }] }],
+            attachments: [{ fileUuid: 'u2', name: 'g.png' }],
+          },
+        }),
+        { steps: [{ id: 12, action: 'x' }], attachments: [] },
+      );
+      assert.deepEqual(plan.payload.steps, [{ action: 'a', expectedResult: 'b', attachments: [{ fileUuid: 'u1' }] }]);
+      assert.deepEqual(plan.payload.attachments, [{ fileUuid: 'u2' }]);
+      assert.deepEqual(plan.conflicts, []);
+    });
+
+    it('flags fields modified again after the audited change', () => {
+      const plan = buildRevertPlan(
+        entry({ payload: { title: 'New' }, before: { title: 'Old' } }),
+        { title: 'Newer still' },
+      );
+      assert.deepEqual(plan.conflicts, ['title']);
+    });
+
+    it('restores the automation state set by a confirmed automation scan', () => {
+      const plan = buildRevertPlan(
+        entry({
+          tool: 'scan_automation_repo',
+          payload: { automationState: { name: 'Automated' } },
+          before: { automationState: { id: 1, name: 'Not Automated' } },
+        }),
+        { automationState: { id: 2, name: 'Automated' } },
+      );
+      assert.deepEqual(plan.payload, { automationState: { id: 1 } });
+      assert.deepEqual(plan.conflicts, []);
+    });
+
+    it('skips fields whose before-value cannot be written back', () => {
+      const plan = buildRevertPlan(
+        entry({ payload: { automationState: { name: 'Automated' } }, before: { automationState: null } }),
+        { automationState: { id: 2, name: 'Automated' } },
+      );
+      assert.deepEqual(plan.payload, {});
+      assert.deepEqual(plan.skipped, ['automationState']);
+    });
+  });
+
+  describe('buildRevertPlan — suites and runs', () => {
+    it('builds a full PUT payload for suites', () => {
+      const plan = buildRevertPlan(
+        entry({
+          tool: 'update_test_suite',
+          method: 'PUT',
+          payload: { title: 'Renamed' },
+          target: { type: 'test_suite', identifier: 7 },
+          before: { id: 7, title: 'Original', description: 'desc', parentSuiteId: 3 },
+        }),
+        { id: 7, title: 'Renamed', parentSuiteId: null },
+      );
+      assert.equal(plan.method, 'PUT');
+      assert.deepEqual(plan.payload, { title: 'Original', description: 'desc', parentSuiteId: 3 });
+    });
+
+    it('restores test run milestone, environment and configurations by reference', () => {
+      const plan = buildRevertPlan(
+        entry({
+          tool: 'manage_test_run',
+          payload: { milestone: { name: '2.0' }, environment: { key: 'prod' }, configurations: [] },
+          target: { type: 'test_run', identifier: 5 },
+          before: {
+            milestone: { id: 1, name: '1.0', completed: false },
+            environment: { id: 4, key: 'stage', name: 'Stage' },
+            configurations: [{ group: { id: 1, name: 'OS' }, option: { id: 2, name: 'iOS' } }],
+          },
+        }),
+        { milestone: { id: 9, name: '2.0' }, environment: { id: 5, key: 'prod', name: 'Prod' }, configurations: [] },
+      );
+      assert.deepEqual(plan.payload, {
+        milestone: { id: 1 },
+        environment: { key: 'stage' },
+        configurations: [{ group: { id: 1 }, option: { id: 2 } }],
+      });
+      assert.deepEqual(plan.conflicts, []);
+    });
+  });
+
+  describe('revertPlanFingerprint', () => {
+    const audited = entry({ payload: { title: 'New' }, before: { title: 'Old' } });
+
+    it('is stable while the record and the audit entry stay the same', () => {
+      assert.equal(
+        revertPlanFingerprint(buildRevertPlan(audited, { title: 'New' })),
+        revertPlanFingerprint(buildRevertPlan(audited, { title: 'New' })),
+      );
+    });
+
+    it('changes when the record is modified between preview and confirm', () => {
+      const previewed = revertPlanFingerprint(buildRevertPlan(audited, { title: 'New' }));
+      const confirmed = revertPlanFingerprint(buildRevertPlan(audited, { title: 'Edited again' }));
+      assert.notEqual(confirmed, previewed);
+    });
+
+    it('changes when the audit record itself differs', () => {
+      const previewed = revertPlanFingerprint(buildRevertPlan(audited, { title: 'New' }));
+      const rewritten = entry({ payload: { title: 'New' }, before: { title: 'Older' } });
+      assert.notEqual(revertPlanFingerprint(buildRevertPlan(rewritten, { title: 'New' })), previewed);
+    });
+  });
+
+  describe('buildRevertPlan — rejections', () => {
+    it('rejects entries without a before-snapshot', () => {
+      assert.throws(() => buildRevertPlan(entry({ before: undefined }), {}), /before-snapshot/);
+    });
+
+    it('rejects non-revertable tools and POST entries', () => {
+      assert.throws(() => buildRevertPlan(entry({ tool: 'create_test_case' }), {}), /not revertable/);
+      assert.throws(() => buildRevertPlan(entry({ method: 'POST' }), {}), /POST/);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import {
+  planSuiteClone,
+  renderCloneTree,
+  newSuiteCloneProgress,
+  saveSuiteCloneProgress,
+  loadSuiteCloneProgress,
+  isCloneOwner,
+} from '../../src/helpers/suite-clone.js';
+import { requestContext } from '../../src/http/request-context.js';
+
+describe('suite clone helpers', () => {
+  const suites = [
+    { id: 1, title: 'Regression', parentSuiteId: null, description: 'All' },
+    { id: 2, title: 'Login', parentSuiteId: 1 },
+    { id: 3, title: 'SSO', parentSuiteId: 2 },
+    { id: 4, title: 'Checkout', parentSuiteId: 1 },
+    { id: 5, title: 'Unrelated', parentSuiteId: null },
+  ];
+
+  it('plans the root and descendants parents-first with depths', () => {
+    const plan = planSuiteClone(1, suites);
+    assert.deepEqual(plan.map((n) => [n.sourceId, n.sourceParentId, n.depth]), [
+      [1, null, 0],
+      [2, 1, 1],
+      [3, 2, 2],
+      [4, 1, 1],
+    ]);
+    assert.equal(plan[0].description, 'All');
+    for (const node of plan.slice(1)) {
+      const parentIndex = plan.findIndex((p) => p.sourceId === node.sourceParentId);
+      assert.ok(parentIndex >= 0 && parentIndex < plan.indexOf(node));
+    }
+  });
+
+  it('throws for an unknown root suite', () => {
+    assert.throws(() => planSuiteClone(99, suites), /Suite 99 not found/);
+  });
+
+  it('renders an indented tree with annotations', () => {
+    const text = renderCloneTree(planSuiteClone(2, suites), (n) => ` [${n.sourceId}]`);
+    assert.equal(text, '📁 Login (#2) [2]\n  └─ SSO (#3) [3]');
+  });
+
+  it('persists and reloads progress and run options by clone_id', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clone-test-'));
+    try {
+      const progress = newSuiteCloneProgress({
+        sourceProject: 'MCP', targetProject: 'WEB', sourceRootId: 1, targetParentId: null,
+        includeTestCases: false, asDrafts: false, newRootTitle: 'Login v2',
+      });
+      progress.suiteMap['1'] = 100;
+      progress.caseMap['MCP-1'] = 'WEB-9';
+      saveSuiteCloneProgress(progress, dir);
+
+      const loaded = loadSuiteCloneProgress(progress.cloneId, dir);
+      assert.deepEqual(loaded?.suiteMap, { '1': 100 });
+      assert.equal(loaded?.caseMap['MCP-1'], 'WEB-9');
+      assert.deepEqual([loaded?.includeTestCases, loaded?.asDrafts, loaded?.newRootTitle], [false, false, 'Login v2']);
+      assert.equal(loadSuiteCloneProgress('00000000-0000-0000-0000-000000000000', dir), undefined);
+      assert.equal(loadSuiteCloneProgress('../../etc/passwd', dir), undefined);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('records the HTTP user who started a clone and only lets them resume it', () => {
+    const input = {
+      sourceProject: 'MCP', targetProject: 'MCP', sourceRootId: 1, targetParentId: null,
+      includeTestCases: true, asDrafts: false,
+    };
+    const progress = requestContext.run({ username: 'Alice', token: 't1' }, () => newSuiteCloneProgress(input));
+    assert.equal(progress.owner, 'alice');
+
+    assert.equal(requestContext.run({ username: 'alice', token: 't1' }, () => isCloneOwner(progress)), true);
+    assert.equal(requestContext.run({ username: 'bob', token: 't2' }, () => isCloneOwner(progress)), false);
+    assert.equal(isCloneOwner(progress), true);
+
+    const stdioProgress = newSuiteCloneProgress(input);
+    assert.equal(stdioProgress.owner, undefined);
+    assert.equal(requestContext.run({ username: 'bob', token: 't2' }, () => isCloneOwner(stdioProgress)), false);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import {
+  autoGranularity,
+  buildChangeReport,
+  formatChangeReportMarkdown,
+  type HistoryEntry,
+} from '../../src/utils/testCaseHistory.js';
+
+const from = new Date('2026-09-01T00:00:00.000Z');
+const to = new Date('2026-09-30T23:59:59.999Z');
+
+function entry(timestamp: string, author: string, events: HistoryEntry['events'], changes: HistoryEntry['changes'] = []): HistoryEntry {
+  return { entryId: Date.parse(timestamp), timestamp, author, events, changes };
+}
+
+describe('test case change report', () => {
+  const cases = [
+    { id: 1, key: 'MCP-1', title: 'Login' },
+    { id: 2, key: 'MCP-2', title: 'Logout' },
+  ];
+  const histories: HistoryEntry[][] = [
+    [
+      entry('2026-09-02T10:00:00Z', 'alice', ['became_automated']),
+      entry('2026-09-09T10:00:00Z', 'alice', ['steps_changed'], [
+        { field: 'steps', stepIndex: 2, subField: 'action', oldValue: 'a', newValue: 'b' },
+        { field: 'steps', stepIndex: 1, subField: 'expectedResult', oldValue: 'x', newValue: 'y' },
+      ]),
+      entry('2026-08-20T10:00:00Z', 'carol', ['became_deprecated']),
+    ],
+    [
+      entry('2026-09-09T12:00:00Z', 'bob', ['became_deprecated']),
+      entry('2026-09-10T12:00:00Z', 'bob', []),
+    ],
+  ];
+
+  it('summarises changes per author, per event and per bucket inside the period', () => {
+    const report = buildChangeReport(cases, histories, { from, to, granularity: 'week', stepEditLimit: 10 });
+
+    assert.deepEqual(report.totals, {
+      casesScanned: 2, casesChanged: 2, changeEntries: 4, becameAutomated: 1, becameDeprecated: 1, stepEdits: 1,
+    });
+    assert.deepEqual(report.perAuthor.map(a => [a.author, a.changeEntries, a.cases]), [['alice', 2, 1], ['bob', 2, 1]]);
+    assert.deepEqual(report.perAuthor[0].events, { became_automated: 1, steps_changed: 1 });
+    assert.deepEqual(report.perEvent.map(e => e.event), ['became_automated', 'became_deprecated', 'steps_changed']);
+
+    // Weeks start on Monday; 2026-09-01 is a Tuesday
+    assert.equal(report.timeline[0].bucket, '2026-08-31');
+    assert.deepEqual(report.timeline.find(b => b.bucket === '2026-09-07'), {
+      bucket: '2026-09-07', changeEntries: 3, becameAutomated: 0, becameDeprecated: 1, stepEdits: 1,
+    });
+    assert.deepEqual(report.stepEdits, [{
+      caseKey: 'MCP-1', title: 'Login', timestamp: '2026-09-09T10:00:00Z', author: 'alice', steps: [1, 2], fields: ['steps'],
+    }]);
+  });
+
+  it('fills empty buckets and caps listed step edits without changing totals', () => {
+    const report = buildChangeReport(cases, histories, { from, to, granularity: 'day', stepEditLimit: 0 });
+    assert.equal(report.timeline.length, 30);
+    assert.equal(report.totals.stepEdits, 1);
+    assert.deepEqual(report.stepEdits, []);
+
+    const md = formatChangeReportMarkdown(report, 'MCP');
+    assert.ok(md.includes('| alice | 2 | 1 | became_automated: 1, steps_changed: 1 |'));
+    assert.ok(!md.includes('## Step Edits'));
+  });
+
+  it('keeps the newest step edits across cases when capping', () => {
+    const edit = (timestamp: string) => entry(timestamp, 'dana', ['steps_changed'], [
+      { field: 'steps', stepIndex: 1, subField: 'action', oldValue: 'a', newValue: 'b' },
+    ]);
+    const report = buildChangeReport(
+      [{ id: 1, key: 'MCP-1', title: 'Pay | refund' }, { id: 2, key: 'MCP-2', title: 'Cart' }],
+      [
+        [edit('2026-09-02T10:00:00Z'), edit('2026-09-03T10:00:00Z')],
+        [edit('2026-09-20T10:00:00Z'), edit('2026-09-21T10:00:00Z')],
+      ],
+      { from, to, granularity: 'week', stepEditLimit: 3 },
+    );
+    assert.equal(report.totals.stepEdits, 4);
+    assert.deepEqual(report.stepEdits.map(s => s.timestamp.slice(0, 10)), ['2026-09-21', '2026-09-20', '2026-09-03']);
+
+    const md = formatChangeReportMarkdown(report, 'MCP');
+    assert.ok(md.includes('| MCP-1 | Pay \\| refund | 2026-09-03 | dana | 1 |'));
+  });
+
+  it('picks day, week or month buckets by window length', () => {
+    assert.equal(autoGranularity(from, to), 'day');
+    assert.equal(autoGranularity(new Date('2026-06-01'), to), 'week');
+    assert.equal(autoGranularity(new Date('2025-10-01'), to), 'month');
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { inflateRawSync } from 'node:zlib';
+import {
+  buildExportSections,
+  formatCasesCsv,
+  formatCasesGherkin,
+  formatCasesTestRailXml,
+  formatCasesXlsx,
+  toExportCase,
+} from '../../src/utils/test-case-export.js';
+import { crc32 } from '../../src/utils/xlsx.js';
+import { buildGherkinCases, parseGherkin } from '../../src/utils/gherkin.js';
+import { FormatProcessor } from '../../src/utils/formatter.js';
+import type { FieldsLayout } from '../../src/api/reporting-client.js';
+import type { ZebrunnerTestSuite } from '../../src/types/core.js';
+
+const LAYOUT: FieldsLayout = {
+  tabs: [],
+  fields: [
+    { id: 1, type: 'CUSTOM', tabId: null, relativePosition: 2, name: 'Manual Only', enabled: true, dataType: 'STRING', description: null },
+    { id: 2, type: 'CUSTOM', tabId: null, relativePosition: 1, name: 'Test Type', enabled: true, dataType: 'STRING', description: null },
+  ],
+};
+
+const SUITES = [
+  { id: 10, title: 'Web', parentSuiteId: null },
+  { id: 11, title: 'Checkout', parentSuiteId: 10 },
+] as unknown as ZebrunnerTestSuite[];
+
+const displayMap = FormatProcessor.buildCustomFieldDisplayMap(LAYOUT);
+
+const CASES = [
+  toExportCase({
+    key: 'MCP-1',
+    title: 'Open home page',
+    testSuite: { id: 10 },
+    priority: { name: 'High' },
+    automationState: { name: 'Automated' },
+    description: 'Smoke check',
+    steps: [{ action: 'Open /', expectedResult: 'Home page is shown' }],
+    customField: { manualOnly: 'No', testType: 'Smoke' },
+  }, 'Web', displayMap),
+  toExportCase({
+    key: 'MCP-2',
+    title: 'Pay, "fast"',
+    testSuite: { id: 11 },
+    priority: { name: 'Medium' },
+    automationState: { name: 'Not Automated' },
+    preConditions: 'Cart has 2 items',
+    steps: [
+      { action: 'Pay with card\n| number | cvv |\n| --- | --- |\n| 4111 | 123 |', expectedResult: 'Order is confirmed\nEmail is sent' },
+      { sharedStepsId: 7 },
+    ],
+    customField: { unknownField: ['a', 'b'] },
+  }, 'Web > Checkout', displayMap),
+];
+
+/** Entries of a ZIP archive, read through the central directory and re-inflated. */
+function unzip(buffer: Buffer): Map<string, string> {
+  const end = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = buffer.readUInt16LE(end + 10);
+  let pos = buffer.readUInt32LE(end + 16);
+  const entries = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    assert.equal(buffer.readUInt32LE(pos), 0x02014b50);
+    const crc = buffer.readUInt32LE(pos + 16);
+    const size = buffer.readUInt32LE(pos + 20);
+    const nameLength = buffer.readUInt16LE(pos + 28);
+    const name = buffer.toString('utf-8', pos + 46, pos + 46 + nameLength);
+    const local = buffer.readUInt32LE(pos + 42);
+    const dataStart = local + 30 + buffer.readUInt16LE(local + 26) + buffer.readUInt16LE(local + 28);
+    const data = inflateRawSync(buffer.subarray(dataStart, dataStart + size));
+    assert.equal(crc32(data), crc, `CRC of ${name}`);
+    entries.set(name, data.toString('utf-8'));
+    pos += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('test case export', () => {
+  it('normalises cases with custom field display names in layout order', () => {
+    const [first, second] = CASES;
+    assert.deepEqual(first.customFields, [
+      { name: 'Test Type', value: 'Smoke' },
+      { name: 'Manual Only', value: 'No' },
+    ]);
+    assert.equal(first.suiteId, 10);
+    assert.equal(first.priority, 'High');
+    assert.deepEqual(second.customFields, [{ name: 'unknownField', value: 'a, b' }]);
+    assert.equal(second.steps[1].action, '[Shared steps #7]');
+  });
+
+  it('writes CSV rows with numbered steps and custom field columns', () => {
+    const csv = formatCasesCsv(CASES);
+    const header = csv.split(/\r?\n/)[0];
+    assert.equal(header, 'Key,Title,Suite,Priority,Automation State,Draft,Deprecated,Description,Preconditions,Postconditions,Steps,Expected Results,Test Type,Manual Only,unknownField');
+    assert.ok(csv.includes('"Pay, ""fast"""'));
+    assert.ok(csv.includes('"1. Pay with card'));
+    assert.ok(csv.includes('2. [Shared steps #7]'));
+  });
+
+  it('builds a valid XLSX archive with a cases sheet and a steps sheet', () => {
+    const entries = unzip(formatCasesXlsx(CASES));
+    assert.ok(entries.has('[Content_Types].xml'));
+    assert.match(entries.get('xl/workbook.xml')!, /<sheet name="Test Cases".*<sheet name="Steps"/);
+    const cases = entries.get('xl/worksheets/sheet1.xml')!;
+    assert.ok(cases.includes('<t xml:space="preserve">Pay, &quot;fast&quot;</t>'));
+    assert.ok(cases.includes('<row r="3">'));
+    const steps = entries.get('xl/worksheets/sheet2.xml')!;
+    assert.ok(steps.includes('<c r="C3" s="2"><v>1</v></c>'));
+    assert.ok(steps.includes('[Shared steps #7]'));
+  });
+
+  it('renders one feature file per suite with the case key on each scenario', () => {
+    const files = formatCasesGherkin(CASES);
+    assert.deepEqual(files.map(f => f.name), ['web.feature', 'web_checkout.feature']);
+
+    const checkout = files[1].content.toString();
+    assert.ok(checkout.includes('  @MCP-2 @priority:Medium @automation:Not_Automated'));
+    assert.ok(checkout.includes('    Given Cart has 2 items'));
+    assert.ok(checkout.includes('      | 4111 | 123 |'));
+    assert.ok(!checkout.includes('---'));
+
+    const [reimported] = buildGherkinCases(parseGherkin(checkout, files[1].name), 'MCP', 'parameterize');
+    assert.equal(reimported.key, 'MCP-2');
+    assert.equal(reimported.title, 'Pay, "fast"');
+    assert.deepEqual(reimported.tags, ['priority:Medium', 'automation:Not_Automated']);
+    assert.equal(reimported.steps[0].expectedResult, 'Then Order is confirmed\nAnd Email is sent');
+  });
+
+  it('escapes description lines that would parse as Gherkin structure', () => {
+    const [exported] = formatCasesGherkin([toExportCase({
+      key: 'MCP-3',
+      title: 'Happy path',
+      testSuite: { id: 10 },
+      description: 'Scenario: covers the happy path\n* runs nightly\nWhen in doubt, ask QA\n@owner\nPlain line',
+      steps: [{ action: 'Open /', expectedResult: 'Home page is shown' }],
+    }, 'Web', displayMap)]);
+
+    const content = exported.content.toString();
+    assert.ok(content.includes('    \\Scenario: covers the happy path'));
+    assert.ok(content.includes('    Plain line'));
+
+    const feature = parseGherkin(content, exported.name);
+    assert.equal(feature.scenarios.length, 1);
+    const [scenario] = feature.scenarios;
+    assert.deepEqual(scenario.description.split('\n'), [
+      '\\Scenario: covers the happy path', '\\* runs nightly', '\\When in doubt, ask QA', '\\@owner', 'Plain line',
+    ]);
+    assert.deepEqual(scenario.steps.map(st => st.text), ['Open /', 'Home page is shown']);
+  });
+
+  it('nests sub-suites as TestRail sections', () => {
+    const xml = formatCasesTestRailXml(buildExportSections(10, SUITES, CASES), 'MCP — Web');
+    assert.match(xml, /<suite>\n  <name>MCP — Web<\/name>/);
+    assert.match(xml, /<name>Web<\/name>[\s\S]*<references>MCP-1<\/references>[\s\S]*<sections>[\s\S]*<name>Checkout<\/name>[\s\S]*<references>MCP-2<\/references>/);
+    assert.ok(xml.includes('<test_type>Smoke</test_type>'));
+    assert.ok(xml.includes('<expected>Order is confirmed\nEmail is sent</expected>'));
+    assert.ok(xml.includes('<preconds>Cart has 2 items</preconds>'));
+  });
+});
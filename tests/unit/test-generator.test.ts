@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { RulesParser } from '../../src/utils/rules-parser.js';
+import { TestGenerator, type TestGenerationOptions } from '../../src/utils/test-generator.js';
+
+const testCase = {
+  id: 1,
+  key: 'MCP-1',
+  title: 'Login with valid credentials',
+  testSuite: { id: 10, name: 'Login' },
+  steps: [
+    { id: 1, action: 'Open the "Login" page', expectedResult: 'The "Login" page is displayed' },
+    { id: 2, action: 'Enter "Email Address" value', expectedResult: '' },
+    { id: 3, action: 'Click "Sign In" button', expectedResult: 'The "Dashboard" text is visible' },
+  ],
+} as any;
+
+const apiCase = {
+  id: 2,
+  key: 'API-7',
+  title: 'Create user',
+  testSuite: { id: 20, name: 'Users API' },
+  steps: [
+    { id: 1, action: 'Send POST /users with a valid body', expectedResult: 'Response status code is 201' },
+    { id: 2, action: 'Send GET /users/me', expectedResult: 'Response contains "email"' },
+  ],
+} as any;
+
+const options: TestGenerationOptions = {
+  outputFormat: 'code',
+  includeSetupTeardown: true,
+  includeAssertionTemplates: true,
+  generatePageObjects: true,
+  includeDataProviders: true,
+};
+
+describe('framework detection', () => {
+  const parser = RulesParser.getInstance();
+
+  it('picks the framework from code, imports and file names', async () => {
+    const cases: Array<[string, string]> = [
+      ["import { test, expect } from '@playwright/test'; await page.goto('/'); tests/e2e/login.spec.ts", 'typescript-playwright'],
+      ["cypress/e2e/login.cy.ts: cy.visit('/'); cy.get('[data-cy=x]').click()", 'javascript-cypress'],
+      ['tests/api/test_users.py with @pytest.fixture and httpx client in conftest.py', 'python-pytest'],
+      ["wdio.conf.ts with appium service; import { $ } from '@wdio/globals'", 'javascript-webdriverio'],
+      ['public class LoginTest extends AbstractTest { @Test public void login() {} }', 'java-carina'],
+    ];
+    for (const [context, expected] of cases) {
+      assert.equal((await parser.detectFramework(context))?.name, expected, context);
+    }
+  });
+
+  it('does not count keywords inside other words', async () => {
+    // "it" and "expect" inside prose words used to favour Jest
+    assert.equal(await parser.detectFramework('Submitting items with unexpected results'), null);
+  });
+});
+
+describe('TestGenerator', () => {
+  const generator = new TestGenerator();
+
+  it('generates Playwright tests with role/label locators and a page object', async () => {
+    const result = await generator.generateTest(testCase, 'playwright project', options);
+    assert.equal(result.framework, 'typescript-playwright');
+    assert.equal(result.language, 'typescript');
+    assert.ok(result.testCode.includes("test('Login with valid credentials', async ({ page }) => {\n    const loginPage = new LoginPage(page);"));
+    assert.ok(result.testCode.includes('    await loginPage.signIn.click();'));
+    assert.ok(result.testCode.includes("await expect(page).toHaveURL(/login/);"));
+    assert.ok(result.testCode.includes('await loginPage.emailAddress.fill(testData.emailAddress);'));
+    assert.ok(result.testCode.includes('await expect(loginPage.dashboard).toBeVisible();'));
+    assert.ok(!result.testCode.includes('{{'));
+    assert.ok(result.pageObjectCode?.includes("this.signIn = page.getByRole('button', { name: 'Sign In' });"));
+    assert.ok(result.dataProviderCode?.startsWith("export const testData = {\n  emailAddress: '',"));
+    assert.ok(result.imports.includes("import { LoginPage } from './pages/LoginPage';"));
+  });
+
+  it('uses inline locators when no page object is generated', async () => {
+    const result = await generator.generateTest(testCase, 'playwright project', { ...options, generatePageObjects: false });
+    assert.ok(!result.testCode.includes('new LoginPage'));
+    assert.ok(result.testCode.includes("await page.getByRole('button', { name: 'Sign In' }).click();"));
+    assert.ok(result.testCode.includes("await page.getByLabel('Email Address').fill(testData.emailAddress);"));
+  });
+
+  it('uses placeholder values when there is no data provider', async () => {
+    const playwright = await generator.generateTest(testCase, 'playwright project', { ...options, includeDataProviders: false });
+    assert.ok(playwright.testCode.includes("await loginPage.emailAddress.fill('TODO: Email Address');"));
+    const cypress = await generator.generateTest(testCase, 'x', { ...options, framework: 'javascript-cypress', includeDataProviders: false });
+    assert.ok(!cypress.testCode.includes('testData'));
+    assert.ok(!cypress.testCode.includes('cy.fixture'));
+  });
+
+  it('names page objects in PascalCase for every framework', async () => {
+    const suiteCase = { ...testCase, testSuite: { id: 11, name: 'User settings' } };
+    for (const framework of ['java-carina', 'javascript-jest', 'typescript-playwright']) {
+      const result = await generator.generateTest(suiteCase, 'x', { ...options, framework });
+      assert.ok(result.pageObjectCode?.includes('class UserSettingsPage'), framework);
+    }
+  });
+
+  it('generates Cypress, WebdriverIO (Appium) and pytest code', async () => {
+    const cypress = await generator.generateTest(testCase, 'x', { ...options, framework: 'javascript-cypress' });
+    assert.ok(cypress.testCode.includes("  it('Login with valid credentials', () => {\n    cy.fixture('login').then((testData) => {\n      // Step 1:"));
+    assert.ok(cypress.testCode.includes('      loginPage.emailAddress.clear().type(testData.emailAddress);'));
+    assert.ok(cypress.testCode.includes('      loginPage.signIn.click();'));
+    assert.ok(cypress.testCode.includes("cy.location('pathname').should('include', '/login');"));
+    assert.ok(cypress.testCode.includes('    });\n  });\n});'));
+    assert.deepEqual(JSON.parse(cypress.dataProviderCode!), { emailAddress: '' });
+
+    const wdio = await generator.generateTest(testCase, 'appium android app', { ...options, framework: 'javascript-webdriverio' });
+    assert.ok(wdio.testCode.includes('await loginScreen.signIn.click();'));
+    assert.ok(wdio.testCode.includes('await loginScreen.emailAddress.setValue(testData.emailAddress);'));
+    assert.ok(wdio.dataProviderCode?.startsWith("export const testData = {\n    emailAddress: '',"));
+    assert.ok(wdio.testCode.includes("await driver.activateApp(process.env.APP_ID);"));
+    assert.ok(wdio.pageObjectCode?.includes('class LoginScreen {'));
+
+    const pytest = await generator.generateTest(apiCase, 'x', { ...options, framework: 'python-pytest' });
+    assert.equal(pytest.language, 'python');
+    assert.ok(pytest.testCode.startsWith('class TestUsersAPI:\n    def test_create_user(self, api_client):'));
+    assert.ok(pytest.testCode.includes('        response = api_client.post("/users", json=payload)'));
+    assert.ok(pytest.testCode.includes('assert response.status_code == 201, response.text'));
+    assert.ok(pytest.testCode.includes('assert "email" in response.text'));
+    assert.ok(pytest.pageObjectCode?.includes('def post_users(self, payload: dict) -> httpx.Response:'));
+    assert.ok(pytest.setupCode?.includes('@pytest.fixture'));
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import {
+  detectWorkspaceLayout,
+  pageObjectImportFor,
+  planFingerprint,
+  planWorkspaceFiles,
+  resolveWorkspaceRoot,
+  scanWorkspace,
+  unifiedDiff,
+  writePlannedFiles,
+} from '../../src/utils/test-workspace.js';
+import type { GeneratedTest } from '../../src/utils/test-generator.js';
+
+function workspace(files: Record<string, string>): string {
+  const root = mkdtempSync(join(tmpdir(), 'zeb-workspace-'));
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(root, path)), { recursive: true });
+    writeFileSync(join(root, path), content);
+  }
+  return root;
+}
+
+function generated(overrides: Partial<GeneratedTest>): GeneratedTest {
+  return { framework: 'x', language: 'x', testCode: '', imports: [], recommendations: [], qualityScore: 0, ...overrides };
+}
+
+describe('test workspace', () => {
+  it('puts Playwright tests where most specs live and imports page objects relatively', () => {
+    const root = workspace({
+      'e2e/specs/login.spec.ts': '',
+      'e2e/specs/cart.spec.ts': '',
+      'e2e/smoke/home.spec.ts': '',
+      'e2e/pages/HomePage.ts': '',
+      'node_modules/pkg/ignored.spec.ts': '',
+    });
+    try {
+      const { files } = scanWorkspace(root, 100);
+      assert.ok(!files.some(f => f.startsWith('node_modules')));
+
+      const layout = detectWorkspaceLayout(root, 'playwright', files);
+      assert.equal(layout.testDir, 'e2e/specs');
+      assert.equal(layout.pageObjectDir, 'e2e/pages');
+      assert.equal(layout.extension, 'ts');
+      assert.equal(layout.source, 'existing_tests');
+      assert.equal(layout.existingTests, 3);
+      assert.equal(pageObjectImportFor(layout, 'LoginPage'), '../pages/LoginPage');
+
+      const plan = planWorkspaceFiles(layout, generated({
+        imports: ["import { test } from '@playwright/test';"],
+        testCode: "test('Login', async ({ page }) => {});",
+        pageObjectCode: 'export class HomePage {}',
+      }), 'Login with valid credentials', 'HomePage');
+
+      assert.deepEqual(plan.files.map(f => [f.path, f.kind, f.action]), [
+        ['e2e/specs/login-with-valid-credentials.spec.ts', 'test', 'create'],
+        ['e2e/pages/HomePage.ts', 'page_object', 'keep'],
+      ]);
+      assert.deepEqual(writePlannedFiles(root, plan.files), ['e2e/specs/login-with-valid-credentials.spec.ts']);
+      assert.equal(readFileSync(join(root, 'e2e/pages/HomePage.ts'), 'utf-8'), '');
+
+      // Same content again is unchanged; different content needs an overwrite
+      const again = planWorkspaceFiles(layout, generated({
+        imports: ["import { test } from '@playwright/test';"],
+        testCode: "test('Login', async ({ page }) => {});",
+      }), 'Login with valid credentials');
+      assert.equal(again.files[0].action, 'unchanged');
+      const changed = planWorkspaceFiles(layout, generated({ testCode: "test('Login v2', async () => {});" }), 'Login with valid credentials');
+      assert.equal(changed.files[0].action, 'overwrite');
+
+      // The fingerprint pins a preview: same plan, same value; other content, other value
+      const replan = planWorkspaceFiles(layout, generated({ testCode: "test('Login v2', async () => {});" }), 'Login with valid credentials');
+      assert.equal(planFingerprint(replan.files), planFingerprint(changed.files));
+      assert.notEqual(planFingerprint(again.files), planFingerprint(changed.files));
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('derives the Java package and wraps the Carina method in a test class', () => {
+    const root = workspace({
+      'src/test/java/com/acme/tests/LoginTest.java': '',
+      'src/main/java/com/acme/gui/pages/HomePage.java': '',
+    });
+    try {
+      const layout = detectWorkspaceLayout(root, 'java', scanWorkspace(root, 100).files);
+      assert.equal(layout.javaPackage, 'com.acme.tests');
+      assert.equal(pageObjectImportFor(layout, 'LoginPage'), 'com.acme.gui.pages.LoginPage');
+
+      const plan = planWorkspaceFiles(layout, generated({
+        imports: ['import org.testng.annotations.Test;'],
+        testCode: '@TestCaseKey("MCP-1")\n@Test\npublic void testLogin() {\n}',
+        pageObjectCode: 'public class LoginPage extends AbstractPage {\n}',
+      }), 'Checkout flow', 'LoginPage');
+      assert.equal(plan.files[0].path, 'src/test/java/com/acme/tests/CheckoutFlowTest.java');
+      assert.ok(plan.files[0].content.startsWith('package com.acme.tests;\n\nimport org.testng.annotations.Test;\n\npublic class CheckoutFlowTest extends AbstractTest {\n\n    @TestCaseKey("MCP-1")\n'));
+      assert.equal(plan.files[1].path, 'src/main/java/com/acme/gui/pages/LoginPage.java');
+      assert.ok(plan.files[1].content.startsWith('package com.acme.gui.pages;\n'));
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('falls back to framework defaults and adds a pytest conftest only when none exists', () => {
+    const root = workspace({ 'README.md': '' });
+    try {
+      const layout = detectWorkspaceLayout(root, 'pytest', scanWorkspace(root, 100).files);
+      assert.equal(layout.testDir, 'tests');
+      assert.equal(layout.source, 'defaults');
+      assert.equal(pageObjectImportFor(layout, 'UsersApi'), 'tests.clients.users_api');
+
+      const test = generated({ testCode: 'class TestUsers:\n    pass', setupCode: '# conftest.py\n@pytest.fixture\ndef api_client():\n    yield None' });
+      const plan = planWorkspaceFiles(layout, test, 'Create user');
+      assert.deepEqual(plan.files.map(f => f.path), ['tests/test_create_user.py', 'tests/conftest.py']);
+      assert.ok(plan.files[1].content.includes('def api_client():'));
+
+      writeFileSync(join(root, 'conftest.py'), 'import pytest\n');
+      const withConftest = planWorkspaceFiles(layout, test, 'Create user');
+      assert.deepEqual(withConftest.files.map(f => f.path), ['tests/test_create_user.py']);
+      assert.equal(withConftest.notes.length, 1);
+
+      assert.throws(() => detectWorkspaceLayout(root, 'pytest', [], '../outside'), /path traversal/);
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('requires a configured root that exists', () => {
+    const saved = process.env.ZEBRUNNER_WORKSPACE_ROOT;
+    delete process.env.ZEBRUNNER_WORKSPACE_ROOT;
+    try {
+      assert.throws(() => resolveWorkspaceRoot({ maxScanFiles: 10 }), /No workspace root configured/);
+      assert.throws(() => resolveWorkspaceRoot({ root: join(tmpdir(), 'zeb-missing-workspace'), maxScanFiles: 10 }), /is not a directory/);
+      process.env.ZEBRUNNER_WORKSPACE_ROOT = tmpdir();
+      assert.equal(resolveWorkspaceRoot({ root: '/nowhere', maxScanFiles: 10 }), tmpdir());
+    } finally {
+      if (saved === undefined) delete process.env.ZEBRUNNER_WORKSPACE_ROOT;
+      else process.env.ZEBRUNNER_WORKSPACE_ROOT = saved;
+    }
+  });
+
+  it('renders unified diffs with context hunks', () => {
+    assert.equal(unifiedDiff('a.ts', null, 'one\ntwo\n'), '--- /dev/null\n+++ b/a.ts\n@@ -0,0 +1,2 @@\n+one\n+two');
+    assert.equal(unifiedDiff('a.ts', 'same\n', 'same\n'), '');
+
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const after = [...before];
+    after[1] = 'changed 2';
+    after[17] = 'changed 18';
+    const diff = unifiedDiff('a.ts', before.join('\n'), after.join('\n')).split('\n');
+    assert.deepEqual(diff.filter(l => l.startsWith('@@')), ['@@ -1,5 +1,5 @@', '@@ -15,6 +15,6 @@']);
+    assert.ok(diff.includes('-line 2') && diff.includes('+changed 2'));
+  });
+});
@@ -50,6 +50,27 @@ describe("ToolMetrics", () => {
     });
   });
 
+  describe("recordRateLimited()", () => {
+    it("should count rejected calls apart from handled calls", () => {
+      metrics.record("find_flaky_tests", 100, 500, false);
+      metrics.recordRateLimited("find_flaky_tests");
+      metrics.recordRateLimited("get_all_tcm_test_cases_by_project");
+      metrics.record("get_all_tcm_test_cases_by_project", 300, 900, false);
+
+      const stats = metrics.getStats().get("find_flaky_tests")!;
+      assert.equal(stats.callCount, 1);
+      assert.equal(stats.errorCount, 0);
+      assert.equal(stats.minDurationMs, 100);
+      assert.equal(stats.rateLimitedCount, 1);
+      const bulk = metrics.getStats().get("get_all_tcm_test_cases_by_project")!;
+      assert.equal(bulk.rateLimitedCount, 1);
+      assert.deepEqual([bulk.callCount, bulk.minDurationMs, bulk.avgDurationMs], [1, 300, 300]);
+      const md = metrics.getSummaryMarkdown();
+      assert.ok(md.includes("**Total calls:** 2"));
+      assert.ok(md.includes("**Rate limited:** 2"));
+    });
+  });
+
   describe("getSummaryMarkdown()", () => {
     it("should return empty message when no calls recorded", () => {
       const md = metrics.getSummaryMarkdown();
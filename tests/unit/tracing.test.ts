@@ -0,0 +1,60 @@
+import { describe, it, before } from 'node:test';
+import { strict as assert } from 'node:assert';
+import axios from 'axios';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { InMemorySpanExporter, NodeTracerProvider, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-node';
+import { isTracingConfigured, traceAxios } from '../../src/utils/tracing.js';
+import { ToolMetrics, wrapToolHandler } from '../../src/utils/tool-metrics.js';
+
+describe('tracing', () => {
+  const exporter = new InMemorySpanExporter();
+
+  before(() => {
+    new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }).register();
+  });
+
+  it('is enabled only by OTLP settings', () => {
+    assert.equal(isTracingConfigured({}), false);
+    assert.equal(isTracingConfigured({ OTEL_EXPORTER_OTLP_ENDPOINT: 'http://localhost:4318' }), true);
+    assert.equal(isTracingConfigured({ OTEL_TRACES_EXPORTER: 'otlp' }), true);
+    assert.equal(isTracingConfigured({ OTEL_EXPORTER_OTLP_ENDPOINT: 'http://localhost:4318', OTEL_SDK_DISABLED: 'true' }), false);
+    assert.equal(isTracingConfigured({ OTEL_EXPORTER_OTLP_ENDPOINT: 'http://localhost:4318', OTEL_TRACES_EXPORTER: 'none' }), false);
+  });
+
+  it('nests upstream request spans under the tool span and returns the trace ID', async () => {
+    exporter.reset();
+    const http = axios.create();
+    http.defaults.adapter = async (config) => {
+      const response = { data: {}, status: config.url?.includes('missing') ? 404 : 200, statusText: '', headers: {}, config };
+      if (response.status >= 400) throw new axios.AxiosError('not found', 'ERR_BAD_REQUEST', config, undefined, response);
+      return response;
+    };
+    traceAxios(http, 'reporting');
+
+    const handler = wrapToolHandler('get_launch', async () => {
+      await http.get('/api/reporting/v1/launches/42');
+      await http.get('/api/reporting/v1/missing').catch(() => undefined);
+      return { content: [{ type: 'text', text: 'ok' }] };
+    }, new ToolMetrics());
+    const result: any = await handler();
+
+    const spans = exporter.getFinishedSpans();
+    const tool = spans.find(s => s.name === 'tool get_launch');
+    const ok = spans.find(s => s.name === 'GET /api/reporting/v1/launches/:id');
+    const failed = spans.find(s => s.name === 'GET /api/reporting/v1/missing');
+    assert.ok(tool && ok && failed);
+    assert.equal(result._meta.traceId, tool.spanContext().traceId);
+    assert.equal(ok.parentSpanContext?.spanId, tool.spanContext().spanId);
+    assert.equal(ok.attributes['http.response.status_code'], 200);
+    assert.equal(failed.attributes['http.response.status_code'], 404);
+    assert.equal(failed.status.code, SpanStatusCode.ERROR);
+  });
+
+  it('marks tool spans with isError results as errors', async () => {
+    exporter.reset();
+    const handler = wrapToolHandler('broken', async () => ({ content: [{ type: 'text', text: '❌ nope' }], isError: true }), new ToolMetrics());
+    await handler();
+    const [span] = exporter.getFinishedSpans();
+    assert.equal(span.status.code, SpanStatusCode.ERROR);
+  });
+});
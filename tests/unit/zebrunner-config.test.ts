@@ -42,4 +42,55 @@ describe("zebrunner-config relaunchFailures + localeTestRunRules", () => {
       reloadConfig();
     }
   });
+
+  it("merges failureClassification packs and activates them by default", () => {
+    const prev = process.env.ZEBRUNNER_CONFIG_JSON;
+    process.env.ZEBRUNNER_CONFIG_JSON = JSON.stringify({
+      failureClassification: {
+        packs: {
+          appium: [{ id: "uia2-crash", category: "Driver Crash", pattern: "instrumentation process", weight: 50 }],
+        },
+        confidenceThresholds: { high: 40 },
+        projects: { MCP: { disabledRules: ["timing-timeout"] } },
+      },
+    });
+    try {
+      reloadConfig();
+      const cfg = getConfig().failureClassification;
+      assert.deepEqual(cfg.activePacks, ["default", "appium"]);
+      assert.equal(cfg.packs.appium[0].id, "uia2-crash");
+      assert.deepEqual(cfg.confidenceThresholds, { high: 40, medium: 15 });
+      assert.deepEqual(cfg.projects.MCP.disabledRules, ["timing-timeout"]);
+    } finally {
+      if (prev === undefined) delete process.env.ZEBRUNNER_CONFIG_JSON;
+      else process.env.ZEBRUNNER_CONFIG_JSON = prev;
+      reloadConfig();
+    }
+  });
+
+  it("merges rateLimits overrides onto the defaults", () => {
+    const prev = process.env.ZEBRUNNER_CONFIG_JSON;
+    process.env.ZEBRUNNER_CONFIG_JSON = JSON.stringify({
+      rateLimits: {
+        perUser: { capacity: 50 },
+        classes: { video: { capacity: 1, refillPerMinute: 0.5 } },
+        toolClasses: { get_test_case_by_key: "heavy_analytics", find_flaky_tests: "default" },
+      },
+    });
+    try {
+      reloadConfig();
+      const cfg = getConfig().rateLimits;
+      assert.equal(cfg.enabled, false);
+      assert.deepEqual(cfg.perUser, { capacity: 50, refillPerMinute: 60 });
+      assert.deepEqual(cfg.classes.video, { capacity: 1, refillPerMinute: 0.5 });
+      assert.equal(cfg.classes.mutation.capacity, 30);
+      assert.equal(cfg.toolClasses.get_test_case_by_key, "heavy_analytics");
+      assert.equal(cfg.toolClasses.find_flaky_tests, "default");
+      assert.equal(cfg.toolClasses.get_all_tcm_test_cases_by_project, "heavy_analytics");
+    } finally {
+      if (prev === undefined) delete process.env.ZEBRUNNER_CONFIG_JSON;
+      else process.env.ZEBRUNNER_CONFIG_JSON = prev;
+      reloadConfig();
+    }
+  });
 });